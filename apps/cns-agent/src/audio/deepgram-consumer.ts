@@ -2,29 +2,40 @@
  * Deepgram Consumer - AssistMD Truth Package
  * 
  * Real-time transcription with speaker diarization using ChunkAssembler.
- * Connects to Deepgram nova-2-medical streaming API.
+ * Connects to Deepgram nova-2-medical streaming API through
+ * DeepgramReconnector, so connection drops are bridged without losing audio.
  * 
  * Audio format: PCM 16kHz mono linear16
  * Diarization: Up to 50 speakers (0-49)
+ *
+ * Set DEEPGRAM_CAPTURE_DIR to record every raw result message to a JSONL
+ * file that ReplayConsumer can play back later.
  */
 
-import { createClient, LiveTranscriptionEvents, LiveClient } from '@deepgram/sdk';
 import { ChunkAssembler } from './chunk-assembler.js';
-import { WordResult, TranscriptEvent, TranscriptChunk } from '../types/index.js';
+import { DeepgramReconnector, ReconnectGap } from './deepgram-reconnect.js';
+import { ReplayCapture } from './replay-fixture.js';
+import {
+  WordResult,
+  TranscriptEvent,
+  TranscriptionProvider,
+  TranscriptionProviderConfig,
+  TranscriptionProviderName
+} from '../types/index.js';
 
-export interface DeepgramConsumerConfig {
-  onTranscript: (event: TranscriptEvent) => void;
-  onChunk: (chunk: TranscriptChunk) => void;
-  onError: (error: Error) => void;
-  onClose: () => void;
-}
+export type DeepgramConsumerConfig = TranscriptionProviderConfig;
+
+// How long disconnect() waits for Deepgram to send the last results
+const DISCONNECT_TIMEOUT_MS = 5000;
 
-export class DeepgramConsumer {
-  private client: ReturnType<typeof createClient> | null = null;
-  private connection: LiveClient | null = null;
-  private config: DeepgramConsumerConfig;
-  private chunkAssembler: ChunkAssembler;
-  private isConnected = false;
+export class DeepgramConsumer implements TranscriptionProvider {
+  readonly name: TranscriptionProviderName = 'deepgram';
+
+  private reconnector: DeepgramReconnector | null = null;
+  private capture: ReplayCapture | null = null;
+  protected config: DeepgramConsumerConfig;
+  protected chunkAssembler: ChunkAssembler;
+  protected isConnected = false;
 
   constructor(config: DeepgramConsumerConfig) {
     this.config = config;
@@ -46,87 +57,151 @@ export class DeepgramConsumer {
     }
 
     console.log('[Deepgram] Connecting to streaming API...');
-    this.client = createClient(apiKey);
-
-    this.connection = this.client.listen.live({
-      model: 'nova-2-medical', // Medical model for better clinical terminology
-      language: 'en-US',
-      smart_format: true,
-      punctuate: true,
-      diarize: true, // Enable speaker diarization
-      interim_results: true,
-      utterance_end_ms: 1000,
-      vad_events: true,
-      encoding: 'linear16',
-      sample_rate: 16000,
-      channels: 1
+
+    // Audio goes through the reconnector: outages are buffered (spilled to
+    // disk if long), replayed on reconnect and rebased onto one timeline
+    const reconnector = new DeepgramReconnector(apiKey, {
+      liveOptions: {
+        model: 'nova-2-medical', // Medical model for better clinical terminology
+        language: 'en-US',
+        smart_format: true,
+        punctuate: true,
+        diarize: true, // Enable speaker diarization
+        interim_results: true,
+        utterance_end_ms: 1000,
+        vad_events: true,
+        encoding: 'linear16',
+        sample_rate: 16000,
+        channels: 1
+      }
     });
+    this.reconnector = reconnector;
 
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        if (!this.isConnected) {
-          reject(new Error('Deepgram connection timeout (10s)'));
-        }
-      }, 10000);
+    reconnector.on('transcript', (data: any) => {
+      this.capture?.write(data);
+      this.handleTranscript(data);
+    });
 
-      this.connection!.on(LiveTranscriptionEvents.Open, () => {
-        clearTimeout(timeout);
-        this.isConnected = true;
-        console.log('[Deepgram] Connected to nova-2-medical model');
-        resolve();
-      });
+    reconnector.on('utterance_end', (data: any) => {
+      this.capture?.write(data);
+      this.handleUtteranceEnd();
+    });
 
-      this.connection!.on(LiveTranscriptionEvents.Error, (error: Error) => {
-        clearTimeout(timeout);
-        console.error('[Deepgram] Error:', error);
-        this.config.onError(error);
-        if (!this.isConnected) reject(error);
-      });
+    reconnector.on('error', (error: Error) => {
+      console.error('[Deepgram] Error:', error);
+    });
 
-      this.connection!.on(LiveTranscriptionEvents.Transcript, (data: any) => {
-        this.handleTranscript(data);
-      });
+    reconnector.on('stream_error', (error: Error) => {
+      console.warn('[Deepgram] Stream error, reconnecting:', error);
+    });
 
-      this.connection!.on(LiveTranscriptionEvents.UtteranceEnd, () => {
-        console.log('[Deepgram] Utterance end - flushing chunk');
-        this.chunkAssembler.forceFlush();
-      });
+    reconnector.on('reconnect:scheduled', (info: { attempt: number; delay: number; maxRetries: number }) => {
+      console.warn(`[Deepgram] Reconnect ${info.attempt}/${info.maxRetries} in ${info.delay}ms`);
+    });
 
-      this.connection!.on(LiveTranscriptionEvents.Close, () => {
-        console.log('[Deepgram] Connection closed');
-        this.isConnected = false;
-        this.chunkAssembler.forceFlush();
-        this.config.onClose();
-      });
+    reconnector.on('reconnect:success', () => {
+      console.log('[Deepgram] Reconnected to nova-2-medical model');
+    });
+
+    reconnector.on('gap', (gap: ReconnectGap) => {
+      console.log(
+        `[Deepgram] Gap ${gap.start.toFixed(1)}s-${gap.end.toFixed(1)}s: ` +
+        `${gap.bufferedSeconds.toFixed(1)}s replayed, ${gap.droppedSeconds.toFixed(1)}s dropped`
+      );
+      this.config.onGap?.(gap);
+    });
+
+    reconnector.on('reconnect:failed', (info: { attempts: number; lastError: string | null }) => {
+      this.reconnector = null;
+      reconnector.destroy();
+      this.config.onError(
+        new Error(`Deepgram reconnect failed after ${info.attempts} attempts: ${info.lastError}`)
+      );
+      this.closeCapture();
+      this.handleClose();
     });
+
+    reconnector.on('closed', () => {
+      console.log('[Deepgram] Connection closed');
+      this.closeCapture();
+      this.handleClose();
+    });
+
+    const connected = await reconnector.connect();
+    if (!connected) {
+      const { lastError } = reconnector.getStats();
+      this.reconnector = null;
+      reconnector.destroy();
+      throw new Error(`Deepgram connection failed: ${lastError}`);
+    }
+
+    this.isConnected = true;
+    console.log('[Deepgram] Connected to nova-2-medical model');
+
+    if (process.env.DEEPGRAM_CAPTURE_DIR) {
+      this.capture = new ReplayCapture(process.env.DEEPGRAM_CAPTURE_DIR);
+    }
   }
 
   sendAudio(data: Buffer): void {
-    if (this.connection && this.isConnected) {
+    if (this.reconnector && this.isConnected) {
       // Convert Buffer to ArrayBuffer for Deepgram SDK
       const arrayBuffer = data.buffer.slice(
         data.byteOffset,
         data.byteOffset + data.byteLength
-      );
-      this.connection.send(arrayBuffer);
+      ) as ArrayBuffer;
+      this.reconnector.sendAudio(arrayBuffer);
     }
   }
 
-  disconnect(): void {
-    if (this.connection) {
-      console.log('[Deepgram] Disconnecting...');
-      this.chunkAssembler.forceFlush();
-      this.connection.finish();
-      this.connection = null;
-      this.isConnected = false;
-    }
+  disconnect(): Promise<void> {
+    const reconnector = this.reconnector;
+    if (!reconnector) return Promise.resolve();
+
+    console.log('[Deepgram] Disconnecting...');
+    this.reconnector = null;
+    this.isConnected = false;
+
+    // Deepgram sends the results of the audio still in flight before it
+    // closes the stream; the final chunk is flushed by handleClose
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => {
+        console.warn('[Deepgram] No close after disconnect, flushing');
+        reconnector.removeAllListeners('closed');
+        this.closeCapture();
+        this.handleClose();
+        resolve();
+      }, DISCONNECT_TIMEOUT_MS);
+
+      reconnector.once('closed', () => {
+        clearTimeout(timeout);
+        resolve();
+      });
+      reconnector.disconnect();
+    });
   }
 
   getConnectionState(): boolean {
     return this.isConnected;
   }
 
-  private handleTranscript(data: any): void {
+  private closeCapture(): void {
+    this.capture?.close();
+    this.capture = null;
+  }
+
+  protected handleUtteranceEnd(): void {
+    console.log('[Deepgram] Utterance end - flushing chunk');
+    this.chunkAssembler.forceFlush();
+  }
+
+  protected handleClose(): void {
+    this.isConnected = false;
+    this.chunkAssembler.forceFlush();
+    this.config.onClose();
+  }
+
+  protected handleTranscript(data: any): void {
     const channel = data.channel;
     if (!channel?.alternatives?.length) return;
 
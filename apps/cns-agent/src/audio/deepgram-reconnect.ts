@@ -0,0 +1,659 @@
+/**
+ * Deepgram Reconnect - AssistMD Truth Package
+ *
+ * Handles:
+ * - Connection loss and automatic reconnection
+ * - Exponential backoff
+ * - Audio buffering during reconnect (memory, then spill to disk)
+ * - Backlog replay and timestamp rebasing onto one continuous timeline
+ * - Gap reporting for transcript metadata
+ * - Graceful degradation
+ * - Rate limiting recovery
+ *
+ * Timeline: every new Deepgram connection starts its timestamps at 0.
+ * Results are shifted by the audio already accounted for on earlier
+ * connections, so consumers see one timeline matching the recorded audio.
+ * Audio dropped during an outage (spill limit hit, retries exhausted) still
+ * advances the timeline; the hole is reported as a gap.
+ */
+
+import { EventEmitter } from 'events';
+import { closeSync, existsSync, mkdirSync, openSync, readSync, rmSync, writeSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createClient, LiveClient, LiveSchema, LiveTranscriptionEvents } from '@deepgram/sdk';
+import { TranscriptGap } from '../types/index.js';
+
+export interface ReconnectConfig {
+  maxRetries: number;
+  baseDelay: number;
+  maxDelay: number;
+  jitter: boolean;
+  bufferDuringReconnect: boolean;
+  maxBufferSize: number;
+  connectionTimeout: number;
+  spillDir: string;
+  maxSpillBytes: number;
+  bytesPerSecond: number;
+  liveOptions: LiveSchema;
+}
+
+const DEFAULT_CONFIG: ReconnectConfig = {
+  maxRetries: 5,
+  baseDelay: 1000,       // 1 second
+  maxDelay: 30000,       // 30 seconds
+  jitter: true,
+  bufferDuringReconnect: true,
+  maxBufferSize: 50,     // ~50 audio chunks in memory before spilling
+  connectionTimeout: 10000,
+  spillDir: process.env.AUDIO_SPILL_DIR || path.join(os.tmpdir(), 'assistmd-spill'),
+  maxSpillBytes: 32000 * 60 * 30, // ~30 minutes of 16kHz linear16
+  bytesPerSecond: 32000, // 16kHz mono linear16
+  liveOptions: {
+    model: 'nova-2',
+    language: 'en',
+    smart_format: true,
+    diarize: true,
+    punctuate: true,
+    utterances: true,
+    interim_results: true
+  }
+};
+
+export type ReconnectGap = TranscriptGap;
+
+/**
+ * How results of one connection map onto the session timeline
+ */
+interface ConnectionTimeline {
+  offset: number;    // seconds before this connection's t=0
+  shiftAfter: number; // connection time where dropped audio sits
+  shift: number;     // seconds of dropped audio to skip over
+}
+
+interface PendingOutage {
+  start: number;
+  startedAt: number;
+}
+
+export type ConnectionState =
+  | 'disconnected'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'failed'
+  | 'rate_limited';
+
+export interface ConnectionStats {
+  state: ConnectionState;
+  connectedAt: number | null;
+  disconnectedAt: number | null;
+  reconnectAttempts: number;
+  totalReconnects: number;
+  lastError: string | null;
+  bufferedChunks: number;
+  spilledBytes: number;
+  gaps: number;
+}
+
+export class DeepgramReconnector extends EventEmitter {
+  private client: ReturnType<typeof createClient>;
+  private liveClient: LiveClient | null = null;
+  private config: ReconnectConfig;
+  private state: ConnectionState = 'disconnected';
+  private reconnectAttempts = 0;
+  private totalReconnects = 0;
+  private audioBuffer: ArrayBuffer[] = [];
+  private bufferedBytes = 0;
+  private spillPath: string | null = null;
+  private spillFd: number | null = null;
+  private spilledBytes = 0;
+  private droppedBytes = 0;
+  private connectedAt: number | null = null;
+  private disconnectedAt: number | null = null;
+  private lastError: string | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private connectionTimer: NodeJS.Timeout | null = null;
+  private rateLimitTimer: NodeJS.Timeout | null = null;
+
+  // Timeline bookkeeping (bytes of audio)
+  private timelineBytes = 0;    // accounted for before the current connection
+  private connectionBytes = 0;  // sent on the current connection
+  private timeline: ConnectionTimeline = { offset: 0, shiftAfter: Infinity, shift: 0 };
+  private outage: PendingOutage | null = null;
+  private gaps: ReconnectGap[] = [];
+
+  constructor(apiKey: string, config: Partial<ReconnectConfig> = {}) {
+    super();
+    this.client = createClient(apiKey);
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  // ─────────────────────────────────────────────
+  // Connection Management
+  // ─────────────────────────────────────────────
+
+  public async connect(): Promise<boolean> {
+    if (this.state === 'connected' || this.state === 'connecting') {
+      return this.state === 'connected';
+    }
+
+    this.setState('connecting');
+    this.clearTimers();
+
+    try {
+      // Set connection timeout
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        this.connectionTimer = setTimeout(() => {
+          reject(new Error('Connection timeout'));
+        }, this.config.connectionTimeout);
+      });
+
+      const connectionPromise = this.createLiveClient();
+
+      await Promise.race([connectionPromise, timeoutPromise]);
+
+      this.clearTimers();
+      this.setState('connected');
+      this.connectedAt = Date.now();
+      this.disconnectedAt = null;
+      this.reconnectAttempts = 0;
+      this.lastError = null;
+
+      // Replay backlog, then resume live audio on the same timeline
+      this.flushBuffer();
+
+      return true;
+    } catch (err) {
+      this.clearTimers();
+      // A timed-out connection may still open later; it must not take over
+      this.dropLiveClient();
+      this.handleConnectionError(err);
+      return false;
+    }
+  }
+
+  private dropLiveClient(): void {
+    const liveClient = this.liveClient;
+    this.liveClient = null;
+    try {
+      liveClient?.finish();
+    } catch (err) {
+      // Ignore close errors
+    }
+  }
+
+  private async createLiveClient(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const liveClient = this.client.listen.live(this.config.liveOptions);
+      this.liveClient = liveClient;
+
+      // Results from this connection keep the timeline it was opened with,
+      // even if they arrive after a newer connection took over
+      let timeline = this.timeline;
+
+      liveClient.on(LiveTranscriptionEvents.Open, () => {
+        // Dropped (timed out, disconnected) before it opened
+        if (liveClient !== this.liveClient) return;
+        timeline = this.startConnectionTimeline();
+        this.emit('open');
+        resolve();
+      });
+
+      liveClient.on(LiveTranscriptionEvents.Error, (err) => {
+        if (liveClient !== this.liveClient) return;
+        this.handleStreamError(err);
+        reject(err);
+      });
+
+      liveClient.on(LiveTranscriptionEvents.Close, () => {
+        if (liveClient !== this.liveClient) return;
+        this.handleClose();
+      });
+
+      liveClient.on(LiveTranscriptionEvents.Transcript, (data) => {
+        this.emit('transcript', rebaseResult(data, timeline));
+      });
+
+      liveClient.on(LiveTranscriptionEvents.Metadata, (data) => {
+        this.emit('metadata', data);
+      });
+
+      liveClient.on(LiveTranscriptionEvents.UtteranceEnd, (data) => {
+        if (typeof data?.last_word_end === 'number') {
+          data = { ...data, last_word_end: rebaseTime(data.last_word_end, timeline) };
+        }
+        this.emit('utterance_end', data);
+      });
+    });
+  }
+
+  /**
+   * Close the stream; 'closed' follows once Deepgram has sent the results
+   * of the audio in flight (right away when there is no open connection)
+   */
+  public disconnect(): void {
+    const wasConnected = this.state === 'connected';
+    this.clearTimers();
+    this.setState('disconnected');
+    this.disconnectedAt = Date.now();
+
+    // Stopped during an outage: the backlog can no longer be delivered
+    if (this.outage) {
+      this.droppedBytes += this.bufferedBytes + this.spilledBytes;
+      this.clearBuffer();
+      this.recordGap(0, false);
+    }
+
+    const liveClient = this.liveClient;
+    this.liveClient = null;
+    if (liveClient) {
+      if (wasConnected) {
+        liveClient.on(LiveTranscriptionEvents.Close, () => this.emit('closed'));
+      }
+      try {
+        liveClient.finish();
+      } catch (err) {
+        // Ignore close errors
+      }
+    }
+
+    this.clearBuffer();
+    this.emit('disconnected');
+
+    if (!liveClient || !wasConnected) {
+      this.emit('closed');
+    }
+  }
+
+  // ─────────────────────────────────────────────
+  // Audio Handling
+  // ─────────────────────────────────────────────
+
+  public sendAudio(audio: ArrayBuffer): boolean {
+    if (this.state === 'connected' && this.liveClient) {
+      try {
+        this.liveClient.send(audio);
+        this.connectionBytes += audio.byteLength;
+        return true;
+      } catch (err) {
+        this.handleStreamError(err);
+        this.bufferAudio(audio);
+        return false;
+      }
+    }
+
+    // Buffer audio while a reconnect is pending
+    if (
+      this.config.bufferDuringReconnect &&
+      (this.state === 'reconnecting' || this.state === 'rate_limited' || this.state === 'connecting')
+    ) {
+      this.bufferAudio(audio);
+      return false;
+    }
+
+    // Connection given up: audio is lost but still occupies the timeline
+    if (this.state === 'failed') {
+      this.droppedBytes += audio.byteLength;
+    }
+
+    return false;
+  }
+
+  private bufferAudio(audio: ArrayBuffer): void {
+    if (this.audioBuffer.length < this.config.maxBufferSize && this.spillFd === null) {
+      this.audioBuffer.push(audio);
+      this.bufferedBytes += audio.byteLength;
+      return;
+    }
+
+    // Memory buffer full: spill to disk
+    if (this.spilledBytes + audio.byteLength > this.config.maxSpillBytes) {
+      this.droppedBytes += audio.byteLength;
+      this.emit('buffer:overflow');
+      return;
+    }
+
+    try {
+      if (this.spillFd === null) {
+        mkdirSync(this.config.spillDir, { recursive: true });
+        this.spillPath = path.join(
+          this.config.spillDir,
+          `spill-${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.pcm`
+        );
+        this.spillFd = openSync(this.spillPath, 'w+');
+        this.emit('buffer:spill', this.spillPath);
+      }
+
+      writeSync(this.spillFd, Buffer.from(audio));
+      this.spilledBytes += audio.byteLength;
+    } catch (err) {
+      this.droppedBytes += audio.byteLength;
+      this.emit('buffer:flush_error', err);
+    }
+  }
+
+  private flushBuffer(): void {
+    if (!this.liveClient) return;
+
+    const buffered = this.audioBuffer.length;
+    const backlogBytes = this.bufferedBytes + this.spilledBytes;
+
+    try {
+      for (const chunk of this.audioBuffer) {
+        this.liveClient.send(chunk);
+        this.connectionBytes += chunk.byteLength;
+      }
+
+      if (this.spillFd !== null) {
+        const piece = Buffer.alloc(64 * 1024);
+        let position = 0;
+        let read: number;
+        while ((read = readSync(this.spillFd, piece, 0, piece.length, position)) > 0) {
+          const chunk = piece.subarray(0, read);
+          this.liveClient.send(chunk.buffer.slice(chunk.byteOffset, chunk.byteOffset + read));
+          this.connectionBytes += read;
+          position += read;
+        }
+      }
+    } catch (err) {
+      this.emit('buffer:flush_error', err);
+    }
+
+    this.clearBuffer();
+    if (backlogBytes > 0) {
+      this.emit('buffer:flushed', buffered, backlogBytes);
+    }
+  }
+
+  private clearBuffer(): void {
+    this.audioBuffer = [];
+    this.bufferedBytes = 0;
+    this.spilledBytes = 0;
+
+    if (this.spillFd !== null) {
+      closeSync(this.spillFd);
+      this.spillFd = null;
+    }
+    if (this.spillPath && existsSync(this.spillPath)) {
+      rmSync(this.spillPath, { force: true });
+    }
+    this.spillPath = null;
+  }
+
+  // ─────────────────────────────────────────────
+  // Timeline & Gaps
+  // ─────────────────────────────────────────────
+
+  /**
+   * Called when a connection opens: fix its offset and close any outage
+   */
+  private startConnectionTimeline(): ConnectionTimeline {
+    const bps = this.config.bytesPerSecond;
+    const backlogBytes = this.bufferedBytes + this.spilledBytes;
+
+    this.timelineBytes += this.connectionBytes;
+    this.connectionBytes = 0;
+
+    // Backlog is replayed first; dropped audio sits right after it
+    this.timeline = {
+      offset: this.timelineBytes / bps,
+      shiftAfter: this.droppedBytes > 0 ? backlogBytes / bps : Infinity,
+      shift: this.droppedBytes / bps
+    };
+
+    if (this.outage) {
+      this.recordGap(backlogBytes, true);
+    }
+
+    this.timelineBytes += this.droppedBytes;
+    this.droppedBytes = 0;
+    return this.timeline;
+  }
+
+  private beginOutage(): void {
+    if (this.outage) return;
+
+    this.outage = {
+      start: (this.timelineBytes + this.connectionBytes) / this.config.bytesPerSecond,
+      startedAt: Date.now()
+    };
+  }
+
+  private recordGap(backlogBytes: number, recovered: boolean): void {
+    if (!this.outage) return;
+
+    const bps = this.config.bytesPerSecond;
+    const bufferedSeconds = backlogBytes / bps;
+    const droppedSeconds = this.droppedBytes / bps;
+
+    const gap: ReconnectGap = {
+      start: this.outage.start,
+      end: this.outage.start + bufferedSeconds + droppedSeconds,
+      bufferedSeconds,
+      droppedSeconds,
+      startedAt: this.outage.startedAt,
+      endedAt: Date.now(),
+      recovered
+    };
+
+    this.outage = null;
+    this.gaps.push(gap);
+    this.emit('gap', gap);
+  }
+
+  public getGaps(): ReconnectGap[] {
+    return [...this.gaps];
+  }
+
+  // ─────────────────────────────────────────────
+  // Error Handling & Reconnection
+  // ─────────────────────────────────────────────
+
+  private handleConnectionError(err: unknown): void {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    this.lastError = message;
+
+    // Check for rate limiting
+    if (message.includes('429') || message.includes('rate')) {
+      this.setState('rate_limited');
+      this.emit('rate_limited');
+
+      // Wait longer for rate limit
+      this.rateLimitTimer = setTimeout(() => {
+        this.rateLimitTimer = null;
+        this.scheduleReconnect();
+      }, 60000); // 1 minute
+      return;
+    }
+
+    this.emit('error', err);
+    this.scheduleReconnect();
+  }
+
+  private handleStreamError(err: unknown): void {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    this.lastError = message;
+    this.emit('stream_error', err);
+
+    if (this.state === 'connected') {
+      this.disconnectedAt = Date.now();
+      this.beginOutage();
+      this.scheduleReconnect();
+    }
+  }
+
+  private handleClose(): void {
+    if (this.state === 'connected') {
+      this.disconnectedAt = Date.now();
+      this.beginOutage();
+      this.emit('unexpected_close');
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempts >= this.config.maxRetries) {
+      this.setState('failed');
+
+      // Backlog can no longer be delivered
+      if (this.outage) {
+        this.droppedBytes += this.bufferedBytes + this.spilledBytes;
+        this.clearBuffer();
+        this.recordGap(0, false);
+      }
+
+      this.emit('reconnect:failed', {
+        attempts: this.reconnectAttempts,
+        lastError: this.lastError
+      });
+      return;
+    }
+
+    this.setState('reconnecting');
+    this.reconnectAttempts++;
+
+    const delay = this.calculateBackoff();
+
+    this.emit('reconnect:scheduled', {
+      attempt: this.reconnectAttempts,
+      delay,
+      maxRetries: this.config.maxRetries
+    });
+
+    this.reconnectTimer = setTimeout(async () => {
+      const success = await this.connect();
+
+      if (success) {
+        this.totalReconnects++;
+        this.emit('reconnect:success', {
+          attempt: this.reconnectAttempts,
+          totalReconnects: this.totalReconnects
+        });
+      }
+    }, delay);
+  }
+
+  private calculateBackoff(): number {
+    let delay = this.config.baseDelay * Math.pow(2, this.reconnectAttempts - 1);
+    delay = Math.min(delay, this.config.maxDelay);
+
+    if (this.config.jitter) {
+      // Add up to 30% jitter
+      const jitter = delay * 0.3 * Math.random();
+      delay += jitter;
+    }
+
+    return Math.floor(delay);
+  }
+
+  // ─────────────────────────────────────────────
+  // State Management
+  // ─────────────────────────────────────────────
+
+  private setState(state: ConnectionState): void {
+    const prev = this.state;
+    this.state = state;
+
+    if (prev !== state) {
+      this.emit('state:change', state, prev);
+    }
+  }
+
+  public getState(): ConnectionState {
+    return this.state;
+  }
+
+  public isConnected(): boolean {
+    return this.state === 'connected';
+  }
+
+  public getStats(): ConnectionStats {
+    return {
+      state: this.state,
+      connectedAt: this.connectedAt,
+      disconnectedAt: this.disconnectedAt,
+      reconnectAttempts: this.reconnectAttempts,
+      totalReconnects: this.totalReconnects,
+      lastError: this.lastError,
+      bufferedChunks: this.audioBuffer.length,
+      spilledBytes: this.spilledBytes,
+      gaps: this.gaps.length
+    };
+  }
+
+  // ─────────────────────────────────────────────
+  // Cleanup
+  // ─────────────────────────────────────────────
+
+  private clearTimers(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.connectionTimer) {
+      clearTimeout(this.connectionTimer);
+      this.connectionTimer = null;
+    }
+    if (this.rateLimitTimer) {
+      clearTimeout(this.rateLimitTimer);
+      this.rateLimitTimer = null;
+    }
+  }
+
+  public destroy(): void {
+    // Listeners first: the owner is done with this connection
+    this.removeAllListeners();
+    this.disconnect();
+  }
+
+  // ─────────────────────────────────────────────
+  // Manual Recovery
+  // ─────────────────────────────────────────────
+
+  public async retry(): Promise<boolean> {
+    if (this.state !== 'failed' && this.state !== 'rate_limited') {
+      return this.state === 'connected';
+    }
+
+    this.reconnectAttempts = 0;
+    this.setState('disconnected');
+    return this.connect();
+  }
+
+  public resetBackoff(): void {
+    this.reconnectAttempts = 0;
+  }
+}
+
+/**
+ * Map a connection-relative time onto the session timeline
+ */
+function rebaseTime(time: number, timeline: ConnectionTimeline): number {
+  const shifted = time >= timeline.shiftAfter ? time + timeline.shift : time;
+  return shifted + timeline.offset;
+}
+
+/**
+ * Shift all timestamps of a Deepgram Results message
+ */
+function rebaseResult(data: any, timeline: ConnectionTimeline): any {
+  if (timeline.offset === 0 && timeline.shift === 0) return data;
+
+  const alternatives = (data?.channel?.alternatives || []).map((alt: any) => ({
+    ...alt,
+    words: (alt.words || []).map((w: any) => ({
+      ...w,
+      start: rebaseTime(w.start, timeline),
+      end: rebaseTime(w.end, timeline)
+    }))
+  }));
+
+  return {
+    ...data,
+    start: typeof data.start === 'number' ? rebaseTime(data.start, timeline) : data.start,
+    channel: { ...data.channel, alternatives }
+  };
+}
+
+export default DeepgramReconnector;
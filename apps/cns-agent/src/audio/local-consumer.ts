@@ -0,0 +1,207 @@
+/**
+ * Local Consumer - AssistMD Truth Package
+ *
+ * Offline transcription through a whisper.cpp-style command line binary.
+ * Used in air-gapped clinics and for running the pipeline without network.
+ *
+ * Audio is buffered into fixed-length segments, written to a temporary WAV
+ * file and passed to the binary. Its JSON output is converted into the same
+ * TranscriptEvent / TranscriptChunk stream the Deepgram consumer produces.
+ *
+ * Environment:
+ * - LOCAL_ASR_COMMAND:  binary to run (default: whisper-cli)
+ * - LOCAL_ASR_MODEL:    model file passed with -m
+ * - LOCAL_ASR_SEGMENT_SECONDS: audio per transcription pass (default: 5)
+ *
+ * Whisper has no diarization, so every word is attributed to speaker 0.
+ */
+
+import { execFile } from 'child_process';
+import { promises as fs, existsSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChunkAssembler } from './chunk-assembler.js';
+import { encodeWav, pcmDuration } from './wav.js';
+import {
+  TranscriptEvent,
+  TranscriptionProvider,
+  TranscriptionProviderConfig,
+  WordResult
+} from '../types/index.js';
+
+interface WhisperSegment {
+  offsets?: { from: number; to: number };
+  text: string;
+  tokens?: Array<{ text: string; p?: number }>;
+}
+
+const BYTES_PER_SECOND = 16000 * 2; // 16kHz mono linear16
+
+export class LocalConsumer implements TranscriptionProvider {
+  readonly name = 'local' as const;
+
+  private config: TranscriptionProviderConfig;
+  private chunkAssembler: ChunkAssembler;
+  private isConnected = false;
+  private command: string;
+  private model: string | undefined;
+  private segmentBytes: number;
+  private buffer: Buffer[] = [];
+  private bufferedBytes = 0;
+  private processedSeconds = 0;
+  private queue: Promise<void> = Promise.resolve();
+  private segmentCounter = 0;
+
+  constructor(config: TranscriptionProviderConfig) {
+    this.config = config;
+    this.chunkAssembler = new ChunkAssembler({
+      maxDurationSeconds: 30,
+      onChunkComplete: config.onChunk
+    });
+
+    this.command = process.env.LOCAL_ASR_COMMAND || 'whisper-cli';
+    this.model = process.env.LOCAL_ASR_MODEL;
+    const segmentSeconds = parseFloat(process.env.LOCAL_ASR_SEGMENT_SECONDS || '5');
+    this.segmentBytes = Math.max(1, segmentSeconds) * BYTES_PER_SECOND;
+  }
+
+  async connect(): Promise<void> {
+    if (this.model && !existsSync(this.model)) {
+      throw new Error(`LOCAL_ASR_MODEL not found: ${this.model}`);
+    }
+
+    this.isConnected = true;
+    this.processedSeconds = 0;
+    console.log(`[Local ASR] Ready (${this.command}${this.model ? `, ${path.basename(this.model)}` : ''})`);
+  }
+
+  sendAudio(data: Buffer): void {
+    if (!this.isConnected) return;
+
+    this.buffer.push(data);
+    this.bufferedBytes += data.length;
+
+    if (this.bufferedBytes >= this.segmentBytes) {
+      this.enqueueSegment();
+    }
+  }
+
+  disconnect(): Promise<void> {
+    if (!this.isConnected) return this.queue;
+
+    console.log('[Local ASR] Disconnecting...');
+    this.isConnected = false;
+
+    // Transcribe whatever is left, then close out the assembler
+    this.enqueueSegment();
+    this.queue = this.queue.then(() => {
+      this.chunkAssembler.forceFlush();
+      this.config.onClose();
+    });
+    return this.queue;
+  }
+
+  getConnectionState(): boolean {
+    return this.isConnected;
+  }
+
+  private enqueueSegment(): void {
+    if (this.bufferedBytes === 0) return;
+
+    const pcm = Buffer.concat(this.buffer);
+    const offset = this.processedSeconds;
+    this.buffer = [];
+    this.bufferedBytes = 0;
+    this.processedSeconds += pcmDuration(pcm.length);
+
+    this.queue = this.queue
+      .then(() => this.transcribeSegment(pcm, offset))
+      .catch((error) => {
+        console.error('[Local ASR] Error:', error);
+        this.config.onError(error instanceof Error ? error : new Error(String(error)));
+      });
+  }
+
+  private async transcribeSegment(pcm: Buffer, offset: number): Promise<void> {
+    const base = path.join(os.tmpdir(), `assistmd-asr-${process.pid}-${++this.segmentCounter}`);
+    const wavPath = `${base}.wav`;
+    const jsonPath = `${base}.json`;
+
+    await fs.writeFile(wavPath, encodeWav(pcm));
+
+    try {
+      const args = ['-f', wavPath, '-ojf', '-of', base, '-np'];
+      if (this.model) {
+        args.unshift('-m', this.model);
+      }
+
+      await new Promise<void>((resolve, reject) => {
+        execFile(this.command, args, { timeout: 120000 }, (error) => {
+          if (error) reject(new Error(`Local ASR failed: ${error.message}`));
+          else resolve();
+        });
+      });
+
+      const output = JSON.parse(await fs.readFile(jsonPath, 'utf8'));
+      const segments: WhisperSegment[] = output.transcription || [];
+
+      for (const segment of segments) {
+        this.handleSegment(segment, offset);
+      }
+    } finally {
+      await fs.rm(wavPath, { force: true });
+      await fs.rm(jsonPath, { force: true });
+    }
+  }
+
+  private handleSegment(segment: WhisperSegment, offset: number): void {
+    const text = segment.text.trim();
+    if (!text || /^\[.*\]$/.test(text)) return; // skip [BLANK_AUDIO] etc.
+
+    const start = offset + (segment.offsets?.from ?? 0) / 1000;
+    const end = offset + (segment.offsets?.to ?? 0) / 1000;
+    const confidence = this.averageProbability(segment);
+
+    // Whisper segments carry no word timings; spread them by word length
+    const tokens = text.split(/\s+/);
+    const totalChars = tokens.reduce((sum, t) => sum + t.length, 0) || 1;
+    const duration = Math.max(end - start, 0);
+
+    let cursor = start;
+    const words: WordResult[] = tokens.map((word) => {
+      const wordDuration = duration * (word.length / totalChars);
+      const result: WordResult = {
+        word,
+        start: cursor,
+        end: cursor + wordDuration,
+        confidence,
+        speaker: 0
+      };
+      cursor += wordDuration;
+      return result;
+    });
+
+    const event: TranscriptEvent = {
+      type: 'final',
+      text,
+      speaker: 0,
+      start,
+      end,
+      confidence,
+      words,
+      isFinal: true
+    };
+
+    this.config.onTranscript(event);
+    this.chunkAssembler.addWords(words);
+  }
+
+  private averageProbability(segment: WhisperSegment): number {
+    const probabilities = (segment.tokens || [])
+      .filter((t) => typeof t.p === 'number' && !t.text.startsWith('['))
+      .map((t) => t.p as number);
+
+    if (probabilities.length === 0) return 1;
+    return probabilities.reduce((sum, p) => sum + p, 0) / probabilities.length;
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Replay Consumer - AssistMD Truth Package
+ *
+ * Deterministic transcription provider for end-to-end tests and bug repros.
+ * Plays a recorded Deepgram result stream (see replay-fixture.ts) through
+ * the exact handlers DeepgramConsumer uses for live results, so chunk
+ * assembly, autopilot coverage and Supabase persistence all see real traffic.
+ *
+ * Incoming audio is ignored; playback starts as soon as connect() resolves.
+ *
+ * Environment:
+ * - REPLAY_FIXTURE: path to the fixture file (required)
+ * - REPLAY_SPEED:   playback multiplier (default: 1, 0 = no delays)
+ */
+
+import * as path from 'path';
+import { DeepgramConsumer } from './deepgram-consumer.js';
+import { loadReplayFixture, ReplayMessage } from './replay-fixture.js';
+import { TranscriptionProviderConfig, TranscriptionProviderName } from '../types/index.js';
+
+export class ReplayConsumer extends DeepgramConsumer {
+  readonly name: TranscriptionProviderName = 'replay';
+
+  private fixturePath: string | undefined;
+  private speed: number;
+  private messages: ReplayMessage[] = [];
+  private position = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(config: TranscriptionProviderConfig) {
+    super(config);
+    this.fixturePath = process.env.REPLAY_FIXTURE;
+
+    const speed = parseFloat(process.env.REPLAY_SPEED || '1');
+    this.speed = Number.isFinite(speed) && speed >= 0 ? speed : 1;
+  }
+
+  async connect(): Promise<void> {
+    if (!this.fixturePath) {
+      throw new Error('REPLAY_FIXTURE environment variable not set');
+    }
+
+    this.messages = await loadReplayFixture(this.fixturePath);
+    this.position = 0;
+    this.isConnected = true;
+
+    console.log(
+      `[Replay] Playing ${this.messages.length} messages from ${path.basename(this.fixturePath)} at ${this.speed || 'max'}x`
+    );
+
+    this.scheduleNext(0);
+  }
+
+  sendAudio(_data: Buffer): void {
+    // Results come from the fixture, not from audio
+  }
+
+  async disconnect(): Promise<void> {
+    if (!this.isConnected) return;
+
+    console.log('[Replay] Disconnecting...');
+    this.stop();
+    this.handleClose();
+  }
+
+  private scheduleNext(previousAt: number): void {
+    if (this.position >= this.messages.length) {
+      console.log('[Replay] Fixture finished');
+      this.stop();
+      this.handleClose();
+      return;
+    }
+
+    const next = this.messages[this.position];
+    const delay = this.speed === 0 ? 0 : Math.max(0, next.at - previousAt) / this.speed;
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.position++;
+      this.dispatch(next.message);
+      if (this.isConnected) {
+        this.scheduleNext(next.at);
+      }
+    }, delay);
+  }
+
+  private dispatch(message: any): void {
+    switch (message.type) {
+      case 'Results':
+        this.handleTranscript(message);
+        break;
+      case 'UtteranceEnd':
+        this.handleUtteranceEnd();
+        break;
+      default:
+        // Metadata, SpeechStarted etc. carry no transcript
+        break;
+    }
+  }
+
+  private stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
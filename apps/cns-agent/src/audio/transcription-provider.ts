@@ -0,0 +1,56 @@
+/**
+ * Transcription Provider Factory - AssistMD Truth Package
+ *
+ * Selects the speech-to-text backend for a recording session.
+ * All providers emit the same TranscriptEvent / TranscriptChunk shapes.
+ *
+ * Providers (TRANSCRIPTION_PROVIDER):
+ * - deepgram: Deepgram nova-2-medical streaming API (default)
+ * - local:    whisper.cpp-style binary, runs without network access
+ * - replay:   recorded Deepgram result stream from a fixture file (tests)
+ */
+
+import { DeepgramConsumer } from './deepgram-consumer.js';
+import { LocalConsumer } from './local-consumer.js';
+import { ReplayConsumer } from './replay-consumer.js';
+import {
+  TranscriptionProvider,
+  TranscriptionProviderConfig,
+  TranscriptionProviderName
+} from '../types/index.js';
+
+const PROVIDER_NAMES: TranscriptionProviderName[] = ['deepgram', 'local', 'replay'];
+
+/**
+ * Resolve the configured provider name (falls back to deepgram)
+ */
+export function resolveProviderName(
+  value: string | undefined = process.env.TRANSCRIPTION_PROVIDER
+): TranscriptionProviderName {
+  const name = (value || 'deepgram').trim().toLowerCase();
+
+  if (!PROVIDER_NAMES.includes(name as TranscriptionProviderName)) {
+    console.warn(`[Transcription] Unknown provider "${value}", using deepgram`);
+    return 'deepgram';
+  }
+
+  return name as TranscriptionProviderName;
+}
+
+/**
+ * Create a transcription provider for one recording session
+ */
+export function createTranscriptionProvider(
+  config: TranscriptionProviderConfig,
+  name: TranscriptionProviderName = resolveProviderName()
+): TranscriptionProvider {
+  switch (name) {
+    case 'local':
+      return new LocalConsumer(config);
+    case 'replay':
+      return new ReplayConsumer(config);
+    case 'deepgram':
+    default:
+      return new DeepgramConsumer(config);
+  }
+}
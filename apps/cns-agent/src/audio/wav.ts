@@ -0,0 +1,58 @@
+/**
+ * WAV Utilities
+ *
+ * Wraps raw PCM linear16 audio in a RIFF/WAVE container.
+ * Default format matches the extension capture: 16kHz mono 16-bit.
+ */
+
+export interface WavFormat {
+  sampleRate: number;
+  channels: number;
+  bitDepth: number;
+}
+
+export const PCM_FORMAT: WavFormat = {
+  sampleRate: 16000,
+  channels: 1,
+  bitDepth: 16
+};
+
+/**
+ * Build the 44-byte WAV header for a PCM payload of the given length
+ */
+export function createWavHeader(dataLength: number, format: WavFormat = PCM_FORMAT): Buffer {
+  const { sampleRate, channels, bitDepth } = format;
+  const blockAlign = channels * (bitDepth / 8);
+  const byteRate = sampleRate * blockAlign;
+
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + dataLength, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);          // fmt chunk size
+  header.writeUInt16LE(1, 20);           // PCM
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(byteRate, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(bitDepth, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(dataLength, 40);
+
+  return header;
+}
+
+/**
+ * Encode a PCM buffer as a complete WAV file
+ */
+export function encodeWav(pcm: Buffer, format: WavFormat = PCM_FORMAT): Buffer {
+  return Buffer.concat([createWavHeader(pcm.length, format), pcm]);
+}
+
+/**
+ * Duration in seconds of a PCM payload
+ */
+export function pcmDuration(byteLength: number, format: WavFormat = PCM_FORMAT): number {
+  return byteLength / (format.sampleRate * format.channels * (format.bitDepth / 8));
+}
@@ -5,10 +5,16 @@
  * - Coverage score (0-100%)
  * - Readiness status (red/yellow/green)
  * - Missing field suggestions
+ *
+ * Fields and weights come from the tab's note template (note-templates.ts).
+ * Denied findings are not content: "reports no chest pain" does not cover
+ * the chief complaint (assertion.ts).
  */
 
 import { DomField, TabManager } from './tab-manager.js';
 import { TranscriptData } from './command-router.js';
+import { getNoteTemplate, sectionCues } from './note-templates.js';
+import { assertPhrase, assertSpan } from './assertion.js';
 
 export type AutopilotStatus = 'red' | 'yellow' | 'green';
 
@@ -19,32 +25,28 @@ export interface AutopilotReport {
   coveredFields: string[];
   missingFields: string[];
   suggestions: string[];
+  template: string;
   timestamp: number;
 }
 
 export interface FieldWeight {
   name: string;
+  label: string;
   weight: number;
   required: boolean;
-  patterns: string[];
+  patterns: string[];  // EHR field labels (also explicit mentions in the transcript)
+  cues: RegExp[];      // transcript content implying the field
 }
 
+// Cues written for a pertinent negative ("no known allergies") match negations on purpose
+const NEGATIVE_CUE = /\b(no|not|denies|without|negative)\b/i;
+
+type FieldCoverage = Map<string, { field: DomField | null; hasCoverage: boolean; confidence: number }>;
+
 export class Autopilot {
   private tabManager: TabManager;
   private transcriptData: Map<string, TranscriptData> = new Map();
 
-  // Field weights for scoring (higher weight = more important)
-  private readonly fieldWeights: FieldWeight[] = [
-    { name: 'chief_complaint', weight: 20, required: true, patterns: ['chief complaint', 'cc', 'reason for visit'] },
-    { name: 'hpi', weight: 20, required: true, patterns: ['hpi', 'history of present illness', 'present illness'] },
-    { name: 'assessment', weight: 15, required: true, patterns: ['assessment', 'diagnosis', 'impression', 'dx'] },
-    { name: 'plan', weight: 15, required: true, patterns: ['plan', 'treatment', 'treatment plan'] },
-    { name: 'vitals', weight: 10, required: false, patterns: ['vitals', 'vital signs', 'bp', 'temperature'] },
-    { name: 'medications', weight: 8, required: false, patterns: ['medications', 'meds', 'current medications'] },
-    { name: 'allergies', weight: 7, required: false, patterns: ['allergies', 'allergy', 'drug allergies'] },
-    { name: 'review_of_systems', weight: 5, required: false, patterns: ['ros', 'review of systems'] }
-  ];
-
   constructor(tabManager: TabManager) {
     this.tabManager = tabManager;
   }
@@ -63,24 +65,36 @@ export class Autopilot {
     const tab = this.tabManager.getTab(tabId);
     const transcript = this.transcriptData.get(tabId);
 
+    const template = getNoteTemplate(tab?.noteTemplate);
+
     if (!tab || !tab.domMap) {
-      return this.emptyReport(tabId);
+      return this.emptyReport(tabId, template.id);
     }
 
     const domFields = tab.domMap;
     const text = transcript?.fullText?.toLowerCase() || '';
 
+    // Field weights for scoring (higher weight = more important)
+    const fieldWeights: FieldWeight[] = template.sections.map(section => ({
+      name: section.id,
+      label: section.label,
+      weight: section.weight,
+      required: section.required,
+      patterns: section.ehrLabels,
+      cues: sectionCues(section)
+    }));
+
     // Match DOM fields to known field types
-    const fieldCoverage = this.analyzeFieldCoverage(domFields, text);
+    const fieldCoverage = this.analyzeFieldCoverage(fieldWeights, domFields, text);
 
     // Calculate weighted score
-    const { score, coveredFields, missingFields } = this.calculateScore(fieldCoverage);
+    const { score, coveredFields, missingFields } = this.calculateScore(fieldWeights, fieldCoverage);
 
     // Generate suggestions
-    const suggestions = this.generateSuggestions(missingFields, fieldCoverage);
+    const suggestions = this.generateSuggestions(fieldWeights, missingFields);
 
     // Determine status
-    const status = this.getStatus(score, fieldCoverage);
+    const status = this.getStatus(fieldWeights, score, fieldCoverage);
 
     return {
       tabId,
@@ -89,6 +103,7 @@ export class Autopilot {
       coveredFields,
       missingFields,
       suggestions,
+      template: template.id,
       timestamp: Date.now()
     };
   }
@@ -97,13 +112,14 @@ export class Autopilot {
    * Analyze which fields have coverage in the transcript
    */
   private analyzeFieldCoverage(
+    fieldWeights: FieldWeight[],
     domFields: DomField[],
     transcriptText: string
-  ): Map<string, { field: DomField | null; hasCoverage: boolean; confidence: number }> {
-    const coverage = new Map<string, { field: DomField | null; hasCoverage: boolean; confidence: number }>();
+  ): FieldCoverage {
+    const coverage: FieldCoverage = new Map();
 
     // Initialize all known fields
-    for (const fieldWeight of this.fieldWeights) {
+    for (const fieldWeight of fieldWeights) {
       coverage.set(fieldWeight.name, {
         field: null,
         hasCoverage: false,
@@ -115,13 +131,13 @@ export class Autopilot {
     for (const domField of domFields) {
       const normalizedLabel = (domField.label || domField.name).toLowerCase();
 
-      for (const fieldWeight of this.fieldWeights) {
+      for (const fieldWeight of fieldWeights) {
         const matches = fieldWeight.patterns.some(p => normalizedLabel.includes(p));
         if (matches) {
           const existing = coverage.get(fieldWeight.name)!;
 
           // Check if transcript has content for this field
-          const hasCoverage = this.hasTranscriptCoverage(fieldWeight.patterns, transcriptText);
+          const hasCoverage = this.hasTranscriptCoverage(fieldWeight, transcriptText);
           const confidence = hasCoverage ? this.calculateConfidence(fieldWeight.patterns, transcriptText) : 0;
 
           coverage.set(fieldWeight.name, {
@@ -140,31 +156,33 @@ export class Autopilot {
   /**
    * Check if transcript has coverage for a field
    */
-  private hasTranscriptCoverage(patterns: string[], text: string): boolean {
+  private hasTranscriptCoverage(fieldWeight: FieldWeight, text: string): boolean {
     if (!text) return false;
 
     // Check for explicit mentions
-    for (const pattern of patterns) {
+    for (const pattern of fieldWeight.patterns) {
       if (text.includes(pattern)) return true;
     }
 
     // Check for implied content (e.g., symptoms for chief complaint)
-    const impliedPatterns: Record<string, RegExp[]> = {
-      'chief complaint': [/patient (?:presents|presented|came in) (?:with|for)/i, /(?:complaining of|reports?)/i],
-      'hpi': [/(?:started|began|noticed) (?:\d+ )?(?:days?|weeks?|months?) ago/i, /(?:history of|previously)/i],
-      'assessment': [/(?:likely|appears to be|consistent with|suggestive of)/i],
-      'plan': [/(?:will|should|recommend|prescribe|order)/i]
-    };
+    return fieldWeight.cues.some(cue => this.cueCovers(cue, text));
+  }
 
-    for (const pattern of patterns) {
-      const implied = impliedPatterns[pattern];
-      if (implied) {
-        for (const regex of implied) {
-          if (regex.test(text)) return true;
-        }
-      }
-    }
+  /**
+   * A cue match counts unless the finding it captured is denied
+   */
+  private cueCovers(cue: RegExp, text: string): boolean {
+    if (NEGATIVE_CUE.test(cue.source)) return cue.test(text);
+
+    for (const match of text.matchAll(new RegExp(cue.source, cue.flags.replace('g', '') + 'g'))) {
+      // The captured finding, else the whole match
+      const finding = match[1] ?? match[0];
+      const start = match.index! + (match[1] !== undefined ? match[0].indexOf(match[1]) : 0);
 
+      if (assertPhrase(finding).assertion === 'absent') continue;
+      if (assertSpan(text, start, start + finding.length).assertion === 'absent') continue;
+      return true;
+    }
     return false;
   }
 
@@ -172,7 +190,8 @@ export class Autopilot {
    * Calculate confidence score for field coverage
    */
   private calculateConfidence(patterns: string[], text: string): number {
-    let confidence = 0;
+    // Implied by transcript cues only (no explicit mention)
+    let confidence = 0.6;
 
     for (const pattern of patterns) {
       const idx = text.indexOf(pattern);
@@ -192,14 +211,15 @@ export class Autopilot {
    * Calculate weighted coverage score
    */
   private calculateScore(
-    fieldCoverage: Map<string, { field: DomField | null; hasCoverage: boolean; confidence: number }>
+    fieldWeights: FieldWeight[],
+    fieldCoverage: FieldCoverage
   ): { score: number; coveredFields: string[]; missingFields: string[] } {
     let totalWeight = 0;
     let coveredWeight = 0;
     const coveredFields: string[] = [];
     const missingFields: string[] = [];
 
-    for (const fieldWeight of this.fieldWeights) {
+    for (const fieldWeight of fieldWeights) {
       const coverage = fieldCoverage.get(fieldWeight.name);
 
       // Only count fields that exist in the DOM
@@ -226,18 +246,15 @@ export class Autopilot {
   /**
    * Generate suggestions for missing fields
    */
-  private generateSuggestions(
-    missingFields: string[],
-    fieldCoverage: Map<string, { field: DomField | null; hasCoverage: boolean; confidence: number }>
-  ): string[] {
+  private generateSuggestions(fieldWeights: FieldWeight[], missingFields: string[]): string[] {
     const suggestions: string[] = [];
 
     for (const fieldName of missingFields) {
       const cleanName = fieldName.replace(' (field not found)', '');
-      const fieldWeight = this.fieldWeights.find(f => f.name === cleanName);
+      const fieldWeight = fieldWeights.find(f => f.name === cleanName);
 
       if (fieldWeight?.required) {
-        suggestions.push(`Document ${this.formatFieldName(cleanName)} in conversation`);
+        suggestions.push(`Document ${fieldWeight.label} in conversation`);
       }
     }
 
@@ -250,25 +267,16 @@ export class Autopilot {
     return suggestions.slice(0, 5);
   }
 
-  /**
-   * Format field name for display
-   */
-  private formatFieldName(name: string): string {
-    return name
-      .split('_')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(' ');
-  }
-
   /**
    * Determine status based on score and required field coverage
    */
   private getStatus(
+    fieldWeights: FieldWeight[],
     score: number,
-    fieldCoverage: Map<string, { field: DomField | null; hasCoverage: boolean; confidence: number }>
+    fieldCoverage: FieldCoverage
   ): AutopilotStatus {
     // Check if all required fields have coverage
-    const requiredFields = this.fieldWeights.filter(f => f.required);
+    const requiredFields = fieldWeights.filter(f => f.required);
     const allRequiredCovered = requiredFields.every(f => {
       const coverage = fieldCoverage.get(f.name);
       return !coverage?.field || coverage.hasCoverage; // Covered or field not in DOM
@@ -286,7 +294,7 @@ export class Autopilot {
   /**
    * Create empty report for missing data
    */
-  private emptyReport(tabId: string): AutopilotReport {
+  private emptyReport(tabId: string, template: string): AutopilotReport {
     return {
       tabId,
       status: 'red',
@@ -294,6 +302,7 @@ export class Autopilot {
       coveredFields: [],
       missingFields: ['No DOM fields scanned'],
       suggestions: ['Scan the EHR page to detect form fields'],
+      template,
       timestamp: Date.now()
     };
   }
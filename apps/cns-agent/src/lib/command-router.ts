@@ -3,9 +3,15 @@
  *
  * Processes overlay commands and generates execution steps
  * for smart-fill, field mapping, and form submission.
+ * Fill steps follow the tab's note template (note-templates.ts);
+ * medication fields get the structured medication list (medications.ts),
+ * vitals inputs the latest observation of their vital sign (vitals.ts).
  */
 
 import { DomField, DomMap, TabManager } from './tab-manager.js';
+import { getNoteTemplate, NoteTemplate, sectionCues } from './note-templates.js';
+import { extractMedications, formatMedication } from './medications.js';
+import { extractVitals, formatVital, latestVitals, VitalObservation, VitalType } from './vitals.js';
 
 export type CommandAction = 'map' | 'fill' | 'undo' | 'send';
 
@@ -21,6 +27,7 @@ export interface FillStep {
   value: string;
   confidence: number;
   source: 'transcript' | 'inferred' | 'template';
+  mode?: 'replace' | 'append';  // default: replace
 }
 
 export interface CommandResult {
@@ -28,6 +35,7 @@ export interface CommandResult {
   action: CommandAction;
   steps?: FillStep[];
   undoStack?: FillStep[];
+  vitals?: VitalObservation[];
   message?: string;
   error?: string;
 }
@@ -35,12 +43,43 @@ export interface CommandResult {
 export interface TranscriptData {
   fullText: string;
   chunks: Array<{
+    index: number; // transcript_chunk index
     speaker: number;
     text: string;
-    timestamp: number;
+    start: number; // seconds from recording start
   }>;
 }
 
+type VitalComponent = 'systolic' | 'diastolic';
+
+// EHR vitals inputs, most specific first ("diastolic bp" before "bp", "pulse ox" before "pulse")
+const VITAL_FIELDS: Array<[RegExp, VitalType, VitalComponent?]> = [
+  [/\b(systolic|sbp)\b/, 'blood_pressure', 'systolic'],
+  [/\b(diastolic|dbp)\b/, 'blood_pressure', 'diastolic'],
+  [/\b(blood pressure|bp)\b/, 'blood_pressure'],
+  [/\b(spo2|o2 sat|oxygen|saturation|pulse ox)/, 'spo2'],
+  [/\b(heart rate|pulse|hr)\b/, 'heart_rate'],
+  [/\b(temperature|temp)\b/, 'temperature'],
+  [/\b(respiratory rate|respirations|resp|rr)\b/, 'respiratory_rate'],
+  [/\b(bmi|body mass)\b/, 'bmi'],
+  [/\b(weight|wt)\b/, 'weight'],
+  [/\b(height|ht)\b/, 'height']
+];
+
+// Combined vitals fields (one text box for all)
+const VITALS_SUMMARY_FIELD = /\b(vitals|vital signs)\b/;
+
+const VITAL_ABBREVIATIONS: Record<VitalType, string> = {
+  blood_pressure: 'BP',
+  heart_rate: 'HR',
+  temperature: 'Temp',
+  respiratory_rate: 'RR',
+  spo2: 'SpO2',
+  weight: 'Wt',
+  height: 'Ht',
+  bmi: 'BMI'
+};
+
 export class CommandRouter {
   private tabManager: TabManager;
   private undoStacks: Map<string, FillStep[]> = new Map();
@@ -149,7 +188,9 @@ export class CommandRouter {
     }
 
     // Generate fill steps based on transcript and field labels
-    const fillSteps = this.generateFillSteps(domFields, transcript);
+    const template = getNoteTemplate(this.tabManager.getTab(tabId)?.noteTemplate);
+    const vitals = extractVitals(transcript.fullText, transcript.chunks);
+    const fillSteps = this.generateFillSteps(domFields, transcript, template, vitals);
 
     // Save to undo stack
     this.undoStacks.set(tabId, fillSteps);
@@ -158,6 +199,7 @@ export class CommandRouter {
       success: true,
       action: 'fill',
       steps: fillSteps,
+      vitals,
       message: `Generated ${fillSteps.length} fill operations`
     };
   }
@@ -204,52 +246,54 @@ export class CommandRouter {
   /**
    * Generate fill steps by matching transcript to field labels
    */
-  private generateFillSteps(fields: DomField[], transcript: TranscriptData): FillStep[] {
+  private generateFillSteps(
+    fields: DomField[],
+    transcript: TranscriptData,
+    template: NoteTemplate,
+    vitals: VitalObservation[]
+  ): FillStep[] {
     const steps: FillStep[] = [];
     const text = transcript.fullText.toLowerCase();
+    const latest = latestVitals(vitals);
 
-    // Common clinical field patterns
-    const fieldPatterns: Record<string, RegExp[]> = {
-      'chief_complaint': [
-        /(?:chief complaint|cc|presenting with|came in for|here for)\s*[:\-]?\s*(.+?)(?:\.|$)/i,
-        /patient (?:presents|presented|complains?) (?:with|of)\s*(.+?)(?:\.|$)/i
-      ],
-      'history_present_illness': [
-        /(?:hpi|history of present illness)[:\-]?\s*(.+?)(?:review of systems|ros|$)/is,
-        /(?:started|began|noticed|experiencing)\s*(.+?)(?:\.|$)/i
-      ],
-      'assessment': [
-        /(?:assessment|diagnosis|impression)[:\-]?\s*(.+?)(?:plan|$)/is,
-        /(?:likely|appears to be|diagnosed with)\s*(.+?)(?:\.|$)/i
-      ],
-      'plan': [
-        /(?:plan|treatment|will)[:\-]?\s*(.+?)$/is,
-        /(?:prescribe|order|recommend)\s*(.+?)(?:\.|$)/i
-      ],
-      'vitals': [
-        /(?:blood pressure|bp)\s*[:\-]?\s*(\d+\/\d+)/i,
-        /(?:temperature|temp)\s*[:\-]?\s*([\d.]+)/i,
-        /(?:heart rate|hr|pulse)\s*[:\-]?\s*(\d+)/i
-      ],
-      'medications': [
-        /(?:medications?|meds|rx)[:\-]?\s*(.+?)(?:\.|$)/i,
-        /(?:taking|on)\s+([\w\s,]+(?:\d+\s*mg)?)/i
-      ],
-      'allergies': [
-        /(?:allergies?|allergic to)[:\-]?\s*(.+?)(?:\.|$)/i,
-        /(?:no known (?:drug )?allergies|nkda)/i
-      ]
-    };
+    // Template sections: EHR labels they fill, transcript cues with the value
+    const sections = template.sections.map(section => ({
+      labels: section.ehrLabels,
+      cues: sectionCues(section),
+      medications: section.summaryField === 'medications'
+    }));
+
+    // Dictionary drugs, one per line
+    const medicationList = extractMedications(transcript.fullText).map(formatMedication).join('\n');
 
     for (const field of fields) {
       const normalizedLabel = this.normalizeFieldLabel(field.label || field.name);
       let matchedValue = '';
       let confidence = 0;
 
-      // Try to match field to patterns
-      for (const [patternKey, patterns] of Object.entries(fieldPatterns)) {
-        if (this.fieldMatchesPattern(normalizedLabel, patternKey)) {
-          for (const pattern of patterns) {
+      // Vitals inputs get the typed observation
+      const vitalValue = this.vitalFieldValue(normalizedLabel, latest);
+      if (vitalValue) {
+        steps.push({
+          fieldId: field.id,
+          fieldName: field.name,
+          value: vitalValue,
+          confidence: 0.95,
+          source: 'transcript'
+        });
+        continue;
+      }
+
+      // Try to match field to template sections
+      for (const section of sections) {
+        if (section.labels.some(label => normalizedLabel.includes(label))) {
+          if (section.medications && medicationList) {
+            matchedValue = medicationList;
+            confidence = 0.9;
+            break;
+          }
+
+          for (const pattern of section.cues) {
             const match = text.match(pattern);
             if (match && match[1]) {
               matchedValue = this.cleanExtractedValue(match[1]);
@@ -292,6 +336,53 @@ export class CommandRouter {
     return steps;
   }
 
+  /**
+   * Value for a vitals input: the number alone (in the unit the label
+   * asks for), or all vitals for a combined field
+   */
+  private vitalFieldValue(label: string, latest: Map<VitalType, VitalObservation>): string | null {
+    if (latest.size === 0) return null;
+
+    const field = VITAL_FIELDS.find(([pattern]) => pattern.test(label));
+    if (!field) {
+      if (!VITALS_SUMMARY_FIELD.test(label)) return null;
+      return Array.from(latest.values())
+        .map(observation => `${VITAL_ABBREVIATIONS[observation.type]} ${formatVital(observation)}`)
+        .join(', ');
+    }
+
+    const [, type, component] = field;
+    const observation = latest.get(type);
+    if (!observation) return null;
+
+    if (observation.type === 'blood_pressure') {
+      if (component === 'systolic') return String(observation.systolic);
+      if (component === 'diastolic') return String(observation.diastolic);
+      return `${observation.systolic}/${observation.diastolic}`;
+    }
+
+    return String(this.convertVitalUnit(observation.value, observation.unit, label));
+  }
+
+  /**
+   * Convert to the unit named in the field label (e.g. "Weight (kg)");
+   * "in" is inches only as a unit token ("Height (in)"), not in "Height in cm"
+   */
+  private convertVitalUnit(value: number, unit: string, label: string): number {
+    const round = (n: number) => Math.round(n * 10) / 10;
+    const centimeters = /\b(cm|centimeters?)\b/.test(label);
+    const inches = !centimeters && /(\(in\)|\binch(es)?\b)/.test(label);
+
+    if (unit === 'lb' && /\b(kg|kilograms?)\b/.test(label)) return round(value * 0.45359237);
+    if (unit === 'kg' && /\b(lbs?|pounds?)\b/.test(label)) return round(value / 0.45359237);
+    if (unit === 'in' && centimeters) return round(value * 2.54);
+    if (unit === 'cm' && inches) return round(value / 2.54);
+    if (unit === 'F' && /(\bc\b|°c|celsius)/.test(label)) return round((value - 32) * 5 / 9);
+    if (unit === 'C' && /(\bf\b|°f|fahrenheit)/.test(label)) return round(value * 9 / 5 + 32);
+
+    return value;
+  }
+
   /**
    * Normalize field label for matching
    */
@@ -303,24 +394,6 @@ export class CommandRouter {
       .trim();
   }
 
-  /**
-   * Check if field label matches a pattern category
-   */
-  private fieldMatchesPattern(normalizedLabel: string, patternKey: string): boolean {
-    const mappings: Record<string, string[]> = {
-      'chief_complaint': ['chief complaint', 'cc', 'reason for visit', 'presenting complaint'],
-      'history_present_illness': ['hpi', 'history of present illness', 'present illness', 'illness history'],
-      'assessment': ['assessment', 'diagnosis', 'impression', 'dx'],
-      'plan': ['plan', 'treatment', 'treatment plan', 'recommendations'],
-      'vitals': ['vitals', 'vital signs', 'bp', 'blood pressure', 'temp', 'temperature', 'heart rate', 'pulse'],
-      'medications': ['medications', 'meds', 'current medications', 'rx'],
-      'allergies': ['allergies', 'allergy', 'drug allergies', 'medication allergies']
-    };
-
-    const keywords = mappings[patternKey] || [];
-    return keywords.some(keyword => normalizedLabel.includes(keyword));
-  }
-
   /**
    * Clean extracted value
    */
@@ -0,0 +1,245 @@
+/**
+ * Note Templates - Sections per Specialty and Visit Type
+ *
+ * Loads the note template definitions shared with the backend (JSON files in
+ * NOTE_TEMPLATES_DIR, default: templates/ at the repository root; format in
+ * backend/lib/noteTemplates.ts). A template's sections drive autopilot
+ * scoring (weight, required, EHR labels, transcript cues) and fill-step
+ * generation (EHR labels, cues with the value in capture group 1).
+ *
+ * The generic primary-care template is built in; a file with the same id
+ * replaces it.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export interface TemplateSection {
+  id: string;
+  label: string;
+  required: boolean;
+  weight: number;
+  prompt: string;
+  summaryField?: string;
+  ehrLabels: string[];
+  cues: string[];
+}
+
+export interface NoteTemplate {
+  id: string;
+  name: string;
+  specialties: string[];
+  visitTypes: string[];
+  sections: TemplateSection[];
+}
+
+export const DEFAULT_TEMPLATE_ID = 'primary-care';
+
+// Generic primary-care visit (previously the hard-coded autopilot weights and fill patterns)
+const GENERIC_TEMPLATE: NoteTemplate = {
+  id: DEFAULT_TEMPLATE_ID,
+  name: 'Primary Care Visit',
+  specialties: [],
+  visitTypes: ['office visit', 'sick visit', 'follow-up'],
+  sections: [
+    {
+      id: 'chief_complaint',
+      label: 'Chief Complaint',
+      required: true,
+      weight: 20,
+      prompt: "Patient's main reason for the visit, one sentence",
+      summaryField: 'chiefComplaint',
+      ehrLabels: ['chief complaint', 'cc', 'reason for visit', 'presenting complaint'],
+      cues: [
+        '(?:chief complaint|cc|presenting with|came in for|here for)\\s*[:\\-]?\\s*(.+?)(?:\\.|$)',
+        'patient (?:presents|presented|complains?|came in) (?:with|of|for)\\s*(.+?)(?:\\.|$)',
+        '(?:complaining of|reports?)\\s+(.+?)(?:\\.|$)'
+      ]
+    },
+    {
+      id: 'hpi',
+      label: 'History of Present Illness',
+      required: true,
+      weight: 20,
+      prompt: 'History of present illness, a short paragraph',
+      summaryField: 'hpi',
+      ehrLabels: ['hpi', 'history of present illness', 'present illness', 'illness history'],
+      cues: [
+        '(?:hpi|history of present illness)[:\\-]?\\s*(.+?)(?:review of systems|ros|$)',
+        '(?:started|began|noticed|experiencing)\\s*(.+?)(?:\\.|$)',
+        '(?:history of|previously)\\s+(.+?)(?:\\.|$)'
+      ]
+    },
+    {
+      id: 'assessment',
+      label: 'Assessment',
+      required: true,
+      weight: 15,
+      prompt: "Clinician's assessment or working diagnosis",
+      summaryField: 'assessment',
+      ehrLabels: ['assessment', 'diagnosis', 'impression', 'dx'],
+      cues: [
+        '(?:assessment|diagnosis|impression)[:\\-]?\\s*(.+?)(?:plan|$)',
+        '(?:likely|appears to be|diagnosed with|consistent with|suggestive of)\\s*(.+?)(?:\\.|$)'
+      ]
+    },
+    {
+      id: 'plan',
+      label: 'Plan',
+      required: true,
+      weight: 15,
+      prompt: 'Plan steps: tests, treatments, referrals',
+      summaryField: 'plan',
+      ehrLabels: ['plan', 'treatment', 'treatment plan', 'recommendations'],
+      cues: [
+        '(?:plan|treatment|will)[:\\-]?\\s*(.+?)$',
+        '(?:prescribe|order|recommend)\\s*(.+?)(?:\\.|$)'
+      ]
+    },
+    {
+      id: 'vitals',
+      label: 'Vital Signs',
+      required: false,
+      weight: 10,
+      prompt: 'Vital signs with values, as stated',
+      ehrLabels: ['vitals', 'vital signs', 'bp', 'blood pressure', 'temp', 'temperature', 'heart rate', 'pulse'],
+      cues: [
+        '(?:blood pressure|bp)\\s*[:\\-]?\\s*(\\d+\\/\\d+)',
+        '(?:temperature|temp)\\s*[:\\-]?\\s*([\\d.]+)',
+        '(?:heart rate|hr|pulse)\\s*[:\\-]?\\s*(\\d+)'
+      ]
+    },
+    {
+      id: 'medications',
+      label: 'Medications',
+      required: false,
+      weight: 8,
+      prompt: 'Current and new medications with dose and frequency',
+      summaryField: 'medications',
+      ehrLabels: ['medications', 'meds', 'current medications', 'rx'],
+      cues: [
+        '(?:medications?|meds|rx)[:\\-]?\\s*(.+?)(?:\\.|$)',
+        '(?:taking|on)\\s+([\\w\\s,]+(?:\\d+\\s*mg)?)'
+      ]
+    },
+    {
+      id: 'allergies',
+      label: 'Allergies',
+      required: false,
+      weight: 7,
+      prompt: 'Drug and other allergies, or "NKDA"',
+      ehrLabels: ['allergies', 'allergy', 'drug allergies', 'medication allergies'],
+      cues: [
+        '(?:allergies?|allergic to)[:\\-]?\\s*(.+?)(?:\\.|$)',
+        '(no known (?:drug )?allergies|nkda)'
+      ]
+    },
+    {
+      id: 'review_of_systems',
+      label: 'Review of Systems',
+      required: false,
+      weight: 5,
+      prompt: 'Review of systems findings by system',
+      summaryField: 'ros',
+      ehrLabels: ['ros', 'review of systems'],
+      cues: []
+    }
+  ]
+};
+
+let templates: Map<string, NoteTemplate> | null = null;
+
+/**
+ * Load all templates (definitions are read once)
+ */
+export function loadNoteTemplates(
+  dir: string = process.env.NOTE_TEMPLATES_DIR || path.resolve('..', '..', 'templates')
+): Map<string, NoteTemplate> {
+  if (templates) return templates;
+
+  templates = new Map([[GENERIC_TEMPLATE.id, GENERIC_TEMPLATE]]);
+
+  if (!fs.existsSync(dir)) {
+    console.warn(`[NoteTemplates] ${dir} not found, using the built-in template only`);
+    return templates;
+  }
+
+  for (const file of fs.readdirSync(dir).filter(f => f.endsWith('.json')).sort()) {
+    try {
+      const template = parseNoteTemplate(JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')));
+      templates.set(template.id, template);
+    } catch (error) {
+      console.warn(`[NoteTemplates] Skipping ${file}:`, (error as Error).message);
+    }
+  }
+
+  console.log(`[NoteTemplates] Loaded ${templates.size} templates from ${dir}`);
+  return templates;
+}
+
+/**
+ * Get a template by id (the generic template for unknown/missing ids)
+ */
+export function getNoteTemplate(id?: string | null): NoteTemplate {
+  const all = loadNoteTemplates();
+  return (id && all.get(id)) || all.get(DEFAULT_TEMPLATE_ID)!;
+}
+
+export function hasNoteTemplate(id: unknown): boolean {
+  return typeof id === 'string' && loadNoteTemplates().has(id);
+}
+
+export function listNoteTemplates(): NoteTemplate[] {
+  return Array.from(loadNoteTemplates().values());
+}
+
+/**
+ * Compiled transcript cues for a section (case-insensitive)
+ */
+export function sectionCues(section: TemplateSection): RegExp[] {
+  return section.cues.map(cue => new RegExp(cue, 'i'));
+}
+
+/**
+ * Validate a template definition (throws on invalid input)
+ */
+function parseNoteTemplate(value: any): NoteTemplate {
+  if (!value || typeof value.id !== 'string' || !/^[a-z0-9-]+$/.test(value.id)) {
+    throw new Error('id must be a lowercase slug');
+  }
+  if (typeof value.name !== 'string' || !Array.isArray(value.sections) || value.sections.length === 0) {
+    throw new Error('name and a non-empty sections array are required');
+  }
+
+  const sections: TemplateSection[] = value.sections.map((s: any) => {
+    if (typeof s?.id !== 'string' || !s.id) {
+      throw new Error('every section needs an id');
+    }
+
+    const section: TemplateSection = {
+      id: s.id,
+      label: typeof s.label === 'string' ? s.label : s.id,
+      required: s.required === true,
+      weight: typeof s.weight === 'number' && s.weight >= 0 ? s.weight : 0,
+      prompt: typeof s.prompt === 'string' ? s.prompt : '',
+      summaryField: typeof s.summaryField === 'string' ? s.summaryField : undefined,
+      ehrLabels: stringList(s.ehrLabels).map(l => l.toLowerCase()),
+      cues: stringList(s.cues)
+    };
+
+    sectionCues(section); // throws on an invalid regex
+    return section;
+  });
+
+  return {
+    id: value.id,
+    name: value.name,
+    specialties: stringList(value.specialties),
+    visitTypes: stringList(value.visitTypes),
+    sections
+  };
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '') : [];
+}
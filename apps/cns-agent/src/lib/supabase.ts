@@ -6,7 +6,7 @@
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { TranscriptChunk, TranscriptRun, DomMap } from '../types/index.js';
+import { TranscriptChunk, TranscriptRun, TranscriptGap, DomMap } from '../types/index.js';
 
 let supabase: SupabaseClient | null = null;
 
@@ -202,6 +202,75 @@ export async function updatePatientInfo(
   console.log(`[Supabase] Updated patient info for transcript ${transcriptId}, patient UUID ${patientUuid}`);
 }
 
+/**
+ * Append an audio continuity gap to transcript metadata (metadata.gaps),
+ * in one UPDATE (append_transcript_metadata, migration 009)
+ */
+export async function appendTranscriptGap(
+  transcriptId: number,
+  gap: TranscriptGap
+): Promise<void> {
+  const client = getClient();
+
+  const { error } = await client.rpc('append_transcript_metadata', {
+    p_transcript_id: transcriptId,
+    p_key: 'gaps',
+    p_item: gap
+  });
+
+  if (error) {
+    console.error('[Supabase] Failed to record transcript gap:', error);
+    throw new Error(`Failed to record transcript gap: ${error.message}`);
+  }
+
+  console.log(`[Supabase] Recorded ${gap.recovered ? 'bridged' : 'unrecovered'} audio gap on transcript ${transcriptId}`);
+}
+
+/**
+ * Record the encounter's note template (metadata.note_template), merged in
+ * one UPDATE (merge_transcript_metadata, migration 009)
+ */
+export async function updateNoteTemplate(
+  transcriptId: number,
+  templateId: string
+): Promise<void> {
+  const client = getClient();
+
+  const { error } = await client.rpc('merge_transcript_metadata', {
+    p_transcript_id: transcriptId,
+    p_patch: { note_template: templateId }
+  });
+
+  if (error) {
+    console.error('[Supabase] Failed to record note template:', error);
+    throw new Error(`Failed to record note template: ${error.message}`);
+  }
+}
+
+/**
+ * Note template of the doctor's most recent encounter that has one
+ * (the doctor's default; no doctors table is used)
+ */
+export async function getLastNoteTemplate(userId: string): Promise<string | null> {
+  const client = getClient();
+
+  const { data, error } = await client
+    .from('transcripts2')
+    .select('metadata')
+    .eq('user_id', userId)
+    .not('metadata->>note_template', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[Supabase] Failed to get last note template:', error);
+    throw new Error(`Failed to get last note template: ${error.message}`);
+  }
+
+  return data?.metadata?.note_template || null;
+}
+
 /**
  * Get full transcript with chunks
  */
@@ -20,7 +20,9 @@ export interface TabSession {
   url: string;
   title: string;
   patientHint: PatientHint | null;
+  ehrSystem: string | null;    // EHR site adapter the overlay matched (null = heuristic mapping)
   domMap: DomField[] | null;
+  noteTemplate: string | null; // note template id for this tab's encounter
   registeredAt: number;
   lastSeen: number;
 }
@@ -55,7 +57,8 @@ export class TabManager {
     ws: WebSocket,
     url: string,
     title: string,
-    patientHint: PatientHint | null
+    patientHint: PatientHint | null,
+    ehrSystem: string | null = null
   ): { isActive: boolean; activeTabId: string | null } {
     const session: TabSession = {
       tabId,
@@ -63,13 +66,15 @@ export class TabManager {
       url,
       title,
       patientHint,
+      ehrSystem,
       domMap: null,
+      noteTemplate: null,
       registeredAt: Date.now(),
       lastSeen: Date.now()
     };
 
     this.tabs.set(tabId, session);
-    console.log(`[TabManager] Tab registered: ${tabId} (${url})`);
+    console.log(`[TabManager] Tab registered: ${tabId} (${url}${ehrSystem ? `, ${ehrSystem}` : ''})`);
 
     return {
       isActive: this.activeTabId === tabId,
@@ -179,6 +184,17 @@ export class TabManager {
     }
   }
 
+  /**
+   * Select the note template for a tab's encounter
+   */
+  setNoteTemplate(tabId: string, templateId: string): void {
+    const tab = this.tabs.get(tabId);
+    if (tab) {
+      tab.noteTemplate = templateId;
+      console.log(`[TabManager] Note template for tab ${tabId}: ${templateId}`);
+    }
+  }
+
   /**
    * Get active tab info
    */
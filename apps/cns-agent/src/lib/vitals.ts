@@ -0,0 +1,302 @@
+/**
+ * Vitals Parser - Typed Vital Sign Observations
+ *
+ * Extracts vital signs from the transcript: blood pressure, heart rate,
+ * temperature, respiratory rate, SpO2, weight, height and BMI. Spoken
+ * numbers are read first ("one twenty over eighty" → 120/80, "ninety-eight
+ * point six" → 98.6), units are normalized, and implausible values are
+ * dropped. Each distinct value said is kept, so a recheck with a new value
+ * is a second observation.
+ *
+ * Observations carry the transcript chunk they were heard in and the
+ * chunk's start time; values not yet in an assembled chunk have no source.
+ * The command router routes them to individual EHR vitals inputs.
+ */
+
+export type VitalType =
+  | 'blood_pressure'
+  | 'heart_rate'
+  | 'temperature'
+  | 'respiratory_rate'
+  | 'spo2'
+  | 'weight'
+  | 'height'
+  | 'bmi';
+
+interface ObservationSource {
+  text: string;              // phrase as heard (spoken numbers as digits)
+  chunkIndex: number | null; // transcript_chunk index
+  timestamp: number | null;  // seconds from recording start (chunk start)
+}
+
+export interface BloodPressureObservation extends ObservationSource {
+  type: 'blood_pressure';
+  systolic: number;
+  diastolic: number;
+  unit: 'mmHg';
+}
+
+export interface MeasurementObservation extends ObservationSource {
+  type: Exclude<VitalType, 'blood_pressure'>;
+  value: number;
+  unit: string;
+}
+
+export type VitalObservation = BloodPressureObservation | MeasurementObservation;
+
+export interface VitalsChunk {
+  index: number;
+  text: string;
+  start: number;
+}
+
+type Reading = BloodPressureObservation | MeasurementObservation;
+type Parser = (match: RegExpMatchArray) => Omit<Reading, keyof ObservationSource> | null;
+
+// Filler between the name and the value ("is", "was about"), within the sentence
+const LEAD = '[^\\d.!?;]{0,20}?';
+
+// A change in weight rather than a weight, in the match or just before it
+const WEIGHT_CHANGE = /\b(?:loss|lost|losing|gain|gained|gaining|down|up)\b/i;
+const WEIGHT_CHANGE_BEFORE = /\b(?:lost|losing|lose|gained|gaining|gain|put on|dropped)\b/i;
+
+const PATTERNS: Array<[RegExp, Parser]> = [
+  // Blood pressure, named or a bare "120 over 80"
+  [new RegExp(`(?:\\b(?:blood pressure|bp|pressure)\\b${LEAD})?\\b(\\d{2,3})\\s*(?:\\/|over)\\s*(\\d{2,3})\\b`, 'gi'), m => {
+    const systolic = parseInt(m[1]);
+    const diastolic = parseInt(m[2]);
+    return inRange(systolic, 60, 260) && inRange(diastolic, 30, 160) && systolic > diastolic
+      ? { type: 'blood_pressure', systolic, diastolic, unit: 'mmHg' }
+      : null;
+  }],
+  // Before heart rate: "pulse ox" is saturation
+  [new RegExp(`\\b(?:spo2|o2 sat(?:uration)?s?|oxygen sat(?:uration)?s?|oxygen level|sats?|satting|saturation|pulse ox(?:imetry)?)\\b${LEAD}(\\d{2,3})\\s*(?:%|percent)?`, 'gi'), m =>
+    measurement('spo2', parseInt(m[1]), '%', 50, 100)],
+  [new RegExp(`\\b(?:heart rate|pulse|hr)\\b${LEAD}(\\d{2,3})\\b`, 'gi'), m =>
+    measurement('heart_rate', parseInt(m[1]), 'bpm', 20, 250)],
+  [new RegExp(`\\b(?:temperature|temp|fever of)\\b${LEAD}(\\d{2,3}(?:\\.\\d+)?)\\s*(?:°|degrees?)?\\s*(f|fahrenheit|c|celsius|centigrade)?\\b`, 'gi'), m => {
+    const value = parseFloat(m[1]);
+    const celsius = m[2] ? /^c/i.test(m[2]) : value < 50;
+    return celsius ? measurement('temperature', value, 'C', 30, 45) : measurement('temperature', value, 'F', 86, 113);
+  }],
+  [new RegExp(`\\b(?:respiratory rate|respirations?|resp rate|breathing rate|rr)\\b${LEAD}(\\d{1,2})\\b`, 'gi'), m =>
+    measurement('respiratory_rate', parseInt(m[1]), 'breaths/min', 4, 60)],
+  [new RegExp(`\\b(?:weight|weighs|weighing|weighed)\\b${LEAD}(\\d{1,3}(?:\\.\\d+)?)\\s*(pounds?|lbs?|kilograms?|kilos?|kgs?)?\\b`, 'gi'), m => {
+    // "weight loss of 10 pounds", "lost weight, about 10 pounds" are not a weight
+    if (WEIGHT_CHANGE.test(m[0]) || WEIGHT_CHANGE_BEFORE.test(wordsBefore(m, 3))) return null;
+    const value = parseFloat(m[1]);
+    return m[2] && /^k/i.test(m[2]) ? measurement('weight', value, 'kg', 1, 350) : measurement('weight', value, 'lb', 2, 800);
+  }],
+  // "5 foot 6", "5 feet 6 inches", "5'6"
+  [/\b(\d)\s*(?:feet|foot|ft|')\s*(?:(\d{1,2})\s*(?:inches|inch|in|")?)?(?=\W|$)/gi, m =>
+    measurement('height', parseInt(m[1]) * 12 + (m[2] ? parseInt(m[2]) : 0), 'in', 12, 96)],
+  [new RegExp(`\\b(?:height|tall)\\b${LEAD}(\\d{2,3}(?:\\.\\d+)?)\\s*(centimeters?|cm|inches|in)\\b`, 'gi'), m =>
+    /^c/i.test(m[2])
+      ? measurement('height', parseFloat(m[1]), 'cm', 30, 250)
+      : measurement('height', parseFloat(m[1]), 'in', 12, 96)],
+  [new RegExp(`\\b(?:bmi|body mass index)\\b${LEAD}(\\d{2}(?:\\.\\d+)?)\\b`, 'gi'), m =>
+    measurement('bmi', parseFloat(m[1]), 'kg/m2', 10, 80)]
+];
+
+// ─────────────────────────────────────────────
+// Extraction
+// ─────────────────────────────────────────────
+
+/**
+ * Vital sign observations, in the order they were said
+ *
+ * Chunks give each value its source; the full text adds values said
+ * since the last assembled chunk.
+ */
+export function extractVitals(fullText: string, chunks: VitalsChunk[] = []): VitalObservation[] {
+  const observations: VitalObservation[] = [];
+  const seen = new Set<string>();
+
+  const add = (found: VitalObservation[]) => {
+    for (const observation of found) {
+      const key = observationKey(observation);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      observations.push(observation);
+    }
+  };
+
+  for (const chunk of [...chunks].sort((a, b) => a.index - b.index)) {
+    add(parseVitals(chunk.text, chunk.index, chunk.start));
+  }
+  add(parseVitals(fullText, null, null));
+
+  return observations;
+}
+
+/**
+ * Latest observation of each type (rechecks replace earlier values)
+ */
+export function latestVitals(observations: VitalObservation[]): Map<VitalType, VitalObservation> {
+  const latest = new Map<VitalType, VitalObservation>();
+  for (const observation of observations) {
+    latest.set(observation.type, observation);
+  }
+  return latest;
+}
+
+/**
+ * Display form, e.g. "120/80 mmHg", "98.6 F"
+ */
+export function formatVital(observation: VitalObservation): string {
+  return observation.type === 'blood_pressure'
+    ? `${observation.systolic}/${observation.diastolic} ${observation.unit}`
+    : `${observation.value} ${observation.unit}`;
+}
+
+function parseVitals(text: string, chunkIndex: number | null, timestamp: number | null): VitalObservation[] {
+  const normalized = spokenNumbersToDigits(text);
+  const found: Array<{ at: number; observation: VitalObservation }> = [];
+  const claimed: Array<[number, number]> = [];
+
+  for (const [pattern, parse] of PATTERNS) {
+    for (const match of normalized.matchAll(pattern)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      // A number belongs to one vital ("bp 120 over 80 pulse 72")
+      if (claimed.some(([s, e]) => start < e && end > s)) continue;
+
+      const reading = parse(match);
+      if (!reading) continue;
+
+      claimed.push([start, end]);
+      found.push({
+        at: start,
+        observation: { ...reading, text: match[0].trim(), chunkIndex, timestamp } as VitalObservation
+      });
+    }
+  }
+
+  return found.sort((a, b) => a.at - b.at).map(f => f.observation);
+}
+
+function measurement(
+  type: MeasurementObservation['type'],
+  value: number,
+  unit: string,
+  min: number,
+  max: number
+): Omit<MeasurementObservation, keyof ObservationSource> | null {
+  return inRange(value, min, max) ? { type, value, unit } : null;
+}
+
+/**
+ * The last words before a match, within its clause
+ */
+function wordsBefore(match: RegExpMatchArray, count: number): string {
+  const clause = match.input!.slice(0, match.index).split(/[.!?;,]/).pop() || '';
+  return clause.trim().split(/\s+/).slice(-count).join(' ');
+}
+
+function inRange(value: number, min: number, max: number): boolean {
+  return !isNaN(value) && value >= min && value <= max;
+}
+
+function observationKey(observation: VitalObservation): string {
+  return observation.type === 'blood_pressure'
+    ? `${observation.type}:${observation.systolic}/${observation.diastolic}`
+    : `${observation.type}:${observation.value}${observation.unit}`;
+}
+
+// ─────────────────────────────────────────────
+// Spoken numbers
+// ─────────────────────────────────────────────
+
+const ONES: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9
+};
+
+const TEENS: Record<string, number> = {
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15,
+  sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19
+};
+
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90
+};
+
+const NUMBER_WORD = '(?:zero|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety|hundred|oh)';
+
+// A run of number words, optionally with "a hundred", "and" and a decimal part
+const NUMBER_RUN = new RegExp(
+  `\\b(?:a\\s+(?=hundred))?${NUMBER_WORD}(?:(?:\\s+|-)(?:and\\s+)?${NUMBER_WORD})*(?:\\s+point(?:\\s+${NUMBER_WORD})+)?\\b`,
+  'gi'
+);
+
+/**
+ * Replace spoken numbers with digits; clinical shorthand reads digit
+ * groups in sequence ("one twenty" → 120, "one oh five" → 105)
+ */
+export function spokenNumbersToDigits(text: string): string {
+  return text.replace(NUMBER_RUN, run => {
+    const [whole, fraction] = run.toLowerCase().split(/\s+point\s+/);
+    const digits = wordsToDigits(whole.replace(/^a\s+/, 'one ').split(/[\s-]+/));
+    if (digits === null) return run;
+    if (!fraction) return digits;
+
+    const decimals = fraction.split(/\s+/).map(w => (w === 'oh' ? 0 : ONES[w])).filter(d => d !== undefined);
+    return decimals.length > 0 ? `${digits}.${decimals.join('')}` : digits;
+  });
+}
+
+function wordsToDigits(words: string[]): string | null {
+  const groups: string[] = [];
+  let current: number | null = null;
+  let kind: 'ones' | 'teens' | 'tens' | 'hundred' | null = null;
+
+  const flush = () => {
+    if (current !== null) groups.push(String(current));
+    current = null;
+    kind = null;
+  };
+
+  // "oh" alone is an interjection
+  if (words[0] === 'oh') return null;
+
+  for (const word of words) {
+    if (word === 'and') {
+      if (kind !== 'hundred') return null;
+    } else if (word === 'oh') {
+      flush();
+      groups.push('0');
+    } else if (word === 'hundred') {
+      if (current === null || kind !== 'ones') return null;
+      current *= 100;
+      kind = 'hundred';
+    } else if (word in ONES) {
+      if (current !== null && (kind === 'tens' || kind === 'hundred')) {
+        current += ONES[word];
+      } else {
+        flush();
+        current = ONES[word];
+      }
+      kind = 'ones';
+    } else if (word in TEENS) {
+      if (current !== null && kind === 'hundred') {
+        current += TEENS[word];
+      } else {
+        flush();
+        current = TEENS[word];
+      }
+      kind = 'teens';
+    } else if (word in TENS) {
+      if (current !== null && kind === 'hundred') {
+        current += TENS[word];
+      } else {
+        flush();
+        current = TENS[word];
+      }
+      kind = 'tens';
+    } else {
+      return null;
+    }
+  }
+
+  flush();
+  return groups.length > 0 ? groups.join('') : null;
+}
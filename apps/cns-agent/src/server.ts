@@ -7,6 +7,7 @@
  * - /dom: DOM recognition for patient binding
  * - /patient/current: Get latest transcript for user
  * - /transcripts/:id: Get specific transcript
+ * - /templates: Note templates (per specialty and visit type)
  */
 
 import express, { Request, Response } from 'express';
@@ -15,20 +16,24 @@ import { createServer } from 'http';
 import { WebSocketServer, WebSocket } from 'ws';
 import { config } from 'dotenv';
 import { WsBridge } from './lib/ws-bridge.js';
-import { DeepgramConsumer } from './audio/deepgram-consumer.js';
+import { createTranscriptionProvider, resolveProviderName } from './audio/transcription-provider.js';
 import { TabManager, DomMap, PatientHint } from './lib/tab-manager.js';
 import { CommandRouter, CommandAction } from './lib/command-router.js';
 import { Autopilot } from './lib/autopilot.js';
+import { getNoteTemplate, hasNoteTemplate, listNoteTemplates } from './lib/note-templates.js';
 import {
   createTranscriptRun,
   saveTranscriptChunks,
   completeTranscriptRun,
+  appendTranscriptGap,
   updatePatientInfo,
   getTranscript,
   getLatestTranscript,
+  getLastNoteTemplate,
+  updateNoteTemplate,
   generateEphemeralPatientCode
 } from './lib/supabase.js';
-import { TranscriptChunk, TranscriptEvent } from './types/index.js';
+import { TranscriptChunk, TranscriptEvent, TranscriptGap, TranscriptionProvider } from './types/index.js';
 
 // Load environment variables
 config();
@@ -80,6 +85,7 @@ app.get('/health', (_req: Request, res: Response) => {
     timestamp: new Date().toISOString(),
     version: '1.0.0',
     service: 'cns-agent',
+    transcription: resolveProviderName(),
     feeds: {
       A: wsBridge.getFeedStatus('A'),
       B: wsBridge.getFeedStatus('B'),
@@ -190,6 +196,7 @@ app.get('/tabs', (_req: Request, res: Response) => {
     url: tab.url,
     title: tab.title,
     patientHint: tab.patientHint,
+    ehrSystem: tab.ehrSystem,
     isActive: tab.tabId === tabManager.getActiveTabId(),
     registeredAt: tab.registeredAt,
     lastSeen: tab.lastSeen
@@ -218,6 +225,21 @@ app.get('/autopilot/:tabId', (req: Request, res: Response) => {
   res.json(report);
 });
 
+/**
+ * List note templates (sections drive autopilot scoring and fill steps)
+ */
+app.get('/templates', (_req: Request, res: Response) => {
+  const templates = listNoteTemplates().map(template => ({
+    id: template.id,
+    name: template.name,
+    specialties: template.specialties,
+    visitTypes: template.visitTypes,
+    sections: template.sections.map(({ id, label, required }) => ({ id, label, required }))
+  }));
+
+  res.json({ templates, count: templates.length });
+});
+
 // ============================================================================
 // WebSocket Setup
 // ============================================================================
@@ -236,8 +258,9 @@ interface Session {
   userId: string;
   tabId: string | null;
   transcriptId: number | null;
-  deepgram: DeepgramConsumer | null;
+  transcriber: TranscriptionProvider | null;
   pendingChunks: TranscriptChunk[];
+  chunks: TranscriptChunk[]; // all chunks of the current recording, by transcript_chunk index
   isRecording: boolean;
   saveTimer: NodeJS.Timeout | null;
   fullTranscript: string;
@@ -257,8 +280,9 @@ wss.on('connection', (ws: WebSocket, req) => {
     userId,
     tabId: null,
     transcriptId: null,
-    deepgram: null,
+    transcriber: null,
     pendingChunks: [],
+    chunks: [],
     isRecording: false,
     saveTimer: null,
     fullTranscript: ''
@@ -300,8 +324,8 @@ wss.on('connection', (ws: WebSocket, req) => {
 async function handleMessage(session: Session, data: any): Promise<void> {
   // Binary data = audio
   if (Buffer.isBuffer(data)) {
-    if (session.deepgram && session.isRecording) {
-      session.deepgram.sendAudio(data);
+    if (session.transcriber && session.isRecording) {
+      session.transcriber.sendAudio(data);
     }
     return;
   }
@@ -352,6 +376,10 @@ async function handleCommand(session: Session, message: any): Promise<void> {
       await handleCommand2(session, message);
       break;
 
+    case 'set_template':
+      await handleSetTemplate(session, message);
+      break;
+
     // Heartbeat
     case 'ping':
       send(session.ws, { type: 'pong', timestamp: Date.now() });
@@ -366,7 +394,7 @@ async function handleCommand(session: Session, message: any): Promise<void> {
  * Handle hello message - register a browser tab
  */
 async function handleHello(session: Session, message: any): Promise<void> {
-  const { tabId, url, title, patientHint } = message;
+  const { tabId, url, title, patientHint, ehrSystem } = message;
 
   if (!tabId) {
     send(session.ws, { type: 'error', error: 'Missing tabId in hello message' });
@@ -375,13 +403,27 @@ async function handleHello(session: Session, message: any): Promise<void> {
 
   session.tabId = tabId;
 
-  const result = tabManager.registerTab(tabId, session.ws, url || '', title || '', patientHint || null);
+  const result = tabManager.registerTab(
+    tabId,
+    session.ws,
+    url || '',
+    title || '',
+    patientHint || null,
+    typeof ehrSystem === 'string' ? ehrSystem : null
+  );
+
+  // Note template: requested by the tab, else the doctor's last one
+  const templateId = hasNoteTemplate(message.template)
+    ? message.template
+    : await getLastNoteTemplate(session.userId).catch(() => null);
+  tabManager.setNoteTemplate(tabId, getNoteTemplate(templateId).id);
 
   send(session.ws, {
     type: 'hello_ack',
     tabId,
     isActive: result.isActive,
-    activeTabId: result.activeTabId
+    activeTabId: result.activeTabId,
+    template: getNoteTemplate(templateId).id
   });
 
   console.log(`[Server] Tab registered: ${tabId}`);
@@ -523,10 +565,11 @@ async function handleCommand2(session: Session, message: any): Promise<void> {
   if (session.fullTranscript) {
     commandRouter.updateTranscript(tabId, {
       fullText: session.fullTranscript,
-      chunks: session.pendingChunks.map(c => ({
+      chunks: session.chunks.map((c, index) => ({
+        index,
         speaker: c.speaker || 0,
         text: c.text,
-        timestamp: c.timestamp
+        start: c.start
       }))
     });
   }
@@ -545,6 +588,37 @@ async function handleCommand2(session: Session, message: any): Promise<void> {
   console.log(`[Server] Command ${action}: ${result.success ? 'success' : 'failed'}`);
 }
 
+/**
+ * Select the note template for this tab's encounter
+ */
+async function handleSetTemplate(session: Session, message: any): Promise<void> {
+  const tabId = session.tabId || message.tabId;
+
+  if (!tabId) {
+    send(session.ws, { type: 'error', error: 'Tab not registered' });
+    return;
+  }
+
+  if (!hasNoteTemplate(message.templateId)) {
+    send(session.ws, { type: 'error', error: `Unknown template: ${message.templateId}` });
+    return;
+  }
+
+  tabManager.setNoteTemplate(tabId, message.templateId);
+
+  // Remembered as the doctor's default through the transcript
+  if (session.transcriptId) {
+    updateNoteTemplate(session.transcriptId, message.templateId).catch((error) => {
+      console.error('[Server] Failed to record note template:', error);
+    });
+  }
+
+  send(session.ws, { type: 'template_set', tabId, templateId: message.templateId });
+
+  // Required fields and weights changed
+  send(session.ws, { type: 'autopilot', data: autopilot.calculateCoverage(tabId) });
+}
+
 /**
  * Start recording
  */
@@ -565,9 +639,19 @@ async function startRecording(session: Session, message: any): Promise<void> {
       message.patientUuid || null
     );
     session.transcriptId = transcriptId;
+    session.chunks = [];
 
-    // Initialize Deepgram
-    session.deepgram = new DeepgramConsumer({
+    // Note template for this encounter (may be changed with set_template)
+    if (session.tabId && hasNoteTemplate(message.template)) {
+      tabManager.setNoteTemplate(session.tabId, message.template);
+    }
+    const templateId = getNoteTemplate(session.tabId ? tabManager.getTab(session.tabId)?.noteTemplate : null).id;
+    updateNoteTemplate(transcriptId, templateId).catch((error) => {
+      console.error('[Server] Failed to record note template:', error);
+    });
+
+    // Initialize transcription provider (Deepgram or local)
+    session.transcriber = createTranscriptionProvider({
       onTranscript: (event: TranscriptEvent) => {
         // Accumulate full transcript for autopilot
         if (event.isFinal) {
@@ -597,18 +681,26 @@ async function startRecording(session: Session, message: any): Promise<void> {
       onChunk: (chunk: TranscriptChunk) => {
         // Queue chunk for batch save
         session.pendingChunks.push(chunk);
+        session.chunks.push(chunk);
       },
       onError: (error: Error) => {
-        console.error('[Server] Deepgram error:', error);
+        console.error(`[Server] Transcription error (${session.transcriber?.name}):`, error);
         wsBridge.updateFeedStatus('A', 'error');
         send(session.ws, { type: 'error', error: error.message });
       },
       onClose: () => {
         wsBridge.updateFeedStatus('A', 'disconnected');
+      },
+      onGap: (gap: TranscriptGap) => {
+        // Mark the outage in transcript metadata
+        send(session.ws, { type: 'transcription_gap', transcriptId, gap });
+        appendTranscriptGap(transcriptId, gap).catch((error) => {
+          console.error('[Server] Failed to record transcription gap:', error);
+        });
       }
     });
 
-    await session.deepgram.connect();
+    await session.transcriber.connect();
     session.isRecording = true;
 
     // Update Feed A status
@@ -642,10 +734,10 @@ async function stopRecording(session: Session): Promise<void> {
   }
 
   try {
-    // Stop Deepgram
-    if (session.deepgram) {
-      session.deepgram.disconnect();
-      session.deepgram = null;
+    // Stop transcription provider; the last segment's chunks arrive before this resolves
+    if (session.transcriber) {
+      await session.transcriber.disconnect();
+      session.transcriber = null;
     }
 
     session.isRecording = false;
@@ -701,14 +793,12 @@ async function savePendingChunks(session: Session): Promise<void> {
  * Cleanup session
  */
 function cleanupSession(session: Session): void {
-  if (session.deepgram) {
-    session.deepgram.disconnect();
-  }
+  const transcriberClosed = session.transcriber?.disconnect() ?? Promise.resolve();
   if (session.saveTimer) {
     clearInterval(session.saveTimer);
   }
   if (session.transcriptId) {
-    savePendingChunks(session);
+    void transcriberClosed.then(() => savePendingChunks(session));
   }
 }
 
@@ -27,6 +27,42 @@ export interface TranscriptEvent {
   isFinal: boolean;
 }
 
+// ============================================================================
+// Transcription Providers
+// ============================================================================
+
+export type TranscriptionProviderName = 'deepgram' | 'local' | 'replay';
+
+export interface TranscriptionProviderConfig {
+  onTranscript: (event: TranscriptEvent) => void;
+  onChunk: (chunk: TranscriptChunk) => void;
+  onError: (error: Error) => void;
+  onClose: () => void;
+  onGap?: (gap: TranscriptGap) => void; // audio outage bridged (or not) by a reconnect
+}
+
+/**
+ * Audio continuity gap across a Deepgram reconnect (stored in metadata.gaps)
+ */
+export interface TranscriptGap {
+  start: number;           // timeline seconds where the outage began
+  end: number;             // timeline seconds where live audio resumed
+  bufferedSeconds: number; // audio replayed from the backlog
+  droppedSeconds: number;  // audio lost during the outage
+  startedAt: number;       // wall clock
+  endedAt: number;
+  recovered: boolean;
+}
+
+export interface TranscriptionProvider {
+  readonly name: TranscriptionProviderName;
+  connect(): Promise<void>;
+  sendAudio(data: Buffer): void;
+  /** Resolves once the last results (and chunks) have been delivered */
+  disconnect(): Promise<void>;
+  getConnectionState(): boolean;
+}
+
 // ============================================================================
 // Transcript Chunks
 // ============================================================================
@@ -0,0 +1,59 @@
+/**
+ * Vitals parser: spoken numbers, units and typed observations, and
+ * weight changes that are not a weight
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractVitals, spokenNumbersToDigits } from '../src/lib/vitals.js';
+
+function values(text: string): string[] {
+  return extractVitals(text).map((o) =>
+    o.type === 'blood_pressure' ? `${o.type} ${o.systolic}/${o.diastolic}` : `${o.type} ${o.value} ${o.unit}`
+  );
+}
+
+test('spoken numbers become digits', () => {
+  assert.equal(spokenNumbersToDigits('one twenty over eighty'), '120 over 80');
+  assert.equal(spokenNumbersToDigits('ninety-eight point six'), '98.6');
+  assert.equal(spokenNumbersToDigits('one oh five'), '105');
+  assert.equal(spokenNumbersToDigits('a hundred and twelve'), '112');
+  assert.equal(spokenNumbersToDigits('oh that hurts'), 'oh that hurts');
+});
+
+test('vitals are read with their units', () => {
+  assert.deepEqual(
+    values('Blood pressure is one twenty over eighty, heart rate seventy two, temp ninety-eight point six, sats ninety eight percent.'),
+    ['blood_pressure 120/80', 'heart_rate 72 bpm', 'temperature 98.6 F', 'spo2 98 %']
+  );
+  assert.deepEqual(values('Weight 82 kilos, height 170 cm, BMI 28.4'), [
+    'weight 82 kg', 'height 170 cm', 'bmi 28.4 kg/m2'
+  ]);
+  assert.deepEqual(values('She is 5 foot 6'), ['height 66 in']);
+  assert.deepEqual(values('Temperature 38.5'), ['temperature 38.5 C']);
+});
+
+test('implausible values are dropped', () => {
+  assert.deepEqual(values('pulse 400'), []);
+  assert.deepEqual(values('80 over 120'), []);
+});
+
+test('a recheck with a new value is a second observation', () => {
+  assert.deepEqual(values('BP 150/95. Recheck BP 138/88. BP 138/88'), [
+    'blood_pressure 150/95', 'blood_pressure 138/88'
+  ]);
+});
+
+test('weight changes are not a weight', () => {
+  assert.deepEqual(values('weight loss of 10 pounds'), []);
+  assert.deepEqual(values('she lost weight, about 10 pounds'), []);
+  assert.deepEqual(values('gained some weight, maybe 15 pounds'), []);
+  assert.deepEqual(values('She lost some weight. Weight today 180 pounds'), ['weight 180 lb']);
+});
+
+test('observations keep the chunk they were heard in', () => {
+  const [observation] = extractVitals('', [{ index: 3, text: 'heart rate 88', start: 12.5 }]);
+
+  assert.equal(observation.chunkIndex, 3);
+  assert.equal(observation.timestamp, 12.5);
+});
@@ -43,6 +43,13 @@ const builds = [
     outfile: join(distDir, 'content.js'),
     format: 'iife',
   },
+  {
+    // Runs in the page's JavaScript world (rich-text editor APIs)
+    name: 'page-editors',
+    entryPoints: [join(__dirname, 'src/page-editors.ts')],
+    outfile: join(distDir, 'page-editors.js'),
+    format: 'iife',
+  },
   {
     name: 'background',
     entryPoints: [join(__dirname, 'src/background.ts')],
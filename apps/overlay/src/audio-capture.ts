@@ -102,6 +102,26 @@ export class AudioCapture {
     return this._isRecording;
   }
 
+  /**
+   * HTTP base URL of the backend serving the websocket
+   */
+  public getServerUrl(): string {
+    const url = new URL(this.config.websocketUrl);
+    url.protocol = url.protocol === 'wss:' ? 'https:' : 'http:';
+    return url.origin;
+  }
+
+  /**
+   * Send a JSON control message to the agent
+   */
+  public sendMessage(message: object): void {
+    if (this.websocket?.readyState === WebSocket.OPEN) {
+      this.websocket.send(JSON.stringify(message));
+    } else {
+      console.warn('[AudioCapture] Cannot send message, websocket not open');
+    }
+  }
+
   private async connectWebSocket(): Promise<void> {
     return new Promise((resolve, reject) => {
       console.log(`[AudioCapture] Connecting to ${this.config.websocketUrl}...`);
@@ -166,10 +186,23 @@ export class AudioCapture {
         case 'transcript':
           this.bridge.emit('transcript', {
             id: message.id || `${Date.now()}`,
-            speaker: message.speaker || 'Unknown',
+            speaker: message.speaker !== undefined ? String(message.speaker) : 'Unknown',
             text: message.text,
             timestamp: message.timestamp || Date.now(),
-            isFinal: message.is_final ?? true
+            isFinal: message.is_final ?? true,
+            words: message.words,
+            language: message.language,
+            start: message.start,
+            end: message.end
+          });
+          break;
+
+        case 'chunk':
+          // Ties the transcript lines within start..end to the saved chunk
+          this.bridge.emit('chunk', {
+            index: message.index,
+            start: message.start,
+            end: message.end
           });
           break;
 
@@ -182,6 +215,93 @@ export class AudioCapture {
           console.log('[AudioCapture] Server status:', message);
           break;
 
+        case 'retranscription':
+          this.bridge.emit('retranscription', {
+            transcriptId: message.transcriptId,
+            stage: message.stage,
+            progress: message.progress,
+            queuePosition: message.queuePosition,
+            error: message.error
+          });
+          break;
+
+        case 'speaker_roles':
+          this.bridge.emit('speaker-roles', {
+            transcriptId: message.transcriptId,
+            roles: message.roles
+          });
+          break;
+
+        case 'review_items':
+          this.bridge.emit('review-items', {
+            transcriptId: message.transcriptId,
+            items: message.items
+          });
+          break;
+
+        case 'review_corrected':
+          this.bridge.emit('review-corrected', {
+            transcriptId: message.transcriptId,
+            chunkIndex: message.chunkIndex,
+            wordStart: message.wordStart,
+            wordEnd: message.wordEnd,
+            text: message.text
+          });
+          break;
+
+        case 'transcript_edit':
+          this.bridge.emit('transcript-edit', {
+            transcriptId: message.transcriptId,
+            chunkIndex: message.chunkIndex,
+            chunk: message.chunk,
+            revision: message.revision,
+            editedBy: message.editedBy,
+            reason: message.reason
+          });
+          break;
+
+        case 'vocabulary':
+          this.bridge.emit('vocabulary', {
+            doctorId: message.doctorId,
+            entries: message.entries
+          });
+          break;
+
+        case 'field_mappings':
+          this.bridge.emit('field-mappings', {
+            doctorId: message.doctorId,
+            mappings: message.mappings
+          });
+          break;
+
+        case 'interim_summary':
+          this.bridge.emit('interim-summary', {
+            transcriptId: message.transcriptId,
+            interim: message.interim
+          });
+          break;
+
+        case 'soap_note':
+          this.bridge.emit('soap-note', {
+            transcriptId: message.transcriptId,
+            note: message.note
+          });
+          break;
+
+        case 'problem_list':
+          this.bridge.emit('problem-list', {
+            transcriptId: message.transcriptId,
+            list: message.list
+          });
+          break;
+
+        case 'task_list':
+          this.bridge.emit('task-list', {
+            transcriptId: message.transcriptId,
+            tasks: message.tasks
+          });
+          break;
+
         default:
           console.log('[AudioCapture] Unknown message type:', message.type);
       }
@@ -78,6 +78,15 @@ chrome.action.onClicked.addListener((tab) => {
     }).catch(err => {
       console.error('[Background] Failed to inject content script:', err);
     });
+
+    // Rich-text editor bridge, in the page's JavaScript world
+    chrome.scripting.executeScript({
+      target: { tabId: tab.id },
+      files: ['dist/page-editors.js'],
+      world: 'MAIN'
+    }).catch(err => {
+      console.error('[Background] Failed to inject page editor bridge:', err);
+    });
   }
 });
 
@@ -7,6 +7,7 @@
 
 export type BridgeEventType =
   | 'transcript'
+  | 'chunk'
   | 'connection'
   | 'patient'
   | 'start-recording'
@@ -20,6 +21,33 @@ export type BridgeEventType =
   | 'fields-changed'
   | 'get-patient-info'
   | 'server-error'
+  | 'retranscription'
+  | 'speaker-roles'
+  | 'set-speaker-role'
+  | 'review-items'
+  | 'review-corrected'
+  | 'correct-words'
+  | 'transcript-edit'
+  | 'vocabulary'
+  | 'get-vocabulary'
+  | 'save-vocabulary-entry'
+  | 'delete-vocabulary-entry'
+  | 'interim-summary'
+  | 'soap-note'
+  | 'problem-list'
+  | 'fill-diagnosis-code'
+  | 'diagnosis-code-step'
+  | 'task-list'
+  | 'set-task-state'
+  | 'fill-task'
+  | 'task-step'
+  | 'print-avs'
+  | 'ehr-system'
+  | 'field-mappings'
+  | 'get-field-mappings'
+  | 'save-field-mapping'
+  | 'delete-field-mapping'
+  | 'avs-opened'
   | 'toggle-overlay';
 
 type EventCallback<T = unknown> = (data: T) => void | Promise<void>;
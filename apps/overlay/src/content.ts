@@ -10,7 +10,17 @@
 import { FerrariOverlay } from './overlay';
 import { Bridge } from './bridge';
 import { AudioCapture } from './audio-capture';
-import { DOMMapper } from './domMapper';
+import { DOMMapper, FieldCategory, LearnedMapping } from './domMapper';
+import type { FillStep } from './smart-fill';
+
+// EHR fields a task goes into, first found wins
+const TASK_FIELDS: Record<string, FieldCategory[]> = {
+  lab: ['orders', 'plan', 'notes'],
+  imaging: ['orders', 'plan', 'notes'],
+  referral: ['orders', 'plan', 'notes'],
+  prescription: ['orders', 'medications', 'plan'],
+  follow_up: ['follow_up', 'plan', 'notes']
+};
 
 // Prevent multiple injections
 if ((window as any).__GHOST_NEXT_INJECTED__) {
@@ -40,6 +50,9 @@ async function initializeOverlay(): Promise<void> {
     // Setup bridge handlers
     setupBridgeHandlers(bridge, audioCapture, domMapper);
 
+    // EHR site adapter for this page (reported to the overlay)
+    domMapper.detectAdapter();
+
     // Connect to background service worker
     await bridge.connect();
 
@@ -74,10 +87,104 @@ function setupBridgeHandlers(
     }
   });
 
-  // Handle DOM mapping commands
-  bridge.on('map-fields', () => {
-    const fields = domMapper.detectFields();
-    bridge.emit('fields-detected', { fields });
+  // Manual speaker role override from the transcript view
+  bridge.on('set-speaker-role', (data) => {
+    audioCapture.sendMessage({ type: 'set_speaker_role', ...(data as object) });
+  });
+
+  // Inline correction from the review queue
+  bridge.on('correct-words', (data) => {
+    audioCapture.sendMessage({ type: 'correct_words', ...(data as object) });
+  });
+
+  // Vocabulary editor (Settings tab)
+  bridge.on('get-vocabulary', () => {
+    audioCapture.sendMessage({ type: 'get_vocabulary' });
+  });
+
+  bridge.on('save-vocabulary-entry', (data) => {
+    audioCapture.sendMessage({ type: 'save_vocabulary_entry', ...(data as object) });
+  });
+
+  bridge.on('delete-vocabulary-entry', (data) => {
+    audioCapture.sendMessage({ type: 'delete_vocabulary_entry', ...(data as object) });
+  });
+
+  // Handle DOM mapping commands (elements stay in the page)
+  const emitDetectedFields = () => {
+    const fields = domMapper.detectFields().map(({ element, ...field }) => field);
+    bridge.emit('fields-detected', { ...domMapper.getPageKey(), fields });
+  };
+
+  bridge.on('map-fields', emitDetectedFields);
+
+  // Learned field mappings (Mapping tab), stored per doctor by the backend
+  bridge.on('get-field-mappings', () => {
+    audioCapture.sendMessage({ type: 'get_field_mappings' });
+  });
+
+  bridge.on('save-field-mapping', (data) => {
+    audioCapture.sendMessage({ type: 'save_field_mapping', ...(data as object) });
+  });
+
+  bridge.on('delete-field-mapping', (data) => {
+    audioCapture.sendMessage({ type: 'delete_field_mapping', ...(data as object) });
+  });
+
+  bridge.on('field-mappings', (data) => {
+    domMapper.setLearnedMappings((data as { mappings: LearnedMapping[] }).mappings || []);
+    emitDetectedFields();
+  });
+
+  // Code suggestion and task fills from the Tasks tab; the overlay previews
+  // and writes the steps (smart-fill.ts), so they can be reviewed and undone
+  bridge.on('fill-diagnosis-code', (data) => {
+    const { code, confidence } = data as { code: string; confidence: number };
+    const field = domMapper.findDiagnosisCodeField(code);
+    const entered = !!field && field.value.trim().toUpperCase() === code.toUpperCase();
+    const step: FillStep | null = field && !entered
+      ? { fieldId: field.id, fieldName: field.label || field.id, value: code, confidence, source: 'inferred' }
+      : null;
+    bridge.emit('diagnosis-code-step', {
+      code,
+      step,
+      field: field?.label || field?.id || null
+    });
+  });
+
+  // Tasks tab checklist
+  bridge.on('set-task-state', (data) => {
+    audioCapture.sendMessage({ type: 'set_task_state', ...(data as object) });
+  });
+
+  bridge.on('fill-task', (data) => {
+    const { taskId, kind, text } = data as { taskId: string; kind: string; text: string };
+    const field = domMapper.findAppendField(TASK_FIELDS[kind] || ['plan', 'notes']);
+    const entered = !!field && field.value.includes(text);
+    const step: FillStep | null = field && !entered
+      ? {
+          fieldId: field.id,
+          fieldName: field.label || field.id,
+          value: text,
+          confidence: 1,
+          source: 'transcript',
+          mode: 'append',
+          separator: domMapper.getAppendSeparator()
+        }
+      : null;
+    bridge.emit('task-step', {
+      taskId,
+      step,
+      field: field?.label || field?.id || null
+    });
+  });
+
+  // Patient after-visit summary, opened for printing
+  bridge.on('print-avs', (data) => {
+    const { transcriptId, language } = data as { transcriptId: number; language: string };
+    const query = new URLSearchParams({ print: '1', ...(language ? { language } : {}) });
+    const opened = window.open(`${audioCapture.getServerUrl()}/transcripts/${transcriptId}/avs?${query}`, '_blank');
+    bridge.emit('avs-opened', { transcriptId, success: !!opened });
   });
 
   bridge.on('get-patient-info', () => {
@@ -0,0 +1,134 @@
+/**
+ * Deep DOM Traversal
+ *
+ * EHR note editors are often web components or embedded frames, which
+ * document.querySelectorAll does not reach. The page is walked as a tree
+ * of scopes: the document, every open shadow root and every same-origin
+ * frame's document. Closed shadow roots and cross-origin frames cannot be
+ * read and are skipped.
+ *
+ * A field inside a shadow root or frame gets a scoped selector: the
+ * selectors of the hosts and frames on the way down, then the selector
+ * within the innermost scope, joined by " >>> ", e.g.
+ * `#noteFrame >>> note-editor >>> textarea.body`. Plain selectors (fields
+ * of the top document, site adapters, mappings saved before) resolve in
+ * the document as before.
+ */
+
+export const SCOPE_SEPARATOR = ' >>> ';
+
+export type DomScope = Document | ShadowRoot;
+
+/**
+ * Every readable scope under root, root first
+ */
+export function collectScopes(root: DomScope = document): DomScope[] {
+  const scopes: DomScope[] = [];
+  const seen = new Set<DomScope>();
+
+  const visit = (scope: DomScope) => {
+    if (seen.has(scope)) return;
+    seen.add(scope);
+    scopes.push(scope);
+
+    for (const element of Array.from(scope.querySelectorAll('*'))) {
+      const inner = innerScope(element);
+      if (inner) visit(inner);
+    }
+  };
+
+  visit(root);
+  return scopes;
+}
+
+/**
+ * All elements matching the selector in any of the scopes (invalid
+ * selectors match nothing)
+ */
+export function queryAllDeep<T extends HTMLElement = HTMLElement>(
+  selector: string,
+  scopes: DomScope[] = collectScopes()
+): T[] {
+  return scopes.flatMap(scope => {
+    try {
+      return Array.from(scope.querySelectorAll<T>(selector));
+    } catch {
+      return [];
+    }
+  });
+}
+
+/**
+ * First element matching the selector, top document first
+ */
+export function queryDeep(selector: string, scopes: DomScope[] = collectScopes()): HTMLElement | null {
+  for (const scope of scopes) {
+    try {
+      const element = scope.querySelector<HTMLElement>(selector);
+      if (element) return element;
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Element for a scoped selector (or a plain one, in root)
+ */
+export function resolveScopedSelector(selector: string, root: DomScope = document): HTMLElement | null {
+  const parts = selector.split(SCOPE_SEPARATOR);
+  let scope: DomScope | null = root;
+
+  for (const part of parts.slice(0, -1)) {
+    const host = querySafe(scope, part);
+    scope = host ? innerScope(host) : null;
+    if (!scope) return null;
+  }
+
+  return querySafe(scope, parts[parts.length - 1]);
+}
+
+/**
+ * Shadow host or frame element the element's scope belongs to; null in
+ * the top document
+ */
+export function scopeHost(element: Element): HTMLElement | null {
+  const root = element.getRootNode();
+
+  if ('host' in root) {
+    return (root as ShadowRoot).host as HTMLElement;
+  }
+  if (root !== document) {
+    return ((root as Document).defaultView?.frameElement as HTMLElement | null) || null;
+  }
+  return null;
+}
+
+/**
+ * Element's tag name check that also holds for elements of frame
+ * documents, where instanceof HTMLInputElement etc. is false
+ */
+export function isTag(element: Element, ...tags: string[]): boolean {
+  return tags.includes(element.tagName);
+}
+
+function innerScope(element: Element): DomScope | null {
+  if (isTag(element, 'IFRAME', 'FRAME')) {
+    try {
+      // null for cross-origin frames
+      return (element as HTMLIFrameElement).contentDocument;
+    } catch {
+      return null;
+    }
+  }
+  return element.shadowRoot;
+}
+
+function querySafe(scope: DomScope, selector: string): HTMLElement | null {
+  try {
+    return scope.querySelector<HTMLElement>(selector);
+  } catch {
+    return null;
+  }
+}
@@ -4,9 +4,25 @@
  * Detects and maps form fields in the host page DOM.
  * Used for auto-populating clinical documentation fields
  * and extracting patient information (name, MRN, DOB).
+ *
+ * On EHRs with a site adapter (ehr-adapters.ts) the adapter's selectors,
+ * patient banner and fill quirks are used first; the label heuristics
+ * below cover the rest of the page and pages no adapter matches.
+ *
+ * Fields the clinician confirmed in the Mapping tab (learned mappings,
+ * stored per doctor by the backend) win over both: they are keyed by site
+ * (adapter id or origin), page fingerprint and field selector.
+ *
+ * Fields are found in open shadow roots and same-origin frames as well
+ * (deep-dom.ts); their selectors and ids are scoped selectors, so fill
+ * and undo can find them again. Contenteditable fields are filled as
+ * formatted HTML through their rich-text editor (rich-text.ts).
  */
 
 import { Bridge } from './bridge';
+import { EhrAdapter, matchEhrAdapter, queryFirst } from './ehr-adapters';
+import { DomScope, SCOPE_SEPARATOR, collectScopes, isTag, queryAllDeep, scopeHost } from './deep-dom';
+import { FillMode, LIST_CATEGORIES, fillRichText, formatRichText } from './rich-text';
 
 export interface DetectedField {
   id: string;
@@ -16,6 +32,7 @@ export interface DetectedField {
   value: string;
   fieldType: FieldCategory;
   confidence: number;
+  source: 'learned' | 'adapter' | 'heuristic';
   element: HTMLElement;
 }
 
@@ -23,9 +40,12 @@ export type FieldCategory =
   | 'patient_name'
   | 'mrn'
   | 'dob'
+  | 'diagnosis_code'
   | 'chief_complaint'
   | 'history_present_illness'
   | 'assessment'
+  | 'follow_up'
+  | 'orders'
   | 'plan'
   | 'medications'
   | 'allergies'
@@ -33,6 +53,15 @@ export type FieldCategory =
   | 'notes'
   | 'other';
 
+export interface LearnedMapping {
+  id?: number;
+  site: string;       // EHR adapter id or page origin
+  page: string;       // page fingerprint
+  selector: string;
+  category: FieldCategory;
+  label: string;
+}
+
 export interface PatientInfo {
   name: string;
   mrn: string;
@@ -60,6 +89,14 @@ const FIELD_PATTERNS: Record<FieldCategory, RegExp[]> = {
     /birth\s*date/i,
     /birthday/i
   ],
+  // Before assessment, whose patterns also match "diagnosis" and "dx"
+  diagnosis_code: [
+    /icd/i,
+    /snomed/i,
+    /diagnosis\s*code/i,
+    /dx\s*code/i,
+    /problem\s*code/i
+  ],
   chief_complaint: [
     /chief\s*complaint/i,
     /cc/i,
@@ -77,6 +114,18 @@ const FIELD_PATTERNS: Record<FieldCategory, RegExp[]> = {
     /impression/i,
     /dx/i
   ],
+  // Before plan: "follow-up plan" is the follow-up
+  follow_up: [
+    /follow[\s-]*up/i,
+    /return\s*(visit|to\s*clinic)/i,
+    /disposition/i
+  ],
+  orders: [
+    /order/i,
+    /referral/i,
+    /\blabs?\b/i,
+    /imaging/i
+  ],
   plan: [
     /plan/i,
     /treatment\s*plan/i,
@@ -110,16 +159,76 @@ const FIELD_PATTERNS: Record<FieldCategory, RegExp[]> = {
   other: []
 };
 
+export const FIELD_CATEGORIES = Object.keys(FIELD_PATTERNS) as FieldCategory[];
+
+/**
+ * Page fingerprint: URL path (and hash route) with record ids replaced by
+ * "*", so every patient's chart page has the same one
+ */
+export function pageFingerprint(url: string): string {
+  const { pathname, hash } = new URL(url);
+  const normalize = (path: string) => path
+    .split('/')
+    .map(segment => /\d{3,}|^[0-9a-f-]{16,}$/i.test(segment) ? '*' : segment)
+    .join('/');
+
+  const route = hash.startsWith('#/') ? hash.slice(1).split('?')[0] : '';
+  return normalize(pathname) + (route ? `#${normalize(route)}` : '');
+}
+
 export class DOMMapper {
   private bridge: Bridge;
   private detectedFields: Map<string, DetectedField> = new Map();
   private observer: MutationObserver | null = null;
+  private observedScopes: WeakSet<DomScope> = new WeakSet();
+  private adapter: EhrAdapter | null = null;
+  private learned: LearnedMapping[] = [];
 
   constructor(bridge: Bridge) {
     this.bridge = bridge;
     this.setupMutationObserver();
   }
 
+  /**
+   * Match the page against the EHR site adapters; a change (SPA
+   * navigation, EHR loaded late) is reported as 'ehr-system'
+   */
+  public detectAdapter(): EhrAdapter | null {
+    const adapter = matchEhrAdapter(window.location.href);
+
+    if (adapter?.id !== this.adapter?.id) {
+      console.log(`[DOMMapper] EHR: ${adapter ? adapter.name : 'none (heuristic mapping)'}`);
+      this.adapter = adapter;
+      this.bridge.emit('ehr-system', { id: adapter?.id || null, name: adapter?.name || null });
+    }
+
+    return this.adapter;
+  }
+
+  /**
+   * Id of the matched EHR adapter (null = heuristic mapping)
+   */
+  public getEhrSystem(): string | null {
+    return this.adapter?.id || null;
+  }
+
+  /**
+   * The doctor's learned field mappings (all sites)
+   */
+  public setLearnedMappings(mappings: LearnedMapping[]): void {
+    this.learned = mappings;
+  }
+
+  /**
+   * Site and page fingerprint that learned mappings are keyed by
+   */
+  public getPageKey(): { site: string; page: string } {
+    return {
+      site: this.detectAdapter()?.id || window.location.origin,
+      page: pageFingerprint(window.location.href)
+    };
+  }
+
   /**
    * Scan the DOM and detect all form fields
    */
@@ -128,24 +237,36 @@ export class DOMMapper {
 
     this.detectedFields.clear();
     const fields: DetectedField[] = [];
+    const adapter = this.detectAdapter();
+
+    // The document, open shadow roots and same-origin frames
+    const scopes = collectScopes();
+    scopes.forEach(scope => this.observeScope(scope));
+
+    // Fields the EHR adapter knows, by their stable selectors
+    const mapped = new Set<HTMLElement>();
+    if (adapter) {
+      this.processAdapterFields(adapter, fields, mapped, scopes);
+    }
 
     // Find all input elements
-    const inputs = document.querySelectorAll<HTMLInputElement>(
-      'input:not([type="hidden"]):not([type="submit"]):not([type="button"])'
+    const inputs = queryAllDeep<HTMLInputElement>(
+      'input:not([type="hidden"]):not([type="submit"]):not([type="button"])',
+      scopes
     );
-    inputs.forEach(el => this.processField(el, 'input', fields));
+    inputs.forEach(el => mapped.has(el) || this.processField(el, 'input', fields));
 
     // Find all textareas
-    const textareas = document.querySelectorAll<HTMLTextAreaElement>('textarea');
-    textareas.forEach(el => this.processField(el, 'textarea', fields));
+    const textareas = queryAllDeep<HTMLTextAreaElement>('textarea', scopes);
+    textareas.forEach(el => mapped.has(el) || this.processField(el, 'textarea', fields));
 
     // Find all selects
-    const selects = document.querySelectorAll<HTMLSelectElement>('select');
-    selects.forEach(el => this.processField(el, 'select', fields));
+    const selects = queryAllDeep<HTMLSelectElement>('select', scopes);
+    selects.forEach(el => mapped.has(el) || this.processField(el, 'select', fields));
 
     // Find contenteditable elements
-    const editables = document.querySelectorAll<HTMLElement>('[contenteditable="true"]');
-    editables.forEach(el => this.processField(el, 'contenteditable', fields));
+    const editables = queryAllDeep('[contenteditable="true"]', scopes);
+    editables.forEach(el => mapped.has(el) || this.processField(el, 'contenteditable', fields));
 
     console.log(`[DOMMapper] Detected ${fields.length} fields`);
     return fields;
@@ -155,7 +276,11 @@ export class DOMMapper {
    * Extract patient information from the page
    */
   public extractPatientInfo(): PatientInfo | null {
-    // First try to find dedicated patient fields
+    // The EHR's patient banner, where the adapter knows it
+    const bannerInfo = this.extractPatientInfoFromBanner();
+    if (bannerInfo) return bannerInfo;
+
+    // Then try to find dedicated patient fields
     const fields = this.detectFields();
 
     const nameField = fields.find(f => f.fieldType === 'patient_name' && f.value);
@@ -175,9 +300,10 @@ export class DOMMapper {
   }
 
   /**
-   * Set a value into a detected field
+   * Set a value into a detected field; rich-text fields can also be
+   * appended to
    */
-  public setFieldValue(fieldId: string, value: string): boolean {
+  public setFieldValue(fieldId: string, value: string, mode: FillMode = 'replace'): boolean {
     const field = this.detectedFields.get(fieldId);
     if (!field) {
       console.warn(`[DOMMapper] Field not found: ${fieldId}`);
@@ -186,14 +312,22 @@ export class DOMMapper {
 
     try {
       const element = field.element;
+      const quirks = this.adapter?.quirks || {};
 
       if (field.type === 'contenteditable') {
-        element.textContent = value;
-        element.dispatchEvent(new Event('input', { bubbles: true }));
+        const html = formatRichText(value, LIST_CATEGORIES.includes(field.fieldType));
+        fillRichText(element, html, mode);
       } else {
-        (element as HTMLInputElement).value = value;
-        element.dispatchEvent(new Event('input', { bubbles: true }));
-        element.dispatchEvent(new Event('change', { bubbles: true }));
+        this.writeValue(element as HTMLInputElement, value, !!quirks.nativeSetter);
+        for (const event of quirks.events || ['input', 'change']) {
+          element.dispatchEvent(new Event(event, { bubbles: true }));
+        }
+      }
+
+      // Pages that save on focus out
+      if (quirks.blur) {
+        element.dispatchEvent(new FocusEvent('blur'));
+        element.dispatchEvent(new FocusEvent('focusout', { bubbles: true }));
       }
 
       console.log(`[DOMMapper] Set field ${fieldId} to:`, value.substring(0, 50));
@@ -204,6 +338,42 @@ export class DOMMapper {
     }
   }
 
+  /**
+   * The field a diagnosis code goes into: the one already holding it, else
+   * the first empty diagnosis code field (EHRs usually have several:
+   * primary, secondary, ...)
+   */
+  public findDiagnosisCodeField(code: string): DetectedField | null {
+    const fields = this.detectFields().filter(f => f.fieldType === 'diagnosis_code');
+
+    return fields.find(f => f.value.trim().toUpperCase() === code.toUpperCase())
+      || fields.find(f => !f.value.trim())
+      || null;
+  }
+
+  /**
+   * The field a line is added to: the first field of the first category
+   * found on the page (e.g. orders, else plan)
+   */
+  public findAppendField(categories: FieldCategory[]): DetectedField | null {
+    const fields = this.detectFields();
+
+    for (const category of categories) {
+      const target = fields.find(f => f.fieldType === category && f.type !== 'select');
+      if (target) return target;
+    }
+
+    return null;
+  }
+
+  /**
+   * Between a plain field's existing text and an added line, if the EHR
+   * adapter sets one
+   */
+  public getAppendSeparator(): string | undefined {
+    return this.adapter?.quirks.appendSeparator;
+  }
+
   /**
    * Focus a specific field
    */
@@ -220,28 +390,58 @@ export class DOMMapper {
     }
   }
 
+  private processAdapterFields(
+    adapter: EhrAdapter,
+    fields: DetectedField[],
+    mapped: Set<HTMLElement>,
+    scopes: DomScope[]
+  ): void {
+    for (const map of adapter.fields) {
+      const elements = map.multiple
+        ? map.selectors.flatMap(selector => queryAllDeep(selector, scopes))
+        : [queryFirst(map.selectors, scopes)].filter((el): el is HTMLElement => el !== null);
+
+      for (const element of elements) {
+        const type = this.getFieldType(element);
+        if (!type || mapped.has(element)) continue;
+
+        mapped.add(element);
+        this.processField(element, type, fields, {
+          label: map.label,
+          fieldType: map.category,
+          confidence: 0.95
+        });
+      }
+    }
+  }
+
   private processField(
     element: HTMLElement,
     type: DetectedField['type'],
-    fields: DetectedField[]
+    fields: DetectedField[],
+    known?: { label: string; fieldType: FieldCategory; confidence: number }
   ): void {
     // Skip hidden or very small elements
     const rect = element.getBoundingClientRect();
     if (rect.width < 10 || rect.height < 10) return;
 
-    const id = this.generateFieldId(element);
-    const label = this.findFieldLabel(element);
+    const selector = this.generateSelector(element);
+    const id = this.generateFieldId(element, selector);
+    const label = known?.label || this.findFieldLabel(element);
     const value = this.getFieldValue(element, type);
-    const { fieldType, confidence } = this.categorizeField(element, label);
+    const { fieldType, confidence, source } = known && !this.findLearnedMapping(selector)
+      ? { ...known, source: 'adapter' as const }
+      : this.categorizeField(element, label, selector);
 
     const field: DetectedField = {
       id,
       type,
-      selector: this.generateSelector(element),
+      selector,
       label,
       value,
       fieldType,
       confidence,
+      source,
       element
     };
 
@@ -249,7 +449,33 @@ export class DOMMapper {
     this.detectedFields.set(id, field);
   }
 
-  private generateFieldId(element: HTMLElement): string {
+  private getFieldType(element: HTMLElement): DetectedField['type'] | null {
+    if (element.isContentEditable) return 'contenteditable';
+    if (isTag(element, 'TEXTAREA')) return 'textarea';
+    if (isTag(element, 'SELECT')) return 'select';
+    if (isTag(element, 'INPUT')) return 'input';
+    return null;
+  }
+
+  /**
+   * Set an input's value; framework-controlled inputs (React) ignore a
+   * plain assignment, so it goes through the prototype's setter
+   */
+  private writeValue(element: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement, value: string, nativeSetter: boolean): void {
+    const setter = nativeSetter
+      ? Object.getOwnPropertyDescriptor(Object.getPrototypeOf(element), 'value')?.set
+      : undefined;
+
+    if (setter) {
+      setter.call(element, value);
+    } else {
+      element.value = value;
+    }
+  }
+
+  private generateFieldId(element: HTMLElement, selector: string): string {
+    // Ids are only unique within a shadow root or frame
+    if (selector.includes(SCOPE_SEPARATOR)) return selector;
     if (element.id) return element.id;
     if (element.getAttribute('name')) return element.getAttribute('name')!;
     return `field_${Math.random().toString(36).substring(7)}`;
@@ -259,7 +485,8 @@ export class DOMMapper {
     // Check for associated label element
     const id = element.id;
     if (id) {
-      const label = document.querySelector(`label[for="${id}"]`);
+      const scope = element.getRootNode() as DomScope;
+      const label = scope.querySelector(`label[for="${id}"]`);
       if (label) return label.textContent?.trim() || '';
     }
 
@@ -302,13 +529,23 @@ export class DOMMapper {
     return (element as HTMLInputElement).value || '';
   }
 
+  /**
+   * Selector within the element's scope, prefixed by its shadow host's or
+   * frame's selector outside the top document
+   */
   private generateSelector(element: HTMLElement): string {
+    const host = scopeHost(element);
+    const selector = this.generateScopeSelector(element);
+    return host ? `${this.generateSelector(host)}${SCOPE_SEPARATOR}${selector}` : selector;
+  }
+
+  private generateScopeSelector(element: HTMLElement): string {
     if (element.id) return `#${element.id}`;
 
     const path: string[] = [];
     let current: HTMLElement | null = element;
 
-    while (current && current !== document.body) {
+    while (current && current !== current.ownerDocument.body) {
       let selector = current.tagName.toLowerCase();
 
       if (current.id) {
@@ -342,10 +579,29 @@ export class DOMMapper {
     return path.join(' > ');
   }
 
+  private findLearnedMapping(selector: string): LearnedMapping | undefined {
+    if (this.learned.length === 0) return undefined;
+
+    const { site, page } = this.getPageKey();
+    return this.learned.find(m => m.site === site && m.page === page && m.selector === selector);
+  }
+
   private categorizeField(
     element: HTMLElement,
-    label: string
-  ): { fieldType: FieldCategory; confidence: number } {
+    label: string,
+    selector: string
+  ): { fieldType: FieldCategory; confidence: number; source: DetectedField['source'] } {
+    // Confirmed by the clinician on this page before
+    const learned = this.findLearnedMapping(selector);
+    if (learned) {
+      return { fieldType: learned.category, confidence: 1, source: 'learned' };
+    }
+
+    // Inputs the EHR adapter says are not clinical fields
+    if (this.adapter?.ignore.some(ignored => this.matchesSafe(element, ignored))) {
+      return { fieldType: 'other', confidence: 0.3, source: 'heuristic' };
+    }
+
     const searchText = [
       label,
       element.getAttribute('name') || '',
@@ -360,13 +616,36 @@ export class DOMMapper {
         if (pattern.test(searchText)) {
           return {
             fieldType: category as FieldCategory,
-            confidence: 0.8
+            confidence: 0.8,
+            source: 'heuristic'
           };
         }
       }
     }
 
-    return { fieldType: 'other', confidence: 0.3 };
+    return { fieldType: 'other', confidence: 0.3, source: 'heuristic' };
+  }
+
+  private matchesSafe(element: HTMLElement, selector: string): boolean {
+    try {
+      return element.matches(selector);
+    } catch {
+      return false;
+    }
+  }
+
+  private extractPatientInfoFromBanner(): PatientInfo | null {
+    const banner = this.detectAdapter()?.patientBanner;
+    if (!banner) return null;
+
+    const scopes = collectScopes();
+    const read = (selectors?: string[]) => (selectors ? queryFirst(selectors, scopes)?.textContent?.trim() : '') || '';
+    const name = read(banner.name);
+    const mrn = read(banner.mrn).replace(/^(MRN|Acct(ount)?\s*(No|#)?)[:\s#]*/i, '');
+    const dob = read(banner.dob).replace(/^(DOB)[:\s]*/i, '');
+
+    if (!name && !mrn) return null;
+    return { name: name || 'Unknown', mrn, dob: dob || undefined };
   }
 
   private extractPatientInfoFromContent(): PatientInfo | null {
@@ -394,12 +673,13 @@ export class DOMMapper {
       for (const mutation of mutations) {
         if (mutation.type === 'childList' && mutation.addedNodes.length > 0) {
           for (const node of mutation.addedNodes) {
-            if (node instanceof HTMLElement) {
+            // Nodes of frame documents are not instanceof HTMLElement
+            if (node.nodeType === Node.ELEMENT_NODE) {
+              const element = node as HTMLElement;
               if (
-                node.tagName === 'INPUT' ||
-                node.tagName === 'TEXTAREA' ||
-                node.tagName === 'SELECT' ||
-                node.querySelector('input, textarea, select')
+                isTag(element, 'INPUT', 'TEXTAREA', 'SELECT', 'IFRAME', 'FRAME') ||
+                element.shadowRoot ||
+                element.querySelector('input, textarea, select, iframe')
               ) {
                 shouldRescan = true;
                 break;
@@ -421,6 +701,20 @@ export class DOMMapper {
     });
   }
 
+  /**
+   * Also watch a shadow root or frame document found by a scan; the
+   * document's own observer does not see into them
+   */
+  private observeScope(scope: DomScope): void {
+    if (scope === document || this.observedScopes.has(scope)) return;
+
+    this.observedScopes.add(scope);
+    this.observer?.observe(scope, {
+      childList: true,
+      subtree: true
+    });
+  }
+
   public destroy(): void {
     if (this.observer) {
       this.observer.disconnect();
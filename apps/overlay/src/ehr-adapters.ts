@@ -0,0 +1,157 @@
+/**
+ * EHR Site Adapters
+ *
+ * Per-vendor knowledge of EHR screens, so the DOM mapper does not have to
+ * guess from labels ("cc", "account") on pages it knows. An adapter is
+ * matched by URL or by a DOM fingerprint (elements only that EHR renders)
+ * and declares:
+ * - fields: clinical fields by stable selectors (ids, names, aria labels)
+ * - patientBanner: where the patient's name, MRN and DOB are shown
+ * - ignore: inputs the label heuristics must not categorize (billing
+ *   account numbers, search boxes)
+ * - quirks: how a value has to be set for the page to pick it up
+ *
+ * Selectors are matched in open shadow roots and same-origin frames too
+ * (deep-dom.ts), so an EHR that renders its chart in a frame still
+ * matches.
+ *
+ * Pages no adapter matches fall back to the heuristic mapper. Selectors
+ * are the first to break on vendor upgrades; keep them here, not in the
+ * mapper.
+ */
+
+import type { FieldCategory } from './domMapper';
+import { DomScope, collectScopes, queryDeep } from './deep-dom';
+
+export interface EhrFieldMap {
+  category: FieldCategory;
+  label: string;
+  selectors: string[];       // first one found wins
+  multiple?: boolean;        // every match is a field (e.g. diagnosis code rows)
+}
+
+export interface EhrFillQuirks {
+  nativeSetter?: boolean;    // framework-controlled inputs: set through the prototype setter
+  events?: string[];         // dispatched after setting (default: input, change)
+  blur?: boolean;            // the page saves on focus out
+  appendSeparator?: string;  // between existing text and an added line (default: newline)
+}
+
+export interface EhrAdapter {
+  id: string;                // reported as the session's ehrSystem
+  name: string;
+  urlPatterns: RegExp[];
+  fingerprint: string[];     // any of these selectors present identifies the EHR
+  fields: EhrFieldMap[];
+  patientBanner: Partial<Record<'name' | 'mrn' | 'dob', string[]>>;
+  ignore: string[];
+  quirks: EhrFillQuirks;
+}
+
+export const EHR_ADAPTERS: EhrAdapter[] = [
+  {
+    id: 'epic',
+    name: 'Epic',
+    urlPatterns: [/epiccare/i, /hyperspace/i, /\.epic\.com\//i],
+    fingerprint: ['#EpicHeader', '[data-epic-activity]', '.PatientBanner[data-hyperspace]'],
+    fields: [
+      { category: 'chief_complaint', label: 'Chief Complaint', selectors: ['[data-field-id="ChiefComplaint"]', '[aria-label="Chief Complaint" i]'] },
+      { category: 'history_present_illness', label: 'HPI', selectors: ['[data-field-id="HPI"]', '[aria-label="HPI" i]'] },
+      { category: 'assessment', label: 'Assessment', selectors: ['[data-field-id="Assessment"]', '[aria-label="Assessment" i]'] },
+      { category: 'plan', label: 'Plan', selectors: ['[data-field-id="Plan"]', '[aria-label="Plan" i]'] },
+      { category: 'follow_up', label: 'Follow-up', selectors: ['[data-field-id="FollowUp"]', '[aria-label="Follow-up" i]'] },
+      { category: 'orders', label: 'Orders', selectors: ['[data-field-id="OrderComments"]'] },
+      { category: 'diagnosis_code', label: 'Diagnosis', selectors: ['input[data-field-id^="VisitDx"]'], multiple: true }
+    ],
+    patientBanner: {
+      name: ['.PatientBanner .PatientName', '[data-banner-field="name"]'],
+      mrn: ['.PatientBanner .PatientMRN', '[data-banner-field="mrn"]'],
+      dob: ['.PatientBanner .PatientDOB', '[data-banner-field="dob"]']
+    },
+    ignore: ['input[type="search"]', '.ChartSearch input', '[data-field-id*="Account"]'],
+    quirks: { nativeSetter: true, blur: true }
+  },
+  {
+    id: 'cerner',
+    name: 'Oracle Health (Cerner)',
+    urlPatterns: [/cernerworks/i, /\.cerner\.com\//i, /powerchart/i, /oraclehealth/i],
+    fingerprint: ['#PowerChart', '.mpage-component', '[id^="mpage"]'],
+    fields: [
+      { category: 'chief_complaint', label: 'Chief Complaint', selectors: ['textarea[id*="ChiefComplaint" i]', '[title="Chief Complaint" i]'] },
+      { category: 'history_present_illness', label: 'HPI', selectors: ['textarea[id*="HPI"]', '[title="History of Present Illness" i]'] },
+      { category: 'assessment', label: 'Assessment', selectors: ['textarea[id*="Assessment" i]'] },
+      { category: 'plan', label: 'Plan', selectors: ['textarea[id*="Plan" i]:not([id*="Care" i])'] },
+      { category: 'diagnosis_code', label: 'Diagnosis', selectors: ['.dx-entry input[type="text"]'], multiple: true }
+    ],
+    patientBanner: {
+      name: ['.pt-banner .pt-name', '#bannerName'],
+      mrn: ['.pt-banner .pt-mrn', '#bannerMRN'],
+      dob: ['.pt-banner .pt-dob', '#bannerDOB']
+    },
+    ignore: ['input[id*="FIN" i]', 'input[id*="Encntr" i]', '.mpage-search input'],
+    quirks: { events: ['input', 'change', 'keyup'] }
+  },
+  {
+    id: 'athena',
+    name: 'athenaOne',
+    urlPatterns: [/athenanet\.athenahealth\.com/i, /athenaone/i],
+    fingerprint: ['#GlobalNav', 'frame[name="frMain"]', '.athena-banner'],
+    fields: [
+      { category: 'chief_complaint', label: 'Chief Complaint', selectors: ['textarea[name="REASONFORVISIT"]', '[data-section="chiefcomplaint"] textarea'] },
+      { category: 'history_present_illness', label: 'HPI', selectors: ['[data-section="hpi"] textarea', '[data-section="hpi"] [contenteditable="true"]'] },
+      { category: 'assessment', label: 'Assessment', selectors: ['[data-section="assessment"] textarea'] },
+      { category: 'plan', label: 'Plan', selectors: ['[data-section="plan"] textarea'] },
+      { category: 'follow_up', label: 'Follow-up', selectors: ['[data-section="followup"] textarea'] }
+    ],
+    patientBanner: {
+      name: ['.athena-banner .patient-name'],
+      mrn: ['.athena-banner .patient-id'],
+      dob: ['.athena-banner .patient-dob']
+    },
+    ignore: ['input[name*="ACCOUNT" i]', 'input[name="SEARCH"]'],
+    quirks: { appendSeparator: '\n\n' }
+  },
+  {
+    id: 'eclinicalworks',
+    name: 'eClinicalWorks',
+    urlPatterns: [/eclinicalworks/i, /ecwcloud/i],
+    fingerprint: ['#ecwLogo', '[ng-app="eCW"]', '.ecw-patient-hub'],
+    fields: [
+      { category: 'chief_complaint', label: 'Chief Complaint', selectors: ['#txtChiefComplaint', 'textarea[ng-model*="chiefComplaint" i]'] },
+      { category: 'history_present_illness', label: 'HPI', selectors: ['#txtHPI', 'textarea[ng-model*="hpi" i]'] },
+      { category: 'assessment', label: 'Assessment', selectors: ['#txtAssessment', 'textarea[ng-model*="assessment" i]'] },
+      { category: 'plan', label: 'Plan', selectors: ['#txtTreatment', 'textarea[ng-model*="treatment" i]'] },
+      { category: 'diagnosis_code', label: 'ICD Code', selectors: ['input[ng-model*="icdCode" i]'], multiple: true }
+    ],
+    patientBanner: {
+      name: ['.ecw-patient-hub .patient-name', '#ptName'],
+      mrn: ['.ecw-patient-hub .account-no', '#ptAccountNo'],
+      dob: ['.ecw-patient-hub .patient-dob', '#ptDOB']
+    },
+    ignore: ['input[ng-model*="search" i]'],
+    quirks: { nativeSetter: true, events: ['input', 'change', 'blur'] }
+  }
+];
+
+/**
+ * The adapter for a page: URL first, then DOM fingerprint; null = use the
+ * heuristic mapper
+ */
+export function matchEhrAdapter(url: string): EhrAdapter | null {
+  const byUrl = EHR_ADAPTERS.find(adapter => adapter.urlPatterns.some(pattern => pattern.test(url)));
+  if (byUrl) return byUrl;
+
+  const scopes = collectScopes();
+  return EHR_ADAPTERS.find(adapter => adapter.fingerprint.some(selector => queryDeep(selector, scopes))) || null;
+}
+
+/**
+ * First element matching one of the selectors (invalid selectors are skipped)
+ */
+export function queryFirst(selectors: string[], scopes: DomScope[] = collectScopes()): HTMLElement | null {
+  for (const selector of selectors) {
+    const element = queryDeep(selector, scopes);
+    if (element) return element;
+  }
+  return null;
+}
@@ -2,7 +2,7 @@
  * Ferrari Overlay - Main Shadow DOM Application
  *
  * Full implementation with:
- * - 6 tabs: Summary, SOAP, Transcript, Tasks, Patient, Debug
+ * - 7 tabs: Summary, SOAP, Transcript, Tasks, Patient, Settings, Debug
  * - Autopilot pill (red/yellow/green)
  * - Feed A-E indicators
  * - Command bar (MAP/FILL/UNDO/SEND)
@@ -10,7 +10,15 @@
  * - Smart fill engine
  */
 
-import { TranscriptView } from './ui/transcript';
+import { TranscriptView, SpeakerRole, SpeakerRoleAssignment } from './ui/transcript';
+import { ReviewQueueView, ReviewItem } from './ui/review-queue';
+import { VocabularyView, VocabularyAction, VocabularyEntry } from './ui/vocabulary';
+import { SummaryView, InterimSummary, AvsLanguage } from './ui/summary';
+import { ProblemListView, ProblemList, CodeCandidate } from './ui/problem-list';
+import { TaskListView, EncounterTask, TaskAction } from './ui/task-list';
+import { MappingView, MappingAction, MappedField } from './ui/mapping';
+import { FillPreviewView, FillPreviewAction } from './ui/fill-preview';
+import { FIELD_CATEGORIES, LearnedMapping } from './domMapper';
 import { ControlButtons } from './ui/buttons';
 import { TabsComponent } from './ui/tabs';
 import { StatusPills } from './ui/pills';
@@ -18,7 +26,7 @@ import { Bridge } from './bridge';
 import { stateMachine, OverlayStateType, StateEvent } from './state-machine';
 import { smartFillEngine, FillStep } from './smart-fill';
 
-export type TabId = 'summary' | 'soap' | 'transcript' | 'tasks' | 'patient' | 'debug';
+export type TabId = 'summary' | 'soap' | 'transcript' | 'tasks' | 'patient' | 'mapping' | 'settings' | 'debug';
 
 export type AutopilotStatus = 'red' | 'yellow' | 'green';
 
@@ -47,6 +55,7 @@ export interface OverlayState {
   tabId: string | null;
   transcriptId: number | null;
   patientCode: string | null;
+  ehrSystem: string | null; // matched EHR site adapter
 }
 
 export interface TranscriptLine {
@@ -55,14 +64,56 @@ export interface TranscriptLine {
   text: string;
   timestamp: number;
   isFinal: boolean;
+  words?: { word: string; confidence: number }[];
+  language?: string | null;
+  start?: number;       // seconds into the recording
+  end?: number;
+  chunkIndex?: number;  // saved transcript chunk the line belongs to
 }
 
+// Transcript chunk as saved, broadcast after an edit
+export interface EditedChunk {
+  speaker: number;
+  text: string;
+  start: number;
+  end: number;
+  raw?: { word: string; confidence: number }[];
+  language?: string;
+}
+
+export interface RetranscriptionStatus {
+  transcriptId: number;
+  stage: 'queued' | 'loading_audio' | 'transcribing' | 'reconciling' | 'completed' | 'failed';
+  progress: number;
+  queuePosition?: number;
+  error?: string;
+}
+
+export type SoapSection = 'subjective' | 'objective' | 'assessment' | 'plan';
+
+const SOAP_SECTIONS: SoapSection[] = ['subjective', 'objective', 'assessment', 'plan'];
+
+export interface SoapStatement {
+  text: string;
+  sources: number[]; // transcript chunk indices
+}
+
+export type SoapNote = Record<SoapSection, SoapStatement[]> & {
+  chunkCount: number;
+  generatedAt: number;
+};
+
 export interface PatientInfo {
   name: string;
   mrn: string;
   dob?: string;
 }
 
+// What a previewed fill was started from (Tasks tab), told the result
+type FillOrigin =
+  | { kind: 'code'; code: string; field: string }
+  | { kind: 'task'; taskId: string; field: string };
+
 export class FerrariOverlay {
   private shadowRoot: ShadowRoot;
   private container: HTMLElement;
@@ -71,6 +122,14 @@ export class FerrariOverlay {
 
   // UI Components
   private transcriptView: TranscriptView;
+  private reviewQueue: ReviewQueueView;
+  private vocabularyView: VocabularyView;
+  private summaryView: SummaryView;
+  private problemList: ProblemListView;
+  private taskList: TaskListView;
+  private mappingView: MappingView;
+  private fillPreview: FillPreviewView;
+  private fillOrigin: FillOrigin | null = null;
   private controlButtons: ControlButtons;
   private tabs: TabsComponent;
   private statusPills: StatusPills;
@@ -87,7 +146,14 @@ export class FerrariOverlay {
     this.shadowRoot = this.container.attachShadow({ mode: 'open' });
 
     // Initialize UI components
-    this.transcriptView = new TranscriptView(this.shadowRoot);
+    this.transcriptView = new TranscriptView(this.shadowRoot, this.handleSpeakerRoleChange.bind(this));
+    this.reviewQueue = new ReviewQueueView(this.shadowRoot, this.handleWordCorrection.bind(this));
+    this.vocabularyView = new VocabularyView(this.shadowRoot, this.handleVocabularyChange.bind(this));
+    this.summaryView = new SummaryView(this.shadowRoot, this.handlePrintAvs.bind(this));
+    this.problemList = new ProblemListView(this.shadowRoot, this.handleFillCode.bind(this));
+    this.taskList = new TaskListView(this.shadowRoot, this.handleTaskAction.bind(this));
+    this.mappingView = new MappingView(this.shadowRoot, FIELD_CATEGORIES, this.handleMappingAction.bind(this));
+    this.fillPreview = new FillPreviewView(this.shadowRoot, this.handleFillPreviewAction.bind(this));
     this.controlButtons = new ControlButtons(this.shadowRoot, this.handleControlAction.bind(this));
     this.tabs = new TabsComponent(this.shadowRoot, this.handleTabChange.bind(this));
     this.statusPills = new StatusPills(this.shadowRoot);
@@ -118,7 +184,8 @@ export class FerrariOverlay {
       machineState: 'idle',
       tabId: null,
       transcriptId: null,
-      patientCode: null
+      patientCode: null,
+      ehrSystem: null
     };
   }
 
@@ -136,6 +203,11 @@ export class FerrariOverlay {
       } else if (newState === 'idle' || newState === 'done') {
         this.setState({ isRecording: false });
       }
+
+      // The fill preview belongs to the reviewing state
+      if (newState !== 'reviewing' && this.fillPreview.isOpen()) {
+        this.fillPreview.hide();
+      }
     });
   }
 
@@ -147,8 +219,11 @@ export class FerrariOverlay {
 
     this.bridge.on('connection', (status: { connected: boolean }) => {
       this.setState({ isConnected: status.connected });
+      this.vocabularyView.setConnected(status.connected);
       if (status.connected) {
         stateMachine.send('CONNECTED');
+        this.bridge.emit('get-vocabulary', {});
+        this.bridge.emit('get-field-mappings', {});
       }
     });
 
@@ -156,6 +231,18 @@ export class FerrariOverlay {
       this.setState({ patientInfo: info });
     });
 
+    this.bridge.on('fields-detected', (data: { site: string; page: string; fields: MappedField[] }) => {
+      this.mappingView.setFields(data.site, data.page, data.fields);
+    });
+
+    this.bridge.on('field-mappings', (data: { mappings: LearnedMapping[] }) => {
+      this.mappingView.setMappings(data.mappings);
+    });
+
+    this.bridge.on('ehr-system', (data: { id: string | null; name: string | null }) => {
+      this.setState({ ehrSystem: data.id });
+    });
+
     this.bridge.on('hello_ack', (data: { tabId: string; isActive: boolean }) => {
       this.setState({ tabId: data.tabId });
     });
@@ -186,9 +273,87 @@ export class FerrariOverlay {
       this.updateFeedIndicators();
     });
 
+    this.bridge.on('retranscription', (data: RetranscriptionStatus) => {
+      this.updateRetranscriptionStatus(data);
+    });
+
+    this.bridge.on('speaker-roles', (data: { transcriptId: number; roles: Record<string, SpeakerRoleAssignment> }) => {
+      this.transcriptView.setSpeakerRoles(data.roles);
+    });
+
+    this.bridge.on('review-items', (data: { transcriptId: number; items: ReviewItem[] }) => {
+      this.reviewQueue.addItems(data.items);
+    });
+
+    this.bridge.on('review-corrected', (data: { chunkIndex: number; wordStart: number; wordEnd: number; text: string }) => {
+      this.reviewQueue.resolve(data.chunkIndex, data.wordStart, data.wordEnd, data.text);
+    });
+
+    this.bridge.on('chunk', (data: { index: number; start: number; end: number }) => {
+      this.assignChunk(data.index, data.start, data.end);
+    });
+
+    this.bridge.on('transcript-edit', (data: { chunkIndex: number; chunk: EditedChunk; reason?: string }) => {
+      this.applyChunkEdit(data.chunkIndex, data.chunk);
+
+      // Review corrections already resolved their span via review-corrected
+      if (data.reason !== 'review') {
+        this.reviewQueue.dropChunk(data.chunkIndex);
+      }
+    });
+
+    this.bridge.on('vocabulary', (data: { entries: VocabularyEntry[] }) => {
+      this.vocabularyView.setEntries(data.entries);
+    });
+
+    this.bridge.on('interim-summary', (data: { transcriptId: number; interim: InterimSummary }) => {
+      this.summaryView.addInterim(data.transcriptId, data.interim);
+    });
+
+    this.bridge.on('avs-opened', (data: { transcriptId: number; success: boolean }) => {
+      this.summaryView.setAvsResult(
+        data.success,
+        data.success ? `Opened for #${data.transcriptId}` : 'Popup blocked: allow popups for this page'
+      );
+    });
+
+    this.bridge.on('soap-note', (data: { transcriptId: number; note: SoapNote }) => {
+      this.updateSoapNote(data.note);
+    });
+
+    this.bridge.on('problem-list', (data: { transcriptId: number; list: ProblemList }) => {
+      this.problemList.setProblems(data.transcriptId, data.list);
+    });
+
+    this.bridge.on('diagnosis-code-step', (data: { code: string; step: FillStep | null; field: string | null }) => {
+      if (!data.field) {
+        this.problemList.setFillResult(data.code, false, 'no empty diagnosis code field on this page');
+      } else if (!data.step) {
+        // Already entered
+        this.problemList.setFillResult(data.code, true, data.field);
+      } else {
+        this.reviewFillSteps([data.step], { kind: 'code', code: data.code, field: data.field });
+      }
+    });
+
+    this.bridge.on('task-list', (data: { transcriptId: number; tasks: EncounterTask[] }) => {
+      this.taskList.setTasks(data.transcriptId, data.tasks);
+    });
+
+    this.bridge.on('task-step', (data: { taskId: string; step: FillStep | null; field: string | null }) => {
+      if (!data.field) {
+        this.taskList.setFillResult(false, 'No orders, follow-up or plan field on this page');
+      } else if (!data.step) {
+        // Already entered
+        this.reportFillOrigin({ kind: 'task', taskId: data.taskId, field: data.field }, true);
+      } else {
+        this.reviewFillSteps([data.step], { kind: 'task', taskId: data.taskId, field: data.field });
+      }
+    });
+
     this.bridge.on('command_result', (data: { action: string; success: boolean; steps?: FillStep[] }) => {
       if (data.action === 'fill' && data.success && data.steps) {
-        this.executeFillSteps(data.steps);
+        this.previewFillSteps(data.steps);
       } else if (data.action === 'undo' && data.success) {
         this.executeUndo();
       }
@@ -231,6 +396,96 @@ export class FerrariOverlay {
     }
   }
 
+  private handleSpeakerRoleChange(speaker: number, role: SpeakerRole | null): void {
+    this.bridge.emit('set-speaker-role', { speaker, role });
+  }
+
+  private handleWordCorrection(item: ReviewItem, text: string): void {
+    this.bridge.emit('correct-words', {
+      chunkIndex: item.chunkIndex,
+      wordStart: item.wordStart,
+      wordEnd: item.wordEnd,
+      text
+    });
+  }
+
+  private handleVocabularyChange(action: VocabularyAction, entry: VocabularyEntry): void {
+    if (action === 'delete') {
+      this.bridge.emit('delete-vocabulary-entry', { id: entry.id });
+    } else {
+      this.bridge.emit('save-vocabulary-entry', {
+        entry: { term: entry.term, boost: entry.boost, aliases: entry.aliases }
+      });
+    }
+  }
+
+  private handleMappingAction(action: MappingAction, mapping: LearnedMapping | null): void {
+    if (action === 'scan') {
+      this.bridge.emit('map-fields', {});
+    } else if (action === 'delete' && mapping) {
+      this.bridge.emit('delete-field-mapping', { id: mapping.id });
+    } else if (action === 'save' && mapping) {
+      this.bridge.emit('save-field-mapping', { mapping });
+    }
+  }
+
+  private handleFillPreviewAction(action: FillPreviewAction, steps: FillStep[]): void {
+    switch (action) {
+      case 'locate':
+        if (steps[0]) smartFillEngine.revealField(steps[0].fieldId);
+        break;
+      case 'apply':
+        this.fillPreview.hide();
+        stateMachine.send('APPLY');
+        this.executeFillSteps(steps);
+        break;
+      case 'discard':
+        this.fillPreview.hide();
+        stateMachine.send('DISCARD');
+        this.showFillStatus('Fill discarded', 'fill-status');
+        this.reportFillOrigin(this.takeFillOrigin(), false);
+        break;
+    }
+  }
+
+  private handleFillCode(candidate: CodeCandidate): void {
+    this.bridge.emit('fill-diagnosis-code', { code: candidate.code, confidence: candidate.confidence });
+  }
+
+  private handleTaskAction(action: TaskAction, task: EncounterTask): void {
+    switch (action) {
+      case 'fill':
+        this.bridge.emit('fill-task', { taskId: task.id, kind: task.kind, text: task.text });
+        break;
+      case 'done':
+        this.setTaskState(task.id, 'done');
+        break;
+      case 'dismiss':
+        this.setTaskState(task.id, 'dismissed');
+        break;
+      case 'reopen':
+        this.setTaskState(task.id, 'pending');
+        break;
+    }
+  }
+
+  private handlePrintAvs(language: AvsLanguage): void {
+    const transcriptId = this.state.transcriptId ?? this.taskList.getTranscriptId();
+    if (transcriptId === null) {
+      this.summaryView.setAvsResult(false, 'No encounter yet');
+      return;
+    }
+    this.bridge.emit('print-avs', { transcriptId, language });
+  }
+
+  private setTaskState(taskId: string, state: EncounterTask['state']): void {
+    this.bridge.emit('set-task-state', {
+      transcriptId: this.taskList.getTranscriptId(),
+      taskId,
+      state
+    });
+  }
+
   private handleTabChange(tab: TabId): void {
     this.setState({ activeTab: tab });
     this.showTabPanel(tab);
@@ -260,7 +515,8 @@ export class FerrariOverlay {
           tabId,
           url: window.location.href,
           title: document.title,
-          patientHint: this.extractPatientHint()
+          patientHint: this.extractPatientHint(),
+          ehrSystem: this.state.ehrSystem
         });
         this.setState({ tabId });
       }
@@ -323,7 +579,56 @@ export class FerrariOverlay {
     }
   }
 
+  /**
+   * Show proposed steps for review; nothing is written until applied.
+   * A fill command's steps arriving after its fill was left (recording
+   * stopped, reset) are dropped; Tasks tab fills are also reviewed when
+   * not recording, outside the state machine
+   */
+  private previewFillSteps(steps: FillStep[]): void {
+    if (stateMachine.canSend('PREVIEW_READY')) {
+      stateMachine.send('PREVIEW_READY');
+    } else if (!this.fillOrigin) {
+      console.warn(`[Ferrari] Fill steps ignored in state '${stateMachine.getState()}'`);
+      return;
+    }
+
+    this.fillPreview.show(smartFillEngine.preview(steps));
+  }
+
+  /**
+   * Preview steps built in the page (Tasks tab fills) like a fill command's;
+   * the origin gets the result once they are applied or discarded
+   */
+  private reviewFillSteps(steps: FillStep[], origin: FillOrigin): void {
+    this.reportFillOrigin(this.takeFillOrigin(), false);
+    this.fillOrigin = origin;
+
+    if (stateMachine.canSend('START_FILL')) {
+      stateMachine.send('START_FILL');
+    }
+    this.previewFillSteps(steps);
+  }
+
+  private takeFillOrigin(): FillOrigin | null {
+    const origin = this.fillOrigin;
+    this.fillOrigin = null;
+    return origin;
+  }
+
+  private reportFillOrigin(origin: FillOrigin | null, filled: boolean): void {
+    if (origin?.kind === 'code') {
+      this.problemList.setFillResult(origin.code, filled, filled ? origin.field : 'not filled');
+    } else if (origin?.kind === 'task') {
+      this.taskList.setFillResult(filled, filled ? `Added to ${origin.field}` : 'Not filled');
+      // A task entered in the EHR is done
+      if (filled) this.setTaskState(origin.taskId, 'done');
+    }
+  }
+
   private async executeFillSteps(steps: FillStep[]): Promise<void> {
+    const origin = this.takeFillOrigin();
+
     smartFillEngine.setProgressCallback((step, index, total) => {
       this.updateFillProgress(index, total);
     });
@@ -335,6 +640,7 @@ export class FerrariOverlay {
     }
 
     this.showFillResult(result);
+    this.reportFillOrigin(origin, result.filledCount > 0);
   }
 
   private async executeUndo(): Promise<void> {
@@ -349,19 +655,38 @@ export class FerrariOverlay {
     }
   }
 
-  private showFillResult(result: { success: boolean; filledCount: number; errors: string[] }): void {
+  private showFillStatus(text: string, className: string): void {
     const statusEl = this.shadowRoot.getElementById('fill-status');
     if (statusEl) {
-      if (result.success) {
-        statusEl.textContent = `Filled ${result.filledCount} fields`;
-        statusEl.className = 'fill-status success';
-      } else {
-        statusEl.textContent = `Errors: ${result.errors.join(', ')}`;
-        statusEl.className = 'fill-status error';
-      }
+      statusEl.textContent = text;
+      statusEl.className = className;
+    }
+  }
+
+  private showFillResult(result: { success: boolean; filledCount: number; errors: string[] }): void {
+    if (result.success) {
+      this.showFillStatus(`Filled ${result.filledCount} fields`, 'fill-status success');
+    } else {
+      this.showFillStatus(`Errors: ${result.errors.join(', ')}`, 'fill-status error');
     }
   }
 
+  private updateRetranscriptionStatus(status: RetranscriptionStatus): void {
+    const statusEl = this.shadowRoot.getElementById('debug-retranscription');
+    if (!statusEl) return;
+
+    let text = `#${status.transcriptId} ${status.stage.replace('_', ' ')}`;
+    if (status.stage === 'queued' && status.queuePosition) {
+      text += ` (position ${status.queuePosition})`;
+    } else if (status.stage === 'failed' && status.error) {
+      text += `: ${status.error}`;
+    } else if (status.stage !== 'completed') {
+      text += ` ${Math.round(status.progress * 100)}%`;
+    }
+
+    statusEl.textContent = text;
+  }
+
   private clearTranscript(): void {
     this.setState({ transcriptLines: [] });
     this.transcriptView.clear();
@@ -382,6 +707,57 @@ export class FerrariOverlay {
     this.transcriptView.updateLines(lines);
   }
 
+  /**
+   * Tag the final lines within a saved chunk's time span with its index,
+   * so an edit of the chunk can find them
+   */
+  private assignChunk(index: number, start: number, end: number): void {
+    const lines = this.state.transcriptLines.map(line => {
+      if (!line.isFinal || line.chunkIndex !== undefined || line.start === undefined || line.end === undefined) {
+        return line;
+      }
+      const middle = (line.start + line.end) / 2;
+      return middle >= start && middle <= end ? { ...line, chunkIndex: index } : line;
+    });
+
+    this.setState({ transcriptLines: lines });
+  }
+
+  /**
+   * Replace the lines of an edited chunk with the edited text; corrected
+   * words come with full confidence, so their highlight goes, and a
+   * speaker change moves the line to the new speaker's badge. Windows
+   * that did not show the chunk get it inserted in time order.
+   */
+  private applyChunkEdit(index: number, chunk: EditedChunk): void {
+    const lines = this.state.transcriptLines;
+    const position = lines.findIndex(line => line.chunkIndex === index);
+
+    const edited: TranscriptLine = {
+      id: `chunk-${index}`,
+      speaker: String(chunk.speaker),
+      text: chunk.text,
+      timestamp: position >= 0 ? lines[position].timestamp : Date.now(),
+      isFinal: true,
+      words: chunk.raw?.map(word => ({ word: word.word, confidence: word.confidence })),
+      language: chunk.language ?? null,
+      start: chunk.start,
+      end: chunk.end,
+      chunkIndex: index
+    };
+
+    const remaining = lines.filter(line => line.chunkIndex !== index);
+    let insertAt = position;
+    if (insertAt < 0) {
+      insertAt = remaining.findIndex(line => line.start !== undefined && line.start > chunk.start);
+      if (insertAt < 0) insertAt = remaining.length;
+    }
+    remaining.splice(insertAt, 0, edited);
+
+    this.setState({ transcriptLines: remaining });
+    this.transcriptView.updateLines(remaining);
+  }
+
   private toggleVisibility(): void {
     this.setState({ isVisible: !this.state.isVisible });
     this.container.style.display = this.state.isVisible ? 'block' : 'none';
@@ -425,6 +801,38 @@ export class FerrariOverlay {
     }
   }
 
+  /**
+   * Fill the SOAP panels; each statement cites its transcript chunks
+   */
+  private updateSoapNote(note: SoapNote): void {
+    for (const section of SOAP_SECTIONS) {
+      const el = this.shadowRoot.getElementById(`soap-${section}`);
+      if (!el) continue;
+
+      el.innerHTML = '';
+      if (note[section].length === 0) {
+        el.textContent = '-';
+        continue;
+      }
+
+      const list = document.createElement('ul');
+      list.className = 'soap-statements';
+      for (const statement of note[section]) {
+        const item = document.createElement('li');
+        item.textContent = statement.text;
+
+        const cite = document.createElement('span');
+        cite.className = 'soap-cite';
+        cite.textContent = statement.sources.map(i => `#${i + 1}`).join(' ');
+        cite.title = `Transcript chunk${statement.sources.length === 1 ? '' : 's'} ${statement.sources.map(i => i + 1).join(', ')}`;
+        item.appendChild(cite);
+
+        list.appendChild(item);
+      }
+      el.appendChild(list);
+    }
+  }
+
   private updateFeedIndicators(): void {
     const feeds = ['A', 'B', 'C', 'D', 'E'] as const;
     for (const feed of feeds) {
@@ -487,6 +895,8 @@ export class FerrariOverlay {
         <button class="tab-btn" data-tab="transcript">Transcript</button>
         <button class="tab-btn" data-tab="tasks">Tasks</button>
         <button class="tab-btn" data-tab="patient">Patient</button>
+        <button class="tab-btn" data-tab="mapping">Mapping</button>
+        <button class="tab-btn" data-tab="settings">Settings</button>
         <button class="tab-btn" data-tab="debug">Debug</button>
       </div>
 
@@ -520,9 +930,7 @@ export class FerrariOverlay {
 
         <div class="tab-panel hidden" id="tasks-panel">
           <h3>Tasks</h3>
-          <div id="tasks-list" class="tasks-list">
-            <p class="empty-state">No tasks extracted yet</p>
-          </div>
+          <div id="tasks-list" class="tasks-list"></div>
         </div>
 
         <div class="tab-panel hidden" id="patient-panel">
@@ -532,6 +940,10 @@ export class FerrariOverlay {
           </div>
         </div>
 
+        <div class="tab-panel hidden" id="mapping-panel"></div>
+
+        <div class="tab-panel hidden" id="settings-panel"></div>
+
         <div class="tab-panel hidden" id="debug-panel">
           <h3>Debug</h3>
           <div class="debug-info">
@@ -539,10 +951,13 @@ export class FerrariOverlay {
             <div>Tab ID: <span id="debug-tabid">-</span></div>
             <div>Transcript ID: <span id="debug-transcriptid">-</span></div>
             <div>Patient Code: <span id="debug-patientcode">-</span></div>
+            <div>Re-transcription: <span id="debug-retranscription">-</span></div>
           </div>
         </div>
       </div>
 
+      <div id="fill-preview" class="fill-preview hidden"></div>
+
       <div class="command-bar">
         <button id="cmd-map" class="cmd-btn" title="Map DOM fields">MAP</button>
         <button id="cmd-fill" class="cmd-btn" title="Auto-fill from transcript">FILL</button>
@@ -560,7 +975,39 @@ export class FerrariOverlay {
 
     // Mount transcript view
     const transcriptPanel = this.shadowRoot.getElementById('transcript-panel');
-    if (transcriptPanel) this.transcriptView.mount(transcriptPanel);
+    if (transcriptPanel) {
+      this.transcriptView.mount(transcriptPanel);
+      this.reviewQueue.mount(transcriptPanel);
+    }
+
+    // Mount interim summary (above autopilot suggestions)
+    const summaryPanel = this.shadowRoot.getElementById('summary-panel');
+    const suggestionsEl = this.shadowRoot.getElementById('autopilot-suggestions');
+    if (summaryPanel) {
+      this.summaryView.mount(summaryPanel);
+      if (suggestionsEl) summaryPanel.appendChild(suggestionsEl);
+    }
+
+    // Mount problem list (above extracted tasks)
+    const tasksPanel = this.shadowRoot.getElementById('tasks-panel');
+    const tasksList = this.shadowRoot.getElementById('tasks-list');
+    if (tasksPanel) {
+      this.problemList.mount(tasksPanel);
+      if (tasksList) tasksPanel.appendChild(tasksList);
+    }
+    if (tasksList) this.taskList.mount(tasksList);
+
+    // Mount field mapping editor
+    const mappingPanel = this.shadowRoot.getElementById('mapping-panel');
+    if (mappingPanel) this.mappingView.mount(mappingPanel);
+
+    // Mount fill preview (above the command bar)
+    const fillPreviewEl = this.shadowRoot.getElementById('fill-preview');
+    if (fillPreviewEl) this.fillPreview.mount(fillPreviewEl);
+
+    // Mount vocabulary editor
+    const settingsPanel = this.shadowRoot.getElementById('settings-panel');
+    if (settingsPanel) this.vocabularyView.mount(settingsPanel);
 
     // Mount control buttons
     const controlsContainer = this.shadowRoot.getElementById('control-buttons');
@@ -811,6 +1258,19 @@ export class FerrariOverlay {
         min-height: 40px;
       }
 
+      .soap-statements {
+        margin: 0;
+        padding-left: 16px;
+        line-height: 1.4;
+      }
+
+      .soap-cite {
+        margin-left: 6px;
+        font-size: 10px;
+        color: #6b7280;
+        cursor: help;
+      }
+
       .tasks-list {
         list-style: none;
         padding: 0;
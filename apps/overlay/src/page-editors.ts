@@ -0,0 +1,222 @@
+/**
+ * Page Editor Bridge
+ *
+ * Runs in the page's JavaScript world (manifest "world": "MAIN"), where
+ * the EHR's rich-text editor instances are reachable, and answers the
+ * content script's requests from rich-text.ts: read the HTML of, replace
+ * or append to the editor of the element marked with EDITOR_TARGET_ATTR.
+ *
+ * Supported: CKEditor 5 (element.ckeditorInstance), CKEditor 4
+ * (CKEDITOR.instances), TinyMCE (tinymce.get()) and Quill (Quill.find).
+ * Editors in frames (CKEditor 4 and TinyMCE iframe mode) keep their
+ * global in a parent window, so globals are looked up from the element's
+ * window upwards. Changes go through the editor's own undo where it has
+ * one. Elements without an editor get editor: null and the content
+ * script falls back to simulated input.
+ *
+ * Injected by the manifest and again by the background script when the
+ * toolbar icon is clicked in a tab without the overlay; the window flag
+ * keeps a second copy from answering every request twice.
+ */
+
+import { collectScopes, queryDeep } from './deep-dom';
+import {
+  EDITOR_REQUEST_EVENT,
+  EDITOR_RESPONSE_EVENT,
+  EDITOR_TARGET_ATTR,
+  EditorRequest,
+  EditorResponse,
+  RichTextEditor
+} from './rich-text';
+
+interface PageEditor {
+  id: RichTextEditor;
+  getHtml(): string;
+  setHtml(html: string): void;
+  appendHtml(html: string): void;
+}
+
+// The parts of each editor's API used here
+
+interface CKEditor5 {
+  getData(): string;
+  setData(html: string): void;
+  model: {
+    document: { getRoot(): unknown };
+    change(callback: () => void): void;
+    insertContent(content: unknown, position: unknown): void;
+    createPositionAt(parent: unknown, offset: 'end'): unknown;
+  };
+  data: { parse(html: string): unknown };
+}
+
+interface CKEditor4 {
+  editable?(): { $: HTMLElement } | null;
+  getData(): string;
+  setData(html: string, options?: { callback?: () => void }): void;
+  fire(event: string): void;
+}
+
+interface TinyMCEEditor {
+  getBody?(): HTMLElement;
+  getContent(): string;
+  setContent(html: string): void;
+  undoManager: { transact(callback: () => void): void };
+  fire?(event: string): void;
+  dispatch?(event: string): void;
+}
+
+interface QuillEditor {
+  root: HTMLElement;
+  clipboard: { dangerouslyPasteHTML(index: number, html: string, source: 'user'): void };
+  setText(text: string, source: 'user'): void;
+  getLength(): number;
+}
+
+// Editor globals of a page window
+interface EditorGlobals {
+  CKEDITOR?: { instances?: Record<string, CKEditor4> };
+  tinymce?: { get?(): TinyMCEEditor[]; editors?: TinyMCEEditor[] };
+  Quill?: { find?(node: Element): QuillEditor | null };
+}
+
+declare global {
+  interface Window {
+    __GHOST_NEXT_PAGE_EDITORS__?: boolean;
+  }
+}
+
+// Prevent multiple injections
+if (window.__GHOST_NEXT_PAGE_EDITORS__) {
+  console.log('[PageEditors] Already injected, skipping...');
+} else {
+  window.__GHOST_NEXT_PAGE_EDITORS__ = true;
+  document.addEventListener(EDITOR_REQUEST_EVENT, handleEditorRequest);
+}
+
+function handleEditorRequest(event: Event): void {
+  let request: EditorRequest;
+  try {
+    request = JSON.parse((event as CustomEvent<string>).detail);
+  } catch {
+    return;
+  }
+
+  const response: EditorResponse = { token: request.token, editor: null };
+  const element = queryDeep(`[${EDITOR_TARGET_ATTR}="${request.token}"]`, collectScopes());
+  const editor = element ? findPageEditor(element) : null;
+
+  if (editor) {
+    try {
+      if (request.op === 'get') {
+        response.html = editor.getHtml();
+      } else if (request.op === 'append') {
+        editor.appendHtml(request.html || '');
+      } else {
+        editor.setHtml(request.html || '');
+      }
+      response.editor = editor.id;
+    } catch (error) {
+      console.warn(`[PageEditors] ${editor.id} ${request.op} failed:`, error);
+    }
+  }
+
+  document.dispatchEvent(new CustomEvent(EDITOR_RESPONSE_EVENT, { detail: JSON.stringify(response) }));
+}
+
+function findPageEditor(element: HTMLElement): PageEditor | null {
+  return ckeditor5(element) || ckeditor4(element) || tinymce(element) || quill(element);
+}
+
+function ckeditor5(element: HTMLElement): PageEditor | null {
+  const editable = element.closest('.ck-editor__editable') as (Element & { ckeditorInstance?: CKEditor5 }) | null;
+  const editor = editable?.ckeditorInstance;
+  if (!editor) return null;
+
+  return {
+    id: 'ckeditor5',
+    getHtml: () => editor.getData(),
+    setHtml: html => editor.setData(html),
+    appendHtml: html => editor.model.change(() => {
+      const root = editor.model.document.getRoot();
+      editor.model.insertContent(editor.data.parse(html), editor.model.createPositionAt(root, 'end'));
+    })
+  };
+}
+
+function ckeditor4(element: HTMLElement): PageEditor | null {
+  const instances = Object.values(pageGlobal(element, 'CKEDITOR')?.instances || {});
+  const editor = instances.find(instance => instance.editable?.()?.$ === element);
+  if (!editor) return null;
+
+  const change = (html: string) => {
+    editor.fire('saveSnapshot');
+    editor.setData(html, { callback: () => editor.fire('saveSnapshot') });
+  };
+
+  return {
+    id: 'ckeditor4',
+    getHtml: () => editor.getData(),
+    setHtml: change,
+    appendHtml: html => change(editor.getData() + html)
+  };
+}
+
+function tinymce(element: HTMLElement): PageEditor | null {
+  const global = pageGlobal(element, 'tinymce');
+  const editors = global?.get?.() || global?.editors || [];
+  const editor = Array.from(editors).find(instance => instance.getBody?.() === element);
+  if (!editor) return null;
+
+  const change = (html: string) => {
+    editor.undoManager.transact(() => editor.setContent(html));
+    // fire was renamed dispatch in TinyMCE 6
+    (editor.dispatch || editor.fire)?.call(editor, 'change');
+  };
+
+  return {
+    id: 'tinymce',
+    getHtml: () => editor.getContent(),
+    setHtml: change,
+    appendHtml: html => change(editor.getContent() + html)
+  };
+}
+
+function quill(element: HTMLElement): PageEditor | null {
+  const container = element.closest('.ql-container') as (Element & { __quill?: QuillEditor }) | null;
+  if (!container) return null;
+
+  const editor = pageGlobal(element, 'Quill')?.find?.(container) || container.__quill;
+  if (!editor?.clipboard) return null;
+
+  return {
+    id: 'quill',
+    getHtml: () => editor.root.innerHTML,
+    setHtml: html => {
+      editor.setText('', 'user');
+      editor.clipboard.dangerouslyPasteHTML(0, html, 'user');
+    },
+    appendHtml: html => editor.clipboard.dangerouslyPasteHTML(editor.getLength() - 1, html, 'user')
+  };
+}
+
+/**
+ * A global of the element's window or, for editors in frames, of the
+ * nearest same-origin parent window that has it
+ */
+function pageGlobal<K extends keyof EditorGlobals>(element: HTMLElement, name: K): EditorGlobals[K] | null {
+  let win: (Window & EditorGlobals) | null = element.ownerDocument.defaultView;
+
+  while (win) {
+    try {
+      const value = win[name];
+      if (value) return value;
+    } catch {
+      return null;
+    }
+    if (win === win.parent) break;
+    win = win.parent;
+  }
+
+  return null;
+}
@@ -0,0 +1,190 @@
+/**
+ * Rich-Text Editor Fill
+ *
+ * EHR note fields are often rich-text editors (CKEditor 4/5, TinyMCE,
+ * Quill) or plain contenteditable elements. Setting textContent wipes the
+ * formatting and desyncs the editor's model, so a value is formatted as
+ * HTML (headings, bullet lists for plan, medications and orders) and
+ * written through the editor:
+ * - editor API: the editors live in the page's JavaScript, which content
+ *   scripts cannot see; page-editors.ts runs in the page and answers
+ *   requests sent as DOM events (EDITOR_REQUEST_EVENT), synchronously
+ * - simulated input: otherwise the content is selected (replace) or the
+ *   caret put at the end (append) and inserted with insertHTML, which
+ *   goes through the editor's input handling
+ *
+ * getRichTextHtml reads the current HTML, so undo restores formatting,
+ * not just the text.
+ */
+
+import type { FieldCategory } from './domMapper';
+
+export type FillMode = 'replace' | 'append';
+
+export type RichTextEditor = 'ckeditor5' | 'ckeditor4' | 'tinymce' | 'quill' | 'contenteditable';
+
+export interface EditorRequest {
+  token: string;
+  op: 'get' | FillMode;
+  html?: string;
+}
+
+export interface EditorResponse {
+  token: string;
+  editor: RichTextEditor | null;   // null = no editor API for the element
+  html?: string;                   // current HTML ('get')
+}
+
+// Page <-> content script protocol (page-editors.ts)
+export const EDITOR_REQUEST_EVENT = 'assistmd-editor-request';
+export const EDITOR_RESPONSE_EVENT = 'assistmd-editor-response';
+export const EDITOR_TARGET_ATTR = 'data-assistmd-editor';
+
+// Filled as bullet lists, one item per line
+export const LIST_CATEGORIES: FieldCategory[] = ['plan', 'medications', 'orders'];
+
+const LIST_LABEL = /plan|medication|order|prescription|\brx\b/i;
+const BULLET = /^([-*•]|\d+[.)])\s+/;
+const HEADING = /^[A-Z][^.!?:]{0,60}:$/;
+
+/**
+ * Whether a field (by label) holds a list
+ */
+export function isListField(label: string): boolean {
+  return LIST_LABEL.test(label);
+}
+
+/**
+ * Plain text as editor HTML: "Heading:" lines become headings, "- " and
+ * "1. " lines lists, other lines paragraphs (list items in list fields)
+ */
+export function formatRichText(text: string, list: boolean = false): string {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  const html: string[] = [];
+  let openList: 'ul' | 'ol' | null = null;
+
+  const closeList = () => {
+    if (openList) html.push(`</${openList}>`);
+    openList = null;
+  };
+
+  for (const line of lines) {
+    if (HEADING.test(line)) {
+      closeList();
+      html.push(`<h3>${escapeHtml(line.slice(0, -1))}</h3>`);
+      continue;
+    }
+
+    const bullet = line.match(BULLET);
+    if (bullet || list) {
+      const kind = bullet && /\d/.test(bullet[1]) ? 'ol' : 'ul';
+      if (openList !== kind) {
+        closeList();
+        html.push(`<${kind}>`);
+        openList = kind;
+      }
+      html.push(`<li>${escapeHtml(line.replace(BULLET, ''))}</li>`);
+      continue;
+    }
+
+    closeList();
+    html.push(`<p>${escapeHtml(line)}</p>`);
+  }
+
+  closeList();
+  return html.join('');
+}
+
+/**
+ * Current HTML of an editor field
+ */
+export function getRichTextHtml(element: HTMLElement): string {
+  const response = requestPageEditor(element, { op: 'get' });
+  return response?.html ?? element.innerHTML;
+}
+
+/**
+ * Write HTML into an editor field; the strategy used is returned
+ */
+export function fillRichText(element: HTMLElement, html: string, mode: FillMode = 'replace'): RichTextEditor {
+  const response = requestPageEditor(element, { op: mode, html });
+  if (response) return response.editor!;
+
+  insertWithInputEvents(element, html, mode);
+  return 'contenteditable';
+}
+
+/**
+ * Ask page-editors.ts to run an operation through the element's editor;
+ * null when no editor API handled it
+ */
+function requestPageEditor(element: HTMLElement, request: Omit<EditorRequest, 'token'>): EditorResponse | null {
+  const token = Math.random().toString(36).substring(2);
+  const responses: EditorResponse[] = [];
+
+  // Listeners run synchronously inside dispatchEvent
+  const onResponse = (event: Event) => {
+    const response = parseResponse((event as CustomEvent<string>).detail);
+    if (response?.token === token) responses.push(response);
+  };
+
+  document.addEventListener(EDITOR_RESPONSE_EVENT, onResponse);
+  element.setAttribute(EDITOR_TARGET_ATTR, token);
+
+  try {
+    // Only strings cross from the content script's world to the page's
+    document.dispatchEvent(new CustomEvent(EDITOR_REQUEST_EVENT, {
+      detail: JSON.stringify({ ...request, token })
+    }));
+  } finally {
+    element.removeAttribute(EDITOR_TARGET_ATTR);
+    document.removeEventListener(EDITOR_RESPONSE_EVENT, onResponse);
+  }
+
+  return responses.find(response => response.editor) || null;
+}
+
+/**
+ * Select the content (or put the caret at the end) and insert, as typing
+ * or pasting would
+ */
+function insertWithInputEvents(element: HTMLElement, html: string, mode: FillMode): void {
+  const doc = element.ownerDocument;
+  const selection = doc.getSelection();
+  const range = doc.createRange();
+
+  element.focus();
+  range.selectNodeContents(element);
+  if (mode === 'append') range.collapse(false);
+  selection?.removeAllRanges();
+  selection?.addRange(range);
+
+  // Also puts the change on the browser's undo stack
+  const inserted = html
+    ? doc.execCommand('insertHTML', false, html)
+    : doc.execCommand('delete', false);
+  if (inserted) return;
+
+  if (mode === 'append') {
+    element.insertAdjacentHTML('beforeend', html);
+  } else {
+    element.innerHTML = html;
+  }
+  element.dispatchEvent(new InputEvent('input', { bubbles: true, inputType: 'insertFromPaste' }));
+}
+
+function parseResponse(detail: string): EditorResponse | null {
+  try {
+    return JSON.parse(detail);
+  } catch {
+    return null;
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
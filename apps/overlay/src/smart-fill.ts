@@ -3,23 +3,45 @@
  *
  * Executes fill steps received from the backend command router.
  * Handles DOM manipulation with undo capability.
+ *
+ * Fields in open shadow roots and same-origin frames are found by their
+ * scoped selector (deep-dom.ts) or, for plain ids, in every scope.
+ *
+ * Rich-text editors get formatted HTML through the editor (rich-text.ts),
+ * and undo restores their previous HTML.
+ *
+ * preview() reads the current values of the fields steps would fill
+ * without writing, for the overlay's fill review.
  */
 
+import { DomScope, SCOPE_SEPARATOR, collectScopes, isTag, resolveScopedSelector } from './deep-dom';
+import { FillMode, fillRichText, formatRichText, getRichTextHtml, isListField } from './rich-text';
+
 export interface FillStep {
   fieldId: string;
   fieldName: string;
   value: string;
   confidence: number;
   source: 'transcript' | 'inferred' | 'template';
+  mode?: FillMode;         // default: replace
+  separator?: string;      // append to a textarea: before the value (default: newline)
 }
 
 export interface UndoEntry {
   fieldId: string;
   previousValue: string;
+  previousHtml?: string;   // rich-text fields
   newValue: string;
   timestamp: number;
 }
 
+export interface FillPreviewItem {
+  step: FillStep;
+  found: boolean;          // the field is on the page
+  currentValue: string;
+  separator: string;       // append: between the current value and the step's
+}
+
 export interface FillResult {
   success: boolean;
   filledCount: number;
@@ -78,6 +100,33 @@ export class SmartFillEngine {
     return result;
   }
 
+  /**
+   * Current values of the fields the steps would fill; nothing is written
+   */
+  preview(steps: FillStep[]): FillPreviewItem[] {
+    return steps.map(step => {
+      const element = this.findElement(step.fieldId);
+      return {
+        step,
+        found: element !== null,
+        currentValue: element ? this.getElementValue(element) : '',
+        separator: element ? this.appendSeparator(element, step.separator) : '\n'
+      };
+    });
+  }
+
+  /**
+   * Scroll a field into view and outline it
+   */
+  revealField(fieldId: string): boolean {
+    const element = this.findElement(fieldId);
+    if (!element) return false;
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    this.highlightElement(element);
+    return true;
+  }
+
   /**
    * Fill a single field
    */
@@ -92,15 +141,17 @@ export class SmartFillEngine {
 
     // Store previous value for undo
     const previousValue = this.getElementValue(element);
+    const previousHtml = element.isContentEditable ? getRichTextHtml(element) : undefined;
 
     // Set the new value
-    const success = this.setElementValue(element, step.value);
+    const success = this.setElementValue(element, step.value, step.mode, isListField(step.fieldName), step.separator);
 
     if (success) {
       // Add to undo stack
       this.undoStack.push({
         fieldId: step.fieldId,
         previousValue,
+        previousHtml,
         newValue: step.value,
         timestamp: Date.now()
       });
@@ -116,20 +167,35 @@ export class SmartFillEngine {
    * Find element by various selectors
    */
   private findElement(fieldId: string): HTMLElement | null {
+    // Field in a shadow root or frame, by its scoped selector
+    if (fieldId.includes(SCOPE_SEPARATOR)) {
+      return resolveScopedSelector(fieldId);
+    }
+
+    // The document first, then open shadow roots and same-origin frames
+    for (const scope of collectScopes()) {
+      const element = this.findElementIn(scope, fieldId);
+      if (element) return element;
+    }
+
+    return null;
+  }
+
+  private findElementIn(scope: DomScope, fieldId: string): HTMLElement | null {
     // Try by ID
-    let element = document.getElementById(fieldId);
+    let element = scope.getElementById(fieldId);
     if (element) return element;
 
     // Try by name
-    element = document.querySelector(`[name="${fieldId}"]`) as HTMLElement;
+    element = scope.querySelector(`[name="${fieldId}"]`) as HTMLElement;
     if (element) return element;
 
     // Try by data attribute
-    element = document.querySelector(`[data-field-id="${fieldId}"]`) as HTMLElement;
+    element = scope.querySelector(`[data-field-id="${fieldId}"]`) as HTMLElement;
     if (element) return element;
 
     // Try by aria-label
-    element = document.querySelector(`[aria-label="${fieldId}"]`) as HTMLElement;
+    element = scope.querySelector(`[aria-label="${fieldId}"]`) as HTMLElement;
     if (element) return element;
 
     return null;
@@ -139,11 +205,9 @@ export class SmartFillEngine {
    * Get current value from element
    */
   private getElementValue(element: HTMLElement): string {
-    if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
-      return element.value;
-    }
-    if (element instanceof HTMLSelectElement) {
-      return element.value;
+    // Tag names, not instanceof: elements of frame documents are from another window
+    if (isTag(element, 'INPUT', 'TEXTAREA', 'SELECT')) {
+      return (element as HTMLInputElement).value;
     }
     if (element.isContentEditable) {
       return element.textContent || '';
@@ -154,31 +218,43 @@ export class SmartFillEngine {
   /**
    * Set value on element
    */
-  private setElementValue(element: HTMLElement, value: string): boolean {
+  private setElementValue(
+    element: HTMLElement,
+    value: string,
+    mode: FillMode = 'replace',
+    list = false,
+    separator?: string
+  ): boolean {
     try {
-      if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+      if (isTag(element, 'INPUT', 'TEXTAREA')) {
+        const input = element as HTMLInputElement;
+
         // Trigger focus
-        element.focus();
+        input.focus();
 
         // Set value
-        element.value = value;
+        input.value = mode === 'append' && input.value.trim()
+          ? `${input.value.trimEnd()}${this.appendSeparator(input, separator)}${value}`
+          : value;
 
         // Dispatch events for frameworks
-        element.dispatchEvent(new Event('input', { bubbles: true }));
-        element.dispatchEvent(new Event('change', { bubbles: true }));
+        input.dispatchEvent(new Event('input', { bubbles: true }));
+        input.dispatchEvent(new Event('change', { bubbles: true }));
 
         return true;
       }
 
-      if (element instanceof HTMLSelectElement) {
+      if (isTag(element, 'SELECT')) {
+        const select = element as HTMLSelectElement;
+
         // Find option with matching value
-        const option = Array.from(element.options).find(
+        const option = Array.from(select.options).find(
           opt => opt.value === value || opt.text.toLowerCase().includes(value.toLowerCase())
         );
 
         if (option) {
-          element.value = option.value;
-          element.dispatchEvent(new Event('change', { bubbles: true }));
+          select.value = option.value;
+          select.dispatchEvent(new Event('change', { bubbles: true }));
           return true;
         }
 
@@ -186,9 +262,8 @@ export class SmartFillEngine {
       }
 
       if (element.isContentEditable) {
-        element.focus();
-        element.textContent = value;
-        element.dispatchEvent(new Event('input', { bubbles: true }));
+        const editor = fillRichText(element, formatRichText(value, list), mode);
+        console.log(`[SmartFill] Filled rich-text field (${editor})`);
         return true;
       }
 
@@ -199,6 +274,14 @@ export class SmartFillEngine {
     }
   }
 
+  /**
+   * Between a field's text and an appended value: single-line inputs drop
+   * line breaks, so they get "; "
+   */
+  private appendSeparator(element: HTMLElement, separator = '\n'): string {
+    return isTag(element, 'INPUT') ? '; ' : separator;
+  }
+
   /**
    * Highlight element briefly
    */
@@ -233,7 +316,7 @@ export class SmartFillEngine {
       try {
         const element = this.findElement(entry.fieldId);
         if (element) {
-          const success = this.setElementValue(element, entry.previousValue);
+          const success = this.restoreElement(element, entry);
           if (success) {
             result.filledCount++;
             this.highlightUndoElement(element);
@@ -259,6 +342,18 @@ export class SmartFillEngine {
     return result;
   }
 
+  /**
+   * Put an element's previous value back; rich-text fields get their
+   * previous HTML, formatting included
+   */
+  private restoreElement(element: HTMLElement, entry: UndoEntry): boolean {
+    if (entry.previousHtml !== undefined && element.isContentEditable) {
+      fillRichText(element, entry.previousHtml, 'replace');
+      return true;
+    }
+    return this.setElementValue(element, entry.previousValue);
+  }
+
   /**
    * Highlight element during undo
    */
@@ -4,6 +4,10 @@
  * Manages the overlay's workflow states:
  * idle → connecting → recording → mapping → filling → reviewing → done
  *
+ * Fill steps are reviewed before anything is written: filling (waiting
+ * for steps) → reviewing (preview; accept, edit or reject each field) →
+ * filling (writing the accepted steps) → reviewing (confirm or undo).
+ *
  * Each state transition is validated and triggers appropriate UI updates.
  */
 
@@ -26,6 +30,9 @@ export type StateEvent =
   | 'START_MAP'
   | 'MAP_COMPLETE'
   | 'START_FILL'
+  | 'PREVIEW_READY'
+  | 'APPLY'
+  | 'DISCARD'
   | 'FILL_COMPLETE'
   | 'CONFIRM'
   | 'UNDO'
@@ -94,10 +101,13 @@ export class StateMachine {
 
       // Filling (from recording)
       { from: 'recording', event: 'START_FILL', to: 'filling' },
+      { from: 'filling', event: 'PREVIEW_READY', to: 'reviewing' },
       { from: 'filling', event: 'FILL_COMPLETE', to: 'reviewing' },
       { from: 'filling', event: 'UNDO', to: 'mapping' },
 
-      // Reviewing
+      // Reviewing (fill preview, then the written fields)
+      { from: 'reviewing', event: 'APPLY', to: 'filling' },
+      { from: 'reviewing', event: 'DISCARD', to: 'recording' },
       { from: 'reviewing', event: 'CONFIRM', to: 'done' },
       { from: 'reviewing', event: 'UNDO', to: 'mapping' },
 
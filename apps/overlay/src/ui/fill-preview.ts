@@ -0,0 +1,460 @@
+/**
+ * Fill Preview Component
+ *
+ * Shown in the reviewing state before anything is written to the EHR:
+ * each proposed fill step next to the field's current value, with the
+ * words it removes struck through and the words it adds highlighted.
+ * Each field can be accepted, edited or rejected; Apply writes only the
+ * accepted steps (with their edited values).
+ */
+
+import type { FillPreviewItem, FillStep } from '../smart-fill';
+
+export type FillPreviewAction = 'apply' | 'discard' | 'locate';
+
+type FillDecision = 'accept' | 'reject';
+
+interface PreviewRow {
+  item: FillPreviewItem;
+  value: string;
+  decision: FillDecision;
+}
+
+interface DiffPart {
+  text: string;
+  kind: 'same' | 'added' | 'removed';
+}
+
+// Above this many word pairs the diff just shows old and new text
+const MAX_DIFF_CELLS = 40000;
+
+export class FillPreviewView {
+  private shadowRoot: ShadowRoot;
+  private container: HTMLElement | null = null;
+  private listContainer: HTMLElement | null = null;
+  private applyBtn: HTMLButtonElement | null = null;
+  private rows: PreviewRow[] = [];
+  private onAction: (action: FillPreviewAction, steps: FillStep[]) => void;
+
+  constructor(shadowRoot: ShadowRoot, onAction: (action: FillPreviewAction, steps: FillStep[]) => void) {
+    this.shadowRoot = shadowRoot;
+    this.onAction = onAction;
+  }
+
+  public mount(container: HTMLElement): void {
+    this.container = container;
+    this.render();
+    this.hide();
+  }
+
+  /**
+   * Proposed steps to review; fields not on the page start rejected
+   */
+  public show(items: FillPreviewItem[]): void {
+    this.rows = items.map(item => ({
+      item,
+      value: item.step.value,
+      decision: item.found ? 'accept' : 'reject'
+    }));
+    this.container?.classList.remove('hidden');
+    this.renderRows();
+  }
+
+  public hide(): void {
+    this.rows = [];
+    this.container?.classList.add('hidden');
+    this.renderRows();
+  }
+
+  public isOpen(): boolean {
+    return !!this.container && !this.container.classList.contains('hidden');
+  }
+
+  private render(): void {
+    if (!this.container) return;
+
+    const styles = document.createElement('style');
+    styles.textContent = this.getStyles();
+    this.container.appendChild(styles);
+
+    const wrapper = document.createElement('div');
+    wrapper.className = 'preview-wrapper';
+    wrapper.innerHTML = `
+      <div class="preview-header">
+        <span class="preview-title">Review fill</span>
+        <span class="preview-legend"><del>current</del> <ins>proposed</ins></span>
+      </div>
+    `;
+
+    this.listContainer = document.createElement('div');
+    this.listContainer.className = 'preview-list';
+    wrapper.appendChild(this.listContainer);
+
+    const actions = document.createElement('div');
+    actions.className = 'preview-actions';
+    actions.innerHTML = `
+      <button class="preview-btn" data-action="discard">Discard</button>
+      <button class="preview-btn primary" data-action="apply">Apply</button>
+    `;
+    this.applyBtn = actions.querySelector('[data-action="apply"]');
+    this.applyBtn?.addEventListener('click', () => this.onAction('apply', this.acceptedSteps()));
+    actions.querySelector('[data-action="discard"]')?.addEventListener('click', () => this.onAction('discard', []));
+    wrapper.appendChild(actions);
+
+    this.container.appendChild(wrapper);
+    this.renderRows();
+  }
+
+  private renderRows(): void {
+    if (!this.listContainer) return;
+
+    this.listContainer.innerHTML = '';
+    this.updateApplyButton();
+
+    if (this.rows.length === 0) {
+      this.listContainer.innerHTML = '<p class="preview-empty">No values to fill</p>';
+      return;
+    }
+
+    for (const row of this.rows) {
+      this.listContainer.appendChild(this.renderRow(row));
+    }
+  }
+
+  private renderRow(row: PreviewRow): HTMLElement {
+    const { step, found, currentValue } = row.item;
+
+    const el = document.createElement('div');
+    el.className = `preview-row ${row.decision}`;
+    el.innerHTML = `
+      <div class="preview-field">
+        <span class="preview-name" title="Show on page"></span>
+        <span class="preview-confidence">${Math.round(step.confidence * 100)}%</span>
+        <button class="preview-btn" data-action="edit" title="Edit value">✎</button>
+        <button class="preview-btn" data-action="accept" title="Fill this field">✓</button>
+        <button class="preview-btn" data-action="reject" title="Leave this field">✗</button>
+      </div>
+      <div class="preview-diff">
+        <div class="preview-current"></div>
+        <div class="preview-proposed"></div>
+      </div>
+    `;
+
+    // Page and transcript text is set via textContent, never parsed as HTML
+    const name = el.querySelector('.preview-name') as HTMLElement;
+    name.textContent = step.fieldName || step.fieldId;
+    name.addEventListener('click', () => this.onAction('locate', [step]));
+
+    const current = el.querySelector('.preview-current') as HTMLElement;
+    const proposed = el.querySelector('.preview-proposed') as HTMLElement;
+    if (found) {
+      this.renderDiff(current, proposed, currentValue, this.proposedValue(row));
+    } else {
+      current.textContent = 'Field not found on this page';
+      current.classList.add('missing');
+    }
+
+    const accept = el.querySelector('[data-action="accept"]') as HTMLButtonElement;
+    const edit = el.querySelector('[data-action="edit"]') as HTMLButtonElement;
+    accept.disabled = !found;
+    edit.disabled = !found;
+
+    accept.addEventListener('click', () => this.setDecision(row, 'accept'));
+    el.querySelector('[data-action="reject"]')?.addEventListener('click', () => this.setDecision(row, 'reject'));
+    edit.addEventListener('click', () => this.editRow(row, proposed));
+
+    return el;
+  }
+
+  /**
+   * Swap the proposed value for a text box; an edit accepts the field
+   */
+  private editRow(row: PreviewRow, proposed: HTMLElement): void {
+    const input = document.createElement('textarea');
+    input.className = 'preview-input';
+    input.value = row.value;
+    proposed.replaceChildren(input);
+    input.focus();
+
+    const save = () => {
+      if (input.value !== row.value) {
+        row.value = input.value;
+        row.decision = 'accept';
+      }
+      this.renderRows();
+    };
+
+    input.addEventListener('blur', save);
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) input.blur();
+      if (e.key === 'Escape') {
+        input.value = row.value;
+        input.blur();
+      }
+    });
+  }
+
+  private setDecision(row: PreviewRow, decision: FillDecision): void {
+    row.decision = decision;
+    this.renderRows();
+  }
+
+  private acceptedSteps(): FillStep[] {
+    return this.rows
+      .filter(row => row.decision === 'accept')
+      .map(row => ({ ...row.item.step, value: row.value }));
+  }
+
+  private updateApplyButton(): void {
+    if (!this.applyBtn) return;
+
+    const count = this.rows.filter(row => row.decision === 'accept').length;
+    this.applyBtn.textContent = count ? `Apply ${count}` : 'Apply';
+    this.applyBtn.disabled = count === 0;
+  }
+
+  /**
+   * The field's value after the step: appended steps keep the current text
+   */
+  private proposedValue(row: PreviewRow): string {
+    const current = row.item.currentValue;
+    return row.item.step.mode === 'append' && current.trim()
+      ? `${current.trimEnd()}${row.item.separator}${row.value}`
+      : row.value;
+  }
+
+  private renderDiff(current: HTMLElement, proposed: HTMLElement, before: string, after: string): void {
+    const parts = diffWords(before, after);
+
+    if (!before.trim()) {
+      current.textContent = '(empty)';
+      current.classList.add('missing');
+    }
+
+    for (const part of parts) {
+      if (part.kind !== 'added') current.appendChild(diffSpan(part));
+      if (part.kind !== 'removed') proposed.appendChild(diffSpan(part));
+    }
+  }
+
+  private getStyles(): string {
+    return `
+      .fill-preview.hidden {
+        display: none;
+      }
+
+      .preview-wrapper {
+        padding: 8px 16px;
+        background: #16162a;
+        border-top: 1px solid #2d2d44;
+      }
+
+      .preview-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        margin-bottom: 6px;
+      }
+
+      .preview-title {
+        font-size: 12px;
+        font-weight: 600;
+        color: #888;
+        text-transform: uppercase;
+        letter-spacing: 0.5px;
+      }
+
+      .preview-legend {
+        font-size: 10px;
+      }
+
+      .preview-list {
+        max-height: 240px;
+        overflow-y: auto;
+      }
+
+      .preview-row {
+        padding: 6px 0;
+        border-bottom: 1px solid #2d2d44;
+      }
+
+      .preview-row.reject {
+        opacity: 0.5;
+      }
+
+      .preview-field {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        margin-bottom: 4px;
+      }
+
+      .preview-name {
+        flex: 1;
+        min-width: 0;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+        font-size: 12px;
+        font-weight: 600;
+        color: #eee;
+        cursor: pointer;
+      }
+
+      .preview-confidence {
+        font-size: 10px;
+        color: #666;
+      }
+
+      .preview-diff {
+        display: grid;
+        grid-template-columns: 1fr 1fr;
+        gap: 6px;
+      }
+
+      .preview-current,
+      .preview-proposed {
+        min-width: 0;
+        max-height: 96px;
+        overflow-y: auto;
+        padding: 4px 6px;
+        font-size: 11px;
+        line-height: 1.4;
+        white-space: pre-wrap;
+        word-break: break-word;
+        color: #ccc;
+        background: #1a1a2e;
+        border-radius: 4px;
+      }
+
+      .preview-current.missing {
+        color: #666;
+        font-style: italic;
+      }
+
+      .preview-wrapper del {
+        color: #ef9a9a;
+        background: rgba(230, 57, 70, 0.2);
+      }
+
+      .preview-wrapper ins {
+        color: #a5d6a7;
+        background: rgba(76, 175, 80, 0.2);
+        text-decoration: none;
+      }
+
+      .preview-input {
+        width: 100%;
+        min-height: 60px;
+        font-size: 11px;
+        color: #eee;
+        background: #1a1a2e;
+        border: 1px solid #2d2d44;
+        border-radius: 4px;
+        resize: vertical;
+      }
+
+      .preview-row.accept [data-action="accept"] {
+        background: #2e7d32;
+      }
+
+      .preview-row.reject [data-action="reject"] {
+        background: #8e2430;
+      }
+
+      .preview-actions {
+        display: flex;
+        justify-content: flex-end;
+        gap: 6px;
+        margin-top: 6px;
+      }
+
+      .preview-btn {
+        padding: 2px 6px;
+        font-size: 11px;
+        color: #ddd;
+        background: #2d2d44;
+        border: none;
+        border-radius: 4px;
+        cursor: pointer;
+      }
+
+      .preview-btn.primary {
+        padding: 4px 12px;
+        background: #e63946;
+        color: white;
+      }
+
+      .preview-btn:disabled {
+        opacity: 0.4;
+        cursor: default;
+      }
+
+      .preview-empty {
+        margin: 4px 0;
+        font-size: 12px;
+        color: #555;
+      }
+    `;
+  }
+}
+
+/**
+ * Word-level diff (longest common subsequence); whitespace is kept with
+ * the words so both sides render as written
+ */
+function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      { text: before, kind: 'removed' },
+      { text: after, kind: 'added' }
+    ];
+  }
+
+  // lcs[i][j]: common length of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (text: string, kind: DiffPart['kind']) => {
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) {
+      last.text += text;
+    } else {
+      parts.push({ text, kind });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], 'same');
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push(a[i++], 'removed');
+    } else {
+      push(b[j++], 'added');
+    }
+  }
+  while (i < a.length) push(a[i++], 'removed');
+  while (j < b.length) push(b[j++], 'added');
+
+  return parts;
+}
+
+function diffSpan(part: DiffPart): Node {
+  if (part.kind === 'same') return document.createTextNode(part.text);
+
+  const el = document.createElement(part.kind === 'added' ? 'ins' : 'del');
+  el.textContent = part.text;
+  return el;
+}
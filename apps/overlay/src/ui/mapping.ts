@@ -0,0 +1,266 @@
+/**
+ * Field Mapping Component
+ *
+ * Mapping tab: the fields detected on the current EHR page with the
+ * category each was mapped to and how (learned, site adapter, label
+ * heuristics). Picking a category, or confirming the current one, saves a
+ * learned mapping for this site and page that later scans use first. The
+ * doctor's saved mappings are listed below and can be removed.
+ */
+
+import type { FieldCategory, LearnedMapping } from '../domMapper';
+
+export interface MappedField {
+  id: string;
+  selector: string;
+  label: string;
+  fieldType: FieldCategory;
+  confidence: number;
+  source: 'learned' | 'adapter' | 'heuristic';
+}
+
+export type MappingAction = 'scan' | 'save' | 'delete';
+
+export class MappingView {
+  private shadowRoot: ShadowRoot;
+  private container: HTMLElement | null = null;
+  private fieldsContainer: HTMLElement | null = null;
+  private savedContainer: HTMLElement | null = null;
+  private pageEl: HTMLElement | null = null;
+  private categories: FieldCategory[];
+  private site: string = '';
+  private page: string = '';
+  private fields: MappedField[] = [];
+  private mappings: LearnedMapping[] = [];
+  private onAction: (action: MappingAction, mapping: LearnedMapping | null) => void;
+
+  constructor(
+    shadowRoot: ShadowRoot,
+    categories: FieldCategory[],
+    onAction: (action: MappingAction, mapping: LearnedMapping | null) => void
+  ) {
+    this.shadowRoot = shadowRoot;
+    this.categories = categories;
+    this.onAction = onAction;
+  }
+
+  public mount(container: HTMLElement): void {
+    this.container = container;
+    this.render();
+  }
+
+  /**
+   * Result of a page scan
+   */
+  public setFields(site: string, page: string, fields: MappedField[]): void {
+    this.site = site;
+    this.page = page;
+    this.fields = fields;
+    if (this.pageEl) this.pageEl.textContent = `${site} ${page}`;
+    this.renderFields();
+  }
+
+  public setMappings(mappings: LearnedMapping[]): void {
+    this.mappings = mappings;
+    this.renderSaved();
+  }
+
+  private render(): void {
+    if (!this.container) return;
+
+    const styles = document.createElement('style');
+    styles.textContent = this.getStyles();
+    this.container.appendChild(styles);
+
+    const wrapper = document.createElement('div');
+    wrapper.className = 'mapping-wrapper';
+    wrapper.innerHTML = `
+      <div class="mapping-header">
+        <span class="mapping-title">Fields on this page</span>
+        <button class="mapping-btn" data-action="scan">Scan page</button>
+      </div>
+      <div class="mapping-page"></div>
+    `;
+    wrapper.querySelector('[data-action="scan"]')?.addEventListener('click', () => this.onAction('scan', null));
+
+    this.fieldsContainer = document.createElement('div');
+    this.fieldsContainer.className = 'mapping-fields';
+    wrapper.appendChild(this.fieldsContainer);
+
+    const savedHeader = document.createElement('div');
+    savedHeader.className = 'mapping-header';
+    savedHeader.innerHTML = '<span class="mapping-title">Saved mappings</span>';
+    wrapper.appendChild(savedHeader);
+
+    this.savedContainer = document.createElement('div');
+    this.savedContainer.className = 'mapping-saved';
+    wrapper.appendChild(this.savedContainer);
+
+    this.pageEl = wrapper.querySelector('.mapping-page');
+    this.container.appendChild(wrapper);
+    this.renderFields();
+    this.renderSaved();
+  }
+
+  private renderFields(): void {
+    if (!this.fieldsContainer) return;
+
+    this.fieldsContainer.innerHTML = '';
+
+    if (this.fields.length === 0) {
+      this.fieldsContainer.innerHTML = '<p class="mapping-empty">Scan the page to list its fields</p>';
+      return;
+    }
+
+    for (const field of this.fields) {
+      const row = document.createElement('div');
+      row.className = `mapping-row ${field.source}`;
+      row.innerHTML = `
+        <span class="mapping-label"></span>
+        <span class="mapping-source">${field.source} ${Math.round(field.confidence * 100)}%</span>
+        <select class="mapping-category"></select>
+        <button class="mapping-btn" data-action="confirm" title="Confirm this mapping">✓</button>
+      `;
+
+      // Page-derived text is set via textContent, never parsed as HTML
+      const label = row.querySelector('.mapping-label') as HTMLElement;
+      label.textContent = field.label || field.id;
+      label.title = field.selector;
+
+      const select = row.querySelector('.mapping-category') as HTMLSelectElement;
+      for (const category of this.categories) {
+        const option = document.createElement('option');
+        option.value = category;
+        option.textContent = category.replace(/_/g, ' ');
+        option.selected = category === field.fieldType;
+        select.appendChild(option);
+      }
+
+      const save = () => this.onAction('save', {
+        site: this.site,
+        page: this.page,
+        selector: field.selector,
+        category: select.value as FieldCategory,
+        label: field.label
+      });
+      select.addEventListener('change', save);
+      row.querySelector('[data-action="confirm"]')?.addEventListener('click', save);
+
+      this.fieldsContainer.appendChild(row);
+    }
+  }
+
+  private renderSaved(): void {
+    if (!this.savedContainer) return;
+
+    this.savedContainer.innerHTML = '';
+
+    if (this.mappings.length === 0) {
+      this.savedContainer.innerHTML = '<p class="mapping-empty">No confirmed fields yet</p>';
+      return;
+    }
+
+    for (const mapping of this.mappings) {
+      const row = document.createElement('div');
+      row.className = 'mapping-row';
+      row.innerHTML = `
+        <span class="mapping-label"></span>
+        <span class="mapping-source"></span>
+        <button class="mapping-btn" data-action="delete" title="Forget this mapping">✕</button>
+      `;
+
+      const label = row.querySelector('.mapping-label') as HTMLElement;
+      label.textContent = mapping.label || mapping.selector;
+      label.title = `${mapping.site} ${mapping.page}\n${mapping.selector}`;
+      (row.querySelector('.mapping-source') as HTMLElement).textContent = mapping.category.replace(/_/g, ' ');
+
+      row.querySelector('[data-action="delete"]')?.addEventListener('click', () => this.onAction('delete', mapping));
+      this.savedContainer.appendChild(row);
+    }
+  }
+
+  private getStyles(): string {
+    return `
+      .mapping-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        margin: 8px 0 6px;
+      }
+
+      .mapping-title {
+        font-size: 12px;
+        font-weight: 600;
+        color: #888;
+        text-transform: uppercase;
+        letter-spacing: 0.5px;
+      }
+
+      .mapping-page {
+        font-size: 10px;
+        color: #666;
+        word-break: break-all;
+      }
+
+      .mapping-fields,
+      .mapping-saved {
+        max-height: 220px;
+        overflow-y: auto;
+      }
+
+      .mapping-row {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        padding: 4px 0;
+        border-bottom: 1px solid #2d2d44;
+      }
+
+      .mapping-label {
+        flex: 1;
+        min-width: 0;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+        font-size: 12px;
+        color: #eee;
+      }
+
+      .mapping-source {
+        font-size: 10px;
+        color: #666;
+        white-space: nowrap;
+      }
+
+      .mapping-row.learned .mapping-source {
+        color: #4caf50;
+      }
+
+      .mapping-category {
+        max-width: 120px;
+        padding: 2px 4px;
+        font-size: 11px;
+        color: #ddd;
+        background: #2d2d44;
+        border: none;
+        border-radius: 4px;
+      }
+
+      .mapping-btn {
+        padding: 2px 6px;
+        font-size: 11px;
+        color: #ddd;
+        background: #2d2d44;
+        border: none;
+        border-radius: 4px;
+        cursor: pointer;
+      }
+
+      .mapping-empty {
+        margin: 4px 0;
+        font-size: 12px;
+        color: #555;
+      }
+    `;
+  }
+}
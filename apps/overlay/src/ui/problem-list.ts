@@ -0,0 +1,310 @@
+/**
+ * Problem List Component
+ *
+ * Tasks tab list of the encounter's problems with candidate ICD-10-CM
+ * codes (and SNOMED CT concepts) from the backend coding assistant. Each
+ * code shows its confidence and the transcript chunks supporting it; Fill
+ * puts the code into the next diagnosis code field on the page.
+ */
+
+export interface CodeEvidence {
+  chunkIndex: number;
+  text: string;
+}
+
+export interface CodeCandidate {
+  code: string;
+  system: 'ICD-10-CM';
+  description: string;
+  snomed: { code: string; term: string } | null;
+  matchedTerm: string;
+  confidence: number;
+  evidence: CodeEvidence[];
+}
+
+export interface Problem {
+  phrase: string;
+  source: 'assessment' | 'chiefComplaint';
+  uncertain: boolean;
+  candidates: CodeCandidate[];
+}
+
+export interface ProblemList {
+  problems: Problem[];
+  generatedAt: number;
+}
+
+export class ProblemListView {
+  private shadowRoot: ShadowRoot;
+  private container: HTMLElement | null = null;
+  private listContainer: HTMLElement | null = null;
+  private statusEl: HTMLElement | null = null;
+  private transcriptId: number | null = null;
+  private problems: Problem[] = [];
+  private filledCodes: Set<string> = new Set();
+  private onFillCode: (candidate: CodeCandidate) => void;
+
+  constructor(shadowRoot: ShadowRoot, onFillCode: (candidate: CodeCandidate) => void) {
+    this.shadowRoot = shadowRoot;
+    this.onFillCode = onFillCode;
+  }
+
+  public mount(container: HTMLElement): void {
+    this.container = container;
+    this.render();
+  }
+
+  public setProblems(transcriptId: number, list: ProblemList): void {
+    // A new encounter starts a new list
+    if (transcriptId !== this.transcriptId) {
+      this.transcriptId = transcriptId;
+      this.filledCodes.clear();
+    }
+
+    this.problems = list.problems;
+    this.renderProblems();
+  }
+
+  /**
+   * Result of a Fill: the field the code went into, or why it did not
+   */
+  public setFillResult(code: string, success: boolean, detail: string): void {
+    if (success) this.filledCodes.add(code);
+
+    if (this.statusEl) {
+      this.statusEl.textContent = success ? `${code} → ${detail}` : `${code}: ${detail}`;
+      this.statusEl.classList.toggle('error', !success);
+    }
+    this.renderProblems();
+  }
+
+  public clear(): void {
+    this.transcriptId = null;
+    this.problems = [];
+    this.filledCodes.clear();
+    this.renderProblems();
+  }
+
+  private render(): void {
+    if (!this.container) return;
+
+    const styles = document.createElement('style');
+    styles.textContent = this.getStyles();
+    this.container.appendChild(styles);
+
+    const wrapper = document.createElement('div');
+    wrapper.className = 'problems-wrapper';
+    wrapper.innerHTML = `
+      <div class="problems-header">
+        <span class="problems-title">Problem List</span>
+        <span class="problems-status"></span>
+      </div>
+    `;
+
+    this.listContainer = document.createElement('div');
+    this.listContainer.className = 'problems-list';
+    wrapper.appendChild(this.listContainer);
+
+    this.statusEl = wrapper.querySelector('.problems-status');
+    this.container.appendChild(wrapper);
+    this.renderProblems();
+  }
+
+  private renderProblems(): void {
+    if (!this.listContainer) return;
+
+    this.listContainer.innerHTML = '';
+
+    if (this.problems.length === 0) {
+      this.listContainer.innerHTML = '<p class="problems-empty">No problems identified yet</p>';
+      return;
+    }
+
+    for (const problem of this.problems) {
+      const item = document.createElement('div');
+      item.className = 'problem-item';
+
+      const phrase = document.createElement('div');
+      phrase.className = 'problem-phrase';
+      // Transcript-derived text is set via textContent, never parsed as HTML
+      phrase.textContent = problem.phrase;
+      if (problem.uncertain) {
+        const badge = document.createElement('span');
+        badge.className = 'problem-badge';
+        badge.textContent = 'uncertain';
+        phrase.appendChild(badge);
+      }
+      item.appendChild(phrase);
+
+      if (problem.candidates.length === 0) {
+        const none = document.createElement('div');
+        none.className = 'problem-nocode';
+        none.textContent = 'No matching code';
+        item.appendChild(none);
+      }
+
+      for (const candidate of problem.candidates) {
+        item.appendChild(this.renderCandidate(candidate));
+      }
+
+      this.listContainer.appendChild(item);
+    }
+  }
+
+  private renderCandidate(candidate: CodeCandidate): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'code-row';
+    row.innerHTML = `
+      <span class="code-value"></span>
+      <span class="code-description"></span>
+      <span class="code-confidence">${Math.round(candidate.confidence * 100)}%</span>
+      <button class="code-fill" title="Fill into a diagnosis code field">Fill</button>
+    `;
+
+    row.querySelector('.code-value')!.textContent = candidate.code;
+
+    const description = row.querySelector('.code-description') as HTMLElement;
+    description.textContent = candidate.description;
+    if (candidate.snomed) {
+      description.title = `SNOMED CT ${candidate.snomed.code}: ${candidate.snomed.term}`;
+    }
+
+    // Supporting transcript chunks as citations
+    for (const evidence of candidate.evidence) {
+      const cite = document.createElement('span');
+      cite.className = 'code-cite';
+      cite.textContent = `#${evidence.chunkIndex}`;
+      cite.title = evidence.text;
+      description.appendChild(cite);
+    }
+
+    const fillBtn = row.querySelector('.code-fill') as HTMLButtonElement;
+    if (this.filledCodes.has(candidate.code)) {
+      fillBtn.textContent = '✓';
+      fillBtn.disabled = true;
+    }
+    fillBtn.addEventListener('click', () => this.onFillCode(candidate));
+
+    return row;
+  }
+
+  private getStyles(): string {
+    return `
+      .problems-wrapper {
+        margin-bottom: 12px;
+        padding-bottom: 8px;
+        border-bottom: 1px solid #2d2d44;
+      }
+
+      .problems-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        margin-bottom: 6px;
+      }
+
+      .problems-title {
+        font-size: 12px;
+        font-weight: 600;
+        color: #888;
+        text-transform: uppercase;
+        letter-spacing: 0.5px;
+      }
+
+      .problems-status {
+        font-size: 11px;
+        color: #4caf50;
+      }
+
+      .problems-status.error {
+        color: #e63946;
+      }
+
+      .problems-list {
+        max-height: 220px;
+        overflow-y: auto;
+      }
+
+      .problem-item {
+        margin-bottom: 8px;
+      }
+
+      .problem-phrase {
+        font-size: 13px;
+        color: #eee;
+        margin-bottom: 2px;
+      }
+
+      .problem-badge {
+        margin-left: 6px;
+        padding: 0 5px;
+        font-size: 10px;
+        border-radius: 6px;
+        background: rgba(255, 193, 7, 0.2);
+        color: #ffc107;
+      }
+
+      .problem-nocode {
+        font-size: 11px;
+        color: #555;
+        padding-left: 8px;
+      }
+
+      .code-row {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        padding-left: 8px;
+        margin-bottom: 2px;
+      }
+
+      .code-value {
+        font-family: monospace;
+        font-size: 12px;
+        font-weight: 600;
+        color: #64b5f6;
+        min-width: 64px;
+      }
+
+      .code-description {
+        flex: 1;
+        min-width: 0;
+        font-size: 11px;
+        color: #aaa;
+      }
+
+      .code-cite {
+        margin-left: 4px;
+        font-size: 10px;
+        color: #666;
+        cursor: help;
+      }
+
+      .code-confidence {
+        font-size: 10px;
+        color: #666;
+      }
+
+      .code-fill {
+        padding: 2px 6px;
+        font-size: 11px;
+        color: #ddd;
+        background: #2d2d44;
+        border: none;
+        border-radius: 4px;
+        cursor: pointer;
+      }
+
+      .code-fill:disabled {
+        color: #4caf50;
+        cursor: default;
+      }
+
+      .problems-empty {
+        margin: 4px 0;
+        font-size: 12px;
+        color: #555;
+      }
+    `;
+  }
+}
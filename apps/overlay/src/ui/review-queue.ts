@@ -0,0 +1,257 @@
+/**
+ * Review Queue Component
+ *
+ * Lists low-confidence transcript spans (medications, doses and numbers
+ * first) so the clinician can confirm or correct them inline.
+ * Corrections are sent to the agent, which rewrites the stored chunk.
+ */
+
+export type ReviewItemKind = 'medication' | 'dose' | 'number' | 'other';
+
+export interface ReviewItem {
+  chunkIndex: number;
+  wordStart: number;
+  wordEnd: number;
+  text: string;
+  confidence: number;
+  kind: ReviewItemKind;
+  speaker: number;
+}
+
+const KIND_PRIORITY: Record<ReviewItemKind, number> = {
+  medication: 0,
+  dose: 1,
+  number: 2,
+  other: 3
+};
+
+export class ReviewQueueView {
+  private shadowRoot: ShadowRoot;
+  private container: HTMLElement | null = null;
+  private listContainer: HTMLElement | null = null;
+  private items: ReviewItem[] = [];
+  private onCorrect: (item: ReviewItem, text: string) => void;
+
+  constructor(shadowRoot: ShadowRoot, onCorrect: (item: ReviewItem, text: string) => void) {
+    this.shadowRoot = shadowRoot;
+    this.onCorrect = onCorrect;
+  }
+
+  public mount(container: HTMLElement): void {
+    this.container = container;
+    this.render();
+  }
+
+  public addItems(items: ReviewItem[]): void {
+    for (const item of items) {
+      if (!this.items.some(i => this.isSameSpan(i, item))) {
+        this.items.push(item);
+      }
+    }
+
+    this.items.sort((a, b) =>
+      KIND_PRIORITY[a.kind] - KIND_PRIORITY[b.kind] ||
+      a.chunkIndex - b.chunkIndex ||
+      a.wordStart - b.wordStart
+    );
+    this.renderItems();
+  }
+
+  /**
+   * Drop a span once corrected; later spans in the same chunk shift by
+   * the change in word count
+   */
+  public resolve(chunkIndex: number, wordStart: number, wordEnd: number, text: string): void {
+    const delta = text.trim().split(/\s+/).filter(Boolean).length - (wordEnd - wordStart);
+
+    this.items = this.items
+      .filter(i => !(i.chunkIndex === chunkIndex && i.wordStart === wordStart))
+      .map(i => i.chunkIndex === chunkIndex && i.wordStart >= wordEnd
+        ? { ...i, wordStart: i.wordStart + delta, wordEnd: i.wordEnd + delta }
+        : i);
+    this.renderItems();
+  }
+
+  /**
+   * Drop every span in a chunk (its word indices are stale after an edit)
+   */
+  public dropChunk(chunkIndex: number): void {
+    this.items = this.items.filter(i => i.chunkIndex !== chunkIndex);
+    this.renderItems();
+  }
+
+  public clear(): void {
+    this.items = [];
+    this.renderItems();
+  }
+
+  private render(): void {
+    if (!this.container) return;
+
+    const styles = document.createElement('style');
+    styles.textContent = this.getStyles();
+    this.container.appendChild(styles);
+
+    const wrapper = document.createElement('div');
+    wrapper.className = 'review-wrapper';
+    wrapper.innerHTML = `
+      <div class="review-header">
+        <span class="review-title">Needs Review</span>
+        <span class="review-count">0</span>
+      </div>
+    `;
+
+    this.listContainer = document.createElement('div');
+    this.listContainer.className = 'review-list';
+    wrapper.appendChild(this.listContainer);
+
+    this.container.appendChild(wrapper);
+    this.renderItems();
+  }
+
+  private renderItems(): void {
+    if (!this.listContainer || !this.container) return;
+
+    const countEl = this.container.querySelector('.review-count');
+    if (countEl) countEl.textContent = String(this.items.length);
+
+    this.listContainer.innerHTML = '';
+
+    if (this.items.length === 0) {
+      this.listContainer.innerHTML = '<p class="review-empty">Nothing to review</p>';
+      return;
+    }
+
+    this.items.forEach(item => {
+      const row = document.createElement('div');
+      row.className = 'review-item';
+      row.innerHTML = `
+        <span class="review-kind" data-kind="${item.kind}">${item.kind}</span>
+        <input class="review-input" type="text" />
+        <span class="review-confidence">${Math.round(item.confidence * 100)}%</span>
+        <button class="review-btn" data-action="correct" title="Save correction">✓</button>
+        <button class="review-btn" data-action="dismiss" title="Transcript is right">✗</button>
+      `;
+
+      // Set via property so transcript text is never parsed as HTML
+      const input = row.querySelector('.review-input') as HTMLInputElement;
+      input.value = item.text;
+
+      const submit = () => {
+        const text = input.value.trim();
+        if (text && text !== item.text) {
+          this.onCorrect(item, text);
+        } else {
+          this.dismiss(item);
+        }
+      };
+
+      input.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter') submit();
+      });
+      row.querySelector('[data-action="correct"]')?.addEventListener('click', submit);
+      row.querySelector('[data-action="dismiss"]')?.addEventListener('click', () => this.dismiss(item));
+
+      this.listContainer!.appendChild(row);
+    });
+  }
+
+  private dismiss(item: ReviewItem): void {
+    this.items = this.items.filter(i => !this.isSameSpan(i, item));
+    this.renderItems();
+  }
+
+  private isSameSpan(a: ReviewItem, b: ReviewItem): boolean {
+    return a.chunkIndex === b.chunkIndex && a.wordStart === b.wordStart;
+  }
+
+  private getStyles(): string {
+    return `
+      .review-wrapper {
+        margin-top: 12px;
+        padding-top: 8px;
+        border-top: 1px solid #2d2d44;
+      }
+
+      .review-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        margin-bottom: 6px;
+      }
+
+      .review-title {
+        font-size: 12px;
+        font-weight: 600;
+        color: #888;
+        text-transform: uppercase;
+        letter-spacing: 0.5px;
+      }
+
+      .review-count {
+        font-size: 11px;
+        padding: 1px 6px;
+        border-radius: 8px;
+        background: rgba(255, 193, 7, 0.2);
+        color: #ffc107;
+      }
+
+      .review-list {
+        max-height: 140px;
+        overflow-y: auto;
+      }
+
+      .review-item {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        margin-bottom: 4px;
+      }
+
+      .review-kind {
+        font-size: 10px;
+        font-weight: 600;
+        width: 64px;
+        text-transform: uppercase;
+        color: #888;
+      }
+
+      .review-kind[data-kind="medication"],
+      .review-kind[data-kind="dose"] {
+        color: #e63946;
+      }
+
+      .review-input {
+        flex: 1;
+        min-width: 0;
+        padding: 3px 6px;
+        font-size: 12px;
+        color: #eee;
+        background: #1a1a2e;
+        border: 1px solid #2d2d44;
+        border-radius: 4px;
+      }
+
+      .review-confidence {
+        font-size: 10px;
+        color: #666;
+      }
+
+      .review-btn {
+        padding: 2px 6px;
+        font-size: 11px;
+        color: #ddd;
+        background: #2d2d44;
+        border: none;
+        border-radius: 4px;
+        cursor: pointer;
+      }
+
+      .review-empty {
+        margin: 4px 0;
+        font-size: 12px;
+        color: #555;
+      }
+    `;
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * Interim Summary Component
+ *
+ * Summary tab view of the note as it builds up during the encounter. The
+ * backend summarizes each stretch of conversation (interim summary); this
+ * view merges them: narrative sections are appended in order, lists are
+ * de-duplicated, the latest chief complaint and follow-up win.
+ *
+ * The After-Visit Summary button opens the patient-facing summary of the
+ * encounter (backend /transcripts/:id/avs) for printing, in the
+ * encounter's language or a chosen one.
+ */
+
+/** '' = the encounter's language */
+export type AvsLanguage = '' | 'en' | 'es';
+
+export interface SummaryFields {
+  chiefComplaint: string;
+  hpi: string;
+  ros: Record<string, string>;
+  assessment: string;
+  plan: string[];
+  medications: string[];
+  followUp: string;
+}
+
+export interface InterimSummary {
+  index: number;
+  fromChunk: number;
+  toChunk: number;
+  summary: SummaryFields;
+  createdAt: number;
+}
+
+export class SummaryView {
+  private shadowRoot: ShadowRoot;
+  private container: HTMLElement | null = null;
+  private noteContainer: HTMLElement | null = null;
+  private avsStatusEl: HTMLElement | null = null;
+  private transcriptId: number | null = null;
+  private interims: InterimSummary[] = [];
+  private onPrintAvs: (language: AvsLanguage) => void;
+
+  constructor(shadowRoot: ShadowRoot, onPrintAvs: (language: AvsLanguage) => void) {
+    this.shadowRoot = shadowRoot;
+    this.onPrintAvs = onPrintAvs;
+  }
+
+  public mount(container: HTMLElement): void {
+    this.container = container;
+    this.render();
+  }
+
+  public addInterim(transcriptId: number, interim: InterimSummary): void {
+    // A new encounter starts a new note
+    if (transcriptId !== this.transcriptId) {
+      this.transcriptId = transcriptId;
+      this.interims = [];
+    }
+
+    if (this.interims.some(i => i.index === interim.index)) return;
+    this.interims.push(interim);
+    this.interims.sort((a, b) => a.index - b.index);
+    this.renderNote();
+  }
+
+  /**
+   * Result of opening the after-visit summary (e.g. popup blocked)
+   */
+  public setAvsResult(success: boolean, detail: string): void {
+    if (!this.avsStatusEl) return;
+    this.avsStatusEl.textContent = detail;
+    this.avsStatusEl.classList.toggle('error', !success);
+  }
+
+  public clear(): void {
+    this.transcriptId = null;
+    this.interims = [];
+    this.renderNote();
+  }
+
+  private render(): void {
+    if (!this.container) return;
+
+    const styles = document.createElement('style');
+    styles.textContent = this.getStyles();
+    this.container.appendChild(styles);
+
+    this.noteContainer = document.createElement('div');
+    this.noteContainer.className = 'interim-note';
+    this.container.appendChild(this.noteContainer);
+
+    const avsBar = document.createElement('div');
+    avsBar.className = 'avs-bar';
+    avsBar.innerHTML = `
+      <button class="avs-print" title="Open the patient after-visit summary to print">After-Visit Summary</button>
+      <select class="avs-language" title="Language of the after-visit summary">
+        <option value="">Encounter language</option>
+        <option value="en">English</option>
+        <option value="es">Español</option>
+      </select>
+      <span class="avs-status"></span>
+    `;
+    const languageSelect = avsBar.querySelector('.avs-language') as HTMLSelectElement;
+    avsBar.querySelector('.avs-print')?.addEventListener('click', () => {
+      this.onPrintAvs(languageSelect.value as AvsLanguage);
+    });
+    this.avsStatusEl = avsBar.querySelector('.avs-status');
+    this.container.appendChild(avsBar);
+
+    this.renderNote();
+  }
+
+  private renderNote(): void {
+    if (!this.noteContainer) return;
+
+    this.noteContainer.innerHTML = '';
+
+    if (this.interims.length === 0) {
+      this.noteContainer.innerHTML = '<p class="interim-empty">The note builds up here while recording</p>';
+      return;
+    }
+
+    const merged = this.merge();
+    const latest = this.interims[this.interims.length - 1];
+
+    const meta = document.createElement('div');
+    meta.className = 'interim-meta';
+    meta.textContent = `Updated ${new Date(latest.createdAt).toLocaleTimeString()} · ${this.interims.length} update${this.interims.length === 1 ? '' : 's'}`;
+    this.noteContainer.appendChild(meta);
+
+    this.addSection('Chief Complaint', merged.chiefComplaint);
+    this.addSection('HPI', merged.hpi);
+    this.addSection('Review of Systems', Object.entries(merged.ros).map(([system, finding]) => `${system}: ${finding}`));
+    this.addSection('Assessment', merged.assessment);
+    this.addSection('Plan', merged.plan);
+    this.addSection('Medications', merged.medications);
+    this.addSection('Follow-up', merged.followUp);
+  }
+
+  private merge(): SummaryFields {
+    const merged: SummaryFields = {
+      chiefComplaint: '',
+      hpi: '',
+      ros: {},
+      assessment: '',
+      plan: [],
+      medications: [],
+      followUp: ''
+    };
+
+    for (const { summary } of this.interims) {
+      if (summary.chiefComplaint) merged.chiefComplaint = summary.chiefComplaint;
+      if (summary.followUp) merged.followUp = summary.followUp;
+      merged.hpi = appendText(merged.hpi, summary.hpi);
+      merged.assessment = appendText(merged.assessment, summary.assessment);
+      merged.ros = { ...merged.ros, ...summary.ros };
+      merged.plan = appendUnique(merged.plan, summary.plan);
+      merged.medications = appendUnique(merged.medications, summary.medications);
+    }
+
+    return merged;
+  }
+
+  private addSection(title: string, content: string | string[]): void {
+    if (!this.noteContainer || content.length === 0) return;
+
+    const section = document.createElement('div');
+    section.className = 'interim-section';
+
+    const heading = document.createElement('h4');
+    heading.textContent = title;
+    section.appendChild(heading);
+
+    // Set via textContent so summary text is never parsed as HTML
+    if (Array.isArray(content)) {
+      const list = document.createElement('ul');
+      content.forEach(item => {
+        const li = document.createElement('li');
+        li.textContent = item;
+        list.appendChild(li);
+      });
+      section.appendChild(list);
+    } else {
+      const text = document.createElement('p');
+      text.textContent = content;
+      section.appendChild(text);
+    }
+
+    this.noteContainer.appendChild(section);
+  }
+
+  private getStyles(): string {
+    return `
+      .interim-note {
+        display: flex;
+        flex-direction: column;
+        gap: 6px;
+        margin-bottom: 12px;
+      }
+
+      .interim-meta {
+        font-size: 11px;
+        color: #666;
+      }
+
+      .interim-section h4 {
+        margin: 0 0 2px;
+        font-size: 11px;
+        font-weight: 600;
+        color: #888;
+        text-transform: uppercase;
+        letter-spacing: 0.5px;
+      }
+
+      .interim-section p,
+      .interim-section ul {
+        margin: 0;
+        font-size: 13px;
+        line-height: 1.4;
+        color: #ddd;
+      }
+
+      .interim-section ul {
+        padding-left: 16px;
+      }
+
+      .interim-empty {
+        margin: 4px 0;
+        font-size: 12px;
+        color: #555;
+      }
+
+      .avs-bar {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        margin-bottom: 12px;
+      }
+
+      .avs-print,
+      .avs-language {
+        padding: 3px 8px;
+        font-size: 11px;
+        color: #ddd;
+        background: #2d2d44;
+        border: none;
+        border-radius: 4px;
+      }
+
+      .avs-print {
+        cursor: pointer;
+      }
+
+      .avs-status {
+        font-size: 11px;
+        color: #4caf50;
+      }
+
+      .avs-status.error {
+        color: #e63946;
+      }
+    `;
+  }
+}
+
+function appendText(current: string, next: string): string {
+  if (!next || current.includes(next)) return current;
+  return current ? `${current} ${next}` : next;
+}
+
+function appendUnique(current: string[], next: string[]): string[] {
+  const seen = new Set(current.map(item => item.toLowerCase()));
+  return [...current, ...next.filter(item => !seen.has(item.toLowerCase()))];
+}
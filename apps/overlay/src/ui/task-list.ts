@@ -0,0 +1,227 @@
+/**
+ * Task List Component
+ *
+ * Tasks tab checklist of the encounter's orders (labs, imaging, referrals),
+ * prescriptions to send and follow-up, extracted by the backend. Tasks are
+ * checked off or dismissed (states are kept per transcript on the server),
+ * and Fill adds a task to the matching EHR field (orders, medications,
+ * follow-up, else plan).
+ */
+
+export type TaskKind = 'lab' | 'imaging' | 'referral' | 'prescription' | 'follow_up';
+
+export type TaskState = 'pending' | 'done' | 'dismissed';
+
+export interface EncounterTask {
+  id: string;
+  kind: TaskKind;
+  text: string;
+  detail: string;
+  source: 'transcript' | 'summary';
+  chunkIndex: number | null;
+  state: TaskState;
+  updatedAt: number | null;
+}
+
+export type TaskAction = 'done' | 'dismiss' | 'reopen' | 'fill';
+
+const KIND_LABELS: Record<TaskKind, string> = {
+  lab: 'Lab',
+  imaging: 'Imaging',
+  referral: 'Referral',
+  prescription: 'Rx',
+  follow_up: 'Follow-up'
+};
+
+export class TaskListView {
+  private shadowRoot: ShadowRoot;
+  private container: HTMLElement | null = null;
+  private listContainer: HTMLElement | null = null;
+  private statusEl: HTMLElement | null = null;
+  private transcriptId: number | null = null;
+  private tasks: EncounterTask[] = [];
+  private onAction: (action: TaskAction, task: EncounterTask) => void;
+
+  constructor(shadowRoot: ShadowRoot, onAction: (action: TaskAction, task: EncounterTask) => void) {
+    this.shadowRoot = shadowRoot;
+    this.onAction = onAction;
+  }
+
+  public mount(container: HTMLElement): void {
+    this.container = container;
+    this.render();
+  }
+
+  public setTasks(transcriptId: number, tasks: EncounterTask[]): void {
+    this.transcriptId = transcriptId;
+    this.tasks = tasks;
+    this.renderTasks();
+  }
+
+  public getTranscriptId(): number | null {
+    return this.transcriptId;
+  }
+
+  /**
+   * Result of a Fill: the field the task went into, or why it did not
+   */
+  public setFillResult(success: boolean, detail: string): void {
+    if (!this.statusEl) return;
+    this.statusEl.textContent = detail;
+    this.statusEl.classList.toggle('error', !success);
+  }
+
+  public clear(): void {
+    this.transcriptId = null;
+    this.tasks = [];
+    this.renderTasks();
+  }
+
+  private render(): void {
+    if (!this.container) return;
+
+    const styles = document.createElement('style');
+    styles.textContent = this.getStyles();
+    this.container.appendChild(styles);
+
+    const wrapper = document.createElement('div');
+    wrapper.className = 'task-wrapper';
+    wrapper.innerHTML = `
+      <div class="task-header">
+        <span class="task-title">Orders &amp; Follow-up</span>
+        <span class="task-status"></span>
+      </div>
+    `;
+
+    this.listContainer = document.createElement('div');
+    this.listContainer.className = 'task-items';
+    wrapper.appendChild(this.listContainer);
+
+    this.statusEl = wrapper.querySelector('.task-status');
+    this.container.appendChild(wrapper);
+    this.renderTasks();
+  }
+
+  private renderTasks(): void {
+    if (!this.listContainer) return;
+
+    this.listContainer.innerHTML = '';
+
+    if (this.tasks.length === 0) {
+      this.listContainer.innerHTML = '<p class="task-empty">No tasks extracted yet</p>';
+      return;
+    }
+
+    // Open tasks first, dismissed last
+    const order: Record<TaskState, number> = { pending: 0, done: 1, dismissed: 2 };
+    const sorted = [...this.tasks].sort((a, b) => order[a.state] - order[b.state]);
+
+    for (const task of sorted) {
+      this.listContainer.appendChild(this.renderTask(task));
+    }
+  }
+
+  private renderTask(task: EncounterTask): HTMLElement {
+    const item = document.createElement('div');
+    item.className = `task-item ${task.state}`;
+    item.innerHTML = `
+      <input class="task-check" type="checkbox" ${task.state === 'done' ? 'checked' : ''} ${task.state === 'dismissed' ? 'disabled' : ''} />
+      <span class="task-kind">${KIND_LABELS[task.kind] || task.kind}</span>
+      <span class="task-text"></span>
+      <button class="task-btn" data-action="fill" title="Add to the matching EHR field">Fill</button>
+      <button class="task-btn" data-action="${task.state === 'dismissed' ? 'reopen' : 'dismiss'}"
+        title="${task.state === 'dismissed' ? 'Restore' : 'Dismiss'}">${task.state === 'dismissed' ? '↺' : '✕'}</button>
+    `;
+
+    // Transcript-derived text is set via textContent, never parsed as HTML
+    const text = item.querySelector('.task-text') as HTMLElement;
+    text.textContent = task.text;
+    text.title = task.chunkIndex !== null ? `#${task.chunkIndex}: ${task.detail}` : task.detail;
+
+    item.querySelector('.task-check')?.addEventListener('change', (e) => {
+      this.onAction((e.target as HTMLInputElement).checked ? 'done' : 'reopen', task);
+    });
+    item.querySelectorAll<HTMLButtonElement>('.task-btn').forEach(btn => {
+      btn.addEventListener('click', () => this.onAction(btn.dataset.action as TaskAction, task));
+    });
+
+    return item;
+  }
+
+  private getStyles(): string {
+    return `
+      .task-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        margin-bottom: 6px;
+      }
+
+      .task-title {
+        font-size: 12px;
+        font-weight: 600;
+        color: #888;
+        text-transform: uppercase;
+        letter-spacing: 0.5px;
+      }
+
+      .task-status {
+        font-size: 11px;
+        color: #4caf50;
+      }
+
+      .task-status.error {
+        color: #e63946;
+      }
+
+      .task-item {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        padding: 4px 0;
+        border-bottom: 1px solid #2d2d44;
+      }
+
+      .task-item.done .task-text {
+        color: #666;
+        text-decoration: line-through;
+      }
+
+      .task-item.dismissed {
+        opacity: 0.5;
+      }
+
+      .task-kind {
+        padding: 0 5px;
+        font-size: 10px;
+        border-radius: 6px;
+        background: #2d2d44;
+        color: #aaa;
+        white-space: nowrap;
+      }
+
+      .task-text {
+        flex: 1;
+        min-width: 0;
+        font-size: 12px;
+        color: #eee;
+      }
+
+      .task-btn {
+        padding: 2px 6px;
+        font-size: 11px;
+        color: #ddd;
+        background: #2d2d44;
+        border: none;
+        border-radius: 4px;
+        cursor: pointer;
+      }
+
+      .task-empty {
+        margin: 4px 0;
+        font-size: 12px;
+        color: #555;
+      }
+    `;
+  }
+}
@@ -3,25 +3,61 @@
  *
  * Displays real-time transcription with speaker diarization.
  * Shows interim and final transcript lines with timestamps.
+ * Speaker badges show the resolved role; clicking a badge cycles the
+ * role as a manual override. Low-confidence words are underlined.
+ * Lines in a language other than English get a language tag.
  */
 
+export interface TranscriptWord {
+  word: string;
+  confidence: number;
+}
+
 export interface TranscriptLine {
   id: string;
   speaker: string;
   text: string;
   timestamp: number;
   isFinal: boolean;
+  words?: TranscriptWord[];
+  language?: string | null;
+}
+
+// Words below this confidence are highlighted
+const LOW_CONFIDENCE = 0.7;
+
+export type SpeakerRole = 'clinician' | 'patient' | 'family' | 'interpreter';
+
+export interface SpeakerRoleAssignment {
+  role: SpeakerRole;
+  source: 'manual' | 'enrollment' | 'heuristic';
+  confidence: number;
 }
 
+const ROLE_CYCLE: SpeakerRole[] = ['clinician', 'patient', 'family', 'interpreter'];
+
+const ROLE_LABELS: Record<SpeakerRole, string> = {
+  clinician: 'Clinician',
+  patient: 'Patient',
+  family: 'Family',
+  interpreter: 'Interpreter'
+};
+
 export class TranscriptView {
   private shadowRoot: ShadowRoot;
   private container: HTMLElement | null = null;
   private linesContainer: HTMLElement | null = null;
   private lines: TranscriptLine[] = [];
   private autoScroll: boolean = true;
+  private speakerRoles: Record<string, SpeakerRoleAssignment> = {};
+  private onSpeakerRoleChange?: (speaker: number, role: SpeakerRole | null) => void;
 
-  constructor(shadowRoot: ShadowRoot) {
+  constructor(
+    shadowRoot: ShadowRoot,
+    onSpeakerRoleChange?: (speaker: number, role: SpeakerRole | null) => void
+  ) {
     this.shadowRoot = shadowRoot;
+    this.onSpeakerRoleChange = onSpeakerRoleChange;
   }
 
   public mount(container: HTMLElement): void {
@@ -44,6 +80,11 @@ export class TranscriptView {
     this.renderLines();
   }
 
+  public setSpeakerRoles(roles: Record<string, SpeakerRoleAssignment>): void {
+    this.speakerRoles = roles;
+    this.renderLines();
+  }
+
   public clear(): void {
     this.lines = [];
     if (this.linesContainer) {
@@ -114,12 +155,16 @@ export class TranscriptView {
       // Speaker header
       const speakerHeader = document.createElement('div');
       speakerHeader.className = 'speaker-header';
+      const assignment = this.speakerRoles[group.speaker];
       speakerHeader.innerHTML = `
-        <span class="speaker-badge" data-speaker="${group.speaker}">
-          ${this.getSpeakerLabel(group.speaker)}
+        <span class="speaker-badge" data-speaker="${assignment?.role || group.speaker}" title="Click to change role">
+          ${this.getSpeakerLabel(group.speaker)}${assignment?.source === 'manual' ? ' ✎' : ''}
         </span>
         <span class="timestamp">${this.formatTime(group.lines[0].timestamp)}</span>
       `;
+      speakerHeader.querySelector('.speaker-badge')?.addEventListener('click', () => {
+        this.cycleSpeakerRole(group.speaker);
+      });
       groupEl.appendChild(speakerHeader);
 
       // Lines
@@ -127,7 +172,17 @@ export class TranscriptView {
         const lineEl = document.createElement('div');
         lineEl.className = `transcript-line ${line.isFinal ? 'final' : 'interim'}`;
         lineEl.dataset.lineId = line.id;
-        lineEl.textContent = line.text;
+        if (line.language && line.language !== 'en') {
+          const tag = document.createElement('span');
+          tag.className = 'language-tag';
+          tag.textContent = line.language.toUpperCase();
+          lineEl.appendChild(tag);
+        }
+        if (line.isFinal && line.words?.length) {
+          this.renderWords(lineEl, line.words);
+        } else {
+          lineEl.appendChild(document.createTextNode(line.text));
+        }
         groupEl.appendChild(lineEl);
       });
 
@@ -140,6 +195,22 @@ export class TranscriptView {
     }
   }
 
+  private renderWords(lineEl: HTMLElement, words: TranscriptWord[]): void {
+    words.forEach((w, i) => {
+      if (i > 0) lineEl.appendChild(document.createTextNode(' '));
+
+      if (w.confidence < LOW_CONFIDENCE) {
+        const wordEl = document.createElement('span');
+        wordEl.className = 'low-confidence';
+        wordEl.title = `${Math.round(w.confidence * 100)}% confidence`;
+        wordEl.textContent = w.word;
+        lineEl.appendChild(wordEl);
+      } else {
+        lineEl.appendChild(document.createTextNode(w.word));
+      }
+    });
+  }
+
   private groupBySpeaker(lines: TranscriptLine[]): { speaker: string; lines: TranscriptLine[] }[] {
     const groups: { speaker: string; lines: TranscriptLine[] }[] = [];
     let currentGroup: { speaker: string; lines: TranscriptLine[] } | null = null;
@@ -155,7 +226,22 @@ export class TranscriptView {
     return groups;
   }
 
+  private cycleSpeakerRole(speaker: string): void {
+    const speakerNumber = parseInt(speaker);
+    if (isNaN(speakerNumber) || !this.onSpeakerRoleChange) return;
+
+    // clinician → patient → family → interpreter → automatic
+    const current = this.speakerRoles[speaker]?.role;
+    const index = current ? ROLE_CYCLE.indexOf(current) : -1;
+    const next = index + 1 < ROLE_CYCLE.length ? ROLE_CYCLE[index + 1] : null;
+
+    this.onSpeakerRoleChange(speakerNumber, next);
+  }
+
   private getSpeakerLabel(speaker: string): string {
+    const assignment = this.speakerRoles[speaker];
+    if (assignment) return ROLE_LABELS[assignment.role];
+
     // Map speaker IDs to friendly labels
     const speakerMap: Record<string, string> = {
       '0': 'Provider',
@@ -260,12 +346,31 @@ export class TranscriptView {
         color: #4caf50;
       }
 
+      .speaker-badge {
+        cursor: pointer;
+      }
+
+      .speaker-badge[data-speaker="clinician"] {
+        background: rgba(76, 175, 80, 0.2);
+        color: #4caf50;
+      }
+
       .speaker-badge[data-speaker="1"],
       .speaker-badge[data-speaker="patient"] {
         background: rgba(33, 150, 243, 0.2);
         color: #2196f3;
       }
 
+      .speaker-badge[data-speaker="family"] {
+        background: rgba(255, 152, 0, 0.2);
+        color: #ff9800;
+      }
+
+      .speaker-badge[data-speaker="interpreter"] {
+        background: rgba(156, 39, 176, 0.2);
+        color: #ba68c8;
+      }
+
       .timestamp {
         font-size: 10px;
         color: #555;
@@ -287,6 +392,25 @@ export class TranscriptView {
         color: #eee;
       }
 
+      .language-tag {
+        display: inline-block;
+        margin-right: 6px;
+        padding: 0 4px;
+        font-size: 9px;
+        font-weight: 600;
+        font-style: normal;
+        color: #90caf9;
+        border: 1px solid #90caf9;
+        border-radius: 3px;
+        vertical-align: middle;
+      }
+
+      .low-confidence {
+        text-decoration: underline wavy #ffc107;
+        text-underline-offset: 3px;
+        cursor: help;
+      }
+
       .empty-state {
         display: flex;
         flex-direction: column;
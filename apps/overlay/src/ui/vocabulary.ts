@@ -0,0 +1,295 @@
+/**
+ * Vocabulary Editor Component
+ *
+ * Settings tab editor for the doctor's custom vocabulary: terms boosted
+ * during transcription, each with aliases (common mis-transcriptions)
+ * that are replaced by the term. Specialty defaults are listed too; saving
+ * the same term overrides a default. Changes apply from the next recording.
+ */
+
+export interface VocabularyEntry {
+  id?: number;
+  term: string;
+  boost: number;
+  aliases: string[];
+  source?: 'specialty' | 'doctor';
+}
+
+export type VocabularyAction = 'save' | 'delete';
+
+const DEFAULT_BOOST = 2;
+
+export class VocabularyView {
+  private shadowRoot: ShadowRoot;
+  private container: HTMLElement | null = null;
+  private listContainer: HTMLElement | null = null;
+  private entries: VocabularyEntry[] = [];
+  private connected: boolean = false;
+  private onChange: (action: VocabularyAction, entry: VocabularyEntry) => void;
+
+  constructor(shadowRoot: ShadowRoot, onChange: (action: VocabularyAction, entry: VocabularyEntry) => void) {
+    this.shadowRoot = shadowRoot;
+    this.onChange = onChange;
+  }
+
+  public mount(container: HTMLElement): void {
+    this.container = container;
+    this.render();
+  }
+
+  public setEntries(entries: VocabularyEntry[]): void {
+    this.entries = entries;
+    this.renderEntries();
+  }
+
+  public setConnected(connected: boolean): void {
+    this.connected = connected;
+    this.container?.querySelectorAll<HTMLInputElement | HTMLButtonElement>('.vocab-form input, .vocab-form button')
+      .forEach(el => { el.disabled = !connected; });
+    this.renderEntries();
+  }
+
+  private render(): void {
+    if (!this.container) return;
+
+    const styles = document.createElement('style');
+    styles.textContent = this.getStyles();
+    this.container.appendChild(styles);
+
+    const wrapper = document.createElement('div');
+    wrapper.className = 'vocab-wrapper';
+    wrapper.innerHTML = `
+      <div class="vocab-header">
+        <span class="vocab-title">Custom Vocabulary</span>
+        <span class="vocab-count">0</span>
+      </div>
+      <div class="vocab-form">
+        <input class="vocab-term" type="text" placeholder="Term (e.g. lisinopril)" disabled />
+        <input class="vocab-aliases" type="text" placeholder="Heard as… (comma separated)" disabled />
+        <input class="vocab-boost" type="number" min="-10" max="10" step="0.5" value="${DEFAULT_BOOST}" title="Boost" disabled />
+        <button class="vocab-btn" data-action="save" disabled>Save</button>
+      </div>
+    `;
+
+    const submit = () => this.submitForm(wrapper);
+    wrapper.querySelector('[data-action="save"]')?.addEventListener('click', submit);
+    wrapper.querySelectorAll('.vocab-form input').forEach(input => {
+      input.addEventListener('keydown', (e) => {
+        if ((e as KeyboardEvent).key === 'Enter') submit();
+      });
+    });
+
+    this.listContainer = document.createElement('div');
+    this.listContainer.className = 'vocab-list';
+    wrapper.appendChild(this.listContainer);
+
+    this.container.appendChild(wrapper);
+    this.renderEntries();
+  }
+
+  private submitForm(wrapper: HTMLElement): void {
+    const termInput = wrapper.querySelector('.vocab-term') as HTMLInputElement;
+    const aliasesInput = wrapper.querySelector('.vocab-aliases') as HTMLInputElement;
+    const boostInput = wrapper.querySelector('.vocab-boost') as HTMLInputElement;
+
+    const term = termInput.value.trim();
+    if (!term) return;
+
+    const boost = parseFloat(boostInput.value);
+    this.onChange('save', {
+      term,
+      boost: isNaN(boost) ? DEFAULT_BOOST : boost,
+      aliases: aliasesInput.value.split(',').map(a => a.trim()).filter(Boolean)
+    });
+
+    termInput.value = '';
+    aliasesInput.value = '';
+    boostInput.value = String(DEFAULT_BOOST);
+  }
+
+  /**
+   * Copy an entry into the form (to edit it, or to override a default)
+   */
+  private editEntry(entry: VocabularyEntry): void {
+    if (!this.container) return;
+
+    (this.container.querySelector('.vocab-term') as HTMLInputElement).value = entry.term;
+    (this.container.querySelector('.vocab-aliases') as HTMLInputElement).value = entry.aliases.join(', ');
+    (this.container.querySelector('.vocab-boost') as HTMLInputElement).value = String(entry.boost);
+  }
+
+  private renderEntries(): void {
+    if (!this.listContainer || !this.container) return;
+
+    const countEl = this.container.querySelector('.vocab-count');
+    if (countEl) countEl.textContent = String(this.entries.length);
+
+    this.listContainer.innerHTML = '';
+
+    if (!this.connected && this.entries.length === 0) {
+      this.listContainer.innerHTML = '<p class="vocab-empty">Connect to the agent to load vocabulary</p>';
+      return;
+    }
+
+    if (this.entries.length === 0) {
+      this.listContainer.innerHTML = '<p class="vocab-empty">No vocabulary entries</p>';
+      return;
+    }
+
+    this.entries.forEach(entry => {
+      const row = document.createElement('div');
+      row.className = 'vocab-item';
+      row.innerHTML = `
+        <div class="vocab-item-main">
+          <span class="vocab-item-term"></span>
+          <span class="vocab-item-aliases"></span>
+        </div>
+        <span class="vocab-item-boost">×${entry.boost}</span>
+        <span class="vocab-source" data-source="${entry.source || 'doctor'}">${entry.source === 'specialty' ? 'default' : 'mine'}</span>
+        <button class="vocab-btn" data-action="edit" title="Edit">✎</button>
+        ${entry.id !== undefined ? '<button class="vocab-btn" data-action="delete" title="Remove">✗</button>' : ''}
+      `;
+
+      // Set via property so entry text is never parsed as HTML
+      (row.querySelector('.vocab-item-term') as HTMLElement).textContent = entry.term;
+      (row.querySelector('.vocab-item-aliases') as HTMLElement).textContent =
+        entry.aliases.length ? `heard as: ${entry.aliases.join(', ')}` : '';
+
+      row.querySelector('[data-action="edit"]')?.addEventListener('click', () => this.editEntry(entry));
+      row.querySelector('[data-action="delete"]')?.addEventListener('click', () => {
+        if (this.connected) this.onChange('delete', entry);
+      });
+
+      this.listContainer!.appendChild(row);
+    });
+  }
+
+  private getStyles(): string {
+    return `
+      .vocab-wrapper {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+      }
+
+      .vocab-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+      }
+
+      .vocab-title {
+        font-size: 12px;
+        font-weight: 600;
+        color: #888;
+        text-transform: uppercase;
+        letter-spacing: 0.5px;
+      }
+
+      .vocab-count {
+        font-size: 11px;
+        padding: 1px 6px;
+        border-radius: 8px;
+        background: #2d2d44;
+        color: #aaa;
+      }
+
+      .vocab-form {
+        display: flex;
+        gap: 4px;
+      }
+
+      .vocab-form input {
+        min-width: 0;
+        padding: 3px 6px;
+        font-size: 12px;
+        color: #eee;
+        background: #1a1a2e;
+        border: 1px solid #2d2d44;
+        border-radius: 4px;
+      }
+
+      .vocab-term {
+        flex: 2;
+      }
+
+      .vocab-aliases {
+        flex: 3;
+      }
+
+      .vocab-boost {
+        width: 48px;
+      }
+
+      .vocab-list {
+        max-height: 220px;
+        overflow-y: auto;
+      }
+
+      .vocab-item {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        padding: 4px 0;
+        border-bottom: 1px solid #22223a;
+      }
+
+      .vocab-item-main {
+        flex: 1;
+        min-width: 0;
+        display: flex;
+        flex-direction: column;
+      }
+
+      .vocab-item-term {
+        font-size: 13px;
+        color: #eee;
+      }
+
+      .vocab-item-aliases {
+        font-size: 11px;
+        color: #777;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+
+      .vocab-item-boost {
+        font-size: 11px;
+        color: #888;
+      }
+
+      .vocab-source {
+        font-size: 10px;
+        font-weight: 600;
+        text-transform: uppercase;
+        color: #4caf50;
+      }
+
+      .vocab-source[data-source="specialty"] {
+        color: #666;
+      }
+
+      .vocab-btn {
+        padding: 2px 6px;
+        font-size: 11px;
+        color: #ddd;
+        background: #2d2d44;
+        border: none;
+        border-radius: 4px;
+        cursor: pointer;
+      }
+
+      .vocab-btn:disabled {
+        opacity: 0.5;
+        cursor: default;
+      }
+
+      .vocab-empty {
+        margin: 4px 0;
+        font-size: 12px;
+        color: #555;
+      }
+    `;
+  }
+}
@@ -0,0 +1,295 @@
+/**
+ * Audio Archive
+ *
+ * Optional on-disk copy of the raw audio stream, keyed by transcriptId.
+ * Enables re-transcription and audit of an encounter after the fact.
+ *
+ * Layout:
+ *   <AUDIO_ARCHIVE_DIR>/<transcriptId>/segment-00000.pcm
+ *   <AUDIO_ARCHIVE_DIR>/<transcriptId>/segment-00001.pcm ...
+ *
+ * Segments hold headerless PCM (16kHz mono linear16) and are joined into a
+ * single WAV (or Opus via ffmpeg) on export.
+ *
+ * Environment:
+ * - AUDIO_ARCHIVE_DIR:              enables the archive when set
+ * - AUDIO_ARCHIVE_SEGMENT_SECONDS:  audio per segment file (default: 60)
+ * - AUDIO_ARCHIVE_RETENTION_DAYS:   delete recordings older than this (default: 30, 0 = keep)
+ * - AUDIO_ARCHIVE_FFMPEG:           ffmpeg binary for Opus export (default: ffmpeg)
+ */
+
+import { spawn } from 'child_process';
+import { createReadStream, createWriteStream, existsSync, mkdirSync, readdirSync, WriteStream } from 'fs';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Writable } from 'stream';
+import { createWavHeader, PCM_FORMAT, pcmDuration } from './wav.js';
+
+export type AudioExportFormat = 'wav' | 'opus';
+
+export interface AudioArchiveConfig {
+  directory: string;
+  segmentSeconds: number;
+  retentionDays: number;
+  ffmpegPath: string;
+}
+
+export interface ArchivedSegment {
+  path: string;
+  bytes: number;
+}
+
+export interface ArchivedRecording {
+  transcriptId: number;
+  segments: ArchivedSegment[];
+  bytes: number;
+  durationSeconds: number;
+}
+
+const BYTES_PER_SECOND = PCM_FORMAT.sampleRate * PCM_FORMAT.channels * (PCM_FORMAT.bitDepth / 8);
+const PRUNE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Build an archive from environment, or null when archiving is disabled
+ */
+export function createAudioArchive(): AudioArchive | null {
+  const directory = process.env.AUDIO_ARCHIVE_DIR;
+  if (!directory) return null;
+
+  return new AudioArchive({
+    directory,
+    segmentSeconds: parseFloat(process.env.AUDIO_ARCHIVE_SEGMENT_SECONDS || '60'),
+    retentionDays: parseFloat(process.env.AUDIO_ARCHIVE_RETENTION_DAYS || '30'),
+    ffmpegPath: process.env.AUDIO_ARCHIVE_FFMPEG || 'ffmpeg'
+  });
+}
+
+export class AudioArchive {
+  private config: AudioArchiveConfig;
+  private pruneTimer: NodeJS.Timeout | null = null;
+
+  constructor(config: AudioArchiveConfig) {
+    this.config = config;
+    mkdirSync(config.directory, { recursive: true });
+    console.log(`[AudioArchive] Writing to ${config.directory} (retention ${config.retentionDays || '∞'} days)`);
+  }
+
+  /**
+   * Open a writer for a new recording
+   */
+  createWriter(
+    transcriptId: number,
+    onSegment?: (segment: number) => void
+  ): AudioArchiveWriter {
+    return new AudioArchiveWriter(
+      this.recordingDir(transcriptId),
+      Math.max(1, this.config.segmentSeconds) * BYTES_PER_SECOND,
+      onSegment
+    );
+  }
+
+  /**
+   * Describe the archived audio for a transcript (null if none)
+   */
+  async getRecording(transcriptId: number): Promise<ArchivedRecording | null> {
+    const dir = this.recordingDir(transcriptId);
+    if (!existsSync(dir)) return null;
+
+    const names = (await fs.readdir(dir))
+      .filter((name) => /^segment-\d+\.pcm$/.test(name))
+      .sort();
+
+    if (names.length === 0) return null;
+
+    // Sizes are fixed here so a recording still in progress exports consistently
+    const segments: ArchivedSegment[] = [];
+    let bytes = 0;
+    for (const name of names) {
+      const segmentPath = path.join(dir, name);
+      const size = (await fs.stat(segmentPath)).size;
+      segments.push({ path: segmentPath, bytes: size });
+      bytes += size;
+    }
+
+    return { transcriptId, segments, bytes, durationSeconds: pcmDuration(bytes) };
+  }
+
+  /**
+   * Stream a recording to `output` as WAV or Opus (Ogg container)
+   */
+  async export(
+    recording: ArchivedRecording,
+    format: AudioExportFormat,
+    output: Writable
+  ): Promise<void> {
+    if (format === 'wav') {
+      output.write(createWavHeader(recording.bytes));
+      await this.pipeSegments(recording.segments, output);
+      output.end();
+      return;
+    }
+
+    const ffmpeg = spawn(this.config.ffmpegPath, [
+      '-loglevel', 'error',
+      '-f', 's16le',
+      '-ar', String(PCM_FORMAT.sampleRate),
+      '-ac', String(PCM_FORMAT.channels),
+      '-i', 'pipe:0',
+      '-c:a', 'libopus',
+      '-b:a', '24k',
+      '-f', 'ogg',
+      'pipe:1'
+    ]);
+
+    const finished = new Promise<void>((resolve, reject) => {
+      ffmpeg.on('error', (error) => reject(new Error(`Opus export failed: ${error.message}`)));
+      ffmpeg.on('close', (code) => {
+        if (code === 0) resolve();
+        else reject(new Error(`Opus export failed: ffmpeg exited with ${code}`));
+      });
+    });
+
+    ffmpeg.stdout.pipe(output);
+    ffmpeg.stdin.on('error', () => { /* surfaced through close */ });
+    output.once('close', () => ffmpeg.kill());
+    await this.pipeSegments(recording.segments, ffmpeg.stdin);
+    ffmpeg.stdin.end();
+    await finished;
+  }
+
+  /**
+   * Delete recordings past the retention window
+   */
+  async pruneExpired(): Promise<number> {
+    if (this.config.retentionDays <= 0) return 0;
+
+    const cutoff = Date.now() - this.config.retentionDays * 24 * 60 * 60 * 1000;
+    let removed = 0;
+
+    for (const name of await fs.readdir(this.config.directory)) {
+      const dir = path.join(this.config.directory, name);
+      const stats = await fs.stat(dir);
+      if (!stats.isDirectory() || stats.mtimeMs >= cutoff) continue;
+
+      await fs.rm(dir, { recursive: true, force: true });
+      removed++;
+    }
+
+    if (removed > 0) {
+      console.log(`[AudioArchive] Pruned ${removed} expired recording(s)`);
+    }
+    return removed;
+  }
+
+  /**
+   * Run pruneExpired now and periodically
+   */
+  startRetention(): void {
+    const prune = () => {
+      this.pruneExpired().catch((error) => {
+        console.error('[AudioArchive] Retention sweep failed:', error);
+      });
+    };
+
+    prune();
+    this.pruneTimer = setInterval(prune, PRUNE_INTERVAL_MS);
+    this.pruneTimer.unref();
+  }
+
+  stopRetention(): void {
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+  }
+
+  private recordingDir(transcriptId: number): string {
+    return path.join(this.config.directory, String(transcriptId));
+  }
+
+  private async pipeSegments(segments: ArchivedSegment[], output: Writable): Promise<void> {
+    for (const segment of segments) {
+      if (segment.bytes === 0) continue;
+      if (output.destroyed) {
+        throw new Error('Audio export aborted: output closed');
+      }
+
+      await new Promise<void>((resolve, reject) => {
+        const input = createReadStream(segment.path, { end: segment.bytes - 1 });
+
+        // A destroyed output never drains, so the input would never end
+        const onOutputClose = () => {
+          input.destroy();
+          reject(new Error('Audio export aborted: output closed'));
+        };
+        output.once('close', onOutputClose);
+
+        input.on('error', (error) => {
+          output.off('close', onOutputClose);
+          reject(error);
+        });
+        input.on('end', () => {
+          output.off('close', onOutputClose);
+          resolve();
+        });
+        input.pipe(output, { end: false });
+      });
+    }
+  }
+}
+
+/**
+ * Appends one recording's audio to rotating segment files
+ */
+export class AudioArchiveWriter {
+  private dir: string;
+  private segmentBytes: number;
+  private onSegment?: (segment: number) => void;
+  private stream: WriteStream | null = null;
+  private segment = -1;
+  private written = 0;
+
+  constructor(dir: string, segmentBytes: number, onSegment?: (segment: number) => void) {
+    this.dir = dir;
+    this.segmentBytes = segmentBytes;
+    this.onSegment = onSegment;
+    mkdirSync(dir, { recursive: true });
+
+    // Continue numbering if the transcript already has segments on disk
+    const existing = readdirSync(dir).filter((name) => /^segment-\d+\.pcm$/.test(name));
+    this.segment = existing.length - 1;
+  }
+
+  write(data: Buffer): void {
+    if (!this.stream || this.written >= this.segmentBytes) {
+      this.rotate();
+    }
+    this.stream!.write(data);
+    this.written += data.length;
+  }
+
+  /**
+   * Close the current segment; resolves once it is flushed to disk
+   */
+  close(): Promise<void> {
+    const stream = this.stream;
+    this.stream = null;
+    if (!stream) return Promise.resolve();
+
+    return new Promise((resolve) => stream.end(resolve));
+  }
+
+  private rotate(): void {
+    void this.close();
+    this.segment++;
+    this.written = 0;
+
+    const file = path.join(this.dir, `segment-${String(this.segment).padStart(5, '0')}.pcm`);
+    this.stream = createWriteStream(file, { flags: 'a' });
+    this.stream.on('error', (error) => {
+      console.error('[AudioArchive] Write failed:', error);
+    });
+
+    this.onSegment?.(this.segment);
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Deepgram Batch Transcription
+ *
+ * Pre-recorded (non-streaming) transcription of a whole encounter.
+ * Slower than the live stream but sees the full audio at once, which gives
+ * better accuracy and more stable speaker labels.
+ *
+ * Environment:
+ * - RETRANSCRIBE_MODEL: Deepgram model for English batch runs (default: nova-2-medical)
+ *
+ * nova-2-medical is English-only; other languages (and transcripts whose
+ * language is unknown, detected here) use nova-2.
+ */
+
+import { createClient } from '@deepgram/sdk';
+import { Readable } from 'stream';
+import { WordResult } from './transcription-provider.js';
+import { toTranscriptLanguage } from '../lib/language.js';
+
+/**
+ * Transcribe a WAV stream and return diarized word results
+ * @param language - transcripts2.language of the encounter
+ */
+export async function transcribeBatch(wav: Readable | Buffer, language?: string): Promise<WordResult[]> {
+  const apiKey = process.env.DEEPGRAM_API_KEY;
+  if (!apiKey) {
+    throw new Error('DEEPGRAM_API_KEY environment variable not set');
+  }
+
+  const known = toTranscriptLanguage(language);
+  const languageOptions = known === 'en'
+    ? { model: process.env.RETRANSCRIBE_MODEL || 'nova-2-medical', language: 'en-US' }
+    : known
+      ? { model: 'nova-2', language: known }
+      : { model: 'nova-2', detect_language: true };
+
+  const client = createClient(apiKey);
+  const { result, error } = await client.listen.prerecorded.transcribeFile(wav, {
+    ...languageOptions,
+    smart_format: true,
+    punctuate: true,
+    diarize: true
+  });
+
+  if (error) {
+    throw new Error(`Deepgram batch transcription failed: ${error.message}`);
+  }
+
+  const channel = result?.results?.channels?.[0];
+  const alternative = channel?.alternatives?.[0];
+  const detected = known ?? toTranscriptLanguage(channel?.detected_language) ?? undefined;
+
+  return (alternative?.words || []).map((w: any) => ({
+    word: w.word,
+    start: w.start,
+    end: w.end,
+    confidence: w.confidence,
+    speaker: w.speaker ?? 0,
+    language: detected
+  }));
+}
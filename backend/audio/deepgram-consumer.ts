@@ -2,47 +2,47 @@
  * Deepgram Consumer
  *
  * Real-time transcription with speaker diarization.
- * Connects to Deepgram nova-2 streaming API.
+ * Connects to Deepgram nova-2 streaming API through DeepgramReconnector,
+ * so connection drops are bridged without losing audio.
  *
  * Audio format: PCM 16kHz mono linear16
  * Diarization: Up to 50 speakers (0-49)
+ * Language: config.language ('auto' uses the multilingual model, which tags
+ * every word with en/es)
+ * Vocabulary: config.keywords are sent as Deepgram keyword boosts, and
+ * config.rewriter is applied to final results only
+ *
+ * Set DEEPGRAM_CAPTURE_DIR to record every raw result message to a JSONL
+ * file that ReplayConsumer can play back later.
  */
 
-import { createClient, LiveTranscriptionEvents, LiveClient } from '@deepgram/sdk';
-import { ChunkAggregator, AggregatedChunk } from '../utils/diarization.js';
+import { ChunkAggregator } from '../utils/diarization.js';
+import { DEFAULT_LANGUAGE, dominantLanguage, toDeepgramLanguage } from '../lib/language.js';
+import { DeepgramReconnector, ReconnectGap } from './deepgram-reconnect.js';
+import { ReplayCapture } from './replay-fixture.js';
+import {
+  TranscriptEvent,
+  TranscriptionProvider,
+  TranscriptionProviderConfig,
+  TranscriptionProviderName,
+  WordResult
+} from './transcription-provider.js';
 
-export interface WordResult {
-  word: string;
-  start: number;
-  end: number;
-  confidence: number;
-  speaker: number;
-}
+export type { WordResult, TranscriptEvent } from './transcription-provider.js';
 
-export interface TranscriptEvent {
-  type: 'interim' | 'final' | 'utterance_end';
-  text: string;
-  speaker: number;
-  start: number;
-  end: number;
-  confidence: number;
-  words: WordResult[];
-  isFinal: boolean;
-}
+export type DeepgramConsumerConfig = TranscriptionProviderConfig;
 
-export interface DeepgramConsumerConfig {
-  onTranscript: (event: TranscriptEvent) => void;
-  onChunk: (chunk: AggregatedChunk) => void;
-  onError: (error: Error) => void;
-  onClose: () => void;
-}
+// How long disconnect() waits for Deepgram to send the last results
+const DISCONNECT_TIMEOUT_MS = 5000;
 
-export class DeepgramConsumer {
-  private client: ReturnType<typeof createClient> | null = null;
-  private connection: LiveClient | null = null;
-  private config: DeepgramConsumerConfig;
-  private aggregator: ChunkAggregator;
-  private isConnected = false;
+export class DeepgramConsumer implements TranscriptionProvider {
+  readonly name: TranscriptionProviderName = 'deepgram';
+
+  private reconnector: DeepgramReconnector | null = null;
+  private capture: ReplayCapture | null = null;
+  protected config: DeepgramConsumerConfig;
+  protected aggregator: ChunkAggregator;
+  protected isConnected = false;
 
   constructor(config: DeepgramConsumerConfig) {
     this.config = config;
@@ -59,103 +59,182 @@ export class DeepgramConsumer {
     }
 
     console.log('[Deepgram] Connecting to streaming API...');
-    this.client = createClient(apiKey);
-
-    this.connection = this.client.listen.live({
-      model: 'nova-2',
-      language: 'en-US',
-      smart_format: true,
-      punctuate: true,
-      diarize: true,
-      interim_results: true,
-      utterance_end_ms: 1000,
-      vad_events: true,
-      encoding: 'linear16',
-      sample_rate: 16000,
-      channels: 1
+
+    // PATH V: audio goes through the reconnector so outages are buffered,
+    // replayed and rebased instead of lost
+    const reconnector = new DeepgramReconnector(apiKey, {
+      liveOptions: {
+        model: 'nova-2',
+        language: toDeepgramLanguage(this.config.language ?? DEFAULT_LANGUAGE),
+        smart_format: true,
+        punctuate: true,
+        diarize: true,
+        interim_results: true,
+        utterance_end_ms: 1000,
+        vad_events: true,
+        encoding: 'linear16',
+        sample_rate: 16000,
+        channels: 1,
+        ...(this.config.keywords?.length
+          ? { keywords: this.config.keywords.map((k) => `${k.term}:${k.boost}`) }
+          : {})
+      }
     });
+    this.reconnector = reconnector;
 
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        if (!this.isConnected) {
-          reject(new Error('Deepgram connection timeout (10s)'));
-        }
-      }, 10000);
+    reconnector.on('transcript', (data: any) => {
+      this.capture?.write(data);
+      this.handleTranscript(data);
+    });
 
-      this.connection!.on(LiveTranscriptionEvents.Open, () => {
-        clearTimeout(timeout);
-        this.isConnected = true;
-        console.log('[Deepgram] Connected');
-        resolve();
-      });
+    reconnector.on('utterance_end', (data: any) => {
+      this.capture?.write(data);
+      this.handleUtteranceEnd();
+    });
 
-      this.connection!.on(LiveTranscriptionEvents.Error, (error: Error) => {
-        clearTimeout(timeout);
-        console.error('[Deepgram] Error:', error);
-        this.config.onError(error);
-        if (!this.isConnected) reject(error);
-      });
+    reconnector.on('error', (error: Error) => {
+      console.error('[Deepgram] Error:', error);
+    });
 
-      this.connection!.on(LiveTranscriptionEvents.Transcript, (data: any) => {
-        this.handleTranscript(data);
-      });
+    reconnector.on('stream_error', (error: Error) => {
+      console.warn('[Deepgram] Stream error, reconnecting:', error);
+    });
 
-      this.connection!.on(LiveTranscriptionEvents.UtteranceEnd, () => {
-        console.log('[Deepgram] Utterance end');
-        this.aggregator.forceFlush();
-      });
+    reconnector.on('reconnect:scheduled', (info: { attempt: number; delay: number; maxRetries: number }) => {
+      console.warn(`[Deepgram] Reconnect ${info.attempt}/${info.maxRetries} in ${info.delay}ms`);
+    });
 
-      this.connection!.on(LiveTranscriptionEvents.Close, () => {
-        console.log('[Deepgram] Connection closed');
-        this.isConnected = false;
-        this.aggregator.forceFlush();
-        this.config.onClose();
-      });
+    reconnector.on('reconnect:success', () => {
+      console.log('[Deepgram] Reconnected');
+    });
+
+    reconnector.on('gap', (gap: ReconnectGap) => {
+      console.log(
+        `[Deepgram] Gap ${gap.start.toFixed(1)}s-${gap.end.toFixed(1)}s: ` +
+        `${gap.bufferedSeconds.toFixed(1)}s replayed, ${gap.droppedSeconds.toFixed(1)}s dropped`
+      );
+      this.config.onGap?.(gap);
+    });
+
+    reconnector.on('reconnect:failed', (info: { attempts: number; lastError: string | null }) => {
+      this.reconnector = null;
+      reconnector.destroy();
+      this.config.onError(
+        new Error(`Deepgram reconnect failed after ${info.attempts} attempts: ${info.lastError}`)
+      );
+      this.closeCapture();
+      this.handleClose();
     });
+
+    reconnector.on('closed', () => {
+      console.log('[Deepgram] Connection closed');
+      this.closeCapture();
+      this.handleClose();
+    });
+
+    const connected = await reconnector.connect();
+    if (!connected) {
+      const { lastError } = reconnector.getStats();
+      this.reconnector = null;
+      reconnector.destroy();
+      throw new Error(`Deepgram connection failed: ${lastError}`);
+    }
+
+    this.isConnected = true;
+    console.log('[Deepgram] Connected');
+
+    if (process.env.DEEPGRAM_CAPTURE_DIR) {
+      this.capture = new ReplayCapture(process.env.DEEPGRAM_CAPTURE_DIR);
+    }
   }
 
   sendAudio(data: Buffer): void {
-    if (this.connection && this.isConnected) {
+    if (this.reconnector && this.isConnected) {
       // Convert Buffer to ArrayBuffer for Deepgram SDK
       const arrayBuffer = data.buffer.slice(
         data.byteOffset,
         data.byteOffset + data.byteLength
-      );
-      this.connection.send(arrayBuffer);
+      ) as ArrayBuffer;
+      this.reconnector.sendAudio(arrayBuffer);
     }
   }
 
-  disconnect(): void {
-    if (this.connection) {
-      console.log('[Deepgram] Disconnecting...');
-      this.aggregator.forceFlush();
-      this.connection.finish();
-      this.connection = null;
-      this.isConnected = false;
-    }
+  disconnect(): Promise<void> {
+    const reconnector = this.reconnector;
+    if (!reconnector) return Promise.resolve();
+
+    console.log('[Deepgram] Disconnecting...');
+    this.reconnector = null;
+    this.isConnected = false;
+
+    // Deepgram sends the results of the audio still in flight before it
+    // closes the stream; the final chunk is flushed by handleClose
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => {
+        console.warn('[Deepgram] No close after disconnect, flushing');
+        reconnector.removeAllListeners('closed');
+        this.closeCapture();
+        this.handleClose();
+        resolve();
+      }, DISCONNECT_TIMEOUT_MS);
+
+      reconnector.once('closed', () => {
+        clearTimeout(timeout);
+        resolve();
+      });
+      reconnector.disconnect();
+    });
   }
 
   getConnectionState(): boolean {
     return this.isConnected;
   }
 
-  private handleTranscript(data: any): void {
+  private closeCapture(): void {
+    this.capture?.close();
+    this.capture = null;
+  }
+
+  protected handleUtteranceEnd(): void {
+    console.log('[Deepgram] Utterance end');
+    this.aggregator.forceFlush();
+  }
+
+  protected handleClose(): void {
+    this.isConnected = false;
+    this.aggregator.forceFlush();
+    this.config.onClose();
+  }
+
+  protected handleTranscript(data: any): void {
     const channel = data.channel;
     if (!channel?.alternatives?.length) return;
 
     const alternative = channel.alternatives[0];
-    const text = alternative.transcript;
+    let text: string = alternative.transcript;
 
     if (!text || text.trim() === '') return;
 
-    const words: WordResult[] = (alternative.words || []).map((w: any) => ({
+    // Multilingual results tag each word; otherwise the configured language
+    const fixedLanguage = this.config.language === 'auto'
+      ? alternative.languages?.[0]
+      : this.config.language ?? DEFAULT_LANGUAGE;
+
+    let words: WordResult[] = (alternative.words || []).map((w: any) => ({
       word: w.word,
       start: w.start,
       end: w.end,
       confidence: w.confidence,
-      speaker: w.speaker ?? 0
+      speaker: w.speaker ?? 0,
+      language: w.language ?? fixedLanguage
     }));
 
+    // Vocabulary replacements are applied once a result is final
+    if (data.is_final && this.config.rewriter) {
+      words = this.config.rewriter.rewriteWords(words);
+      text = this.config.rewriter.rewriteText(text);
+    }
+
     // Get dominant speaker from words
     const speaker = this.getDominantSpeaker(words);
 
@@ -167,7 +246,8 @@ export class DeepgramConsumer {
       end: words[words.length - 1]?.end ?? 0,
       confidence: alternative.confidence ?? 0,
       words,
-      isFinal: data.is_final ?? false
+      isFinal: data.is_final ?? false,
+      language: dominantLanguage(words)
     };
 
     // Send transcript event
@@ -4,13 +4,24 @@
  * Handles:
  * - Connection loss and automatic reconnection
  * - Exponential backoff
- * - Audio buffering during reconnect
+ * - Audio buffering during reconnect (memory, then spill to disk)
+ * - Backlog replay and timestamp rebasing onto one continuous timeline
+ * - Gap reporting for transcript metadata
  * - Graceful degradation
  * - Rate limiting recovery
+ *
+ * Timeline: every new Deepgram connection starts its timestamps at 0.
+ * Results are shifted by the audio already accounted for on earlier
+ * connections, so consumers see one timeline matching the recorded audio.
+ * Audio dropped during an outage (spill limit hit, retries exhausted) still
+ * advances the timeline; the hole is reported as a gap.
  */
 
 import { EventEmitter } from 'events';
-import { createClient, LiveClient, LiveTranscriptionEvents } from '@deepgram/sdk';
+import { closeSync, existsSync, mkdirSync, openSync, readSync, rmSync, writeSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createClient, LiveClient, LiveSchema, LiveTranscriptionEvents } from '@deepgram/sdk';
 
 export interface ReconnectConfig {
   maxRetries: number;
@@ -20,6 +31,10 @@ export interface ReconnectConfig {
   bufferDuringReconnect: boolean;
   maxBufferSize: number;
   connectionTimeout: number;
+  spillDir: string;
+  maxSpillBytes: number;
+  bytesPerSecond: number;
+  liveOptions: LiveSchema;
 }
 
 const DEFAULT_CONFIG: ReconnectConfig = {
@@ -28,10 +43,46 @@ const DEFAULT_CONFIG: ReconnectConfig = {
   maxDelay: 30000,       // 30 seconds
   jitter: true,
   bufferDuringReconnect: true,
-  maxBufferSize: 50,     // ~50 audio chunks
-  connectionTimeout: 10000
+  maxBufferSize: 50,     // ~50 audio chunks in memory before spilling
+  connectionTimeout: 10000,
+  spillDir: process.env.AUDIO_SPILL_DIR || path.join(os.tmpdir(), 'assistmd-spill'),
+  maxSpillBytes: 32000 * 60 * 30, // ~30 minutes of 16kHz linear16
+  bytesPerSecond: 32000, // 16kHz mono linear16
+  liveOptions: {
+    model: 'nova-2',
+    language: 'en',
+    smart_format: true,
+    diarize: true,
+    punctuate: true,
+    utterances: true,
+    interim_results: true
+  }
 };
 
+export interface ReconnectGap {
+  start: number;           // timeline seconds where the outage began
+  end: number;             // timeline seconds where live audio resumed
+  bufferedSeconds: number; // audio replayed from the backlog
+  droppedSeconds: number;  // audio lost (spill limit or retries exhausted)
+  startedAt: number;       // wall clock
+  endedAt: number;
+  recovered: boolean;      // false if the connection was never restored
+}
+
+/**
+ * How results of one connection map onto the session timeline
+ */
+interface ConnectionTimeline {
+  offset: number;    // seconds before this connection's t=0
+  shiftAfter: number; // connection time where dropped audio sits
+  shift: number;     // seconds of dropped audio to skip over
+}
+
+interface PendingOutage {
+  start: number;
+  startedAt: number;
+}
+
 export type ConnectionState =
   | 'disconnected'
   | 'connecting'
@@ -48,6 +99,8 @@ export interface ConnectionStats {
   totalReconnects: number;
   lastError: string | null;
   bufferedChunks: number;
+  spilledBytes: number;
+  gaps: number;
 }
 
 export class DeepgramReconnector extends EventEmitter {
@@ -58,21 +111,24 @@ export class DeepgramReconnector extends EventEmitter {
   private reconnectAttempts = 0;
   private totalReconnects = 0;
   private audioBuffer: ArrayBuffer[] = [];
+  private bufferedBytes = 0;
+  private spillPath: string | null = null;
+  private spillFd: number | null = null;
+  private spilledBytes = 0;
+  private droppedBytes = 0;
   private connectedAt: number | null = null;
   private disconnectedAt: number | null = null;
   private lastError: string | null = null;
   private reconnectTimer: NodeJS.Timeout | null = null;
   private connectionTimer: NodeJS.Timeout | null = null;
+  private rateLimitTimer: NodeJS.Timeout | null = null;
 
-  private deepgramOptions = {
-    model: 'nova-2',
-    language: 'en',
-    smart_format: true,
-    diarize: true,
-    punctuate: true,
-    utterances: true,
-    interim_results: true
-  };
+  // Timeline bookkeeping (bytes of audio)
+  private timelineBytes = 0;    // accounted for before the current connection
+  private connectionBytes = 0;  // sent on the current connection
+  private timeline: ConnectionTimeline = { offset: 0, shiftAfter: Infinity, shift: 0 };
+  private outage: PendingOutage | null = null;
+  private gaps: ReconnectGap[] = [];
 
   constructor(apiKey: string, config: Partial<ReconnectConfig> = {}) {
     super();
@@ -111,65 +167,110 @@ export class DeepgramReconnector extends EventEmitter {
       this.reconnectAttempts = 0;
       this.lastError = null;
 
-      // Flush buffered audio
+      // Replay backlog, then resume live audio on the same timeline
       this.flushBuffer();
 
       return true;
     } catch (err) {
       this.clearTimers();
+      // A timed-out connection may still open later; it must not take over
+      this.dropLiveClient();
       this.handleConnectionError(err);
       return false;
     }
   }
 
+  private dropLiveClient(): void {
+    const liveClient = this.liveClient;
+    this.liveClient = null;
+    try {
+      liveClient?.finish();
+    } catch (err) {
+      // Ignore close errors
+    }
+  }
+
   private async createLiveClient(): Promise<void> {
     return new Promise((resolve, reject) => {
-      this.liveClient = this.client.listen.live(this.deepgramOptions);
+      const liveClient = this.client.listen.live(this.config.liveOptions);
+      this.liveClient = liveClient;
 
-      this.liveClient.on(LiveTranscriptionEvents.Open, () => {
+      // Results from this connection keep the timeline it was opened with,
+      // even if they arrive after a newer connection took over
+      let timeline = this.timeline;
+
+      liveClient.on(LiveTranscriptionEvents.Open, () => {
+        // Dropped (timed out, disconnected) before it opened
+        if (liveClient !== this.liveClient) return;
+        timeline = this.startConnectionTimeline();
         this.emit('open');
         resolve();
       });
 
-      this.liveClient.on(LiveTranscriptionEvents.Error, (err) => {
+      liveClient.on(LiveTranscriptionEvents.Error, (err) => {
+        if (liveClient !== this.liveClient) return;
         this.handleStreamError(err);
         reject(err);
       });
 
-      this.liveClient.on(LiveTranscriptionEvents.Close, () => {
+      liveClient.on(LiveTranscriptionEvents.Close, () => {
+        if (liveClient !== this.liveClient) return;
         this.handleClose();
       });
 
-      this.liveClient.on(LiveTranscriptionEvents.Transcript, (data) => {
-        this.emit('transcript', data);
+      liveClient.on(LiveTranscriptionEvents.Transcript, (data) => {
+        this.emit('transcript', rebaseResult(data, timeline));
       });
 
-      this.liveClient.on(LiveTranscriptionEvents.Metadata, (data) => {
+      liveClient.on(LiveTranscriptionEvents.Metadata, (data) => {
         this.emit('metadata', data);
       });
 
-      this.liveClient.on(LiveTranscriptionEvents.UtteranceEnd, (data) => {
+      liveClient.on(LiveTranscriptionEvents.UtteranceEnd, (data) => {
+        if (typeof data?.last_word_end === 'number') {
+          data = { ...data, last_word_end: rebaseTime(data.last_word_end, timeline) };
+        }
         this.emit('utterance_end', data);
       });
     });
   }
 
+  /**
+   * Close the stream; 'closed' follows once Deepgram has sent the results
+   * of the audio in flight (right away when there is no open connection)
+   */
   public disconnect(): void {
+    const wasConnected = this.state === 'connected';
     this.clearTimers();
     this.setState('disconnected');
     this.disconnectedAt = Date.now();
 
-    if (this.liveClient) {
+    // Stopped during an outage: the backlog can no longer be delivered
+    if (this.outage) {
+      this.droppedBytes += this.bufferedBytes + this.spilledBytes;
+      this.clearBuffer();
+      this.recordGap(0, false);
+    }
+
+    const liveClient = this.liveClient;
+    this.liveClient = null;
+    if (liveClient) {
+      if (wasConnected) {
+        liveClient.on(LiveTranscriptionEvents.Close, () => this.emit('closed'));
+      }
       try {
-        this.liveClient.finish();
+        liveClient.finish();
       } catch (err) {
         // Ignore close errors
       }
-      this.liveClient = null;
     }
 
-    this.audioBuffer = [];
+    this.clearBuffer();
     this.emit('disconnected');
+
+    if (!liveClient || !wasConnected) {
+      this.emit('closed');
+    }
   }
 
   // ─────────────────────────────────────────────
@@ -180,48 +281,176 @@ export class DeepgramReconnector extends EventEmitter {
     if (this.state === 'connected' && this.liveClient) {
       try {
         this.liveClient.send(audio);
+        this.connectionBytes += audio.byteLength;
         return true;
       } catch (err) {
         this.handleStreamError(err);
+        this.bufferAudio(audio);
         return false;
       }
     }
 
-    // Buffer audio during reconnect
-    if (this.config.bufferDuringReconnect && this.state === 'reconnecting') {
+    // Buffer audio while a reconnect is pending
+    if (
+      this.config.bufferDuringReconnect &&
+      (this.state === 'reconnecting' || this.state === 'rate_limited' || this.state === 'connecting')
+    ) {
       this.bufferAudio(audio);
       return false;
     }
 
+    // Connection given up: audio is lost but still occupies the timeline
+    if (this.state === 'failed') {
+      this.droppedBytes += audio.byteLength;
+    }
+
     return false;
   }
 
   private bufferAudio(audio: ArrayBuffer): void {
-    this.audioBuffer.push(audio);
+    if (this.audioBuffer.length < this.config.maxBufferSize && this.spillFd === null) {
+      this.audioBuffer.push(audio);
+      this.bufferedBytes += audio.byteLength;
+      return;
+    }
 
-    // Trim buffer if too large
-    while (this.audioBuffer.length > this.config.maxBufferSize) {
-      this.audioBuffer.shift();
+    // Memory buffer full: spill to disk
+    if (this.spilledBytes + audio.byteLength > this.config.maxSpillBytes) {
+      this.droppedBytes += audio.byteLength;
       this.emit('buffer:overflow');
+      return;
+    }
+
+    try {
+      if (this.spillFd === null) {
+        mkdirSync(this.config.spillDir, { recursive: true });
+        this.spillPath = path.join(
+          this.config.spillDir,
+          `spill-${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.pcm`
+        );
+        this.spillFd = openSync(this.spillPath, 'w+');
+        this.emit('buffer:spill', this.spillPath);
+      }
+
+      writeSync(this.spillFd, Buffer.from(audio));
+      this.spilledBytes += audio.byteLength;
+    } catch (err) {
+      this.droppedBytes += audio.byteLength;
+      this.emit('buffer:flush_error', err);
     }
   }
 
   private flushBuffer(): void {
-    if (!this.liveClient || this.audioBuffer.length === 0) return;
+    if (!this.liveClient) return;
 
     const buffered = this.audioBuffer.length;
+    const backlogBytes = this.bufferedBytes + this.spilledBytes;
 
-    for (const chunk of this.audioBuffer) {
-      try {
+    try {
+      for (const chunk of this.audioBuffer) {
         this.liveClient.send(chunk);
-      } catch (err) {
-        this.emit('buffer:flush_error', err);
-        break;
+        this.connectionBytes += chunk.byteLength;
       }
+
+      if (this.spillFd !== null) {
+        const piece = Buffer.alloc(64 * 1024);
+        let position = 0;
+        let read: number;
+        while ((read = readSync(this.spillFd, piece, 0, piece.length, position)) > 0) {
+          const chunk = piece.subarray(0, read);
+          this.liveClient.send(chunk.buffer.slice(chunk.byteOffset, chunk.byteOffset + read));
+          this.connectionBytes += read;
+          position += read;
+        }
+      }
+    } catch (err) {
+      this.emit('buffer:flush_error', err);
     }
 
+    this.clearBuffer();
+    if (backlogBytes > 0) {
+      this.emit('buffer:flushed', buffered, backlogBytes);
+    }
+  }
+
+  private clearBuffer(): void {
     this.audioBuffer = [];
-    this.emit('buffer:flushed', buffered);
+    this.bufferedBytes = 0;
+    this.spilledBytes = 0;
+
+    if (this.spillFd !== null) {
+      closeSync(this.spillFd);
+      this.spillFd = null;
+    }
+    if (this.spillPath && existsSync(this.spillPath)) {
+      rmSync(this.spillPath, { force: true });
+    }
+    this.spillPath = null;
+  }
+
+  // ─────────────────────────────────────────────
+  // Timeline & Gaps
+  // ─────────────────────────────────────────────
+
+  /**
+   * Called when a connection opens: fix its offset and close any outage
+   */
+  private startConnectionTimeline(): ConnectionTimeline {
+    const bps = this.config.bytesPerSecond;
+    const backlogBytes = this.bufferedBytes + this.spilledBytes;
+
+    this.timelineBytes += this.connectionBytes;
+    this.connectionBytes = 0;
+
+    // Backlog is replayed first; dropped audio sits right after it
+    this.timeline = {
+      offset: this.timelineBytes / bps,
+      shiftAfter: this.droppedBytes > 0 ? backlogBytes / bps : Infinity,
+      shift: this.droppedBytes / bps
+    };
+
+    if (this.outage) {
+      this.recordGap(backlogBytes, true);
+    }
+
+    this.timelineBytes += this.droppedBytes;
+    this.droppedBytes = 0;
+    return this.timeline;
+  }
+
+  private beginOutage(): void {
+    if (this.outage) return;
+
+    this.outage = {
+      start: (this.timelineBytes + this.connectionBytes) / this.config.bytesPerSecond,
+      startedAt: Date.now()
+    };
+  }
+
+  private recordGap(backlogBytes: number, recovered: boolean): void {
+    if (!this.outage) return;
+
+    const bps = this.config.bytesPerSecond;
+    const bufferedSeconds = backlogBytes / bps;
+    const droppedSeconds = this.droppedBytes / bps;
+
+    const gap: ReconnectGap = {
+      start: this.outage.start,
+      end: this.outage.start + bufferedSeconds + droppedSeconds,
+      bufferedSeconds,
+      droppedSeconds,
+      startedAt: this.outage.startedAt,
+      endedAt: Date.now(),
+      recovered
+    };
+
+    this.outage = null;
+    this.gaps.push(gap);
+    this.emit('gap', gap);
+  }
+
+  public getGaps(): ReconnectGap[] {
+    return [...this.gaps];
   }
 
   // ─────────────────────────────────────────────
@@ -238,7 +467,8 @@ export class DeepgramReconnector extends EventEmitter {
       this.emit('rate_limited');
 
       // Wait longer for rate limit
-      setTimeout(() => {
+      this.rateLimitTimer = setTimeout(() => {
+        this.rateLimitTimer = null;
         this.scheduleReconnect();
       }, 60000); // 1 minute
       return;
@@ -255,6 +485,7 @@ export class DeepgramReconnector extends EventEmitter {
 
     if (this.state === 'connected') {
       this.disconnectedAt = Date.now();
+      this.beginOutage();
       this.scheduleReconnect();
     }
   }
@@ -262,6 +493,7 @@ export class DeepgramReconnector extends EventEmitter {
   private handleClose(): void {
     if (this.state === 'connected') {
       this.disconnectedAt = Date.now();
+      this.beginOutage();
       this.emit('unexpected_close');
       this.scheduleReconnect();
     }
@@ -270,6 +502,14 @@ export class DeepgramReconnector extends EventEmitter {
   private scheduleReconnect(): void {
     if (this.reconnectAttempts >= this.config.maxRetries) {
       this.setState('failed');
+
+      // Backlog can no longer be delivered
+      if (this.outage) {
+        this.droppedBytes += this.bufferedBytes + this.spilledBytes;
+        this.clearBuffer();
+        this.recordGap(0, false);
+      }
+
       this.emit('reconnect:failed', {
         attempts: this.reconnectAttempts,
         lastError: this.lastError
@@ -343,7 +583,9 @@ export class DeepgramReconnector extends EventEmitter {
       reconnectAttempts: this.reconnectAttempts,
       totalReconnects: this.totalReconnects,
       lastError: this.lastError,
-      bufferedChunks: this.audioBuffer.length
+      bufferedChunks: this.audioBuffer.length,
+      spilledBytes: this.spilledBytes,
+      gaps: this.gaps.length
     };
   }
 
@@ -360,12 +602,16 @@ export class DeepgramReconnector extends EventEmitter {
       clearTimeout(this.connectionTimer);
       this.connectionTimer = null;
     }
+    if (this.rateLimitTimer) {
+      clearTimeout(this.rateLimitTimer);
+      this.rateLimitTimer = null;
+    }
   }
 
   public destroy(): void {
-    this.clearTimers();
-    this.disconnect();
+    // Listeners first: the owner is done with this connection
     this.removeAllListeners();
+    this.disconnect();
   }
 
   // ─────────────────────────────────────────────
@@ -387,4 +633,34 @@ export class DeepgramReconnector extends EventEmitter {
   }
 }
 
+/**
+ * Map a connection-relative time onto the session timeline
+ */
+function rebaseTime(time: number, timeline: ConnectionTimeline): number {
+  const shifted = time >= timeline.shiftAfter ? time + timeline.shift : time;
+  return shifted + timeline.offset;
+}
+
+/**
+ * Shift all timestamps of a Deepgram Results message
+ */
+function rebaseResult(data: any, timeline: ConnectionTimeline): any {
+  if (timeline.offset === 0 && timeline.shift === 0) return data;
+
+  const alternatives = (data?.channel?.alternatives || []).map((alt: any) => ({
+    ...alt,
+    words: (alt.words || []).map((w: any) => ({
+      ...w,
+      start: rebaseTime(w.start, timeline),
+      end: rebaseTime(w.end, timeline)
+    }))
+  }));
+
+  return {
+    ...data,
+    start: typeof data.start === 'number' ? rebaseTime(data.start, timeline) : data.start,
+    channel: { ...data.channel, alternatives }
+  };
+}
+
 export default DeepgramReconnector;
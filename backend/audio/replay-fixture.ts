@@ -0,0 +1,84 @@
+/**
+ * Replay Fixtures
+ *
+ * Reads and writes recorded Deepgram result streams for ReplayConsumer.
+ *
+ * File format: JSON Lines, one entry per message Deepgram sent.
+ *   {"at": 1234, "message": {"type": "Results", "is_final": true, ...}}
+ *
+ * `at` is milliseconds since the connection opened. Bare Deepgram messages
+ * (no envelope) and plain JSON arrays are accepted too; their timing is
+ * derived from the audio timestamps inside each message.
+ */
+
+import { createWriteStream, WriteStream, mkdirSync } from 'fs';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+export interface ReplayMessage {
+  at: number;      // ms since connection open
+  message: any;    // raw Deepgram message (Results, UtteranceEnd, ...)
+}
+
+/**
+ * Load a fixture file and return its messages ordered by time
+ */
+export async function loadReplayFixture(filePath: string): Promise<ReplayMessage[]> {
+  const raw = (await fs.readFile(filePath, 'utf8')).trim();
+  if (!raw) return [];
+
+  const entries: any[] = raw.startsWith('[')
+    ? JSON.parse(raw)
+    : raw.split('\n').filter((line) => line.trim()).map((line) => JSON.parse(line));
+
+  let lastAt = 0;
+  const messages = entries.map((entry): ReplayMessage => {
+    const hasEnvelope = typeof entry.at === 'number' && entry.message;
+    const message = hasEnvelope ? entry.message : entry;
+    const at = hasEnvelope ? entry.at : audioTime(message, lastAt);
+    lastAt = at;
+    return { at, message };
+  });
+
+  // Stable sort keeps file order for messages sharing a timestamp
+  return messages.sort((a, b) => a.at - b.at);
+}
+
+/**
+ * When Deepgram would have emitted a message, based on its audio position
+ */
+function audioTime(message: any, fallback: number): number {
+  if (message.type === 'UtteranceEnd' && typeof message.last_word_end === 'number') {
+    return message.last_word_end * 1000;
+  }
+  if (typeof message.start === 'number' && typeof message.duration === 'number') {
+    return (message.start + message.duration) * 1000;
+  }
+  return fallback;
+}
+
+/**
+ * Appends live Deepgram messages to a fixture file (DEEPGRAM_CAPTURE_DIR)
+ */
+export class ReplayCapture {
+  private stream: WriteStream;
+  private openedAt = Date.now();
+  readonly filePath: string;
+
+  constructor(directory: string) {
+    mkdirSync(directory, { recursive: true });
+    const stamp = new Date(this.openedAt).toISOString().replace(/[:.]/g, '-');
+    this.filePath = path.join(directory, `deepgram-${stamp}.jsonl`);
+    this.stream = createWriteStream(this.filePath, { flags: 'a' });
+    console.log(`[Replay] Capturing Deepgram messages to ${this.filePath}`);
+  }
+
+  write(message: any): void {
+    const entry: ReplayMessage = { at: Date.now() - this.openedAt, message };
+    this.stream.write(JSON.stringify(entry) + '\n');
+  }
+
+  close(): void {
+    this.stream.end();
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Transcription Provider
+ *
+ * Common contract for every speech-to-text backend the broker can use.
+ * Adapters emit the same TranscriptEvent / AggregatedChunk shapes so the
+ * rest of the pipeline (VAD, Voice Concierge, chunk persistence) does not
+ * care where recognition happens.
+ *
+ * Providers:
+ * - deepgram: Deepgram nova-2 streaming API (default, needs DEEPGRAM_API_KEY)
+ * - local:    whisper.cpp-style binary on this machine (no network access)
+ * - replay:   recorded Deepgram result stream from a fixture file (tests)
+ *
+ * Selected with TRANSCRIPTION_PROVIDER=deepgram|local|replay
+ */
+
+import { AggregatedChunk } from '../utils/diarization.js';
+import { LanguageSelection, TranscriptLanguage } from '../lib/language.js';
+import { DeepgramConsumer } from './deepgram-consumer.js';
+import type { ReconnectGap } from './deepgram-reconnect.js';
+import { LocalConsumer } from './local-consumer.js';
+import { ReplayConsumer } from './replay-consumer.js';
+
+export interface WordResult {
+  word: string;
+  start: number;
+  end: number;
+  confidence: number;
+  speaker: number;
+  language?: string; // detected or configured language of this word
+}
+
+export interface TranscriptEvent {
+  type: 'interim' | 'final' | 'utterance_end';
+  text: string;
+  speaker: number;
+  start: number;
+  end: number;
+  confidence: number;
+  words: WordResult[];
+  isFinal: boolean;
+  language?: TranscriptLanguage;
+}
+
+export type TranscriptionProviderName = 'deepgram' | 'local' | 'replay';
+
+export interface KeywordBoost {
+  term: string;
+  boost: number;
+}
+
+/**
+ * Rewrites final results before they reach chunk assembly
+ * (e.g. the doctor's vocabulary replacement dictionary)
+ */
+export interface FinalRewriter {
+  rewriteWords(words: WordResult[]): WordResult[];
+  rewriteText(text: string): string;
+}
+
+export interface TranscriptionProviderConfig {
+  onTranscript: (event: TranscriptEvent) => void;
+  onChunk: (chunk: AggregatedChunk) => void;
+  onError: (error: Error) => void;
+  onClose: () => void;
+  onGap?: (gap: ReconnectGap) => void; // audio outage bridged (or not) by a reconnect
+  language?: LanguageSelection;         // default en; 'auto' = detect
+  keywords?: KeywordBoost[];            // terms to favour, sent on connect
+  rewriter?: FinalRewriter;             // applied to finals only
+}
+
+export interface TranscriptionProvider {
+  readonly name: TranscriptionProviderName;
+  connect(): Promise<void>;
+  sendAudio(data: Buffer): void;
+  /** Resolves once the last results (and chunks) have been delivered */
+  disconnect(): Promise<void>;
+  getConnectionState(): boolean;
+}
+
+const PROVIDER_NAMES: TranscriptionProviderName[] = ['deepgram', 'local', 'replay'];
+
+/**
+ * Resolve the configured provider name (falls back to deepgram)
+ */
+export function resolveProviderName(
+  value: string | undefined = process.env.TRANSCRIPTION_PROVIDER
+): TranscriptionProviderName {
+  const name = (value || 'deepgram').trim().toLowerCase();
+
+  if (!PROVIDER_NAMES.includes(name as TranscriptionProviderName)) {
+    console.warn(`[Transcription] Unknown provider "${value}", using deepgram`);
+    return 'deepgram';
+  }
+
+  return name as TranscriptionProviderName;
+}
+
+/**
+ * Create a transcription provider for one recording session
+ */
+export function createTranscriptionProvider(
+  config: TranscriptionProviderConfig,
+  name: TranscriptionProviderName = resolveProviderName()
+): TranscriptionProvider {
+  switch (name) {
+    case 'local':
+      return new LocalConsumer(config);
+    case 'replay':
+      return new ReplayConsumer(config);
+    case 'deepgram':
+    default:
+      return new DeepgramConsumer(config);
+  }
+}
@@ -3,8 +3,16 @@
  *
  * Detects emergency phrases in transcript stream.
  * Triggers alerts to overlay with critical severity.
+ *
+ * Patterns are per language; a transcript is only checked against its own
+ * language (English "MI" would fire on every Spanish "mi"). Denied,
+ * historical and family-history mentions ("no chest pain", "history of
+ * stroke", "my father had a heart attack") do not alert.
  */
 
+import { DEFAULT_LANGUAGE, TranscriptLanguage } from '../lib/language.js';
+import { findAssertedMatches, isCurrent } from '../lib/assertion.js';
+
 export type EmergencySeverity = 'low' | 'medium' | 'high' | 'critical';
 
 export interface EmergencyAlert {
@@ -18,8 +26,10 @@ export interface VADConfig {
   onEmergency: (alert: EmergencyAlert) => void;
 }
 
+type EmergencyPattern = { pattern: RegExp; severity: EmergencySeverity };
+
 // Emergency phrase patterns with severity levels
-const EMERGENCY_PATTERNS: Array<{ pattern: RegExp; severity: EmergencySeverity }> = [
+const ENGLISH_PATTERNS: EmergencyPattern[] = [
   // Critical - immediate life threat
   { pattern: /\b(code blue|cardiac arrest|not breathing|no pulse|anaphylaxis)\b/i, severity: 'critical' },
   { pattern: /\b(stroke|mi|heart attack|seizure|hemorrhage)\b/i, severity: 'critical' },
@@ -39,6 +49,32 @@ const EMERGENCY_PATTERNS: Array<{ pattern: RegExp; severity: EmergencySeverity }
   { pattern: /\b(pain|discomfort|concern|worried)\b/i, severity: 'low' }
 ];
 
+// \b is ASCII-only, so Spanish patterns use letter lookarounds (u flag)
+const SPANISH_PATTERNS: EmergencyPattern[] = [
+  // Crítico
+  { pattern: /(?<!\p{L})(c[oó]digo azul|paro card[ií]aco|no respira|sin pulso|anafilaxia)(?!\p{L})/iu, severity: 'critical' },
+  { pattern: /(?<!\p{L})(derrame cerebral|ataque cerebral|infarto|ataque al coraz[oó]n|convulsi[oó]n|convulsiones|hemorragia)(?!\p{L})/iu, severity: 'critical' },
+  { pattern: /(?<!\p{L})(no responde|inconsciente|se desmay[oó]|se desplom[oó])(?!\p{L})/iu, severity: 'critical' },
+
+  // Alto
+  { pattern: /(?<!\p{L})(dolor (?:de|en el) pecho|dificultad para respirar|no puedo respirar|dolor (?:severo|intenso|fuerte)|agudo)(?!\p{L})/iu, severity: 'high' },
+  { pattern: /(?<!\p{L})(reacci[oó]n al[eé]rgica|presi[oó]n.*(?:alta|baja|baj[oó]))(?!\p{L})/iu, severity: 'high' },
+  { pattern: /(?<!\p{L})(fiebre.*alta|temperatura.*(?:40|41|42))(?!\p{L})/iu, severity: 'high' },
+
+  // Medio
+  { pattern: /(?<!\p{L})(mareado|mareada|mareo|n[aá]useas?|v[oó]mito|vomitando)(?!\p{L})/iu, severity: 'medium' },
+  { pattern: /(?<!\p{L})(ca[ií]da|me ca[ií]|lesi[oó]n|trauma|herida)(?!\p{L})/iu, severity: 'medium' },
+  { pattern: /(?<!\p{L})(confundido|confundida|desorientado|desorientada)(?!\p{L})/iu, severity: 'medium' },
+
+  // Bajo
+  { pattern: /(?<!\p{L})(dolor|molestia|preocupado|preocupada)(?!\p{L})/iu, severity: 'low' }
+];
+
+const EMERGENCY_PATTERNS: Record<TranscriptLanguage, EmergencyPattern[]> = {
+  en: ENGLISH_PATTERNS,
+  es: SPANISH_PATTERNS
+};
+
 export class VAD {
   private config: VADConfig;
   private recentAlerts: Map<string, number> = new Map();
@@ -51,13 +87,17 @@ export class VAD {
   /**
    * Analyze transcript text for emergency phrases
    */
-  analyzeTranscript(text: string, context?: string): EmergencyAlert | null {
+  analyzeTranscript(
+    text: string,
+    context?: string,
+    language: TranscriptLanguage = DEFAULT_LANGUAGE
+  ): EmergencyAlert | null {
     const normalizedText = text.toLowerCase();
 
-    for (const { pattern, severity } of EMERGENCY_PATTERNS) {
-      const match = normalizedText.match(pattern);
+    for (const { pattern, severity } of EMERGENCY_PATTERNS[language]) {
+      const match = findAssertedMatches(normalizedText, pattern, language).find((m) => isCurrent(m.assertion));
       if (match) {
-        const phrase = match[0];
+        const phrase = match.text;
 
         // Check cooldown
         const lastAlert = this.recentAlerts.get(phrase);
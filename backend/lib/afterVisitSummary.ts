@@ -0,0 +1,635 @@
+/**
+ * After-Visit Summary (AVS)
+ *
+ * Patient-facing summary of a finalized encounter: what was found (plain
+ * language diagnoses), medication changes, what to do next (tests,
+ * imaging, referrals) and the follow-up visit. Built from the stored
+ * summary, its problem list (coding.ts) and the encounter tasks
+ * (tasks.ts); dismissed tasks are left out.
+ *
+ * Wording aims at a reading grade level (AVS_READING_GRADE, default 6):
+ * medical terms are swapped for plain ones and long sentences are split
+ * until the Flesch-Kincaid grade of the text reaches the target or no
+ * further split is possible. The grade reached is reported with the AVS.
+ *
+ * Headings, diagnoses from the glossary, medication instructions and task
+ * wording are localized (en, es); the language defaults to the
+ * encounter's. Free text from the note (plan lines, follow-up notes) is
+ * kept as written.
+ *
+ * Rendered as printable HTML or as a PDF (plain text layout, no
+ * dependencies) for GET /transcripts/:id/avs.
+ */
+
+import type { Summary } from './lifecycle.js';
+import type { ProblemList } from './coding.js';
+import type { EncounterTask } from './tasks.js';
+import type { MedicationEntry, MedicationIntent } from './medications.js';
+import { DEFAULT_LANGUAGE, TranscriptLanguage } from './language.js';
+
+export interface AfterVisitSummary {
+  transcriptId: number;
+  language: TranscriptLanguage;
+  visitDate: string | null;         // ISO date of the encounter
+  diagnoses: string[];
+  medications: string[];
+  instructions: string[];
+  followUp: string[];
+  readingGrade: number | null;      // Flesch-Kincaid grade of the text (English only)
+  targetGrade: number;
+  generatedAt: number;
+}
+
+export interface AfterVisitInput {
+  transcriptId: number;
+  summary: Pick<Summary, 'plan' | 'followUp' | 'medicationList'>;
+  problems: ProblemList;
+  tasks: EncounterTask[];
+  language?: TranscriptLanguage;
+  targetGrade?: number;
+  visitDate?: string | null;
+}
+
+interface Localized {
+  title: string;
+  visitDate: string;
+  diagnoses: string;
+  medications: string;
+  instructions: string;
+  followUp: string;
+  nothing: string;
+  footer: string;
+  print: string;
+  possible: (condition: string) => string;
+  intent: Record<MedicationIntent, string>;
+  changeTo: string;
+  prn: string;
+  labs: (names: string) => string;
+  imaging: (names: string) => string;
+  referral: (specialty: string) => string;
+  prescriptionsSent: string;
+  followUpIn: (interval: string) => string;
+  followUpAsNeeded: string;
+  followUpNote: (note: string) => string;
+  warning: string;
+}
+
+const DEFAULT_TARGET_GRADE = 6;
+
+const STRINGS: Record<TranscriptLanguage, Localized> = {
+  en: {
+    title: 'Your After-Visit Summary',
+    visitDate: 'Visit date',
+    diagnoses: 'What we found today',
+    medications: 'Your medicines',
+    instructions: 'What to do next',
+    followUp: 'Your next visit',
+    nothing: 'Nothing new today.',
+    footer: 'Questions? Call our office. If you feel much worse, call 911 or go to the emergency room.',
+    print: 'Print',
+    possible: (condition) => `Possible ${lowerFirst(condition)} (not confirmed yet)`,
+    intent: { start: 'Start taking', stop: 'Stop taking', change: 'Change your dose of', continue: 'Keep taking' },
+    changeTo: 'to',
+    prn: 'only when you need it',
+    labs: (names) => `Get these blood or lab tests done: ${names}.`,
+    imaging: (names) => `Get this imaging test: ${names}.`,
+    referral: (specialty) => `We are sending you to a ${specialty} specialist. Their office will call you to set up a visit.`,
+    prescriptionsSent: 'Your new prescriptions were sent to your pharmacy.',
+    followUpIn: (interval) => `Come back to see us in ${interval}.`,
+    followUpAsNeeded: 'Come back if you do not get better or if you feel worse.',
+    followUpNote: (note) => `Next visit: ${note}`,
+    warning: 'Call us if you have new or worse symptoms.'
+  },
+  es: {
+    title: 'Resumen de su visita',
+    visitDate: 'Fecha de la visita',
+    diagnoses: 'Lo que encontramos hoy',
+    medications: 'Sus medicinas',
+    instructions: 'Qué hacer ahora',
+    followUp: 'Su próxima cita',
+    nothing: 'Nada nuevo hoy.',
+    footer: '¿Preguntas? Llame a nuestra oficina. Si se siente mucho peor, llame al 911 o vaya a la sala de emergencias.',
+    print: 'Imprimir',
+    possible: (condition) => `Posible ${lowerFirst(condition)} (todavía no confirmado)`,
+    intent: { start: 'Empiece a tomar', stop: 'Deje de tomar', change: 'Cambie la dosis de', continue: 'Siga tomando' },
+    changeTo: 'a',
+    prn: 'solo cuando lo necesite',
+    labs: (names) => `Hágase estos análisis: ${names}.`,
+    imaging: (names) => `Hágase este estudio de imagen: ${names}.`,
+    referral: (specialty) => `Le enviamos con un especialista de ${specialty}. Su oficina le llamará para hacer una cita.`,
+    prescriptionsSent: 'Sus recetas nuevas se enviaron a su farmacia.',
+    followUpIn: (interval) => `Regrese a vernos en ${interval}.`,
+    followUpAsNeeded: 'Regrese si no mejora o si se siente peor.',
+    followUpNote: (note) => `Próxima cita: ${note}`,
+    warning: 'Llámenos si tiene síntomas nuevos o peores.'
+  }
+};
+
+// Diagnosis wording for patients, most specific first
+const PLAIN_DIAGNOSES: Array<[RegExp, Record<TranscriptLanguage, string>]> = [
+  [/\b((essential )?hypertension|high blood pressure)\b/i, { en: 'High blood pressure', es: 'Presión arterial alta' }],
+  [/\b(hyperlipidemia|dyslipidemia|hypercholesterolemia|high cholesterol)\b/i, { en: 'High cholesterol', es: 'Colesterol alto' }],
+  [/\b(type 2 diabetes|diabetes mellitus type 2|t2dm)\b/i, { en: 'Type 2 diabetes (high blood sugar)', es: 'Diabetes tipo 2 (azúcar alta en la sangre)' }],
+  [/\bprediabetes\b/i, { en: 'Blood sugar a little above normal (prediabetes)', es: 'Azúcar un poco alta (prediabetes)' }],
+  [/\bdiabetes\b/i, { en: 'Diabetes (high blood sugar)', es: 'Diabetes (azúcar alta en la sangre)' }],
+  [/\b(strep(tococcal)? (throat|pharyngitis)|pharyngitis)\b/i, { en: 'Throat infection', es: 'Infección de garganta' }],
+  [/\b(otitis media|ear infection)\b/i, { en: 'Ear infection', es: 'Infección de oído' }],
+  [/\b(sinusitis|sinus infection)\b/i, { en: 'Sinus infection', es: 'Infección de los senos nasales' }],
+  [/\b(upper respiratory (tract )?infection|uri|common cold)\b/i, { en: 'Common cold', es: 'Resfriado común' }],
+  [/\bpneumonia\b/i, { en: 'Lung infection (pneumonia)', es: 'Infección del pulmón (neumonía)' }],
+  [/\bbronchitis\b/i, { en: 'Chest cold (bronchitis)', es: 'Bronquitis' }],
+  [/\b(urinary tract infection|uti|cystitis)\b/i, { en: 'Bladder infection (UTI)', es: 'Infección de orina' }],
+  [/\b(gastroesophageal reflux|gerd|acid reflux)\b/i, { en: 'Acid reflux (heartburn)', es: 'Reflujo ácido (acidez)' }],
+  [/\b(gastroenteritis|stomach (bug|flu))\b/i, { en: 'Stomach bug', es: 'Infección del estómago' }],
+  [/\b(copd|chronic obstructive pulmonary)\b/i, { en: 'COPD (long-term lung disease)', es: 'EPOC (enfermedad crónica del pulmón)' }],
+  [/\basthma\b/i, { en: 'Asthma', es: 'Asma' }],
+  [/\bhypothyroidism\b/i, { en: 'Underactive thyroid', es: 'Tiroides baja (hipotiroidismo)' }],
+  [/\bhyperthyroidism\b/i, { en: 'Overactive thyroid', es: 'Tiroides alta (hipertiroidismo)' }],
+  [/\b(atrial fibrillation|afib)\b/i, { en: 'Irregular heartbeat (AFib)', es: 'Latido irregular del corazón (fibrilación auricular)' }],
+  [/\b(congestive )?heart failure\b/i, { en: 'Weak heart pump (heart failure)', es: 'Corazón débil (insuficiencia cardíaca)' }],
+  [/\b(allergic rhinitis|seasonal allergies)\b/i, { en: 'Nose allergies', es: 'Alergia nasal' }],
+  [/\bmigraine\b/i, { en: 'Migraine headache', es: 'Migraña' }],
+  [/\b(low back pain|lumbago)\b/i, { en: 'Low back pain', es: 'Dolor de espalda baja' }],
+  [/\bosteoarthritis\b/i, { en: 'Joint wear and tear (arthritis)', es: 'Desgaste de las articulaciones (artrosis)' }],
+  [/\bobesity\b/i, { en: 'Weight above the healthy range', es: 'Peso por encima de lo saludable' }],
+  [/\b(iron deficiency )?anemia\b/i, { en: 'Low blood count (anemia)', es: 'Sangre baja (anemia)' }],
+  [/\binsomnia\b/i, { en: 'Trouble sleeping', es: 'Problemas para dormir' }],
+  [/\b(generalized )?anxiety( disorder)?\b/i, { en: 'Anxiety', es: 'Ansiedad' }],
+  [/\b(major )?depressi(on|ve disorder)\b/i, { en: 'Depression', es: 'Depresión' }]
+];
+
+const PLAIN_ROUTES: Record<string, Record<TranscriptLanguage, string>> = {
+  oral: { en: 'by mouth', es: 'por la boca' },
+  inhaled: { en: 'breathed in', es: 'inhalado' },
+  nasal: { en: 'in the nose', es: 'en la nariz' },
+  sublingual: { en: 'under the tongue', es: 'debajo de la lengua' },
+  subcutaneous: { en: 'as a shot under the skin', es: 'inyectado bajo la piel' },
+  intravenous: { en: 'through an IV', es: 'por la vena' },
+  intramuscular: { en: 'as a shot in the muscle', es: 'inyectado en el músculo' },
+  topical: { en: 'on the skin', es: 'sobre la piel' },
+  ophthalmic: { en: 'in the eye', es: 'en el ojo' }
+};
+
+// Frequencies as medications.ts normalizes them
+const PLAIN_FREQUENCIES: Record<string, Record<TranscriptLanguage, string>> = {
+  'daily': { en: 'once a day', es: 'una vez al día' },
+  'twice daily': { en: '2 times a day', es: '2 veces al día' },
+  'three times daily': { en: '3 times a day', es: '3 veces al día' },
+  'four times daily': { en: '4 times a day', es: '4 veces al día' },
+  'at bedtime': { en: 'at bedtime', es: 'al acostarse' },
+  'every morning': { en: 'every morning', es: 'cada mañana' },
+  'weekly': { en: 'once a week', es: 'una vez a la semana' },
+  'monthly': { en: 'once a month', es: 'una vez al mes' }
+};
+
+const INTERVAL_UNITS: Record<string, string> = {
+  day: 'día', days: 'días', week: 'semana', weeks: 'semanas', month: 'mes', months: 'meses', year: 'año', years: 'años'
+};
+
+const INTERVAL_NUMBERS: Record<string, string> = {
+  a: 'un', an: 'un', one: 'un', two: 'dos', three: 'tres', four: 'cuatro', five: 'cinco', six: 'seis',
+  seven: 'siete', eight: 'ocho', ten: 'diez', twelve: 'doce', couple: 'un par de', few: 'unos'
+};
+
+// Medical words in free text (English) and their plain wording
+const PLAIN_WORDS: Array<[RegExp, string]> = [
+  [/\bprn\b/gi, 'when needed'],
+  [/\bpo\b/gi, 'by mouth'],
+  [/\b(bid|b\.i\.d\.)\b/gi, '2 times a day'],
+  [/\b(tid|t\.i\.d\.)\b/gi, '3 times a day'],
+  [/\b(qid|q\.i\.d\.)\b/gi, '4 times a day'],
+  [/\bqhs\b/gi, 'at bedtime'],
+  [/\bfollow[- ]up\b/gi, 'next visit'],
+  [/\bf\/u\b/gi, 'next visit'],
+  [/\bmonitor\b/gi, 'watch'],
+  [/\bdiscontinue\b/gi, 'stop'],
+  [/\binitiate\b/gi, 'start'],
+  [/\badminister\b/gi, 'give'],
+  [/\bapproximately\b/gi, 'about'],
+  [/\bsymptomatic\b/gi, 'with symptoms'],
+  [/\bhydration\b/gi, 'drinking fluids'],
+  [/\bantipyretics?\b/gi, 'fever medicine'],
+  [/\banalgesics?\b/gi, 'pain medicine'],
+  [/\bnsaids?\b/gi, 'anti-inflammatory pain medicine'],
+  [/\bcardiovascular\b/gi, 'heart'],
+  [/\bhypertension\b/gi, 'high blood pressure'],
+  [/\bhyperlipidemia\b/gi, 'high cholesterol']
+];
+
+// ─────────────────────────────────────────────
+// Building
+// ─────────────────────────────────────────────
+
+/**
+ * The after-visit summary of a finalized encounter
+ */
+export function buildAfterVisitSummary(input: AfterVisitInput): AfterVisitSummary {
+  const language = input.language ?? DEFAULT_LANGUAGE;
+  const targetGrade = input.targetGrade ?? defaultTargetGrade();
+  const strings = STRINGS[language];
+  const tasks = input.tasks.filter((task) => task.state !== 'dismissed');
+
+  const diagnoses = unique(input.problems.problems.map((problem) => {
+    const plain = plainDiagnosis(problem.phrase, language);
+    return problem.uncertain ? strings.possible(plain) : plain;
+  }));
+
+  const medications = (input.summary.medicationList || [])
+    .map((entry) => describeMedicationChange(entry, language));
+
+  const instructions = buildInstructions(tasks, input.summary, language);
+  const followUp = buildFollowUp(tasks, input.summary, language);
+
+  const avs: AfterVisitSummary = {
+    transcriptId: input.transcriptId,
+    language,
+    visitDate: input.visitDate ?? null,
+    diagnoses,
+    medications,
+    instructions,
+    followUp,
+    readingGrade: null,
+    targetGrade,
+    generatedAt: Date.now()
+  };
+
+  return language === 'en' ? simplifyToGrade(avs) : avs;
+}
+
+/**
+ * Reading grade level from AVS_READING_GRADE (default 6)
+ */
+export function defaultTargetGrade(): number {
+  const grade = parseFloat(process.env.AVS_READING_GRADE || '');
+  return Number.isFinite(grade) && grade > 0 ? grade : DEFAULT_TARGET_GRADE;
+}
+
+/**
+ * Plain wording of a diagnosis; the phrase itself when not in the glossary
+ */
+export function plainDiagnosis(phrase: string, language: TranscriptLanguage = DEFAULT_LANGUAGE): string {
+  const plain = PLAIN_DIAGNOSES.find(([pattern]) => pattern.test(phrase));
+  return plain ? plain[1][language] : upperFirst(phrase.trim());
+}
+
+/**
+ * One instruction line per medication: what to do and how to take it
+ */
+export function describeMedicationChange(entry: MedicationEntry, language: TranscriptLanguage = DEFAULT_LANGUAGE): string {
+  const strings = STRINGS[language];
+  const intent = entry.intent ?? 'continue';
+  const dose = entry.strength !== null ? `${entry.strength}${entry.unit ? ` ${entry.unit}` : ''}` : '';
+
+  let line = `${strings.intent[intent]} ${entry.name}`;
+  if (dose) line += intent === 'change' ? ` ${strings.changeTo} ${dose}` : ` ${dose}`;
+  if (intent === 'stop') return `${line}.`;
+
+  const how = [
+    entry.route ? PLAIN_ROUTES[entry.route]?.[language] : null,
+    entry.frequency ? plainFrequency(entry.frequency, language) : null,
+    entry.prn ? strings.prn : null
+  ].filter(Boolean);
+
+  return how.length > 0 ? `${line}, ${how.join(', ')}.` : `${line}.`;
+}
+
+function plainFrequency(frequency: string, language: TranscriptLanguage): string {
+  const known = PLAIN_FREQUENCIES[frequency];
+  if (known) return known[language];
+
+  const hours = frequency.match(/^every ([\d-]+) hours$/);
+  if (hours) return language === 'es' ? `cada ${hours[1]} horas` : `every ${hours[1]} hours`;
+  return frequency;
+}
+
+function buildInstructions(
+  tasks: EncounterTask[],
+  summary: AfterVisitInput['summary'],
+  language: TranscriptLanguage
+): string[] {
+  const strings = STRINGS[language];
+  const instructions: string[] = [];
+
+  const labs = tasks.filter((task) => task.kind === 'lab').map((task) => task.text.replace(/^Order\s+/i, ''));
+  if (labs.length > 0) instructions.push(strings.labs(labs.join(', ')));
+
+  tasks
+    .filter((task) => task.kind === 'imaging')
+    .forEach((task) => instructions.push(strings.imaging(task.text.replace(/^Order\s+/i, ''))));
+
+  tasks
+    .filter((task) => task.kind === 'referral')
+    .forEach((task) => instructions.push(strings.referral(task.text.replace(/^Referral to\s+/i, ''))));
+
+  if (tasks.some((task) => task.kind === 'prescription')) instructions.push(strings.prescriptionsSent);
+
+  // Plan lines not already covered by a task or a medication, as written
+  const covered = [
+    ...tasks.map((task) => task.detail.toLowerCase()),
+    ...(summary.medicationList || []).map((entry) => entry.name.toLowerCase())
+  ];
+  for (const line of summary.plan || []) {
+    const text = line.trim().replace(/^[-•*]\s*/, '');
+    if (!text || /^follow[- ]?up\b/i.test(text)) continue;
+    const lower = text.toLowerCase();
+    if (covered.some((c) => c.includes(lower) || lower.includes(c))) continue;
+    instructions.push(punctuate(language === 'en' ? plainWords(upperFirst(text)) : upperFirst(text)));
+  }
+
+  instructions.push(strings.warning);
+  return unique(instructions);
+}
+
+function buildFollowUp(
+  tasks: EncounterTask[],
+  summary: AfterVisitInput['summary'],
+  language: TranscriptLanguage
+): string[] {
+  const strings = STRINGS[language];
+  const task = tasks.find((t) => t.kind === 'follow_up');
+
+  if (task) {
+    const interval = task.text.match(/^Follow up in (.+)$/i);
+    if (interval) return [strings.followUpIn(localizeInterval(interval[1], language))];
+    if (/as needed/i.test(task.text)) return [strings.followUpAsNeeded];
+  }
+
+  const note = (summary.followUp || '').trim();
+  if (!note) return [];
+  return [punctuate(strings.followUpNote(language === 'en' ? plainWords(note) : note))];
+}
+
+// "2 weeks" → "2 semanas", "a month" → "un mes"
+function localizeInterval(interval: string, language: TranscriptLanguage): string {
+  if (language === 'en') return interval;
+  return interval
+    .split(/\s+/)
+    .map((word) => INTERVAL_UNITS[word.toLowerCase()] ?? INTERVAL_NUMBERS[word.toLowerCase()] ?? word)
+    .join(' ');
+}
+
+function plainWords(text: string): string {
+  return PLAIN_WORDS.reduce((result, [pattern, plain]) => result.replace(pattern, plain), text);
+}
+
+// ─────────────────────────────────────────────
+// Reading level
+// ─────────────────────────────────────────────
+
+/**
+ * Flesch-Kincaid grade level of English text
+ */
+export function readingGrade(text: string): number | null {
+  const sentences = text.split(/[.!?]+(?:\s|$)|\n+/).filter((s) => /[a-z]/i.test(s));
+  const words = text.match(/[a-z][a-z'-]*/gi) || [];
+  if (sentences.length === 0 || words.length === 0) return null;
+
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  const grade = 0.39 * (words.length / sentences.length) + 11.8 * (syllables / words.length) - 15.59;
+  return Math.round(Math.max(0, grade) * 10) / 10;
+}
+
+function countSyllables(word: string): number {
+  const lower = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (lower.length <= 3) return 1;
+
+  const groups = lower
+    .replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '')
+    .replace(/^y/, '')
+    .match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 1);
+}
+
+/**
+ * Split the longest sentences at clause breaks until the text reaches the
+ * target grade (or nothing is left to split)
+ */
+function simplifyToGrade(avs: AfterVisitSummary): AfterVisitSummary {
+  const sections: Array<keyof Pick<AfterVisitSummary, 'instructions' | 'followUp'>> = ['instructions', 'followUp'];
+  let grade = readingGrade(avsText(avs));
+
+  while (grade !== null && grade > avs.targetGrade) {
+    const split = splitLongestSentence(avs, sections);
+    if (!split) break;
+    grade = readingGrade(avsText(avs));
+  }
+
+  avs.readingGrade = grade;
+  return avs;
+}
+
+function splitLongestSentence(
+  avs: AfterVisitSummary,
+  sections: Array<keyof Pick<AfterVisitSummary, 'instructions' | 'followUp'>>
+): boolean {
+  let longest: { section: typeof sections[number]; index: number; words: number } | null = null;
+
+  for (const section of sections) {
+    avs[section].forEach((line, index) => {
+      const words = line.split(/\s+/).length;
+      if (/[;,]\s|\s(and|but|then)\s/.test(line) && (!longest || words > longest.words)) {
+        longest = { section, index, words };
+      }
+    });
+  }
+  if (!longest) return false;
+
+  const { section, index } = longest as { section: typeof sections[number]; index: number };
+  const line = avs[section][index];
+  const parts = line
+    .split(/;\s+|,\s+(?:and|but|then)\s+|,\s+|\s+(?:and then|but|then)\s+/)
+    .map((part) => punctuate(upperFirst(part.trim().replace(/[.]+$/, ''))))
+    .filter((part) => part.length > 1);
+  if (parts.length < 2) return false;
+
+  avs[section].splice(index, 1, ...parts);
+  return true;
+}
+
+function avsText(avs: AfterVisitSummary): string {
+  return [...avs.diagnoses, ...avs.medications, ...avs.instructions, ...avs.followUp]
+    .map(punctuate)
+    .join('\n');
+}
+
+// ─────────────────────────────────────────────
+// Rendering
+// ─────────────────────────────────────────────
+
+/**
+ * Printable HTML page; ?print opens the print dialog on load
+ */
+export function renderAfterVisitHtml(avs: AfterVisitSummary, options: { autoPrint?: boolean } = {}): string {
+  const strings = STRINGS[avs.language];
+
+  const section = (heading: string, lines: string[]) => `
+    <section>
+      <h2>${escapeHtml(heading)}</h2>
+      ${lines.length > 0
+        ? `<ul>${lines.map((line) => `<li>${escapeHtml(line)}</li>`).join('')}</ul>`
+        : `<p class="none">${escapeHtml(strings.nothing)}</p>`}
+    </section>`;
+
+  return `<!DOCTYPE html>
+<html lang="${avs.language}">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(strings.title)}</title>
+  <style>
+    body { font-family: Arial, Helvetica, sans-serif; font-size: 16px; line-height: 1.5; max-width: 720px; margin: 24px auto; padding: 0 16px; color: #111; }
+    h1 { font-size: 24px; margin-bottom: 4px; }
+    h2 { font-size: 18px; margin: 20px 0 6px; border-bottom: 1px solid #ccc; padding-bottom: 2px; }
+    ul { margin: 0; padding-left: 20px; }
+    li { margin-bottom: 4px; }
+    .date, .none, footer { color: #444; }
+    footer { margin-top: 28px; font-size: 14px; }
+    .print { float: right; padding: 6px 14px; font-size: 14px; cursor: pointer; }
+    @media print { .print { display: none; } body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <button class="print" onclick="window.print()">${escapeHtml(strings.print)}</button>
+  <h1>${escapeHtml(strings.title)}</h1>
+  ${avs.visitDate ? `<p class="date">${escapeHtml(strings.visitDate)}: ${escapeHtml(avs.visitDate)}</p>` : ''}
+  ${section(strings.diagnoses, avs.diagnoses)}
+  ${section(strings.medications, avs.medications)}
+  ${section(strings.instructions, avs.instructions)}
+  ${section(strings.followUp, avs.followUp)}
+  <footer>${escapeHtml(strings.footer)}</footer>
+  ${options.autoPrint ? '<script>window.addEventListener(\'load\', () => window.print());</script>' : ''}
+</body>
+</html>
+`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const PDF_PAGE = { width: 612, height: 792, margin: 54 };   // US Letter, 0.75in margins
+const PDF_LINE_CHARS = 80;
+
+/**
+ * PDF of the AVS: Helvetica text (WinAnsi, covers Spanish accents),
+ * wrapped and paginated
+ */
+export function renderAfterVisitPdf(avs: AfterVisitSummary): Buffer {
+  const strings = STRINGS[avs.language];
+  const lines: Array<{ text: string; size: number; bold: boolean; gap: number }> = [];
+
+  const add = (text: string, size: number, bold: boolean, gap: number, indent: string = '') => {
+    wrapText(text, Math.floor(PDF_LINE_CHARS * 11 / size) - indent.length).forEach((line, i) => {
+      lines.push({ text: (i === 0 ? indent : ' '.repeat(indent.length)) + line, size, bold, gap: i === 0 ? gap : 0 });
+    });
+  };
+
+  add(strings.title, 18, true, 0);
+  if (avs.visitDate) add(`${strings.visitDate}: ${avs.visitDate}`, 11, false, 4);
+
+  const sections: Array<[string, string[]]> = [
+    [strings.diagnoses, avs.diagnoses],
+    [strings.medications, avs.medications],
+    [strings.instructions, avs.instructions],
+    [strings.followUp, avs.followUp]
+  ];
+  for (const [heading, items] of sections) {
+    add(heading, 13, true, 14);
+    if (items.length === 0) add(strings.nothing, 11, false, 2);
+    items.forEach((item) => add(item, 11, false, 2, '- '));
+  }
+  add(strings.footer, 10, false, 20);
+
+  // Lay out lines on pages, top to bottom
+  const pages: string[] = [];
+  let ops: string[] = [];
+  let y = PDF_PAGE.height - PDF_PAGE.margin;
+
+  for (const line of lines) {
+    const leading = line.size * 1.35 + line.gap;
+    if (y - leading < PDF_PAGE.margin && ops.length > 0) {
+      pages.push(ops.join('\n'));
+      ops = [];
+      y = PDF_PAGE.height - PDF_PAGE.margin;
+    }
+    y -= leading;
+    ops.push(`BT /${line.bold ? 'F2' : 'F1'} ${line.size} Tf ${PDF_PAGE.margin} ${y.toFixed(1)} Td (${escapePdf(line.text)}) Tj ET`);
+  }
+  pages.push(ops.join('\n'));
+
+  // Objects: 1 catalog, 2 pages, 3-4 fonts, then a page and its content per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  pages.forEach((content, i) => {
+    objects[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE.width} ${PDF_PAGE.height}] `
+      + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xref = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (current && current.length + 1 + word.length > width) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+// Latin-1 only (WinAnsi); anything else becomes "?"
+function escapePdf(text: string): string {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/[\\()]/g, '\\$&');
+}
+
+function unique(lines: string[]): string[] {
+  return lines.filter((line, i) => lines.findIndex((other) => other.toLowerCase() === line.toLowerCase()) === i);
+}
+
+function punctuate(text: string): string {
+  return /[.!?]$/.test(text) ? text : `${text}.`;
+}
+
+function upperFirst(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function lowerFirst(text: string): string {
+  // Keep acronyms ("COPD")
+  return /^[A-Z]{2}/.test(text) ? text : text.charAt(0).toLowerCase() + text.slice(1);
+}
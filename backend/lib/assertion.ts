@@ -0,0 +1,263 @@
+/**
+ * Clinical Assertions (NegEx-style)
+ *
+ * Tags a finding mentioned in text as present, absent ("no chest pain",
+ * "strep ruled out"), possible ("likely pneumonia", "rule out MI"),
+ * historical ("history of stroke") or family history ("mother had breast
+ * cancer"). Trigger phrases before the finding apply up to a few words
+ * ahead and after it up to a few words back, within the sentence and
+ * clause ("no fever but has a cough": the cough is present). Pseudo-triggers
+ * that only look like triggers ("no change in", "not only") are ignored.
+ *
+ * Used by ROS extraction (summarizer), emergency detection (VAD) and the
+ * problem list (coding), so a denied symptom is neither reported, alerted
+ * on nor coded.
+ */
+
+import { DEFAULT_LANGUAGE, TranscriptLanguage } from './language.js';
+
+export type Assertion = 'present' | 'absent' | 'possible' | 'historical' | 'family';
+
+export interface AssertionResult {
+  assertion: Assertion;
+  trigger: string | null;  // phrase that set it (null = present)
+}
+
+export interface AssertedFinding extends AssertionResult {
+  text: string;            // the finding as matched
+  index: number;           // offset in the text
+}
+
+interface TriggerSet {
+  pseudo: string[];
+  family: string[];
+  postFamily: string[];
+  negation: string[];
+  postNegation: string[];
+  possible: string[];
+  postPossible: string[];
+  historical: string[];
+  postHistorical: string[];
+  termination: string[];
+}
+
+const PRE_WINDOW = 6;   // words between a trigger and the finding
+const POST_WINDOW = 4;
+
+const EN_RELATIVES =
+  '(?:mother|father|mom|dad|brother|sister|sibling|grandmother|grandfather|grandma|grandpa|aunt|uncle|cousin|parents?)';
+const ES_RELATIVES =
+  '(?:madre|padre|mam[aá]|pap[aá]|hermano|hermana|abuelo|abuela|t[ií]o|t[ií]a|primo|prima|padres)';
+
+const TRIGGERS: Record<TranscriptLanguage, TriggerSet> = {
+  en: {
+    pseudo: [
+      'no increase', 'no change', 'no significant change', 'no further', 'not only', 'not necessarily',
+      'not certain if', 'not sure if', 'gram negative', 'without difficulty', 'no longer than'
+    ],
+    family: [
+      'family history of', 'family hx of', 'fhx of',
+      `(?:my|his|her|their|your|(?:the )?patient'?s) ${EN_RELATIVES}(?: (?:has|had|have|with|died of|passed away from|was diagnosed with))?`,
+      // Bare "Father had a stroke" needs the verb: "mother is here with him" is not family history
+      `${EN_RELATIVES} (?:has|had|have|died of|passed away from|was diagnosed with)`
+    ],
+    postFamily: ['runs in (?:the|my|his|her|their|your) family', 'in the family'],
+    negation: [
+      // "No, I do have chest pain" answers the question before it
+      'no(?!\\s*,)', 'not', 'denies', 'denied', 'deny', 'denying', 'without', 'negative for', 'no evidence of',
+      'no signs? of', 'free of', 'absence of', 'never had', 'never', "doesn't have", 'does not have',
+      "hasn't had", 'has not had', "haven't had", 'have not had', "don't have", 'do not have',
+      "didn't have", 'did not have', 'ruled out', 'rules out', 'resolution of'
+    ],
+    postNegation: [
+      '(?:is|was|has been|were|have been) ruled out', 'ruled out', '(?:is|was|were|came back) negative',
+      'unlikely', '(?:is|was) absent', 'resolved', 'went away', '(?:is|are) gone'
+    ],
+    possible: [
+      'possible', 'possibly', 'probable', 'probably', 'likely', 'suspect', 'suspected', 'suspicious for',
+      'concern for', 'concerning for', 'rule out', 'r/o', 'question of', 'questionable', 'may have',
+      'might have', 'could be', 'worried about', 'versus', 'vs\\.?', 'presumed', 'differential includes'
+    ],
+    postPossible: [
+      '(?:is|was) (?:possible|likely|suspected)', 'cannot be ruled out', "can't be ruled out",
+      'not ruled out', 'versus', 'vs\\.?'
+    ],
+    historical: [
+      'history of', 'hx of', 'h/o', 'past medical history of', 'previous', 'previously', 'prior',
+      'status post', 's/p'
+    ],
+    postHistorical: ['(?:\\w+ )?years ago', 'in the past', 'as a child', 'last year'],
+    termination: [
+      'but', 'however', 'although', 'though', 'except', 'aside from', 'apart from', 'other than',
+      'which', 'who', 'because', 'yet', 'still', 'now', 'presents with', 'complains of', 'reports'
+    ]
+  },
+  es: {
+    pseudo: ['no hay cambio', 'sin cambios?', 'no solo'],
+    family: [
+      'antecedentes familiares de', 'historia familiar de',
+      `(?:mi|su|tu) ${ES_RELATIVES}(?: (?:tiene|ten[ií]a|tuvo|con|muri[oó] de))?`,
+      `(?:(?:el|la|los) )?${ES_RELATIVES}(?: del paciente)? (?:tiene|ten[ií]a|tuvo|muri[oó] de)`
+    ],
+    postFamily: ['en la familia', 'de familia'],
+    negation: [
+      'no(?!\\s*,)', 'niega', 'negó', 'sin', 'nunca', 'negativo para', 'negativa para', 'no hay evidencia de',
+      'sin evidencia de', 'sin signos de', 'descarta', 'descartado', 'descartada'
+    ],
+    postNegation: ['descartad[oa]', '(?:es|fue|sali[oó]) negativ[oa]', 'poco probable', 'se resolvi[oó]'],
+    possible: [
+      'posible', 'posiblemente', 'probable', 'probablemente', 'sospecha de', 'descartar', 'puede ser',
+      'podr[ií]a ser', 'preocupa', 'versus'
+    ],
+    postPossible: ['(?:es|parece) probable', 'no se (?:puede )?descartar?', 'versus'],
+    historical: ['antecedentes? de', 'historia de', 'previo', 'previa', 'anterior'],
+    postHistorical: ['hace (?:\\w+ )?a[nñ]os', 'en el pasado', 'de niñ[oa]', 'el a[nñ]o pasado'],
+    termination: ['pero', 'sin embargo', 'aunque', 'excepto', 'salvo', 'que', 'porque', 'ahora']
+  }
+};
+
+// Letter lookarounds instead of \b: \b is ASCII-only (Spanish accents)
+function phrasePattern(phrases: string[], flags: string = 'giu'): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}'])(?:${phrases.join('|')})(?![\\p{L}\\p{N}'])`, flags);
+}
+
+interface CompiledTriggers {
+  pseudo: RegExp;
+  termination: RegExp;
+  pre: Array<[Exclude<Assertion, 'present'>, RegExp]>;
+  post: Array<[Exclude<Assertion, 'present'>, RegExp]>;
+}
+
+// Checked in this order: "no history of stroke" is absent, not historical
+const COMPILED: Record<TranscriptLanguage, CompiledTriggers> = Object.fromEntries(
+  (Object.entries(TRIGGERS) as Array<[TranscriptLanguage, TriggerSet]>).map(([language, t]) => [language, {
+    pseudo: phrasePattern(t.pseudo),
+    termination: phrasePattern(t.termination),
+    pre: [
+      ['family', phrasePattern(t.family)],
+      ['absent', phrasePattern(t.negation)],
+      ['possible', phrasePattern(t.possible)],
+      ['historical', phrasePattern(t.historical)]
+    ],
+    // "cannot be ruled out" before "ruled out"
+    post: [
+      ['family', phrasePattern(t.postFamily)],
+      ['possible', phrasePattern(t.postPossible)],
+      ['absent', phrasePattern(t.postNegation)],
+      ['historical', phrasePattern(t.postHistorical)]
+    ]
+  }])
+) as Record<TranscriptLanguage, CompiledTriggers>;
+
+// ─────────────────────────────────────────────
+// Assertions
+// ─────────────────────────────────────────────
+
+/**
+ * Assertion of the finding at text[start, end)
+ */
+export function assertSpan(
+  text: string,
+  start: number,
+  end: number,
+  language: TranscriptLanguage = DEFAULT_LANGUAGE
+): AssertionResult {
+  const triggers = COMPILED[language];
+
+  // Scope: the finding's sentence, cut at the nearest clause terminators
+  const sentenceStart = Math.max(
+    text.lastIndexOf('.', start - 1), text.lastIndexOf('!', start - 1), text.lastIndexOf('?', start - 1),
+    text.lastIndexOf(';', start - 1), text.lastIndexOf(':', start - 1), text.lastIndexOf('\n', start - 1)
+  ) + 1;
+  const sentenceEnd = firstIndex(text, ['.', '!', '?', ';', ':', '\n'], end);
+
+  let before = maskPseudo(text.slice(sentenceStart, start), triggers.pseudo);
+  let after = maskPseudo(text.slice(end, sentenceEnd), triggers.pseudo);
+
+  const lastTerminator = lastMatch(before, triggers.termination);
+  if (lastTerminator) before = before.slice(lastTerminator.index! + lastTerminator[0].length);
+  const firstTerminator = after.match(new RegExp(triggers.termination.source, 'iu'));
+  if (firstTerminator) after = after.slice(0, firstTerminator.index);
+
+  for (const [assertion, pattern] of triggers.pre) {
+    const match = lastMatch(before, pattern);
+    // Family members anywhere in the clause ("my mother was diagnosed with ... cancer")
+    if (match && (assertion === 'family' || wordCount(before.slice(match.index! + match[0].length)) <= PRE_WINDOW)) {
+      return { assertion, trigger: match[0].trim() };
+    }
+  }
+
+  for (const [assertion, pattern] of triggers.post) {
+    const match = after.match(new RegExp(pattern.source, 'iu'));
+    if (match && wordCount(after.slice(0, match.index)) <= POST_WINDOW) {
+      return { assertion, trigger: match[0].trim() };
+    }
+  }
+
+  return { assertion: 'present', trigger: null };
+}
+
+/**
+ * Every match of a finding pattern in the text, with its assertion
+ */
+export function findAssertedMatches(
+  text: string,
+  pattern: RegExp,
+  language: TranscriptLanguage = DEFAULT_LANGUAGE
+): AssertedFinding[] {
+  const global = pattern.global ? pattern : new RegExp(pattern.source, pattern.flags + 'g');
+
+  return Array.from(text.matchAll(global))
+    .filter((match) => match[0].length > 0)
+    .map((match) => ({
+      text: match[0],
+      index: match.index!,
+      ...assertSpan(text, match.index!, match.index! + match[0].length, language)
+    }));
+}
+
+/**
+ * Assertion of a short phrase taken as one finding ("no strep throat",
+ * "history of stroke", "pneumonia ruled out"): triggers at its start or end
+ */
+export function assertPhrase(phrase: string, language: TranscriptLanguage = DEFAULT_LANGUAGE): AssertionResult {
+  const triggers = COMPILED[language];
+  const text = maskPseudo(phrase.trim(), triggers.pseudo);
+
+  for (const [assertion, pattern] of triggers.pre) {
+    const match = text.match(new RegExp(`^\\W*(?:${pattern.source})`, 'iu'));
+    if (match) return { assertion, trigger: match[0].trim() };
+  }
+  for (const [assertion, pattern] of triggers.post) {
+    const match = text.match(new RegExp(`(?:${pattern.source})\\W*$`, 'iu'));
+    if (match) return { assertion, trigger: match[0].trim() };
+  }
+
+  return { assertion: 'present', trigger: null };
+}
+
+/**
+ * The patient has (or may have) the finding now
+ */
+export function isCurrent(assertion: Assertion): boolean {
+  return assertion === 'present' || assertion === 'possible';
+}
+
+function maskPseudo(text: string, pseudo: RegExp): string {
+  return text.replace(pseudo, (m) => ' '.repeat(m.length));
+}
+
+function lastMatch(text: string, pattern: RegExp): RegExpMatchArray | null {
+  let last: RegExpMatchArray | null = null;
+  for (const match of text.matchAll(pattern)) last = match;
+  return last;
+}
+
+function firstIndex(text: string, chars: string[], from: number): number {
+  const found = chars.map((c) => text.indexOf(c, from)).filter((i) => i !== -1);
+  return found.length > 0 ? Math.min(...found) : text.length;
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
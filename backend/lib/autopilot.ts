@@ -9,6 +9,7 @@ export type AutopilotStatus = 'OFFLINE' | 'LEARNING' | 'READY';
 
 export interface DOMSurface {
   fieldId: string;
+  selector?: string;
   label: string;
   fieldType: string;
   hasFillData: boolean;
@@ -39,10 +40,19 @@ export class Autopilot {
   }
 
   /**
-   * Process DOM map result from extension
+   * Process DOM map result from extension. Fields seen before keep their
+   * fill data, and fields the doctor confirmed (learned field mappings)
+   * keep the confirmed category.
    */
-  ingestDOMMap(fields: DOMSurface[]): void {
-    this.state.surfaces = fields;
+  ingestDOMMap(fields: DOMSurface[], confirmed: Array<{ selector: string; category: string }> = []): void {
+    const previous = new Map(this.state.surfaces.map(s => [s.fieldId, s]));
+    const categories = new Map(confirmed.map(m => [m.selector, m.category]));
+
+    this.state.surfaces = fields.map(field => ({
+      ...field,
+      fieldType: (field.selector && categories.get(field.selector)) || field.fieldType,
+      hasFillData: field.hasFillData || previous.get(field.fieldId)?.hasFillData || false
+    }));
     this.state.lastMapTime = Date.now();
     this.state.mapCount++;
 
@@ -0,0 +1,270 @@
+/**
+ * Problem List and Code Suggestions
+ *
+ * Offline coding assistant: the assessment (and chief complaint) of a
+ * summary is split into problems, and each problem is matched against a
+ * bundled ICD-10-CM code table with SNOMED CT concepts (ICD10_CODE_TABLE,
+ * default dictionaries/icd10.json at the repository root).
+ *
+ * Every candidate code carries a confidence and the transcript chunks that
+ * support it. Confidence is lower for chief-complaint (symptom) problems
+ * and for uncertain wording ("likely", "rule out"), since outpatient
+ * coding only codes confirmed diagnoses. Denied and family-history terms
+ * ("no pneumonia", "mother has diabetes") are not matched, see
+ * assertion.ts.
+ *
+ * Suggestions only: the clinician picks codes in the overlay Tasks tab,
+ * which fills them into diagnosis code fields.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Summary } from './lifecycle.js';
+import { assertPhrase, assertSpan, Assertion } from './assertion.js';
+
+export interface SnomedConcept {
+  code: string;
+  term: string;
+}
+
+export interface CodeTableEntry {
+  code: string;          // ICD-10-CM
+  description: string;
+  terms: string[];       // phrases that map to the code
+  snomed: SnomedConcept | null;
+}
+
+export interface CodeEvidence {
+  chunkIndex: number;    // transcript_chunk index
+  text: string;          // sentence mentioning the problem
+}
+
+export interface CodeCandidate {
+  code: string;
+  system: 'ICD-10-CM';
+  description: string;
+  snomed: SnomedConcept | null;
+  matchedTerm: string;
+  confidence: number;
+  evidence: CodeEvidence[];
+}
+
+export type ProblemSource = 'assessment' | 'chiefComplaint';
+
+export interface Problem {
+  phrase: string;
+  source: ProblemSource;
+  uncertain: boolean;    // "likely", "possible", "rule out"
+  candidates: CodeCandidate[];
+}
+
+export interface ProblemList {
+  problems: Problem[];
+  generatedAt: number;
+}
+
+export interface CodingChunk {
+  index: number;         // transcript_chunk index
+  text: string;
+}
+
+const BASE_CONFIDENCE: Record<ProblemSource, number> = {
+  assessment: 0.8,
+  chiefComplaint: 0.55
+};
+
+const UNCERTAIN_FACTOR = 0.6;
+const MAX_CANDIDATES = 3;
+const MAX_EVIDENCE = 3;
+
+// Not the patient's current problem
+const EXCLUDED: Assertion[] = ['absent', 'family'];
+
+let codeTable: CodeTableEntry[] | null = null;
+
+// ─────────────────────────────────────────────
+// Code table
+// ─────────────────────────────────────────────
+
+/**
+ * Load the code table (read once; empty when the file is missing)
+ */
+export function loadCodeTable(
+  file: string = process.env.ICD10_CODE_TABLE || path.resolve('..', 'dictionaries', 'icd10.json')
+): CodeTableEntry[] {
+  if (codeTable) return codeTable;
+
+  try {
+    const data = JSON.parse(fs.readFileSync(file, 'utf8'));
+    codeTable = (Array.isArray(data?.codes) ? data.codes : []).filter(isCodeTableEntry);
+    console.log(`[Coding] Loaded ${codeTable!.length} codes from ${file}`);
+  } catch (error) {
+    console.warn(`[Coding] Code table unavailable (${file}):`, (error as Error).message);
+    codeTable = [];
+  }
+
+  return codeTable!;
+}
+
+// ─────────────────────────────────────────────
+// Problem list
+// ─────────────────────────────────────────────
+
+/**
+ * Problems from a summary's assessment and chief complaint, with
+ * candidate codes; assessment problems come first
+ */
+export function buildProblemList(
+  summary: Pick<Summary, 'assessment' | 'chiefComplaint'>,
+  chunks: CodingChunk[] = []
+): ProblemList {
+  const problems: Problem[] = [];
+  const coded = new Set<string>();
+
+  const sources: Array<[ProblemSource, string]> = [
+    ['assessment', summary.assessment],
+    ['chiefComplaint', summary.chiefComplaint]
+  ];
+
+  for (const [source, text] of sources) {
+    for (const phrase of splitProblems(text)) {
+      // Ruled-out problems ("no evidence of strep throat") are not problems
+      const { assertion } = assertPhrase(phrase);
+      if (EXCLUDED.includes(assertion)) continue;
+      if (problems.some((p) => p.phrase.toLowerCase() === phrase.toLowerCase())) continue;
+
+      const uncertain = assertion === 'possible';
+      // A symptom already coded under the assessment is not repeated
+      const candidates = suggestCodes(phrase, source, uncertain, chunks)
+        .filter((c) => source === 'assessment' || !coded.has(c.code));
+
+      if (source === 'chiefComplaint' && candidates.length === 0) continue;
+
+      candidates.forEach((c) => coded.add(c.code));
+      problems.push({ phrase, source, uncertain, candidates });
+    }
+  }
+
+  return { problems, generatedAt: Date.now() };
+}
+
+/**
+ * Candidate codes for one problem phrase, best first
+ */
+export function suggestCodes(
+  phrase: string,
+  source: ProblemSource,
+  uncertain: boolean,
+  chunks: CodingChunk[] = []
+): CodeCandidate[] {
+  const candidates: CodeCandidate[] = [];
+
+  for (const entry of loadCodeTable()) {
+    const match = matchTerm(phrase, entry.terms);
+    if (!match) continue;
+    const { term } = match;
+
+    const evidence = findEvidence(entry.terms, chunks);
+
+    // Longer terms are more specific ("type 2 diabetes" over "diabetes")
+    let confidence = BASE_CONFIDENCE[source]
+      + Math.min(0.1, term.split(/\s+/).length * 0.03)
+      + Math.min(0.1, evidence.length * 0.04);
+    if (uncertain || match.assertion === 'possible') confidence *= UNCERTAIN_FACTOR;
+
+    candidates.push({
+      code: entry.code,
+      system: 'ICD-10-CM',
+      description: entry.description,
+      snomed: entry.snomed,
+      matchedTerm: term,
+      confidence: Math.round(Math.min(confidence, 0.99) * 100) / 100,
+      evidence
+    });
+  }
+
+  // Drop codes matched only through a term contained in a better match
+  return candidates
+    .filter((c) => !candidates.some((other) =>
+      other !== c && other.matchedTerm.length > c.matchedTerm.length && other.matchedTerm.includes(c.matchedTerm)))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_CANDIDATES);
+}
+
+/**
+ * Longest term found in the text, unless denied or family history
+ */
+function matchTerm(text: string, terms: string[]): { term: string; assertion: Assertion } | null {
+  const sorted = [...terms].sort((a, b) => b.length - a.length);
+
+  for (const term of sorted) {
+    const pattern = new RegExp(`\\b${escapeRegex(term)}\\b`, 'gi');
+    for (const match of text.matchAll(pattern)) {
+      const { assertion } = assertSpan(text, match.index!, match.index! + match[0].length);
+      if (!EXCLUDED.includes(assertion)) return { term, assertion };
+    }
+  }
+  return null;
+}
+
+function findEvidence(terms: string[], chunks: CodingChunk[]): CodeEvidence[] {
+  const evidence: CodeEvidence[] = [];
+
+  for (const chunk of chunks) {
+    for (const sentence of splitSentences(chunk.text)) {
+      if (matchTerm(sentence, terms)) {
+        evidence.push({ chunkIndex: chunk.index, text: sentence });
+        break;
+      }
+    }
+    if (evidence.length >= MAX_EVIDENCE) break;
+  }
+
+  return evidence;
+}
+
+/**
+ * One phrase per problem: "hypertension and diabetes" is two problems,
+ * "nausea and vomiting" (a code table term) is one
+ */
+function splitProblems(text: string): string[] {
+  const joinedTerms = loadCodeTable().flatMap((entry) => entry.terms).filter((term) => / and /.test(term));
+
+  return (text || '')
+    .split(/[.;\n]+|,\s*/)
+    .flatMap((segment) => joinedTerms.some((term) => segment.toLowerCase().includes(term))
+      ? [segment]
+      : segment.split(/\s+and\s+/i))
+    .map((s) => s.trim().replace(/^(assessment|diagnosis|impression|dx|cc|chief complaint)\s*[:\-]\s*/i, ''))
+    .filter((s) => s.length > 2);
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function isCodeTableEntry(value: any): value is CodeTableEntry {
+  return typeof value?.code === 'string'
+    && typeof value.description === 'string'
+    && Array.isArray(value.terms);
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Create WS broadcast with the current problem list (Feed D)
+ */
+export function createProblemListBroadcast(transcriptId: number, list: ProblemList): object {
+  return {
+    type: 'problem_list',
+    feed: 'D',
+    transcriptId,
+    list,
+    timestamp: Date.now()
+  };
+}
@@ -0,0 +1,247 @@
+/**
+ * Confidence Review
+ *
+ * Finds low-confidence spans in transcript chunks so the clinician can
+ * check them, and applies their corrections back onto the chunk words.
+ *
+ * Clinically risky words (medication names, doses, numbers) are held to a
+ * stricter threshold than ordinary words, and ranked first in the queue.
+ *
+ * Spans are addressed by chunk index (position in transcript_chunk) and a
+ * [wordStart, wordEnd) range over the chunk's raw words.
+ */
+
+import { joinWords } from '../utils/diarization.js';
+import { ChunkRevision, editTranscriptChunk, TranscriptChunk } from '../supabase/queries.js';
+
+export type UncertainSpanKind = 'medication' | 'dose' | 'number' | 'other';
+
+export interface UncertainSpan {
+  chunkIndex: number;
+  wordStart: number;
+  wordEnd: number;       // exclusive
+  text: string;
+  confidence: number;    // lowest word confidence in the span
+  kind: UncertainSpanKind;
+  speaker: number;
+}
+
+export interface WordCorrection {
+  chunkIndex: number;
+  wordStart: number;
+  wordEnd: number;       // exclusive
+  text: string;
+}
+
+export interface ConfidenceReviewConfig {
+  threshold: number;          // ordinary words below this are flagged
+  clinicalThreshold: number;  // medication/dose/number words below this are flagged
+}
+
+const DEFAULT_CONFIG: ConfidenceReviewConfig = {
+  threshold: parseFloat(process.env.REVIEW_CONFIDENCE_THRESHOLD || '0.7'),
+  clinicalThreshold: parseFloat(process.env.REVIEW_CLINICAL_THRESHOLD || '0.9')
+};
+
+// Queue order, riskiest first
+const KIND_PRIORITY: Record<UncertainSpanKind, number> = {
+  medication: 0,
+  dose: 1,
+  number: 2,
+  other: 3
+};
+
+const MEDICATION_NAMES = new Set([
+  'aspirin', 'ibuprofen', 'acetaminophen', 'tylenol', 'advil', 'motrin', 'naproxen',
+  'metformin', 'insulin', 'warfarin', 'coumadin', 'heparin', 'eliquis', 'xarelto',
+  'lasix', 'furosemide', 'prednisone', 'albuterol', 'gabapentin', 'tramadol',
+  'oxycodone', 'hydrocodone', 'morphine', 'levothyroxine', 'synthroid', 'digoxin',
+  'nitroglycerin', 'clopidogrel', 'plavix', 'amoxicillin', 'azithromycin'
+]);
+
+const MEDICATION_SUFFIXES = /(?:pril|olol|sartan|statin|cillin|mycin|floxacin|azole|prazole|dipine|formin|gliptin|glitazone|zepam|zolam|tidine|oxetine|triptan|cycline|mab|nib|parin|xaban)$/;
+
+const DOSE_UNITS = /^(?:mg|mcg|µg|g|gram|grams|milligram|milligrams|microgram|micrograms|ml|milliliter|milliliters|cc|units?|iu|puffs?|tabs?|tablets?|capsules?|drops?)$/;
+
+const NUMBER_WORDS = /^(?:zero|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|fifteen|twenty|thirty|forty|fifty|hundred|thousand|half|once|twice)$/;
+
+/**
+ * Uncertain spans in one chunk
+ */
+export function findUncertainSpans(
+  chunk: TranscriptChunk,
+  chunkIndex: number,
+  config: Partial<ConfidenceReviewConfig> = {}
+): UncertainSpan[] {
+  const { threshold, clinicalThreshold } = { ...DEFAULT_CONFIG, ...config };
+  const words = chunk.raw;
+  const kinds = words.map((_, i) => classifyWord(words, i));
+  const spans: UncertainSpan[] = [];
+  let current: UncertainSpan | null = null;
+
+  words.forEach((word, i) => {
+    const limit = kinds[i] === 'other' ? threshold : clinicalThreshold;
+
+    if (word.confidence >= limit) {
+      current = null;
+      return;
+    }
+
+    if (current) {
+      current.wordEnd = i + 1;
+      current.confidence = Math.min(current.confidence, word.confidence);
+      if (KIND_PRIORITY[kinds[i]] < KIND_PRIORITY[current.kind]) {
+        current.kind = kinds[i];
+      }
+    } else {
+      current = {
+        chunkIndex,
+        wordStart: i,
+        wordEnd: i + 1,
+        text: '',
+        confidence: word.confidence,
+        kind: kinds[i],
+        speaker: chunk.speaker
+      };
+      spans.push(current);
+    }
+  });
+
+  for (const span of spans) {
+    span.text = joinWords(words.slice(span.wordStart, span.wordEnd));
+  }
+
+  return spans;
+}
+
+/**
+ * Review queue for a whole transcript, riskiest spans first
+ */
+export function buildReviewQueue(
+  chunks: TranscriptChunk[],
+  config: Partial<ConfidenceReviewConfig> = {}
+): UncertainSpan[] {
+  return chunks
+    .flatMap((chunk, index) => findUncertainSpans(chunk, index, config))
+    .sort((a, b) =>
+      KIND_PRIORITY[a.kind] - KIND_PRIORITY[b.kind] ||
+      a.chunkIndex - b.chunkIndex ||
+      a.wordStart - b.wordStart
+    );
+}
+
+/**
+ * Replace words [wordStart, wordEnd) with the clinician's text.
+ * Corrected words get confidence 1 and share the original time range.
+ */
+export function applyWordCorrection(
+  chunk: TranscriptChunk,
+  wordStart: number,
+  wordEnd: number,
+  text: string
+): TranscriptChunk {
+  if (wordStart < 0 || wordEnd > chunk.raw.length || wordStart >= wordEnd) {
+    throw new Error(`Invalid word range ${wordStart}-${wordEnd} for chunk of ${chunk.raw.length} words`);
+  }
+
+  const replaced = chunk.raw.slice(wordStart, wordEnd);
+  const start = replaced[0].start;
+  const end = replaced[replaced.length - 1].end;
+  const tokens = text.trim().split(/\s+/).filter(Boolean);
+  const step = tokens.length > 0 ? (end - start) / tokens.length : 0;
+
+  const corrected = tokens.map((word, i) => ({
+    word,
+    start: start + step * i,
+    end: start + step * (i + 1),
+    confidence: 1,
+    speaker: replaced[0].speaker
+  }));
+
+  const raw = [...chunk.raw.slice(0, wordStart), ...corrected, ...chunk.raw.slice(wordEnd)];
+
+  return {
+    ...chunk,
+    raw,
+    text: joinWords(raw),
+    word_count: raw.length
+  };
+}
+
+/**
+ * Apply a clinician correction to a stored transcript
+ * (transcript_chunk and the flattened transcript text, with a revision)
+ */
+export async function correctTranscriptWords(
+  transcriptId: number,
+  correction: WordCorrection,
+  editedBy: string
+): Promise<{ chunk: TranscriptChunk; revision: ChunkRevision }> {
+  const result = await editTranscriptChunk(
+    transcriptId,
+    correction.chunkIndex,
+    (chunk) => applyWordCorrection(chunk, correction.wordStart, correction.wordEnd, correction.text),
+    editedBy,
+    'review'
+  );
+
+  const previous = result.revision.previous.raw.slice(correction.wordStart, correction.wordEnd);
+  console.log(
+    `[Review] Transcript ${transcriptId} chunk ${correction.chunkIndex}: "${joinWords(previous)}" → "${correction.text}"`
+  );
+  return result;
+}
+
+/**
+ * Validate a correction payload from HTTP/WS
+ */
+export function parseWordCorrection(body: any): WordCorrection | null {
+  const { chunkIndex, wordStart, wordEnd, text } = body || {};
+  if (
+    !Number.isInteger(chunkIndex) ||
+    !Number.isInteger(wordStart) ||
+    !Number.isInteger(wordEnd) ||
+    typeof text !== 'string'
+  ) {
+    return null;
+  }
+  return { chunkIndex, wordStart, wordEnd, text };
+}
+
+/**
+ * Create WS message listing a new chunk's uncertain spans
+ */
+export function createReviewItemsBroadcast(transcriptId: number, items: UncertainSpan[]): object {
+  return {
+    type: 'review_items',
+    feed: 'A',
+    transcriptId,
+    items,
+    timestamp: Date.now()
+  };
+}
+
+function classifyWord(words: TranscriptChunk['raw'], index: number): UncertainSpanKind {
+  const word = normalize(words[index].word);
+  if (!word) return 'other';
+
+  if (MEDICATION_NAMES.has(word) || (word.length > 5 && MEDICATION_SUFFIXES.test(word))) {
+    return 'medication';
+  }
+
+  // "10mg" and unit words; a number followed by a unit is a dose too
+  if (/^\d+(?:\.\d+)?(?:mg|mcg|ml|cc|g|u)$/.test(word) || DOSE_UNITS.test(word)) {
+    return 'dose';
+  }
+
+  if (/\d/.test(word) || NUMBER_WORDS.test(word)) {
+    const next = normalize(words[index + 1]?.word || '');
+    return DOSE_UNITS.test(next) ? 'dose' : 'number';
+  }
+
+  return 'other';
+}
+
+function normalize(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}.µ]/gu, '').replace(/\.$/, '');
+}
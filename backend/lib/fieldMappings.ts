@@ -0,0 +1,66 @@
+/**
+ * Learned Field Mappings
+ *
+ * What the clinician confirmed a field on an EHR page to be, kept per
+ * doctor in field_mappings and keyed by site (EHR adapter id or origin),
+ * page fingerprint and field selector. The overlay's DOM mapper consults
+ * them before its site adapter and label heuristics, and the autopilot
+ * keeps their categories when a page is re-mapped.
+ *
+ * Edited from the overlay Mapping tab over WebSocket
+ * (get_field_mappings, save_field_mapping, delete_field_mapping).
+ */
+
+import type { FieldMapping } from '../supabase/queries.js';
+
+// Same categories as the overlay's FieldCategory
+export const FIELD_CATEGORIES = [
+  'patient_name', 'mrn', 'dob', 'diagnosis_code', 'chief_complaint', 'history_present_illness',
+  'assessment', 'follow_up', 'orders', 'plan', 'medications', 'allergies', 'vitals', 'notes', 'other'
+];
+
+const MAX_KEY_LENGTH = 500;
+const MAX_LABEL_LENGTH = 200;
+
+/**
+ * Validate a mapping from a client; an error message if invalid
+ */
+export function parseFieldMapping(body: any): FieldMapping | string {
+  const { site, page, selector, category, label = '' } = body || {};
+
+  for (const [name, value] of Object.entries({ site, page, selector })) {
+    if (typeof value !== 'string' || !value.trim()) {
+      return `${name} is required`;
+    }
+    if (value.length > MAX_KEY_LENGTH) {
+      return `${name} must be at most ${MAX_KEY_LENGTH} characters`;
+    }
+  }
+  if (!FIELD_CATEGORIES.includes(category)) {
+    return `category must be one of ${FIELD_CATEGORIES.join(', ')}`;
+  }
+  if (typeof label !== 'string') {
+    return 'label must be a string';
+  }
+
+  return {
+    site: site.trim(),
+    page: page.trim(),
+    selector: selector.trim(),
+    category,
+    label: label.trim().slice(0, MAX_LABEL_LENGTH)
+  };
+}
+
+/**
+ * Create WS message with a doctor's learned field mappings
+ */
+export function createFieldMappingsBroadcast(doctorId: string, mappings: FieldMapping[]): object {
+  return {
+    type: 'field_mappings',
+    feed: 'A',
+    doctorId,
+    mappings,
+    timestamp: Date.now()
+  };
+}
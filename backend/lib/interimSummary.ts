@@ -0,0 +1,202 @@
+/**
+ * Interim Summary Scheduler
+ *
+ * Builds the note while the encounter is still running. Every N finalized
+ * chunks, or every M minutes with new speech, the chunks since the last
+ * interim are summarized and handed to onSummary (persisted to
+ * transcripts2.ai_interim_summaries and pushed to the overlay Summary tab).
+ *
+ * Only active while recording: driven directly by the broker, or by a
+ * LifecycleOrchestrator through attach(). When recording stops, the broker
+ * calls finish() so the last stretch of the encounter gets an interim too.
+ *
+ * Environment:
+ * - INTERIM_SUMMARY_EVERY_CHUNKS:  chunk trigger (default: 8, 0 = off)
+ * - INTERIM_SUMMARY_EVERY_MINUTES: time trigger (default: 3, 0 = off)
+ */
+
+import type { LifecycleOrchestrator, LifecycleState, Summary } from './lifecycle.js';
+import type { Summarizer, SummaryChunk } from './summarizer.js';
+import type { NoteTemplate } from './noteTemplates.js';
+
+export interface InterimSummary {
+  index: number;       // 0 = first interim of the encounter
+  fromChunk: number;   // first chunk covered (inclusive)
+  toChunk: number;     // last chunk covered (exclusive)
+  summary: Summary;    // of the delta only
+  createdAt: number;
+}
+
+export interface InterimSummaryConfig {
+  everyChunks: number;
+  everyMs: number;
+  language?: string; // encounter language, passed to the summarizer
+  template?: NoteTemplate;
+  onSummary: (interim: InterimSummary) => void;
+}
+
+const DEFAULT_CONFIG: InterimSummaryConfig = {
+  everyChunks: parseInt(process.env.INTERIM_SUMMARY_EVERY_CHUNKS || '8'),
+  everyMs: parseFloat(process.env.INTERIM_SUMMARY_EVERY_MINUTES || '3') * 60 * 1000,
+  onSummary: () => {}
+};
+
+export class InterimSummaryScheduler {
+  private config: InterimSummaryConfig;
+  private summarizer: Summarizer;
+  private chunks: SummaryChunk[] = [];
+  private summarizedUpTo = 0;
+  private interims: InterimSummary[] = [];
+  private lastRunAt = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+  private active = false;
+
+  constructor(summarizer: Summarizer, config: Partial<InterimSummaryConfig> = {}) {
+    this.summarizer = summarizer;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  // ─────────────────────────────────────────────
+  // Lifecycle
+  // ─────────────────────────────────────────────
+
+  start(): void {
+    if (this.active || !this.isEnabled()) return;
+
+    this.active = true;
+    this.chunks = [];
+    this.summarizedUpTo = 0;
+    this.interims = [];
+    this.lastRunAt = Date.now();
+
+    if (this.config.everyMs > 0) {
+      // Check often enough that the time trigger is at most 10% late
+      this.timer = setInterval(() => this.checkTime(), Math.max(this.config.everyMs / 10, 1000));
+    }
+  }
+
+  /**
+   * Stop scheduling; an interim already being summarized still completes
+   */
+  stop(): Promise<void> {
+    this.active = false;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    return this.running ?? Promise.resolve();
+  }
+
+  /**
+   * Stop, then summarize the chunks the last interim did not cover, so the
+   * interims span the whole encounter; resolves once that one is done
+   */
+  async finish(): Promise<void> {
+    await this.stop();
+    this.run();
+    await this.running;
+  }
+
+  /**
+   * Follow an orchestrator: schedule only while it is recording
+   */
+  attach(orchestrator: LifecycleOrchestrator): void {
+    orchestrator.on('state:change', (state: LifecycleState) => {
+      if (state === 'recording') this.start();
+      else void this.stop();
+    });
+    orchestrator.on('chunk:added', (chunk: SummaryChunk) => this.addChunk(chunk));
+  }
+
+  // ─────────────────────────────────────────────
+  // Inputs
+  // ─────────────────────────────────────────────
+
+  addChunk(chunk: SummaryChunk): void {
+    if (!this.active) return;
+
+    this.chunks.push(chunk);
+    if (this.chunkTriggerReached()) this.run();
+  }
+
+  getInterims(): InterimSummary[] {
+    return [...this.interims];
+  }
+
+  isEnabled(): boolean {
+    return this.config.everyChunks > 0 || this.config.everyMs > 0;
+  }
+
+  // ─────────────────────────────────────────────
+  // Scheduling
+  // ─────────────────────────────────────────────
+
+  private checkTime(): void {
+    if (Date.now() - this.lastRunAt >= this.config.everyMs && this.chunks.length > this.summarizedUpTo) {
+      this.run();
+    }
+  }
+
+  /**
+   * Summarize the delta since the last interim (one run at a time; chunks
+   * that arrive meanwhile go into the next delta)
+   */
+  private run(): void {
+    if (this.running) return;
+
+    const fromChunk = this.summarizedUpTo;
+    const toChunk = this.chunks.length;
+    const delta = this.chunks.slice(fromChunk, toChunk);
+    if (delta.length === 0) return;
+
+    this.summarizedUpTo = toChunk;
+    this.lastRunAt = Date.now();
+
+    this.running = this.summarizer
+      .summarize({
+        transcript: delta.map((chunk) => chunk.text).join(' '),
+        chunks: delta,
+        language: this.config.language,
+        template: this.config.template
+      })
+      .then((summary) => {
+        const interim: InterimSummary = {
+          index: this.interims.length,
+          fromChunk,
+          toChunk,
+          summary,
+          createdAt: Date.now()
+        };
+        this.interims.push(interim);
+        console.log(`[InterimSummary] #${interim.index} covers chunks ${fromChunk}-${toChunk - 1}`);
+        this.config.onSummary(interim);
+      })
+      .catch((error) => {
+        // Put the delta back so the next run covers it
+        this.summarizedUpTo = Math.min(this.summarizedUpTo, fromChunk);
+        console.error('[InterimSummary] Failed to summarize delta:', error);
+      })
+      .finally(() => {
+        this.running = null;
+        if (this.active && this.chunkTriggerReached()) this.run();
+      });
+  }
+
+  private chunkTriggerReached(): boolean {
+    return this.config.everyChunks > 0 && this.chunks.length - this.summarizedUpTo >= this.config.everyChunks;
+  }
+}
+
+/**
+ * Create WS broadcast for a new interim summary (Feed D)
+ */
+export function createInterimSummaryBroadcast(transcriptId: number, interim: InterimSummary): object {
+  return {
+    type: 'interim_summary',
+    feed: 'D',
+    transcriptId,
+    interim,
+    timestamp: Date.now()
+  };
+}
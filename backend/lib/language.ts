@@ -0,0 +1,81 @@
+/**
+ * Encounter Languages
+ *
+ * Languages the pipeline is localized for (transcription, emergency
+ * phrases, voice commands). A recording is started with one language, or
+ * 'auto' to detect it: Deepgram's multilingual model (English/Spanish
+ * code-switching) tags every word, whisper detects once per segment.
+ *
+ * Words, transcript events and chunks carry the detected language;
+ * transcripts2.language holds the language of most of the encounter.
+ */
+
+export type TranscriptLanguage = 'en' | 'es';
+
+export type LanguageSelection = TranscriptLanguage | 'auto';
+
+export const SUPPORTED_LANGUAGES: TranscriptLanguage[] = ['en', 'es'];
+
+export const DEFAULT_LANGUAGE: TranscriptLanguage = 'en';
+
+// Deepgram streaming language parameter
+const DEEPGRAM_LANGUAGE: Record<LanguageSelection, string> = {
+  en: 'en-US',
+  es: 'es',
+  auto: 'multi'
+};
+
+/**
+ * Language requested at start_recording (falls back to English)
+ */
+export function parseLanguageSelection(value: unknown): LanguageSelection {
+  if (value === undefined || value === null || value === '') return DEFAULT_LANGUAGE;
+  if (value === 'auto') return 'auto';
+
+  const language = toTranscriptLanguage(value);
+  if (!language) {
+    console.warn(`[Language] Unsupported language "${value}", using ${DEFAULT_LANGUAGE}`);
+    return DEFAULT_LANGUAGE;
+  }
+  return language;
+}
+
+/**
+ * Normalize a language tag ('es-419', 'EN', 'spanish') to a supported one
+ */
+export function toTranscriptLanguage(value: unknown): TranscriptLanguage | null {
+  if (typeof value !== 'string') return null;
+
+  const tag = value.trim().toLowerCase();
+  if (tag === 'english') return 'en';
+  if (tag === 'spanish' || tag === 'español' || tag === 'espanol') return 'es';
+
+  const base = tag.split(/[-_]/)[0] as TranscriptLanguage;
+  return SUPPORTED_LANGUAGES.includes(base) ? base : null;
+}
+
+export function toDeepgramLanguage(selection: LanguageSelection): string {
+  return DEEPGRAM_LANGUAGE[selection];
+}
+
+/**
+ * Language spoken in most of the given words (undefined if none are tagged)
+ */
+export function dominantLanguage(words: Array<{ language?: string }>): TranscriptLanguage | undefined {
+  const counts = new Map<TranscriptLanguage, number>();
+
+  for (const word of words) {
+    const language = toTranscriptLanguage(word.language);
+    if (language) counts.set(language, (counts.get(language) || 0) + 1);
+  }
+
+  let dominant: TranscriptLanguage | undefined;
+  let max = 0;
+  for (const [language, count] of counts) {
+    if (count > max) {
+      dominant = language;
+      max = count;
+    }
+  }
+  return dominant;
+}
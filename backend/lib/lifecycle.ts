@@ -9,6 +9,9 @@
  */
 
 import { EventEmitter } from 'events';
+import { formatMedication, MedicationEntry } from './medications.js';
+import { SpeakerRole } from './speakerRoles.js';
+import { createSummarizer, extractSummary, Summarizer } from './summarizer.js';
 
 export type LifecycleState =
   | 'idle'
@@ -36,6 +39,7 @@ export interface LifecycleContext {
 
 export interface TranscriptChunk {
   speaker: number;
+  role?: SpeakerRole; // resolved speaker role, when known
   text: string;
   start: number;
   end: number;
@@ -49,7 +53,10 @@ export interface Summary {
   assessment: string;
   plan: string[];
   medications: string[];
+  medicationList?: MedicationEntry[]; // structured, from the drug dictionary
   followUp: string;
+  template?: string;                  // note template id
+  sections?: Record<string, string>;  // one text per template section
 }
 
 export interface FillPlan {
@@ -67,6 +74,7 @@ export interface FillField {
 export interface LifecycleEvents {
   'state:change': (state: LifecycleState, prev: LifecycleState) => void;
   'transcript:update': (text: string, isFinal: boolean) => void;
+  'chunk:added': (chunk: TranscriptChunk) => void;
   'summary:ready': (summary: Summary) => void;
   'fill:ready': (plan: FillPlan) => void;
   'fill:complete': (results: FillResult[]) => void;
@@ -82,10 +90,12 @@ export interface FillResult {
 export class LifecycleOrchestrator extends EventEmitter {
   private state: LifecycleState = 'idle';
   private context: LifecycleContext;
+  private summarizer: Summarizer;
 
-  constructor(sessionId: string) {
+  constructor(sessionId: string, summarizer: Summarizer = createSummarizer()) {
     super();
     this.context = this.createContext(sessionId);
+    this.summarizer = summarizer;
   }
 
   private createContext(sessionId: string): LifecycleContext {
@@ -176,6 +186,7 @@ export class LifecycleOrchestrator extends EventEmitter {
 
     if (chunk) {
       this.context.chunks.push(chunk);
+      this.emit('chunk:added', chunk);
     }
 
     this.emit('transcript:update', text, isFinal);
@@ -206,60 +217,33 @@ export class LifecycleOrchestrator extends EventEmitter {
     this.transition('ready_to_fill');
   }
 
-  public generateSummaryFromTranscript(): Summary {
-    // Basic extraction - would be replaced by LLM in production
-    const text = this.context.transcript.toLowerCase();
-
-    return {
-      chiefComplaint: this.extractSection(text, ['chief complaint', 'cc', 'presenting']),
-      hpi: this.extractSection(text, ['history of present illness', 'hpi']),
-      ros: this.extractROS(text),
-      assessment: this.extractSection(text, ['assessment', 'diagnosis', 'impression']),
-      plan: this.extractList(text, ['plan', 'treatment', 'management']),
-      medications: this.extractList(text, ['medication', 'prescription', 'rx']),
-      followUp: this.extractSection(text, ['follow up', 'follow-up', 'return'])
-    };
-  }
-
-  private extractSection(text: string, keywords: string[]): string {
-    for (const keyword of keywords) {
-      const idx = text.indexOf(keyword);
-      if (idx !== -1) {
-        const end = text.indexOf('.', idx + keyword.length);
-        if (end !== -1) {
-          return text.slice(idx, end + 1).trim();
-        }
-      }
+  /**
+   * Summarize the transcript with the configured summarizer, then
+   * setSummary (model backends fall back to rule-based extraction)
+   */
+  public async summarize(): Promise<Summary | null> {
+    if (this.state !== 'summarizing') {
+      return null;
     }
-    return '';
-  }
 
-  private extractROS(text: string): Record<string, string> {
-    const systems = ['constitutional', 'heent', 'cardiovascular', 'respiratory',
-                     'gi', 'musculoskeletal', 'neurological', 'psychiatric'];
-    const ros: Record<string, string> = {};
-
-    for (const system of systems) {
-      if (text.includes(system)) {
-        ros[system] = 'reviewed';
-      }
+    try {
+      const summary = await this.summarizer.summarize({
+        transcript: this.context.transcript,
+        chunks: this.context.chunks
+      });
+      this.setSummary(summary);
+      return summary;
+    } catch (error) {
+      this.setError(error instanceof Error ? error : new Error(String(error)));
+      return null;
     }
-    return ros;
   }
 
-  private extractList(text: string, keywords: string[]): string[] {
-    const items: string[] = [];
-    for (const keyword of keywords) {
-      const idx = text.indexOf(keyword);
-      if (idx !== -1) {
-        const segment = text.slice(idx, idx + 200);
-        const matches = segment.match(/\b[a-z]+\s+\d+\s*mg/gi);
-        if (matches) {
-          items.push(...matches);
-        }
-      }
-    }
-    return items;
+  /**
+   * Rule-based extraction only (no model)
+   */
+  public generateSummaryFromTranscript(): Summary {
+    return extractSummary(this.context.transcript);
   }
 
   // ─────────────────────────────────────────────
@@ -296,7 +280,10 @@ export class LifecycleOrchestrator extends EventEmitter {
       } else if (label.includes('plan')) {
         value = summary.plan.join('; ');
       } else if (label.includes('medication') || label.includes('rx')) {
-        value = summary.medications.join(', ');
+        // One medication per line for list fields
+        value = summary.medicationList?.length
+          ? summary.medicationList.map(formatMedication).join('\n')
+          : summary.medications.join(', ');
       } else if (label.includes('follow')) {
         value = summary.followUp;
       }
@@ -0,0 +1,254 @@
+/**
+ * Medication Extraction
+ *
+ * Finds medication mentions in a transcript and turns each into a
+ * structured entry: name, strength, unit, route, frequency, PRN and what the
+ * clinician intends (start, stop, continue, change).
+ *
+ * Names are normalized against a bundled local drug dictionary (generic
+ * name, brand names, spoken aliases): DRUG_DICTIONARY, default
+ * dictionaries/drugs.json at the repository root. Only dictionary drugs are
+ * extracted; dose, route and frequency are read from the words after the
+ * mention, intent from the rest of its clause. A drug mentioned several times
+ * gives one entry, later statements winning ("increase the lisinopril to
+ * 20 mg").
+ *
+ * Used for Summary.medicationList (all summarizers) and to fill medication
+ * list fields.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export type MedicationIntent = 'start' | 'stop' | 'continue' | 'change';
+
+export interface DrugEntry {
+  name: string;        // generic name
+  brands: string[];
+  aliases: string[];   // other spoken forms ("hctz", "baby aspirin")
+  drugClass: string;
+  routes: string[];    // first is the default route
+  unit: string;        // usual strength unit
+}
+
+export interface MedicationEntry {
+  name: string;                   // generic name from the dictionary
+  mentioned: string;              // as said in the transcript (brand, alias)
+  drugClass: string;
+  strength: number | null;
+  unit: string | null;
+  route: string | null;
+  frequency: string | null;
+  prn: boolean;
+  intent: MedicationIntent | null;
+}
+
+const UNITS: Array<[RegExp, string]> = [
+  [/^(mg|milligrams?)$/i, 'mg'],
+  [/^(mcg|micrograms?|ug)$/i, 'mcg'],
+  [/^(g|grams?)$/i, 'g'],
+  [/^(ml|milliliters?|millilitres?|cc)$/i, 'mL'],
+  [/^units?$/i, 'units'],
+  [/^(puffs?|sprays?|drops?|tablets?|pills?|capsules?)$/i, ''],
+  [/^(%|percent)$/i, '%']
+];
+
+const STRENGTH = /\b(\d+(?:\.\d+)?)\s*(mg|milligrams?|mcg|micrograms?|ug|g|grams?|ml|milliliters?|millilitres?|cc|units?|puffs?|sprays?|drops?|tablets?|pills?|capsules?|%|percent)(?![a-z])/i;
+
+const ROUTES: Array<[RegExp, string]> = [
+  [/\b(by mouth|orally|oral|po|tablets?|pills?|capsules?)\b/i, 'oral'],
+  [/\b(inhaler|inhaled|puffs?|nebuli[sz]er|neb)\b/i, 'inhaled'],
+  [/\b(nasal|nose|sprays? in each nostril)\b/i, 'nasal'],
+  [/\b(under the tongue|sublingual(ly)?)\b/i, 'sublingual'],
+  [/\b(subcutaneous(ly)?|sub-?q|injections?|shots?|inject)\b/i, 'subcutaneous'],
+  [/\b(iv|intravenous(ly)?|drip)\b/i, 'intravenous'],
+  [/\b(im|intramuscular(ly)?)\b/i, 'intramuscular'],
+  [/\b(topical(ly)?|cream|ointment|gel|apply)\b/i, 'topical'],
+  [/\b(eye drops?|ophthalmic)\b/i, 'ophthalmic']
+];
+
+// Most specific first: "every 6 hours" before "daily"
+const FREQUENCIES: Array<[RegExp, string | ((m: RegExpMatchArray) => string)]> = [
+  [/\bevery (\d+)(?: to (\d+))? hours?\b/i, (m) => `every ${m[2] ? `${m[1]}-${m[2]}` : m[1]} hours`],
+  [/\bq\s?(\d+)\s?h\b/i, (m) => `every ${m[1]} hours`],
+  [/\b(four times a day|four times daily|qid)\b/i, 'four times daily'],
+  [/\b(three times a day|three times daily|tid)\b/i, 'three times daily'],
+  [/\b(twice a day|twice daily|two times a day|bid|every 12 hours)\b/i, 'twice daily'],
+  [/\b(at bedtime|before bed|at night|nightly|qhs)\b/i, 'at bedtime'],
+  [/\b(in the morning|every morning|qam)\b/i, 'every morning'],
+  [/\b(once a week|weekly|every week)\b/i, 'weekly'],
+  [/\b(once a month|monthly|every month)\b/i, 'monthly'],
+  [/\b(once a day|once daily|daily|every day|a day|qd)\b/i, 'daily']
+];
+
+const PRN = /\b(as needed|prn|when needed|if needed|as necessary)\b/i;
+
+// Checked in this order: "stop the metformin and start insulin" is split per drug first
+const INTENTS: Array<[RegExp, MedicationIntent]> = [
+  [/\b(stop(ping)?|discontinue|come off|get off|quit|hold(ing)?|no longer|d\/c)\b/i, 'stop'],
+  [/\b(increase|decrease|raise|lower|bump|double|halve|adjust|change|switch(ing)?|titrate|reduce|up the|go up|go down)\b/i, 'change'],
+  [/\b(start(ing)?|begin|prescrib(e|ing)|add(ing)?|put you on|try|trial of|new prescription|send in)\b/i, 'start'],
+  [/\b(continue|keep (taking|on)|stay on|still (taking|on)|currently (taking|on)|taking|refill|been on|i'm on|you're on)\b/i, 'continue']
+];
+
+let dictionary: DrugEntry[] | null = null;
+let namePattern: RegExp | null = null;
+let byMention: Map<string, DrugEntry> = new Map();
+
+// ─────────────────────────────────────────────
+// Dictionary
+// ─────────────────────────────────────────────
+
+/**
+ * Load the drug dictionary (read once; empty when the file is missing)
+ */
+export function loadDrugDictionary(
+  file: string = process.env.DRUG_DICTIONARY || path.resolve('..', 'dictionaries', 'drugs.json')
+): DrugEntry[] {
+  if (dictionary) return dictionary;
+
+  try {
+    const data = JSON.parse(fs.readFileSync(file, 'utf8'));
+    dictionary = (Array.isArray(data?.drugs) ? data.drugs : []).filter(isDrugEntry);
+    console.log(`[Medications] Loaded ${dictionary!.length} drugs from ${file}`);
+  } catch (error) {
+    console.warn(`[Medications] Drug dictionary unavailable (${file}):`, (error as Error).message);
+    dictionary = [];
+  }
+
+  byMention = new Map();
+  for (const drug of dictionary!) {
+    for (const mention of [drug.name, ...drug.brands, ...drug.aliases]) {
+      byMention.set(mention.toLowerCase(), drug);
+    }
+  }
+
+  // Longest first, so "toprol xl" wins over "toprol"
+  const mentions = Array.from(byMention.keys()).sort((a, b) => b.length - a.length);
+  namePattern = mentions.length > 0
+    ? new RegExp(`\\b(${mentions.map(escapeRegex).join('|')})\\b`, 'gi')
+    : null;
+
+  return dictionary!;
+}
+
+/**
+ * Dictionary entry for a generic name, brand or alias
+ */
+export function lookupDrug(mention: string): DrugEntry | null {
+  loadDrugDictionary();
+  return byMention.get(mention.trim().toLowerCase()) || null;
+}
+
+// ─────────────────────────────────────────────
+// Extraction
+// ─────────────────────────────────────────────
+
+/**
+ * Structured medication entries in order of first mention
+ */
+export function extractMedications(transcript: string): MedicationEntry[] {
+  loadDrugDictionary();
+  if (!namePattern) return [];
+
+  const entries = new Map<string, MedicationEntry>();
+
+  for (const sentence of splitSentences(transcript)) {
+    const mentions = Array.from(sentence.matchAll(namePattern));
+
+    mentions.forEach((match, i) => {
+      const drug = byMention.get(match[1].toLowerCase())!;
+      const start = match.index!;
+      // Dose/route/frequency follow the name, up to the next drug
+      const after = sentence.slice(start + match[1].length, mentions[i + 1]?.index ?? sentence.length);
+      // Intent comes from the words since the previous drug ("stop the X")
+      const clause = sentence.slice(i > 0 ? mentions[i - 1].index! + mentions[i - 1][1].length : 0, start) + after;
+
+      const mention = parseMention(drug, match[1], after, clause);
+      const existing = entries.get(drug.name);
+      entries.set(drug.name, existing ? mergeMention(existing, mention) : mention);
+    });
+  }
+
+  return Array.from(entries.values()).map((entry) => ({
+    ...entry,
+    route: entry.route ?? defaultRoute(entry.name)
+  }));
+}
+
+/**
+ * One line per entry, e.g. "lisinopril 20 mg oral daily (change)"
+ */
+export function formatMedication(entry: MedicationEntry): string {
+  const parts = [entry.name];
+  if (entry.strength !== null) parts.push(`${entry.strength}${entry.unit ? ` ${entry.unit}` : ''}`);
+  if (entry.route) parts.push(entry.route);
+  if (entry.frequency) parts.push(entry.frequency);
+  if (entry.prn) parts.push('PRN');
+  if (entry.intent) parts.push(`(${entry.intent})`);
+  return parts.join(' ');
+}
+
+function parseMention(drug: DrugEntry, mentioned: string, after: string, clause: string): MedicationEntry {
+  const strength = after.match(STRENGTH);
+  const frequency = FREQUENCIES.find(([pattern]) => pattern.test(after));
+  const frequencyMatch = frequency ? after.match(frequency[0])! : null;
+
+  return {
+    name: drug.name,
+    mentioned,
+    drugClass: drug.drugClass,
+    strength: strength ? parseFloat(strength[1]) : null,
+    unit: strength ? normalizeUnit(strength[2], drug) : null,
+    route: ROUTES.find(([pattern]) => pattern.test(after))?.[1] ?? null,
+    frequency: frequency && frequencyMatch
+      ? (typeof frequency[1] === 'string' ? frequency[1] : frequency[1](frequencyMatch))
+      : null,
+    prn: PRN.test(after),
+    intent: INTENTS.find(([pattern]) => pattern.test(clause))?.[1] ?? null
+  };
+}
+
+/**
+ * Later statements override earlier ones where they say something
+ */
+function mergeMention(existing: MedicationEntry, next: MedicationEntry): MedicationEntry {
+  return {
+    ...existing,
+    strength: next.strength ?? existing.strength,
+    unit: next.strength !== null ? next.unit : existing.unit,
+    route: next.route ?? existing.route,
+    frequency: next.frequency ?? existing.frequency,
+    prn: existing.prn || next.prn,
+    intent: next.intent ?? existing.intent
+  };
+}
+
+function normalizeUnit(unit: string, drug: DrugEntry): string {
+  const normalized = UNITS.find(([pattern]) => pattern.test(unit))?.[1];
+  // Counted doses ("2 puffs") keep the spoken unit
+  return normalized === '' ? unit.toLowerCase() : normalized ?? drug.unit;
+}
+
+function defaultRoute(name: string): string | null {
+  return lookupDrug(name)?.routes[0] ?? null;
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function isDrugEntry(value: any): value is DrugEntry {
+  return typeof value?.name === 'string'
+    && Array.isArray(value.brands)
+    && Array.isArray(value.aliases)
+    && Array.isArray(value.routes)
+    && typeof value.unit === 'string';
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
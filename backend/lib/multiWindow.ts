@@ -10,6 +10,7 @@
 
 import { EventEmitter } from 'events';
 import { WebSocket } from 'ws';
+import { TranscriptEdit } from './transcriptEditor.js';
 
 export interface WindowInfo {
   id: string;
@@ -307,6 +308,21 @@ export class MultiWindowManager extends EventEmitter {
     });
   }
 
+  public syncTranscriptEdit(doctorId: string, edit: TranscriptEdit): void {
+    this.broadcastToGroup(doctorId, {
+      type: 'transcript_edit',
+      feed: 'A',
+      transcriptId: edit.transcriptId,
+      chunkIndex: edit.chunkIndex,
+      chunk: edit.chunk,
+      revision: edit.revision.revision,
+      editedBy: edit.revision.edited_by,
+      editedAt: edit.revision.edited_at,
+      reason: edit.revision.reason,
+      timestamp: Date.now()
+    });
+  }
+
   // ─────────────────────────────────────────────
   // Health Check
   // ─────────────────────────────────────────────
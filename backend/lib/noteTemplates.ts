@@ -0,0 +1,353 @@
+/**
+ * Note Templates
+ *
+ * A template describes the note for one kind of visit (well-child, psych
+ * intake, ortho follow-up, ...): its sections, which are required, how much
+ * each weighs in autopilot scoring, the prompt given to the summarizer, the
+ * EHR field labels it fills and transcript cues used to find it.
+ *
+ * Definitions are JSON files in NOTE_TEMPLATES_DIR (default: templates/ at
+ * the repository root), shared with the CNS agent, which uses the same
+ * sections for autopilot scoring and fill steps. The generic primary-care
+ * template is built in; a file with the same id replaces it.
+ *
+ * Selection, first match wins: the template requested for the encounter
+ * (start_recording / transcripts2.metadata.note_template), the doctor's
+ * choice (profiles.note_template), the template for the doctor's
+ * specialty, the generic template.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Summary } from './lifecycle.js';
+import { getDoctorNoteTemplate, getDoctorSpecialty } from '../supabase/queries.js';
+
+export type SummaryField = 'chiefComplaint' | 'hpi' | 'ros' | 'assessment' | 'plan' | 'medications' | 'followUp';
+
+export interface TemplateSection {
+  id: string;
+  label: string;
+  required: boolean;
+  weight: number;              // autopilot coverage weight
+  prompt: string;              // what the summarizer should write here
+  summaryField?: SummaryField; // filled from this Summary field
+  ehrLabels: string[];         // EHR field labels this section fills
+  cues: string[];              // transcript regexes (capture group 1 = value)
+}
+
+export interface NoteTemplate {
+  id: string;
+  name: string;
+  specialties: string[];       // default for doctors of these specialties
+  visitTypes: string[];
+  sections: TemplateSection[];
+}
+
+export const DEFAULT_TEMPLATE_ID = 'primary-care';
+
+const SUMMARY_FIELDS: SummaryField[] = ['chiefComplaint', 'hpi', 'ros', 'assessment', 'plan', 'medications', 'followUp'];
+
+const MAX_SECTION_LENGTH = 500;
+
+// Generic primary-care visit (used when no definition replaces it)
+const GENERIC_TEMPLATE: NoteTemplate = {
+  id: DEFAULT_TEMPLATE_ID,
+  name: 'Primary Care Visit',
+  specialties: [],
+  visitTypes: ['office visit', 'sick visit', 'follow-up'],
+  sections: [
+    {
+      id: 'chief_complaint',
+      label: 'Chief Complaint',
+      required: true,
+      weight: 20,
+      prompt: "Patient's main reason for the visit, one sentence",
+      summaryField: 'chiefComplaint',
+      ehrLabels: ['chief complaint', 'cc', 'reason for visit', 'presenting complaint'],
+      cues: [
+        '(?:chief complaint|cc|presenting with|came in for|here for)\\s*[:\\-]?\\s*(.+?)(?:\\.|$)',
+        'patient (?:presents|presented|complains?|came in) (?:with|of|for)\\s*(.+?)(?:\\.|$)',
+        '(?:complaining of|reports?)\\s+(.+?)(?:\\.|$)'
+      ]
+    },
+    {
+      id: 'hpi',
+      label: 'History of Present Illness',
+      required: true,
+      weight: 20,
+      prompt: 'History of present illness, a short paragraph',
+      summaryField: 'hpi',
+      ehrLabels: ['hpi', 'history of present illness', 'present illness', 'illness history'],
+      cues: [
+        '(?:hpi|history of present illness)[:\\-]?\\s*(.+?)(?:review of systems|ros|$)',
+        '(?:started|began|noticed|experiencing)\\s*(.+?)(?:\\.|$)',
+        '(?:history of|previously)\\s+(.+?)(?:\\.|$)'
+      ]
+    },
+    {
+      id: 'assessment',
+      label: 'Assessment',
+      required: true,
+      weight: 15,
+      prompt: "Clinician's assessment or working diagnosis",
+      summaryField: 'assessment',
+      ehrLabels: ['assessment', 'diagnosis', 'impression', 'dx'],
+      cues: [
+        '(?:assessment|diagnosis|impression)[:\\-]?\\s*(.+?)(?:plan|$)',
+        '(?:likely|appears to be|diagnosed with|consistent with|suggestive of)\\s*(.+?)(?:\\.|$)'
+      ]
+    },
+    {
+      id: 'plan',
+      label: 'Plan',
+      required: true,
+      weight: 15,
+      prompt: 'Plan steps: tests, treatments, referrals',
+      summaryField: 'plan',
+      ehrLabels: ['plan', 'treatment', 'treatment plan', 'recommendations'],
+      cues: [
+        '(?:plan|treatment|will)[:\\-]?\\s*(.+?)$',
+        '(?:prescribe|order|recommend)\\s*(.+?)(?:\\.|$)'
+      ]
+    },
+    {
+      id: 'vitals',
+      label: 'Vital Signs',
+      required: false,
+      weight: 10,
+      prompt: 'Vital signs with values, as stated',
+      ehrLabels: ['vitals', 'vital signs', 'bp', 'blood pressure', 'temp', 'temperature', 'heart rate', 'pulse'],
+      cues: [
+        '(?:blood pressure|bp)\\s*[:\\-]?\\s*(\\d+\\/\\d+)',
+        '(?:temperature|temp)\\s*[:\\-]?\\s*([\\d.]+)',
+        '(?:heart rate|hr|pulse)\\s*[:\\-]?\\s*(\\d+)'
+      ]
+    },
+    {
+      id: 'medications',
+      label: 'Medications',
+      required: false,
+      weight: 8,
+      prompt: 'Current and new medications with dose and frequency',
+      summaryField: 'medications',
+      ehrLabels: ['medications', 'meds', 'current medications', 'rx'],
+      cues: [
+        '(?:medications?|meds|rx)[:\\-]?\\s*(.+?)(?:\\.|$)',
+        '(?:taking|on)\\s+([\\w\\s,]+(?:\\d+\\s*mg)?)'
+      ]
+    },
+    {
+      id: 'allergies',
+      label: 'Allergies',
+      required: false,
+      weight: 7,
+      prompt: 'Drug and other allergies, or "NKDA"',
+      ehrLabels: ['allergies', 'allergy', 'drug allergies', 'medication allergies'],
+      cues: [
+        '(?:allergies?|allergic to)[:\\-]?\\s*(.+?)(?:\\.|$)',
+        '(no known (?:drug )?allergies|nkda)'
+      ]
+    },
+    {
+      id: 'review_of_systems',
+      label: 'Review of Systems',
+      required: false,
+      weight: 5,
+      prompt: 'Review of systems findings by system',
+      summaryField: 'ros',
+      ehrLabels: ['ros', 'review of systems'],
+      cues: []
+    }
+  ]
+};
+
+let cache: Map<string, NoteTemplate> | null = null;
+
+// ─────────────────────────────────────────────
+// Loading
+// ─────────────────────────────────────────────
+
+/**
+ * All templates by id (definitions are read once)
+ */
+export function loadNoteTemplates(
+  dir: string = process.env.NOTE_TEMPLATES_DIR || path.resolve('..', 'templates')
+): Map<string, NoteTemplate> {
+  if (cache) return cache;
+
+  cache = new Map([[GENERIC_TEMPLATE.id, GENERIC_TEMPLATE]]);
+
+  if (!fs.existsSync(dir)) {
+    console.warn(`[NoteTemplates] ${dir} not found, using the built-in template only`);
+    return cache;
+  }
+
+  for (const file of fs.readdirSync(dir).filter((f) => f.endsWith('.json')).sort()) {
+    try {
+      const result = parseNoteTemplate(JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')));
+      if (typeof result === 'string') {
+        console.warn(`[NoteTemplates] Skipping ${file}: ${result}`);
+        continue;
+      }
+      cache.set(result.id, result);
+    } catch (error) {
+      console.warn(`[NoteTemplates] Skipping ${file}:`, (error as Error).message);
+    }
+  }
+
+  console.log(`[NoteTemplates] Loaded ${cache.size} templates from ${dir}`);
+  return cache;
+}
+
+export function listNoteTemplates(): NoteTemplate[] {
+  return [...loadNoteTemplates().values()];
+}
+
+export function getNoteTemplate(id: unknown): NoteTemplate | null {
+  return typeof id === 'string' ? loadNoteTemplates().get(id) || null : null;
+}
+
+/**
+ * Template list for GET /templates
+ */
+export function describeNoteTemplates(): object[] {
+  return listNoteTemplates().map((t) => ({
+    id: t.id,
+    name: t.name,
+    specialties: t.specialties,
+    visitTypes: t.visitTypes,
+    sections: t.sections.map(({ id, label, required }) => ({ id, label, required }))
+  }));
+}
+
+/**
+ * Template for a profile specialty (generic when none matches)
+ */
+export function templateForSpecialty(specialty: string | null): NoteTemplate {
+  const text = specialty?.toLowerCase() || '';
+  const match = text
+    ? listNoteTemplates().find((t) => t.specialties.some((s) => text.includes(s.toLowerCase())))
+    : undefined;
+  return match || loadNoteTemplates().get(DEFAULT_TEMPLATE_ID)!;
+}
+
+/**
+ * Template for an encounter: requested id, doctor's choice, specialty default
+ */
+export async function resolveNoteTemplate(doctorId: string, requested?: unknown): Promise<NoteTemplate> {
+  const explicit = getNoteTemplate(requested);
+  if (explicit) return explicit;
+  if (requested) console.warn(`[NoteTemplates] Unknown template "${requested}", using the doctor's default`);
+
+  const [chosen, specialty] = await Promise.all([
+    getDoctorNoteTemplate(doctorId),
+    getDoctorSpecialty(doctorId)
+  ]);
+
+  return getNoteTemplate(chosen) || templateForSpecialty(specialty);
+}
+
+/**
+ * Validate a template definition; returns an error message or the template
+ */
+export function parseNoteTemplate(value: any): NoteTemplate | string {
+  if (!value || typeof value !== 'object') return 'template must be an object';
+  if (typeof value.id !== 'string' || !/^[a-z0-9-]+$/.test(value.id)) return 'id must be a lowercase slug';
+  if (typeof value.name !== 'string' || !value.name.trim()) return 'name is required';
+  if (!Array.isArray(value.sections) || value.sections.length === 0) return 'sections must be a non-empty array';
+
+  const sections: TemplateSection[] = [];
+  for (const s of value.sections) {
+    if (typeof s?.id !== 'string' || !s.id) return 'every section needs an id';
+    if (sections.some((other) => other.id === s.id)) return `duplicate section ${s.id}`;
+    if (s.summaryField !== undefined && !SUMMARY_FIELDS.includes(s.summaryField)) {
+      return `section ${s.id}: unknown summaryField ${s.summaryField}`;
+    }
+    if (s.weight !== undefined && (typeof s.weight !== 'number' || s.weight < 0)) {
+      return `section ${s.id}: weight must be a non-negative number`;
+    }
+
+    const cues = stringList(s.cues);
+    const invalidCue = cues.find((cue) => !compileCue(cue));
+    if (invalidCue) return `section ${s.id}: invalid cue ${invalidCue}`;
+
+    sections.push({
+      id: s.id,
+      label: typeof s.label === 'string' ? s.label : s.id,
+      required: s.required === true,
+      weight: s.weight ?? 0,
+      prompt: typeof s.prompt === 'string' ? s.prompt : '',
+      summaryField: s.summaryField,
+      ehrLabels: stringList(s.ehrLabels).map((l) => l.toLowerCase()),
+      cues
+    });
+  }
+
+  return {
+    id: value.id,
+    name: value.name.trim(),
+    specialties: stringList(value.specialties),
+    visitTypes: stringList(value.visitTypes),
+    sections
+  };
+}
+
+// ─────────────────────────────────────────────
+// Summary sections
+// ─────────────────────────────────────────────
+
+/**
+ * Extra summarizer instructions: one text per template section
+ */
+export function templatePrompt(template: NoteTemplate): string {
+  const lines = template.sections.map((s, i) =>
+    `  "${s.id}": string${i < template.sections.length - 1 ? ',' : ''} // ${s.label}: ${s.prompt || s.label}`
+  );
+  return `Note template: ${template.name}. Also include the key "sections", an object with one entry per note section:\n{\n${lines.join('\n')}\n}`;
+}
+
+/**
+ * Summary with one text per template section: from the mapped Summary
+ * field, else what the model wrote for the section, else transcript cues
+ */
+export function applyNoteTemplate(summary: Summary, template: NoteTemplate, transcript: string): Summary {
+  const sections: Record<string, string> = {};
+
+  for (const section of template.sections) {
+    const text = (section.summaryField ? formatSummaryField(summary, section.summaryField) : '')
+      || summary.sections?.[section.id]?.trim()
+      || extractCue(section, transcript);
+    sections[section.id] = text.slice(0, MAX_SECTION_LENGTH);
+  }
+
+  return { ...summary, template: template.id, sections };
+}
+
+function formatSummaryField(summary: Summary, field: SummaryField): string {
+  const value = summary[field];
+  if (Array.isArray(value)) return value.join('; ');
+  if (typeof value === 'object') {
+    return Object.entries(value).map(([system, finding]) => `${system}: ${finding}`).join('; ');
+  }
+  return value;
+}
+
+function extractCue(section: TemplateSection, transcript: string): string {
+  for (const cue of section.cues) {
+    const match = transcript.match(compileCue(cue)!);
+    if (match?.[1]) return match[1].trim().replace(/\s+/g, ' ');
+  }
+  return '';
+}
+
+function compileCue(cue: string): RegExp | null {
+  try {
+    return new RegExp(cue, 'i');
+  } catch {
+    return null;
+  }
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '') : [];
+}
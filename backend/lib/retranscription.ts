@@ -0,0 +1,409 @@
+/**
+ * Post-Encounter Re-transcription Queue
+ *
+ * Re-runs a batch (higher-accuracy) transcription over the archived audio
+ * of a finished encounter and reconciles it with the live transcript_chunk
+ * array: the batch words replace the words of the chunk they fall in, so
+ * chunk indices stay valid, and chunks edited by the clinician are kept.
+ * The live chunks are kept in live_transcript_chunk for diffing.
+ *
+ * Jobs run one at a time. Queue state is mirrored in transcripts2:
+ *   queued_at    → job queued
+ *   processed_at → job finished (error set on failure)
+ * so unfinished jobs are picked up again after a restart.
+ *
+ * Progress is emitted as 'progress' events (progress, doctorId) for WS
+ * broadcast to the windows of the doctor who owns the transcript, and
+ * 'reconciled' (transcriptId) once the new chunks are saved, so what was
+ * derived from them can be rebuilt.
+ */
+
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import { AudioArchive } from '../audio/archive.js';
+import { transcribeBatch } from '../audio/deepgram-batch.js';
+import { WordResult } from '../audio/transcription-provider.js';
+import { AggregatedChunk, ChunkAggregator, joinWords } from '../utils/diarization.js';
+import { dominantLanguage } from './language.js';
+import {
+  ChunkRevision,
+  getPendingRetranscriptions,
+  getTranscriptById,
+  markRetranscriptionFailed,
+  markRetranscriptionQueued,
+  saveRetranscription,
+  TranscriptChunk
+} from '../supabase/queries.js';
+
+export type RetranscriptionStage =
+  | 'queued'
+  | 'loading_audio'
+  | 'transcribing'
+  | 'reconciling'
+  | 'completed'
+  | 'failed';
+
+export interface RetranscriptionProgress {
+  transcriptId: number;
+  stage: RetranscriptionStage;
+  progress: number;          // 0-1
+  queuePosition?: number;    // only while queued
+  result?: ReconcileSummary; // only when completed
+  error?: string;            // only when failed
+}
+
+export interface ReconcileSummary {
+  liveChunks: number;
+  batchChunks: number;
+  keptChunks: number;        // edited by the clinician, left as they were
+  liveWords: number;
+  batchWords: number;
+  changedWords: number;      // word-level edit distance live → batch
+  durationSeconds: number;
+}
+
+export interface RetranscriptionConfig {
+  afterEncounter: boolean;   // queue automatically when recording stops
+  maxChunkSeconds: number;
+}
+
+const DEFAULT_CONFIG: RetranscriptionConfig = {
+  afterEncounter: process.env.RETRANSCRIBE_AFTER_ENCOUNTER === 'true',
+  maxChunkSeconds: 30
+};
+
+export type BatchTranscriber = (wav: PassThrough, language?: string) => Promise<WordResult[]>;
+
+// Chunks edited while merging: re-read and merge again
+const MAX_SAVE_ATTEMPTS = 3;
+
+const STAGE_PROGRESS: Record<RetranscriptionStage, number> = {
+  queued: 0,
+  loading_audio: 0.1,
+  transcribing: 0.3,
+  reconciling: 0.8,
+  completed: 1,
+  failed: 1
+};
+
+export class RetranscriptionQueue extends EventEmitter {
+  private archive: AudioArchive;
+  private transcribe: BatchTranscriber;
+  private config: RetranscriptionConfig;
+  private pending: number[] = [];
+  private active: number | null = null;
+  private enqueuing: Map<number, Promise<RetranscriptionProgress>> = new Map(); // looking up audio and owner
+  private status: Map<number, RetranscriptionProgress> = new Map();
+  private owners: Map<number, string> = new Map(); // transcript → doctor
+
+  constructor(
+    archive: AudioArchive,
+    config: Partial<RetranscriptionConfig> = {},
+    transcribe: BatchTranscriber = transcribeBatch
+  ) {
+    super();
+    this.archive = archive;
+    this.transcribe = transcribe;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  // ─────────────────────────────────────────────
+  // Queue
+  // ─────────────────────────────────────────────
+
+  /**
+   * Queue a transcript; returns its current status
+   */
+  public async enqueue(transcriptId: number): Promise<RetranscriptionProgress> {
+    if (this.active === transcriptId || this.pending.includes(transcriptId)) {
+      return this.getStatus(transcriptId)!;
+    }
+
+    // Reserved before the lookups, so concurrent callers queue it once
+    let queued = this.enqueuing.get(transcriptId);
+    if (!queued) {
+      queued = this.queue(transcriptId).finally(() => this.enqueuing.delete(transcriptId));
+      this.enqueuing.set(transcriptId, queued);
+    }
+    return queued;
+  }
+
+  private async queue(transcriptId: number): Promise<RetranscriptionProgress> {
+    const recording = await this.archive.getRecording(transcriptId);
+    if (!recording) {
+      throw new Error(`No archived audio for transcript ${transcriptId}`);
+    }
+
+    const row = await getTranscriptById(transcriptId);
+    this.owners.set(transcriptId, row.user_id);
+
+    await markRetranscriptionQueued(transcriptId);
+    this.pending.push(transcriptId);
+    this.broadcastQueuePositions();
+
+    void this.processNext();
+    return this.getStatus(transcriptId)!;
+  }
+
+  /**
+   * Called by the broker when a recording stops
+   */
+  public async onEncounterComplete(transcriptId: number): Promise<void> {
+    if (!this.config.afterEncounter) return;
+
+    try {
+      await this.enqueue(transcriptId);
+    } catch (error) {
+      console.error(`[Retranscription] Could not queue transcript ${transcriptId}:`, error);
+    }
+  }
+
+  /**
+   * Re-queue jobs left unfinished by a previous run
+   */
+  public async resumePending(): Promise<void> {
+    try {
+      const ids = await getPendingRetranscriptions();
+      for (const id of ids) {
+        await this.enqueue(id).catch((error) => {
+          console.error(`[Retranscription] Could not resume transcript ${id}:`, error);
+        });
+      }
+      if (ids.length > 0) {
+        console.log(`[Retranscription] Resumed ${ids.length} pending job(s)`);
+      }
+    } catch (error) {
+      console.error('[Retranscription] Failed to load pending jobs:', error);
+    }
+  }
+
+  public getStatus(transcriptId: number): RetranscriptionProgress | null {
+    return this.status.get(transcriptId) || null;
+  }
+
+  public getQueueLength(): number {
+    return this.pending.length + (this.active !== null ? 1 : 0);
+  }
+
+  // ─────────────────────────────────────────────
+  // Processing
+  // ─────────────────────────────────────────────
+
+  private async processNext(): Promise<void> {
+    if (this.active !== null || this.pending.length === 0) return;
+
+    const transcriptId = this.pending.shift()!;
+    this.active = transcriptId;
+    this.broadcastQueuePositions();
+
+    try {
+      const result = await this.run(transcriptId);
+      this.report(transcriptId, 'completed', { result });
+      console.log(
+        `[Retranscription] Transcript ${transcriptId} done: ${result.changedWords} word changes across ${result.batchWords} words`
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Retranscription] Transcript ${transcriptId} failed:`, message);
+      this.report(transcriptId, 'failed', { error: message });
+      await markRetranscriptionFailed(transcriptId, message).catch(() => {
+        // Already logged by the query
+      });
+    } finally {
+      this.active = null;
+      void this.processNext();
+    }
+  }
+
+  private async run(transcriptId: number): Promise<ReconcileSummary> {
+    this.report(transcriptId, 'loading_audio');
+    const recording = await this.archive.getRecording(transcriptId);
+    if (!recording) {
+      throw new Error(`No archived audio for transcript ${transcriptId}`);
+    }
+
+    const row = await getTranscriptById(transcriptId);
+
+    this.report(transcriptId, 'transcribing');
+    const wav = new PassThrough();
+    let failure: unknown = null;
+
+    // Whichever side fails first ends the other: the export stops at the
+    // destroyed stream, the upload sees it close early
+    const abort = (error: unknown): never => {
+      failure ??= error;
+      wav.destroy();
+      throw error;
+    };
+
+    const [transcribed] = await Promise.allSettled([
+      this.transcribe(wav, row?.language).catch(abort),
+      this.archive.export(recording, 'wav', wav).catch(abort)
+    ]);
+    if (failure || transcribed.status === 'rejected') throw failure;
+    const words = transcribed.value;
+
+    this.report(transcriptId, 'reconciling');
+    const { chunks, liveChunks, keptChunks } = await this.reconcile(transcriptId, words);
+    this.emit('reconciled', transcriptId);
+
+    return {
+      liveChunks: liveChunks.length,
+      batchChunks: chunks.length,
+      keptChunks,
+      liveWords: countWords(liveChunks),
+      batchWords: words.length,
+      changedWords: wordEditDistance(chunkWords(liveChunks), words.map((w) => normalizeWord(w.word))),
+      durationSeconds: recording.durationSeconds
+    };
+  }
+
+  /**
+   * Merge the batch words into the current chunks and save them; retried
+   * when a chunk is edited in the meantime
+   */
+  private async reconcile(
+    transcriptId: number,
+    words: WordResult[]
+  ): Promise<{ chunks: TranscriptChunk[]; liveChunks: TranscriptChunk[]; keptChunks: number }> {
+    for (let attempt = 1; attempt <= MAX_SAVE_ATTEMPTS; attempt++) {
+      const row = await getTranscriptById(transcriptId);
+      const current: TranscriptChunk[] = row.transcript_chunk || [];
+      const edited = new Set<number>((row.chunk_revisions || []).map((r: ChunkRevision) => r.chunk_index));
+
+      // Nothing live to keep (e.g. the live stream failed): chunk the batch words
+      const chunks = current.length > 0
+        ? mergeBatchWords(current, words, edited)
+        : (this.buildChunks(words) as TranscriptChunk[]);
+
+      // Keep the original live chunks if this transcript was re-run before
+      const liveChunks: TranscriptChunk[] = row.live_transcript_chunk || current;
+
+      if (await saveRetranscription(transcriptId, chunks, liveChunks, current)) {
+        return { chunks, liveChunks, keptChunks: current.filter((_, index) => edited.has(index)).length };
+      }
+      console.warn(`[Retranscription] Transcript ${transcriptId} changed while merging (attempt ${attempt})`);
+    }
+
+    throw new Error(`Transcript ${transcriptId} kept changing; re-transcription not saved`);
+  }
+
+  /**
+   * Group batch words into chunks with the same rules as the live path
+   */
+  private buildChunks(words: WordResult[]): AggregatedChunk[] {
+    const chunks: AggregatedChunk[] = [];
+    const aggregator = new ChunkAggregator({
+      maxDurationSeconds: this.config.maxChunkSeconds,
+      onChunkComplete: (chunk) => chunks.push(chunk)
+    });
+
+    aggregator.addWords(words);
+    aggregator.forceFlush();
+    return chunks;
+  }
+
+  // ─────────────────────────────────────────────
+  // Progress
+  // ─────────────────────────────────────────────
+
+  private report(
+    transcriptId: number,
+    stage: RetranscriptionStage,
+    extra: Partial<RetranscriptionProgress> = {}
+  ): void {
+    const progress: RetranscriptionProgress = {
+      transcriptId,
+      stage,
+      progress: STAGE_PROGRESS[stage],
+      ...extra
+    };
+
+    this.status.set(transcriptId, progress);
+    this.emit('progress', progress, this.owners.get(transcriptId));
+  }
+
+  private broadcastQueuePositions(): void {
+    this.pending.forEach((transcriptId, index) => {
+      this.report(transcriptId, 'queued', { queuePosition: index + 1 });
+    });
+  }
+}
+
+/**
+ * Create WS broadcast message for re-transcription progress
+ */
+export function createRetranscriptionBroadcast(progress: RetranscriptionProgress): object {
+  return {
+    type: 'retranscription',
+    feed: 'A',
+    ...progress,
+    timestamp: Date.now()
+  };
+}
+
+/**
+ * Put batch words into the chunks by time: each word goes to the last
+ * chunk starting at or before its middle (words before the first chunk to
+ * the first). Chunks in keep (edited by the clinician) and chunks the batch
+ * heard nothing in stay as they were. Speakers stay the live ones, which
+ * the speaker roles refer to.
+ */
+export function mergeBatchWords(
+  chunks: TranscriptChunk[],
+  words: WordResult[],
+  keep: Set<number>
+): TranscriptChunk[] {
+  const assigned: WordResult[][] = chunks.map(() => []);
+  const sorted = [...words].sort((a, b) => a.start - b.start);
+
+  let index = 0;
+  for (const word of sorted) {
+    const middle = (word.start + word.end) / 2;
+    while (index + 1 < chunks.length && chunks[index + 1].start <= middle) index++;
+    assigned[index].push(word);
+  }
+
+  return chunks.map((chunk, i) => {
+    if (keep.has(i) || assigned[i].length === 0) return chunk;
+
+    const raw = assigned[i].map((word) => ({ ...word, speaker: chunk.speaker }));
+    return {
+      ...chunk,
+      text: joinWords(raw),
+      word_count: raw.length,
+      raw,
+      language: dominantLanguage(raw) ?? chunk.language
+    };
+  });
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+function chunkWords(chunks: TranscriptChunk[]): string[] {
+  return chunks.flatMap((chunk) => chunk.raw.map((w) => normalizeWord(w.word)));
+}
+
+function countWords(chunks: TranscriptChunk[]): number {
+  return chunks.reduce((sum, chunk) => sum + chunk.word_count, 0);
+}
+
+/**
+ * Levenshtein distance over word sequences (two-row DP)
+ */
+function wordEditDistance(a: string[], b: string[]): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
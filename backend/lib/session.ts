@@ -9,7 +9,7 @@
  */
 
 import { EventEmitter } from 'events';
-import { LifecycleOrchestrator, LifecycleState } from './lifecycle';
+import { LifecycleOrchestrator, LifecycleState } from './lifecycle.js';
 
 export interface Session {
   id: string;
@@ -39,7 +39,7 @@ export interface PendingChunk {
 export interface SessionMetadata {
   userAgent: string;
   url: string;
-  ehrSystem: string | null;
+  ehrSystem: string | null;   // EHR site adapter id reported by the overlay (epic, cerner, ...)
   domFields: string[];
 }
 
@@ -0,0 +1,156 @@
+/**
+ * SOAP Note Builder
+ *
+ * Maps diarized, role-labelled chunks into Subjective / Objective /
+ * Assessment / Plan statements. Every statement cites the transcript_chunk
+ * indices it came from, so the clinician can check it against the
+ * conversation.
+ *
+ * Sentence rules:
+ * - patient, family and interpreter statements are Subjective (reported
+ *   history and symptoms)
+ * - clinician statements are Objective (vitals with values, exam and result
+ *   findings), Assessment (diagnostic language) or Plan (orders, meds,
+ *   referrals, follow-up); anything else (questions, small talk) is left out
+ * - chunks with no role yet go through the clinician rules, then count as
+ *   Subjective when spoken in the first person
+ *
+ * The note is rebuilt from all chunks (cheap, no model), so role changes
+ * and edits are picked up. Stored in transcripts2.ai_summary.soap.
+ */
+
+import type { SpeakerRole } from './speakerRoles.js';
+
+export type SoapSection = 'subjective' | 'objective' | 'assessment' | 'plan';
+
+export const SOAP_SECTIONS: SoapSection[] = ['subjective', 'objective', 'assessment', 'plan'];
+
+export interface SoapChunk {
+  index: number; // transcript_chunk index
+  speaker: number;
+  role: SpeakerRole | null;
+  text: string;
+}
+
+export interface SoapStatement {
+  text: string;
+  sources: number[]; // transcript_chunk indices
+}
+
+export interface SoapNote {
+  subjective: SoapStatement[];
+  objective: SoapStatement[];
+  assessment: SoapStatement[];
+  plan: SoapStatement[];
+  chunkCount: number;
+  generatedAt: number;
+}
+
+const OBJECTIVE_PATTERNS = [
+  // Vitals only with a value ("blood pressure is 130 over 85")
+  /\b(blood pressure|bp|heart rate|pulse|temperature|temp|oxygen|o2|sats?|saturation|respiratory rate|weight|bmi)\b[^.!?]*\d/i,
+  /\b\d{2,3}\s*(\/|over)\s*\d{2,3}\b/i,
+  /\b(on exam|exam(ination)? (shows|is|was|reveals)|lungs? (are|is|sound) clear|clear to auscultation|no murmurs?|murmur|tender(ness)?|swelling|edema|rash|range of motion|reflexes)\b/i,
+  /\b(labs?|a1c|ecg|ekg|x-?ray|ct|mri|ultrasound|troponin|cbc|results?|culture)\b[^.!?]*\b(show(s|ed)?|is|was|were|came back|normal|elevated|negative|positive)\b/i
+];
+
+const ASSESSMENT_PATTERNS = [
+  /\b(most likely|likely|consistent with|suggestive of|concerning for|suspect|impression|diagnos(is|ed|e)|differential|rule out|probably|sounds like|looks like)\b/i,
+  /\bi think (this|it|you|that)('s| is| are| have)\b/i
+];
+
+const PLAN_PATTERNS = [
+  /\b(we('| wi)ll|i('| wi)ll|let's|let us|going to|gonna) (order|prescribe|start|send|refer|schedule|check|get|increase|decrease|continue|stop|switch|add|give|repeat|draw|recheck)\b/i,
+  /\b(prescrib(e|ing)|refill|discontinue|stop taking|keep taking|referral|refer you|follow[- ]?up|come back|return (in|if)|recheck|schedule|recommend)\b/i,
+  /\b(take|use|apply)\b[^.!?]*\b(mg|milligrams?|tablets?|pills?|puffs?|daily|twice|once|every|as needed)\b/i
+];
+
+const FIRST_PERSON = /\b(i|i'm|i've|i'd|my|me|mine)\b/i;
+
+// Acknowledgements carry no content on their own
+const FILLER = /^(yes|yeah|yep|no|nope|okay|ok|alright|all right|uh-huh|mm-hmm|hmm|sure|right|thanks|thank you|great|good)[.!,]*$/i;
+
+// ─────────────────────────────────────────────
+// Builder
+// ─────────────────────────────────────────────
+
+/**
+ * Build the SOAP note for an encounter's chunks (in any order)
+ */
+export function buildSoapNote(chunks: SoapChunk[]): SoapNote {
+  const note: SoapNote = {
+    subjective: [],
+    objective: [],
+    assessment: [],
+    plan: [],
+    chunkCount: chunks.length,
+    generatedAt: Date.now()
+  };
+
+  const ordered = [...chunks].sort((a, b) => a.index - b.index);
+  for (const chunk of ordered) {
+    for (const sentence of splitSentences(chunk.text)) {
+      const section = classifySentence(sentence, chunk.role);
+      if (section) addStatement(note[section], sentence, chunk.index);
+    }
+  }
+
+  return note;
+}
+
+/**
+ * SOAP section for one sentence, or null when it does not belong in the note
+ */
+export function classifySentence(sentence: string, role: SpeakerRole | null): SoapSection | null {
+  const text = sentence.trim();
+  if (!text || text.endsWith('?') || FILLER.test(text)) return null;
+
+  if (role && role !== 'clinician') return 'subjective';
+
+  if (OBJECTIVE_PATTERNS.some((p) => p.test(text))) return 'objective';
+  if (ASSESSMENT_PATTERNS.some((p) => p.test(text))) return 'assessment';
+  if (PLAN_PATTERNS.some((p) => p.test(text))) return 'plan';
+
+  if (!role && FIRST_PERSON.test(text)) return 'subjective';
+  return null;
+}
+
+/**
+ * Append a sentence to a section: consecutive sentences from the same chunk
+ * form one statement, repeated statements only gain a citation
+ */
+function addStatement(statements: SoapStatement[], sentence: string, index: number): void {
+  const duplicate = statements.find((s) => s.text.toLowerCase() === sentence.toLowerCase());
+  if (duplicate) {
+    if (!duplicate.sources.includes(index)) duplicate.sources.push(index);
+    return;
+  }
+
+  const last = statements[statements.length - 1];
+  if (last && last.sources.length === 1 && last.sources[0] === index) {
+    last.text = `${last.text} ${sentence}`;
+    return;
+  }
+
+  statements.push({ text: sentence, sources: [index] });
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Create WS broadcast with the current SOAP note (Feed D)
+ */
+export function createSoapNoteBroadcast(transcriptId: number, note: SoapNote): object {
+  return {
+    type: 'soap_note',
+    feed: 'D',
+    transcriptId,
+    note,
+    timestamp: Date.now()
+  };
+}
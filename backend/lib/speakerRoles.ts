@@ -0,0 +1,310 @@
+/**
+ * Speaker Role Resolver
+ *
+ * Maps diarization speaker numbers to encounter roles
+ * (clinician / patient / family / interpreter) for one session.
+ *
+ * Sources, strongest first:
+ * - manual:     override sent from the overlay (never replaced automatically)
+ * - enrollment: the next speaker heard after enroll(role) is given that role
+ * - heuristic:  introductions, question/answer turns and phrasing cues,
+ *               re-evaluated on every final transcript
+ *
+ * The mapping is persisted to transcripts2.metadata.speaker_roles.
+ */
+
+import { TranscriptEvent } from '../audio/transcription-provider.js';
+
+export type SpeakerRole = 'clinician' | 'patient' | 'family' | 'interpreter';
+
+export type SpeakerRoleSource = 'manual' | 'enrollment' | 'heuristic';
+
+export interface SpeakerRoleAssignment {
+  role: SpeakerRole;
+  source: SpeakerRoleSource;
+  confidence: number; // 0-1
+  assignedAt: number;
+}
+
+export type SpeakerRoleMap = Record<number, SpeakerRoleAssignment>;
+
+export interface SpeakerRoleConfig {
+  minWords: number;       // words a speaker needs before heuristics apply
+  minConfidence: number;  // heuristic share of evidence needed to assign
+  onChange: (roles: SpeakerRoleMap) => void;
+}
+
+const DEFAULT_CONFIG: SpeakerRoleConfig = {
+  minWords: 20,
+  minConfidence: 0.5,
+  onChange: () => {}
+};
+
+export const SPEAKER_ROLES: SpeakerRole[] = ['clinician', 'patient', 'family', 'interpreter'];
+
+// Roles only one speaker can hold unless set manually
+const SINGLE_HOLDER_ROLES: SpeakerRole[] = ['clinician', 'patient'];
+
+// Self-introductions are strong evidence
+const INTRODUCTION_PATTERNS: Array<{ patterns: RegExp[]; role: SpeakerRole }> = [
+  {
+    patterns: [
+      /\b(?:i'm|i am|this is|my name is)\s+(?:dr\.?|doctor)\s/i,
+      /\bi(?:'m| am|'ll be)\s+(?:the |your )?(?:doctor|physician|nurse practitioner|physician assistant|provider)\b/i
+    ],
+    role: 'clinician'
+  },
+  {
+    patterns: [
+      /\bi(?:'m| am|'ll be)\s+(?:the |your )?interpreter\b/i,
+      /\bi(?:'ll| will) (?:be )?(?:interpreting|translating)\b/i
+    ],
+    role: 'interpreter'
+  },
+  {
+    patterns: [
+      /\bi(?:'m| am)\s+(?:his|her|their|the patient's)\s+(?:wife|husband|partner|son|daughter|mother|father|mom|dad|sister|brother|caregiver|friend)\b/i
+    ],
+    role: 'family'
+  }
+];
+
+// Phrasing cues, counted once per utterance
+const ROLE_CUES: Array<{ patterns: RegExp[]; role: SpeakerRole }> = [
+  {
+    patterns: [
+      /\bon a scale of\b/i,
+      /\bany (?:allergies|history of|other symptoms|fever|chest pain|shortness of breath)\b/i,
+      /\bhow long (?:have|has)\b/i,
+      /\b(?:i'll|i will|we'll|we will|let's) (?:order|prescribe|start you|check|examine|get (?:a|an|some))\b/i,
+      /\btake a deep breath\b/i,
+      /\bwhat brings you in\b/i
+    ],
+    role: 'clinician'
+  },
+  {
+    patterns: [
+      /\bi(?:'ve| have)? (?:been )?(?:having|feeling|had)\b/i,
+      /\bmy (?:chest|head|back|stomach|throat|knee|leg|arm|pain)\b/i,
+      /\bit (?:hurts|started|gets worse)\b/i,
+      /\bi (?:take|took|ran out of)\b/i
+    ],
+    role: 'patient'
+  },
+  {
+    patterns: [
+      /\b(?:she|he|they)(?:'s| has| have| is| was| been)\b/i,
+      /\bmy (?:wife|husband|partner|son|daughter|mother|father|mom|dad)\b/i
+    ],
+    role: 'family'
+  },
+  {
+    patterns: [
+      /\b(?:she|he|they) (?:says|said|is saying|asks)\b/i,
+      /\bthe (?:doctor|patient) (?:says|is asking|wants to know)\b/i
+    ],
+    role: 'interpreter'
+  }
+];
+
+const QUESTION_PATTERN = /\?\s*$|^(?:do|does|did|are|is|was|were|have|has|can|could|how|what|when|where|why|which|who)\b/i;
+
+interface SpeakerStats {
+  words: number;
+  evidence: Record<SpeakerRole, number>;
+}
+
+export class SpeakerRoleResolver {
+  private config: SpeakerRoleConfig;
+  private roles: SpeakerRoleMap = {};
+  private stats: Map<number, SpeakerStats> = new Map();
+  private pendingEnrollment: SpeakerRole | null = null;
+  private lastQuestionSpeaker: number | null = null;
+
+  constructor(config: Partial<SpeakerRoleConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  // ─────────────────────────────────────────────
+  // Inputs
+  // ─────────────────────────────────────────────
+
+  /**
+   * Give `role` to the next speaker heard (e.g. clinician says a
+   * scripted line right after recording starts)
+   */
+  enroll(role: SpeakerRole): void {
+    this.pendingEnrollment = role;
+    console.log(`[SpeakerRoles] Enrolling next speaker as ${role}`);
+  }
+
+  /**
+   * Manual override from the overlay; null clears it
+   */
+  setRole(speaker: number, role: SpeakerRole | null): void {
+    if (role === null) {
+      delete this.roles[speaker];
+    } else {
+      this.assign(speaker, role, 'manual', 1);
+    }
+
+    this.resolve();
+    this.config.onChange(this.getRoles());
+  }
+
+  /**
+   * Feed a transcript event; only finals are used
+   */
+  analyzeTranscript(event: TranscriptEvent): void {
+    if (!event.isFinal || !event.text.trim()) return;
+
+    const { speaker, text } = event;
+    let changed = false;
+
+    if (this.pendingEnrollment && this.roles[speaker]?.source !== 'manual') {
+      this.assign(speaker, this.pendingEnrollment, 'enrollment', 1);
+      this.pendingEnrollment = null;
+      changed = true;
+    }
+
+    this.collectEvidence(speaker, text, event.words.length || text.split(/\s+/).length);
+    changed = this.resolve() || changed;
+
+    if (changed) {
+      this.config.onChange(this.getRoles());
+    }
+  }
+
+  // ─────────────────────────────────────────────
+  // Queries
+  // ─────────────────────────────────────────────
+
+  getRoles(): SpeakerRoleMap {
+    return { ...this.roles };
+  }
+
+  getRole(speaker: number): SpeakerRole | null {
+    return this.roles[speaker]?.role || null;
+  }
+
+  // ─────────────────────────────────────────────
+  // Heuristics
+  // ─────────────────────────────────────────────
+
+  private collectEvidence(speaker: number, text: string, wordCount: number): void {
+    const stats = this.getStats(speaker);
+    stats.words += wordCount;
+
+    for (const { patterns, role } of INTRODUCTION_PATTERNS) {
+      if (patterns.some((p) => p.test(text))) {
+        stats.evidence[role] += 10;
+      }
+    }
+
+    for (const { patterns, role } of ROLE_CUES) {
+      if (patterns.some((p) => p.test(text))) {
+        stats.evidence[role] += 2;
+      }
+    }
+
+    // Question/answer turns: clinicians ask, patients answer
+    if (QUESTION_PATTERN.test(text.trim())) {
+      stats.evidence.clinician += 1;
+      this.lastQuestionSpeaker = speaker;
+    } else if (this.lastQuestionSpeaker !== null && this.lastQuestionSpeaker !== speaker) {
+      stats.evidence.patient += 1;
+      this.lastQuestionSpeaker = null;
+    }
+  }
+
+  /**
+   * Re-derive heuristic assignments; returns true if any role changed
+   * (confidence updates alone do not count)
+   */
+  private resolve(): boolean {
+    const previous = this.roles;
+    this.roles = {};
+    for (const [speaker, assignment] of Object.entries(previous)) {
+      if (assignment.source !== 'heuristic') {
+        this.roles[Number(speaker)] = assignment;
+      }
+    }
+
+    // Strongest evidence first so single-holder roles go to the best fit
+    const candidates: Array<{ speaker: number; role: SpeakerRole; confidence: number; score: number }> = [];
+    for (const [speaker, stats] of this.stats) {
+      if (this.roles[speaker] || stats.words < this.config.minWords) continue;
+
+      const total = SPEAKER_ROLES.reduce((sum, role) => sum + stats.evidence[role], 0);
+      if (total === 0) continue;
+
+      for (const role of SPEAKER_ROLES) {
+        const confidence = stats.evidence[role] / total;
+        if (confidence >= this.config.minConfidence) {
+          candidates.push({ speaker, role, confidence, score: stats.evidence[role] });
+        }
+      }
+    }
+
+    candidates.sort((a, b) => b.score - a.score);
+
+    for (const { speaker, role, confidence } of candidates) {
+      if (this.roles[speaker]) continue;
+      if (SINGLE_HOLDER_ROLES.includes(role) && this.isRoleTaken(role)) continue;
+
+      const kept = previous[speaker];
+      if (kept && kept.source === 'heuristic' && kept.role === role) {
+        this.roles[speaker] = { ...kept, confidence: Math.round(confidence * 100) / 100 };
+      } else {
+        this.assign(speaker, role, 'heuristic', Math.round(confidence * 100) / 100);
+      }
+    }
+
+    const key = (roles: SpeakerRoleMap) =>
+      Object.entries(roles).map(([speaker, a]) => `${speaker}:${a.role}:${a.source}`).sort().join(',');
+    return key(this.roles) !== key(previous);
+  }
+
+  private assign(
+    speaker: number,
+    role: SpeakerRole,
+    source: SpeakerRoleSource,
+    confidence: number
+  ): void {
+    this.roles[speaker] = { role, source, confidence, assignedAt: Date.now() };
+    console.log(`[SpeakerRoles] Speaker ${speaker} → ${role} (${source}, ${confidence})`);
+  }
+
+  private isRoleTaken(role: SpeakerRole): boolean {
+    return Object.values(this.roles).some((assignment) => assignment.role === role);
+  }
+
+  private getStats(speaker: number): SpeakerStats {
+    let stats = this.stats.get(speaker);
+    if (!stats) {
+      stats = {
+        words: 0,
+        evidence: { clinician: 0, patient: 0, family: 0, interpreter: 0 }
+      };
+      this.stats.set(speaker, stats);
+    }
+    return stats;
+  }
+}
+
+export function isSpeakerRole(value: unknown): value is SpeakerRole {
+  return typeof value === 'string' && (SPEAKER_ROLES as string[]).includes(value);
+}
+
+/**
+ * Create WS broadcast message for the current speaker → role mapping
+ */
+export function createSpeakerRolesBroadcast(transcriptId: number, roles: SpeakerRoleMap): object {
+  return {
+    type: 'speaker_roles',
+    feed: 'A',
+    transcriptId,
+    roles,
+    timestamp: Date.now()
+  };
+}
@@ -0,0 +1,509 @@
+/**
+ * Summarizer
+ *
+ * Turns an encounter transcript into the lifecycle Summary shape
+ * (chief complaint, HPI, ROS, assessment, plan, medications, follow-up).
+ *
+ * Backends:
+ * - rules:  keyword extraction from the transcript (no model, default)
+ * - openai: any OpenAI-compatible chat completions endpoint (OpenAI,
+ *           llama.cpp llama-server, vLLM, scripts/summarizer-stub.mjs)
+ * - ollama: a local Ollama server (/api/chat)
+ *
+ * With a note template, the summary also gets one text per template
+ * section (Summary.sections), see noteTemplates.ts. Every summary gets the
+ * structured medication list (Summary.medicationList) from the drug
+ * dictionary, see medications.ts. Rule-based ROS findings are reported or
+ * denied as asserted in the transcript, see assertion.ts.
+ *
+ * Model output must be JSON matching Summary; invalid output is retried
+ * with the validation errors fed back to the model. When the model stays
+ * unavailable or invalid, the rule-based extractor is used instead.
+ *
+ * Environment:
+ * - SUMMARIZER_PROVIDER:    rules | openai | ollama (default: rules)
+ * - SUMMARIZER_URL:         base URL (default: http://localhost:8080/v1 for
+ *                           openai, http://localhost:11434 for ollama)
+ * - SUMMARIZER_MODEL:       model name
+ * - SUMMARIZER_API_KEY:     bearer token (openai only, optional)
+ * - SUMMARIZER_TIMEOUT_MS:  per-request timeout (default: 30000)
+ * - SUMMARIZER_MAX_RETRIES: retries after the first attempt (default: 2)
+ */
+
+import type { Summary } from './lifecycle.js';
+import type { SpeakerRole } from './speakerRoles.js';
+import { extractMedications, formatMedication } from './medications.js';
+import { findAssertedMatches } from './assertion.js';
+import { applyNoteTemplate, NoteTemplate, templatePrompt } from './noteTemplates.js';
+
+export type SummarizerName = 'rules' | 'openai' | 'ollama';
+
+export interface SummaryChunk {
+  speaker: number;
+  role?: SpeakerRole | null;
+  text: string;
+}
+
+export interface SummaryInput {
+  transcript: string;       // flattened transcript text
+  chunks?: SummaryChunk[];  // speaker-attributed chunks, preferred when present
+  language?: string;        // encounter language; the summary is written in English
+  template?: NoteTemplate;  // note template; adds Summary.sections
+}
+
+export interface Summarizer {
+  readonly name: SummarizerName;
+  summarize(input: SummaryInput): Promise<Summary>;
+}
+
+export interface ModelSummarizerConfig {
+  url: string;
+  model: string;
+  apiKey: string | null;
+  timeoutMs: number;
+  maxRetries: number;
+  temperature: number;
+}
+
+const PROVIDER_DEFAULTS: Record<'openai' | 'ollama', { url: string; model: string }> = {
+  openai: { url: 'http://localhost:8080/v1', model: 'gpt-4o-mini' },
+  ollama: { url: 'http://localhost:11434', model: 'llama3.1' }
+};
+
+const SUMMARIZER_NAMES: SummarizerName[] = ['rules', 'openai', 'ollama'];
+
+const RETRY_BASE_DELAY_MS = 500;
+
+export class SummarizerError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = 'SummarizerError';
+  }
+}
+
+// ─────────────────────────────────────────────
+// Rule-based extraction
+// ─────────────────────────────────────────────
+
+const ROS_SYSTEMS = ['constitutional', 'heent', 'cardiovascular', 'respiratory',
+                     'gi', 'musculoskeletal', 'neurological', 'psychiatric'];
+
+// Symptoms asked about per ROS system
+const ROS_FINDINGS: Record<string, string[]> = {
+  constitutional: ['fever', 'chills', 'night sweats', 'weight loss', 'weight gain', 'fatigue'],
+  heent: ['headache', 'sore throat', 'ear pain', 'nasal congestion', 'runny nose', 'blurry vision', 'vision changes'],
+  cardiovascular: ['chest pain', 'palpitations', 'leg swelling', 'edema'],
+  respiratory: ['shortness of breath', 'cough', 'wheezing'],
+  gi: ['nausea', 'vomiting', 'diarrhea', 'constipation', 'abdominal pain', 'heartburn', 'blood in (?:the )?stool'],
+  musculoskeletal: ['joint pain', 'back pain', 'muscle aches', 'stiffness'],
+  neurological: ['dizziness', 'numbness', 'tingling', 'weakness', 'seizures?'],
+  psychiatric: ['depression', 'anxiety', 'trouble sleeping', 'insomnia']
+};
+
+/**
+ * Keyword extraction from transcript text (no model needed)
+ */
+export function extractSummary(transcript: string): Summary {
+  const text = transcript.toLowerCase();
+  const medicationList = extractMedications(transcript);
+
+  return {
+    chiefComplaint: extractSection(text, ['chief complaint', 'cc', 'presenting']),
+    hpi: extractSection(text, ['history of present illness', 'hpi']),
+    ros: extractROS(text),
+    assessment: extractSection(text, ['assessment', 'diagnosis', 'impression']),
+    plan: extractList(text, ['plan', 'treatment', 'management']),
+    medications: medicationList.map(formatMedication),
+    medicationList,
+    followUp: extractSection(text, ['follow up', 'follow-up', 'return'])
+  };
+}
+
+function extractSection(text: string, keywords: string[]): string {
+  for (const keyword of keywords) {
+    const idx = text.indexOf(keyword);
+    if (idx !== -1) {
+      const end = text.indexOf('.', idx + keyword.length);
+      if (end !== -1) {
+        return text.slice(idx, end + 1).trim();
+      }
+    }
+  }
+  return '';
+}
+
+/**
+ * Findings per system as asserted ("reports cough; denies fever, chills");
+ * a system only named is "reviewed". Family history is not ROS.
+ */
+function extractROS(text: string): Record<string, string> {
+  const ros: Record<string, string> = {};
+
+  for (const system of ROS_SYSTEMS) {
+    const reported: string[] = [];
+    const denied: string[] = [];
+
+    for (const finding of ROS_FINDINGS[system]) {
+      const mentions = findAssertedMatches(text, new RegExp(`\\b${finding}\\b`, 'i'));
+      if (mentions.length === 0) continue;
+
+      // The last mention wins ("no cough ... actually a little cough now")
+      const { text: term, assertion } = mentions[mentions.length - 1];
+      if (assertion === 'present') reported.push(term);
+      else if (assertion === 'possible') reported.push(`possible ${term}`);
+      else if (assertion === 'historical') reported.push(`history of ${term}`);
+      else if (assertion === 'absent') denied.push(term);
+    }
+
+    const parts = [
+      reported.length > 0 ? `reports ${reported.join(', ')}` : '',
+      denied.length > 0 ? `denies ${denied.join(', ')}` : ''
+    ].filter(Boolean);
+
+    if (parts.length > 0) {
+      ros[system] = parts.join('; ');
+    } else if (text.includes(system)) {
+      ros[system] = 'reviewed';
+    }
+  }
+  return ros;
+}
+
+function extractList(text: string, keywords: string[]): string[] {
+  const items: string[] = [];
+  for (const keyword of keywords) {
+    const idx = text.indexOf(keyword);
+    if (idx !== -1) {
+      const segment = text.slice(idx, idx + 200);
+      const matches = segment.match(/\b[a-z]+\s+\d+\s*mg/gi);
+      if (matches) {
+        items.push(...matches);
+      }
+    }
+  }
+  return items;
+}
+
+export class RuleBasedSummarizer implements Summarizer {
+  readonly name = 'rules' as const;
+
+  async summarize(input: SummaryInput): Promise<Summary> {
+    return withTemplate(extractSummary(input.transcript), input);
+  }
+}
+
+// ─────────────────────────────────────────────
+// Structured output
+// ─────────────────────────────────────────────
+
+const STRING_FIELDS = ['chiefComplaint', 'hpi', 'assessment', 'followUp'] as const;
+const LIST_FIELDS = ['plan', 'medications'] as const;
+
+const SYSTEM_PROMPT = `You are a clinical documentation assistant. Summarize the doctor-patient encounter transcript.
+Reply with a single JSON object and nothing else, using exactly these keys:
+{
+  "chiefComplaint": string,           // patient's main reason for the visit, one sentence
+  "hpi": string,                      // history of present illness, a short paragraph
+  "ros": { [system: string]: string },// review of systems findings by system, e.g. {"respiratory": "denies shortness of breath"}
+  "assessment": string,               // clinician's assessment or working diagnosis
+  "plan": string[],                   // one item per plan step
+  "medications": string[],            // medications with dose and frequency when stated
+  "followUp": string                  // follow-up instructions
+}
+Only include information stated in the transcript. Use "" or [] or {} when something was not discussed.
+Write the summary in English even if the encounter was in another language.`;
+
+/**
+ * Parse and validate model output; returns the Summary or a list of problems
+ */
+export function parseSummary(content: string): Summary | string[] {
+  // Models sometimes wrap JSON in a markdown fence
+  const json = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let value: any;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return ['response is not valid JSON'];
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return ['response must be a JSON object'];
+  }
+
+  const errors: string[] = [];
+  const summary: Record<string, unknown> = {};
+
+  // Missing/null fields count as "not discussed"; wrong types are errors
+  for (const field of STRING_FIELDS) {
+    const v = value[field] ?? '';
+    if (typeof v !== 'string') errors.push(`${field} must be a string`);
+    summary[field] = typeof v === 'string' ? v.trim() : '';
+  }
+
+  for (const field of LIST_FIELDS) {
+    const v = value[field] ?? [];
+    if (!Array.isArray(v) || v.some((item) => typeof item !== 'string')) {
+      errors.push(`${field} must be an array of strings`);
+    }
+    summary[field] = Array.isArray(v) ? v.filter((item) => typeof item === 'string' && item.trim()) : [];
+  }
+
+  const ros = value.ros ?? {};
+  if (typeof ros !== 'object' || Array.isArray(ros) || Object.values(ros).some((v) => typeof v !== 'string')) {
+    errors.push('ros must be an object of strings');
+  }
+  summary.ros = ros;
+
+  // Template sections (only requested with a template)
+  if (value.sections !== undefined && value.sections !== null) {
+    const sections = value.sections;
+    if (typeof sections !== 'object' || Array.isArray(sections) || Object.values(sections).some((v) => typeof v !== 'string')) {
+      errors.push('sections must be an object of strings');
+    } else {
+      summary.sections = sections;
+    }
+  }
+
+  return errors.length > 0 ? errors : (summary as unknown as Summary);
+}
+
+function withTemplate(summary: Summary, input: SummaryInput): Summary {
+  return input.template ? applyNoteTemplate(summary, input.template, input.transcript) : summary;
+}
+
+function formatTranscript(input: SummaryInput): string {
+  if (!input.chunks?.length) return input.transcript;
+
+  return input.chunks
+    .map((chunk) => `${chunk.role ? capitalize(chunk.role) : `Speaker ${chunk.speaker}`}: ${chunk.text}`)
+    .join('\n');
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// ─────────────────────────────────────────────
+// Model backends
+// ─────────────────────────────────────────────
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+abstract class ModelSummarizer implements Summarizer {
+  abstract readonly name: SummarizerName;
+  protected config: ModelSummarizerConfig;
+
+  constructor(provider: 'openai' | 'ollama', config: Partial<ModelSummarizerConfig> = {}) {
+    this.config = {
+      url: process.env.SUMMARIZER_URL || PROVIDER_DEFAULTS[provider].url,
+      model: process.env.SUMMARIZER_MODEL || PROVIDER_DEFAULTS[provider].model,
+      apiKey: process.env.SUMMARIZER_API_KEY || null,
+      timeoutMs: parseInt(process.env.SUMMARIZER_TIMEOUT_MS || '30000'),
+      maxRetries: parseInt(process.env.SUMMARIZER_MAX_RETRIES || '2'),
+      temperature: 0,
+      ...config
+    };
+  }
+
+  async summarize(input: SummaryInput): Promise<Summary> {
+    const language = input.language && input.language !== 'en' ? ` (spoken language: ${input.language})` : '';
+    const prompt: ChatMessage[] = [
+      {
+        role: 'system',
+        content: input.template ? `${SYSTEM_PROMPT}\n\n${templatePrompt(input.template)}` : SYSTEM_PROMPT
+      },
+      { role: 'user', content: `Encounter transcript${language}:\n\n${formatTranscript(input)}` }
+    ];
+
+    let messages = prompt;
+    let lastError: Error = new SummarizerError('No attempts made', false);
+
+    for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
+      if (attempt > 0) {
+        await delay(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      }
+
+      try {
+        const content = await this.complete(messages);
+        const result = parseSummary(content);
+
+        if (!Array.isArray(result)) {
+          console.log(`[Summarizer] ${this.name} summary ready (attempt ${attempt + 1})`);
+          return withTemplate({ ...result, medicationList: extractMedications(input.transcript) }, input);
+        }
+
+        // Ask the model to fix its own output on the next attempt
+        lastError = new SummarizerError(`Invalid summary: ${result.join('; ')}`, true);
+        messages = [
+          ...prompt,
+          { role: 'assistant', content },
+          { role: 'user', content: `That reply was invalid: ${result.join('; ')}. Reply with the corrected JSON object only.` }
+        ];
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        if (error instanceof SummarizerError && !error.retryable) break;
+      }
+
+      console.warn(`[Summarizer] ${this.name} attempt ${attempt + 1} failed: ${lastError.message}`);
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * One chat completion; returns the assistant message text
+   */
+  protected abstract complete(messages: ChatMessage[]): Promise<string>;
+
+  protected async post(path: string, body: object): Promise<any> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.config.timeoutMs);
+
+    try {
+      const response = await fetch(`${this.config.url.replace(/\/$/, '')}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {})
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        // Rate limits and server errors may pass; bad requests will not
+        const retryable = response.status === 429 || response.status >= 500;
+        throw new SummarizerError(`${this.name} returned HTTP ${response.status}`, retryable);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof SummarizerError) throw error;
+      const message = controller.signal.aborted
+        ? `${this.name} timed out after ${this.config.timeoutMs}ms`
+        : `${this.name} unreachable: ${(error as Error).message}`;
+      throw new SummarizerError(message, true);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+export class OpenAICompatibleSummarizer extends ModelSummarizer {
+  readonly name = 'openai' as const;
+
+  constructor(config: Partial<ModelSummarizerConfig> = {}) {
+    super('openai', config);
+  }
+
+  protected async complete(messages: ChatMessage[]): Promise<string> {
+    const data = await this.post('/chat/completions', {
+      model: this.config.model,
+      messages,
+      temperature: this.config.temperature,
+      response_format: { type: 'json_object' }
+    });
+
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new SummarizerError('openai response has no message content', true);
+    }
+    return content;
+  }
+}
+
+export class OllamaSummarizer extends ModelSummarizer {
+  readonly name = 'ollama' as const;
+
+  constructor(config: Partial<ModelSummarizerConfig> = {}) {
+    super('ollama', config);
+  }
+
+  protected async complete(messages: ChatMessage[]): Promise<string> {
+    const data = await this.post('/api/chat', {
+      model: this.config.model,
+      messages,
+      stream: false,
+      format: 'json',
+      options: { temperature: this.config.temperature }
+    });
+
+    const content = data?.message?.content;
+    if (typeof content !== 'string') {
+      throw new SummarizerError('ollama response has no message content', true);
+    }
+    return content;
+  }
+}
+
+/**
+ * Uses the rule-based extractor when the model fails
+ */
+export class FallbackSummarizer implements Summarizer {
+  readonly name: SummarizerName;
+
+  constructor(
+    private primary: Summarizer,
+    private fallback: Summarizer = new RuleBasedSummarizer()
+  ) {
+    this.name = primary.name;
+  }
+
+  async summarize(input: SummaryInput): Promise<Summary> {
+    try {
+      return await this.primary.summarize(input);
+    } catch (error) {
+      console.warn(
+        `[Summarizer] ${this.primary.name} unavailable, using ${this.fallback.name}:`,
+        (error as Error).message
+      );
+      return this.fallback.summarize(input);
+    }
+  }
+}
+
+// ─────────────────────────────────────────────
+// Factory
+// ─────────────────────────────────────────────
+
+/**
+ * Resolve the configured summarizer (falls back to rules)
+ */
+export function resolveSummarizerName(
+  value: string | undefined = process.env.SUMMARIZER_PROVIDER
+): SummarizerName {
+  const name = (value || 'rules').trim().toLowerCase();
+
+  if (!SUMMARIZER_NAMES.includes(name as SummarizerName)) {
+    console.warn(`[Summarizer] Unknown provider "${value}", using rules`);
+    return 'rules';
+  }
+
+  return name as SummarizerName;
+}
+
+/**
+ * Create the summarizer; model backends fall back to rules when unavailable
+ */
+export function createSummarizer(
+  name: SummarizerName = resolveSummarizerName(),
+  config: Partial<ModelSummarizerConfig> = {}
+): Summarizer {
+  switch (name) {
+    case 'openai':
+      return new FallbackSummarizer(new OpenAICompatibleSummarizer(config));
+    case 'ollama':
+      return new FallbackSummarizer(new OllamaSummarizer(config));
+    case 'rules':
+    default:
+      return new RuleBasedSummarizer();
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
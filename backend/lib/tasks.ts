@@ -0,0 +1,313 @@
+/**
+ * Encounter Tasks - Orders and Follow-up
+ *
+ * Extracts the encounter's to-do list from the transcript and summary:
+ * labs and tests, imaging, referrals, prescriptions to send and the
+ * follow-up visit. Transcript sentences need an ordering cue ("let's get a
+ * CBC", "I'll refer you to cardiology") and are skipped when the order is
+ * declined ("no need for an x-ray"); summary plan lines are orders already.
+ * Prescriptions are new or changed medications from the drug dictionary.
+ *
+ * Each task has a stable id (kind + what), so re-extraction as the
+ * encounter goes on keeps the clinician's pending/done/dismissed states.
+ * States are stored per transcript in transcripts2.metadata.tasks and the
+ * list is shown as a checklist in the overlay Tasks tab.
+ */
+
+import type { Summary } from './lifecycle.js';
+import { extractMedications, formatMedication, MedicationEntry } from './medications.js';
+
+export type TaskKind = 'lab' | 'imaging' | 'referral' | 'prescription' | 'follow_up';
+
+export type TaskState = 'pending' | 'done' | 'dismissed';
+
+export interface EncounterTask {
+  id: string;                 // kind:key, stable across re-extraction
+  kind: TaskKind;
+  text: string;               // checklist line, e.g. "Order CBC"
+  detail: string;             // sentence or summary line it came from
+  source: 'transcript' | 'summary';
+  chunkIndex: number | null;  // transcript_chunk index
+  state: TaskState;
+  updatedAt: number | null;   // last state change
+}
+
+export interface TaskChunk {
+  index: number;              // transcript_chunk index
+  text: string;
+}
+
+export type TaskSummary = Partial<Pick<Summary, 'plan' | 'followUp' | 'medicationList'>>;
+
+const TASK_STATES: TaskState[] = ['pending', 'done', 'dismissed'];
+
+const LABS: Array<[RegExp, string]> = [
+  [/\b(cbc|complete blood count)\b/i, 'CBC'],
+  [/\b(bmp|basic metabolic panel)\b/i, 'BMP'],
+  [/\b(cmp|comprehensive metabolic panel|metabolic panel)\b/i, 'CMP'],
+  [/\b(a1c|hba1c|hemoglobin a1c)\b/i, 'Hemoglobin A1c'],
+  [/\b(lipid panel|lipids|cholesterol (panel|levels?|check))\b/i, 'Lipid panel'],
+  [/\b(tsh|thyroid (panel|function|levels?|tests?))\b/i, 'TSH'],
+  [/\b(urinalysis|urine (test|sample|culture))\b/i, 'Urinalysis'],
+  [/\b(rapid strep|strep test|throat culture)\b/i, 'Rapid strep test'],
+  [/\b(inr|pt\/inr|coag(ulation)? panel)\b/i, 'PT/INR'],
+  [/\b(lfts?|liver (function )?(tests?|panel|enzymes))\b/i, 'Liver function tests'],
+  [/\b(psa)\b/i, 'PSA'],
+  [/\b(vitamin d)\b/i, 'Vitamin D'],
+  [/\b(blood cultures?)\b/i, 'Blood cultures'],
+  [/\b(ekg|ecg|electrocardiogram)\b/i, 'EKG'],
+  [/\b(covid|flu|influenza) (test|swab)\b/i, 'Respiratory viral test']
+];
+
+// Only when no specific lab was named
+const GENERIC_LABS = /\b(labs|lab work|blood ?work|blood tests?)\b/i;
+
+const IMAGING: Array<[RegExp, string | ((m: RegExpMatchArray) => string)]> = [
+  [/\b(chest x-?ray|cxr)\b/i, 'Chest X-ray'],
+  [/\b(echo|echocardiogram)\b/i, 'Echocardiogram'],
+  [/\b(mammogram)\b/i, 'Mammogram'],
+  [/\b(dexa( scan)?|bone density( scan)?)\b/i, 'DEXA scan'],
+  [/\b(x-?ray|ct(?: scan)?|cat scan|mri|ultrasound)(?: of (?:the |your |his |her |their )?([a-z]+))?/i, (m) => {
+    const modality = /x-?ray/i.test(m[1]) ? 'X-ray' : /^(ct|cat)/i.test(m[1]) ? 'CT' : /mri/i.test(m[1]) ? 'MRI' : 'Ultrasound';
+    return m[2] ? `${modality} ${m[2].toLowerCase()}` : modality;
+  }]
+];
+
+const SPECIALTIES: Array<[RegExp, string]> = [
+  [/\bcardiolog/i, 'Cardiology'],
+  [/\bdermatolog/i, 'Dermatology'],
+  [/\bendocrinolog/i, 'Endocrinology'],
+  [/\b(gastroenterolog|gi (doctor|specialist))/i, 'Gastroenterology'],
+  [/\bneurolog/i, 'Neurology'],
+  [/\b(orthoped|orthopaed|ortho\b)/i, 'Orthopedics'],
+  [/\bphysical therap/i, 'Physical therapy'],
+  [/\bpulmonolog/i, 'Pulmonology'],
+  [/\bnephrolog/i, 'Nephrology'],
+  [/\burolog/i, 'Urology'],
+  [/\brheumatolog/i, 'Rheumatology'],
+  [/\b(ent\b|ear,? nose,? and throat|otolaryngolog)/i, 'ENT'],
+  [/\bpsychiatr/i, 'Psychiatry'],
+  [/\b(therapist|counsel(ing|or)|behavioral health)/i, 'Behavioral health'],
+  [/\b(ophthalmolog|eye doctor)/i, 'Ophthalmology'],
+  [/\bpodiatr/i, 'Podiatry'],
+  [/\ballergist/i, 'Allergy'],
+  [/\boncolog/i, 'Oncology'],
+  [/\b(gynecolog|ob-?gyn)/i, 'Gynecology'],
+  [/\b(dietitian|nutritionist)/i, 'Nutrition']
+];
+
+const ORDER_CUE = /\b(order(ing)?|get(ting)?|check(ing)?|draw(ing)?|send(ing)?|run(ning)?|do|schedul(e|ing)|want|need|recheck|repeat|obtain)\b/i;
+const REFERRAL_CUE = /\b(refer(ral|ring)?|consult(ation)?|see (a|an|the)|send (you|him|her|them) to|set (you|him|her|them) up with)\b/i;
+const DECLINED = /\b(no need (for|to)|don't need|do not need|won't need|not going to|hold off|already (had|did|got)|no (labs|imaging|x-?ray|referral))\b/i;
+
+const FOLLOW_UP = /\b(follow[\s-]?up|come back|return|see (you|him|her|them)( again| back)?)\b[^.?!]*?\b(?:in|after) ((?:\d+|a|an|one|two|three|four|five|six|a few|a couple(?: of)?) (?:days?|weeks?|months?|years?))\b/i;
+const FOLLOW_UP_PRN = /\b(follow[\s-]?up|come back|return)\b[^.?!]*?\b(as needed|prn|if (it|things|symptoms) (gets? worse|do not improve|don't improve))\b/i;
+
+// ─────────────────────────────────────────────
+// Extraction
+// ─────────────────────────────────────────────
+
+/**
+ * Tasks from transcript chunks and (optionally) a summary, all pending;
+ * transcript tasks come first and keep their source chunk
+ */
+export function extractTasks(chunks: TaskChunk[], summary: TaskSummary = {}): EncounterTask[] {
+  const tasks = new Map<string, EncounterTask>();
+
+  const add = (task: EncounterTask) => {
+    // The follow-up said last wins; other tasks keep their first mention
+    if (!tasks.has(task.id) || (task.kind === 'follow_up' && task.source === 'transcript')) {
+      tasks.set(task.id, task);
+    }
+  };
+
+  const sorted = [...chunks].sort((a, b) => a.index - b.index);
+  for (const chunk of sorted) {
+    for (const sentence of splitSentences(chunk.text)) {
+      classifySentence(sentence, true).forEach((found) =>
+        add(createTask(found, sentence, 'transcript', chunk.index)));
+    }
+  }
+
+  for (const line of summary.plan || []) {
+    classifySentence(line, false).forEach((found) => add(createTask(found, line, 'summary', null)));
+  }
+
+  // New and changed medications need a prescription sent
+  const medications = summary.medicationList
+    || extractMedications(sorted.map((chunk) => chunk.text).join(' '));
+  for (const entry of medications) {
+    if (entry.intent !== 'start' && entry.intent !== 'change') continue;
+    const chunk = [...sorted].reverse().find((c) => c.text.toLowerCase().includes(entry.mentioned.toLowerCase()));
+    add(createTask(
+      { kind: 'prescription', key: entry.name, text: `Send prescription: ${describeMedication(entry)}` },
+      chunk ? findSentence(chunk.text, entry.mentioned) : formatMedication(entry),
+      chunk ? 'transcript' : 'summary',
+      chunk?.index ?? null
+    ));
+  }
+
+  if (summary.followUp && !tasks.has('follow_up:visit')) {
+    add(createTask(
+      { kind: 'follow_up', key: 'visit', text: `Follow up: ${summary.followUp}` },
+      summary.followUp,
+      'summary',
+      null
+    ));
+  }
+
+  return Array.from(tasks.values());
+}
+
+interface FoundTask {
+  kind: TaskKind;
+  key: string;
+  text: string;
+}
+
+/**
+ * Orders named in one sentence; transcript sentences need an ordering cue
+ */
+function classifySentence(sentence: string, requireCue: boolean): FoundTask[] {
+  if (DECLINED.test(sentence)) return [];
+
+  const found: FoundTask[] = [];
+  const ordered = !requireCue || ORDER_CUE.test(sentence);
+
+  if (ordered) {
+    const labs = LABS.filter(([pattern]) => pattern.test(sentence)).map(([, name]) => name);
+    if (labs.length === 0 && GENERIC_LABS.test(sentence)) labs.push('Labs');
+    labs.forEach((name) => found.push({ kind: 'lab', key: name.toLowerCase(), text: `Order ${name}` }));
+
+    // Specific studies first; "chest x-ray" is not also a generic X-ray
+    let rest = sentence;
+    for (const [pattern, name] of IMAGING) {
+      const match = rest.match(pattern);
+      if (!match) continue;
+      const study = typeof name === 'string' ? name : name(match);
+      found.push({ kind: 'imaging', key: study.toLowerCase(), text: `Order ${study}` });
+      rest = rest.replace(match[0], ' ');
+    }
+  }
+
+  if (!requireCue || REFERRAL_CUE.test(sentence)) {
+    SPECIALTIES
+      .filter(([pattern]) => pattern.test(sentence))
+      .forEach(([, specialty]) => found.push({
+        kind: 'referral',
+        key: specialty.toLowerCase(),
+        text: `Referral to ${specialty}`
+      }));
+  }
+
+  const followUp = sentence.match(FOLLOW_UP);
+  if (followUp) {
+    found.push({ kind: 'follow_up', key: 'visit', text: `Follow up in ${followUp[4].toLowerCase()}` });
+  } else if (FOLLOW_UP_PRN.test(sentence)) {
+    found.push({ kind: 'follow_up', key: 'visit', text: 'Follow up as needed' });
+  }
+
+  return found;
+}
+
+function createTask(
+  found: FoundTask,
+  detail: string,
+  source: EncounterTask['source'],
+  chunkIndex: number | null
+): EncounterTask {
+  return {
+    id: `${found.kind}:${found.key}`,
+    kind: found.kind,
+    text: found.text,
+    detail: detail.trim(),
+    source,
+    chunkIndex,
+    state: 'pending',
+    updatedAt: null
+  };
+}
+
+/**
+ * Prescription line without the intent marker
+ */
+function describeMedication(entry: MedicationEntry): string {
+  return formatMedication({ ...entry, intent: null });
+}
+
+function findSentence(text: string, phrase: string): string {
+  return splitSentences(text).find((s) => s.toLowerCase().includes(phrase.toLowerCase())) || text;
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+// ─────────────────────────────────────────────
+// States
+// ─────────────────────────────────────────────
+
+/**
+ * Re-extracted tasks with the states set so far; tasks the clinician
+ * already handled stay on the list even if no longer extracted
+ */
+export function mergeTaskStates(previous: EncounterTask[], extracted: EncounterTask[]): EncounterTask[] {
+  const byId = new Map(previous.map((task) => [task.id, task]));
+
+  const merged = extracted.map((task) => {
+    const existing = byId.get(task.id);
+    return existing ? { ...task, state: existing.state, updatedAt: existing.updatedAt } : task;
+  });
+
+  const kept = previous.filter((task) =>
+    task.state !== 'pending' && !extracted.some((t) => t.id === task.id));
+
+  return [...merged, ...kept];
+}
+
+/**
+ * Tasks with one task's state changed (null = no such task)
+ */
+export function setTaskState(tasks: EncounterTask[], taskId: string, state: TaskState): EncounterTask[] | null {
+  if (!tasks.some((task) => task.id === taskId)) return null;
+
+  return tasks.map((task) => task.id === taskId
+    ? { ...task, state, updatedAt: Date.now() }
+    : task);
+}
+
+export function isTaskState(value: unknown): value is TaskState {
+  return TASK_STATES.includes(value as TaskState);
+}
+
+/**
+ * Tasks of a stored transcript: its chunks and summary, with the states
+ * stored in metadata.tasks
+ */
+export function tasksForTranscript(transcript: {
+  transcript_chunk?: Array<{ text: string }> | null;
+  ai_summary?: TaskSummary | null;
+  metadata?: { tasks?: EncounterTask[] } | null;
+}): EncounterTask[] {
+  const chunks = (transcript.transcript_chunk || []).map((chunk, index) => ({ index, text: chunk.text }));
+  return mergeTaskStates(
+    transcript.metadata?.tasks || [],
+    extractTasks(chunks, transcript.ai_summary || {})
+  );
+}
+
+/**
+ * Create WS broadcast with the encounter's task list (Feed D)
+ */
+export function createTaskListBroadcast(transcriptId: number, tasks: EncounterTask[]): object {
+  return {
+    type: 'task_list',
+    feed: 'D',
+    transcriptId,
+    tasks,
+    timestamp: Date.now()
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * Transcript Editor
+ *
+ * Chunk-level edits after capture. Every edit goes through
+ * editTranscriptChunk, which keeps the prior version in chunk_revisions
+ * and rebuilds the flattened transcript text.
+ *
+ * Edits are broadcast over Feed A ('transcript_edit', see
+ * MultiWindowManager.syncTranscriptEdit) so other windows of the same
+ * doctor update live.
+ */
+
+import { applyWordCorrection } from './confidenceReview.js';
+import { ChunkRevision, editTranscriptChunk, TranscriptChunk } from '../supabase/queries.js';
+
+export interface ChunkEdit {
+  text?: string;     // replacement chunk text
+  speaker?: number;  // reassign the chunk to another speaker
+  editedBy: string;
+  reason?: string;
+}
+
+export interface TranscriptEdit {
+  transcriptId: number;
+  chunkIndex: number;
+  chunk: TranscriptChunk;
+  revision: ChunkRevision;
+}
+
+/**
+ * Validate a PATCH body; returns an error message or the edit
+ */
+export function parseChunkEdit(body: any): ChunkEdit | string {
+  const { text, speaker, editedBy, reason } = body || {};
+
+  if (typeof editedBy !== 'string' || !editedBy) {
+    return 'editedBy is required';
+  }
+  if (text === undefined && speaker === undefined) {
+    return 'Nothing to edit: expected text and/or speaker';
+  }
+  if (text !== undefined && (typeof text !== 'string' || !text.trim())) {
+    return 'text must be a non-empty string';
+  }
+  if (speaker !== undefined && (!Number.isInteger(speaker) || speaker < 0)) {
+    return 'speaker must be a non-negative integer';
+  }
+  if (reason !== undefined && typeof reason !== 'string') {
+    return 'reason must be a string';
+  }
+
+  return { text, speaker, editedBy, reason };
+}
+
+/**
+ * Apply an edit to a chunk (pure)
+ */
+export function applyChunkEdit(chunk: TranscriptChunk, edit: ChunkEdit): TranscriptChunk {
+  let result = chunk;
+
+  if (edit.text !== undefined && edit.text.trim() !== chunk.text) {
+    const tokens = edit.text.trim().split(/\s+/);
+
+    if (tokens.length === chunk.raw.length) {
+      // Same word count: keep timings, mark changed words as certain
+      const raw = chunk.raw.map((w, i) =>
+        w.word === tokens[i] ? w : { ...w, word: tokens[i], confidence: 1 }
+      );
+      result = { ...chunk, raw, text: edit.text.trim() };
+    } else {
+      result = applyWordCorrection(chunk, 0, chunk.raw.length, edit.text);
+    }
+  }
+
+  if (edit.speaker !== undefined && edit.speaker !== chunk.speaker) {
+    result = {
+      ...result,
+      speaker: edit.speaker,
+      raw: result.raw.map((w) => ({ ...w, speaker: edit.speaker! }))
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Edit a stored chunk and record the revision
+ */
+export async function editChunk(
+  transcriptId: number,
+  chunkIndex: number,
+  edit: ChunkEdit
+): Promise<TranscriptEdit> {
+  const { chunk, revision } = await editTranscriptChunk(
+    transcriptId,
+    chunkIndex,
+    (current) => applyChunkEdit(current, edit),
+    edit.editedBy,
+    edit.reason
+  );
+
+  return { transcriptId, chunkIndex, chunk, revision };
+}
@@ -0,0 +1,311 @@
+/**
+ * Custom Vocabulary
+ *
+ * Per-doctor terms (medications, procedures, specialty jargon) that are
+ * routinely mis-transcribed. Used twice per recording:
+ * - as keyword boosts, sent to the transcription provider on connect
+ * - as a replacement dictionary (alias → term), applied to final results
+ *   before chunk assembly
+ *
+ * A doctor's vocabulary is the built-in defaults for their specialty
+ * (DoctorIdentity.specialty, read from profiles) plus their own entries in
+ * doctor_vocabulary. An own entry with the same term overrides the default.
+ */
+
+import { FinalRewriter, KeywordBoost, WordResult } from '../audio/transcription-provider.js';
+import {
+  getDoctorSpecialty,
+  getVocabularyEntries,
+  VocabularyEntry
+} from '../supabase/queries.js';
+
+export type VocabularySource = 'specialty' | 'doctor';
+
+export interface VocabularyTerm extends VocabularyEntry {
+  source: VocabularySource;
+}
+
+const DEFAULT_BOOST = 2;
+const MAX_BOOST = 10;
+const MAX_TERM_LENGTH = 100;
+
+// Deepgram slows down (and URLs get long) with many keywords
+const MAX_KEYWORDS = 100;
+
+type SeedEntry = [term: string, aliases?: string[]];
+
+// Common to every specialty
+const GENERAL_VOCABULARY: SeedEntry[] = [
+  ['lisinopril', ['listen april', 'lisa nopril']],
+  ['atorvastatin', ['a tour vastatin', 'atorva statin']],
+  ['amlodipine', ['am low dipine', 'amlo dipine']],
+  ['metformin', ['met formin']],
+  ['levothyroxine', ['levo thyroxine']],
+  ['omeprazole', ['omepra zole']],
+  ['hydrochlorothiazide', ['hydrochloro thiazide']],
+  ['losartan', ['lo sartan']],
+  ['gabapentin', ['gaba pentin']],
+  ['hemoglobin A1C', ['hemoglobin a one c']]
+];
+
+const SPECIALTY_VOCABULARY: Record<string, SeedEntry[]> = {
+  cardiology: [
+    ['apixaban', ['a pixaban']],
+    ['rivaroxaban', ['riva roxaban']],
+    ['metoprolol', ['meto prolol', 'meta prolol']],
+    ['carvedilol', ['carve dilol']],
+    ['echocardiogram', ['echo cardiogram']],
+    ['troponin', ['tro ponin']],
+    ['ejection fraction'],
+    ['atrial fibrillation']
+  ],
+  pulmonology: [
+    ['albuterol', ['al buterol']],
+    ['tiotropium', ['tio tropium']],
+    ['budesonide', ['bude sonide']],
+    ['spirometry'],
+    ['COPD', ['c o p d']]
+  ],
+  endocrinology: [
+    ['semaglutide', ['sema glutide']],
+    ['empagliflozin', ['empa gliflozin']],
+    ['glipizide', ['glipi zide']],
+    ['A1C', ['a one c']],
+    ['TSH']
+  ],
+  psychiatry: [
+    ['sertraline', ['sert raline']],
+    ['escitalopram', ['es citalopram']],
+    ['bupropion', ['bu propion']],
+    ['aripiprazole', ['ari piprazole']],
+    ['quetiapine', ['que tiapine']]
+  ],
+  pediatrics: [
+    ['amoxicillin', ['amoxi cillin']],
+    ['acetaminophen', ['a seat a minophen']],
+    ['otitis media'],
+    ['bronchiolitis']
+  ],
+  orthopedics: [
+    ['meloxicam', ['melox icam']],
+    ['cyclobenzaprine', ['cyclo benzaprine']],
+    ['meniscus'],
+    ['arthroscopy'],
+    ['rotator cuff', ['rotator cup']]
+  ]
+};
+
+// Profile specialty text → SPECIALTY_VOCABULARY key
+const SPECIALTY_MATCHERS: Array<{ pattern: RegExp; key: string }> = [
+  { pattern: /cardi/i, key: 'cardiology' },
+  { pattern: /pulm|respir/i, key: 'pulmonology' },
+  { pattern: /endocrin|diabet/i, key: 'endocrinology' },
+  { pattern: /psych/i, key: 'psychiatry' },
+  { pattern: /pa?ediat/i, key: 'pediatrics' },
+  { pattern: /ortho/i, key: 'orthopedics' }
+];
+
+// ─────────────────────────────────────────────
+// Loading
+// ─────────────────────────────────────────────
+
+/**
+ * Built-in terms for a specialty (general terms for every specialty)
+ */
+export function seedVocabulary(specialty: string | null): VocabularyTerm[] {
+  const key = specialty
+    ? SPECIALTY_MATCHERS.find(({ pattern }) => pattern.test(specialty))?.key
+    : undefined;
+  const seeds = [...GENERAL_VOCABULARY, ...(key ? SPECIALTY_VOCABULARY[key] : [])];
+
+  return seeds.map(([term, aliases = []]) => ({
+    term,
+    boost: DEFAULT_BOOST,
+    aliases,
+    source: 'specialty'
+  }));
+}
+
+/**
+ * Specialty defaults overridden by the doctor's own entries (same term)
+ */
+export function mergeVocabulary(seed: VocabularyTerm[], entries: VocabularyEntry[]): VocabularyTerm[] {
+  const byTerm = new Map<string, VocabularyTerm>();
+
+  for (const term of seed) {
+    byTerm.set(term.term.toLowerCase(), term);
+  }
+  for (const entry of entries) {
+    byTerm.set(entry.term.toLowerCase(), { ...entry, source: 'doctor' });
+  }
+
+  return [...byTerm.values()].sort((a, b) => a.term.localeCompare(b.term));
+}
+
+/**
+ * A doctor's full vocabulary (specialty defaults + own entries)
+ */
+export async function loadVocabulary(doctorId: string): Promise<VocabularyTerm[]> {
+  const [specialty, entries] = await Promise.all([
+    getDoctorSpecialty(doctorId),
+    getVocabularyEntries(doctorId)
+  ]);
+
+  return mergeVocabulary(seedVocabulary(specialty), entries);
+}
+
+/**
+ * Keyword boosts for the transcription provider, strongest first
+ */
+export function toKeywordBoosts(terms: VocabularyEntry[]): KeywordBoost[] {
+  return terms
+    .filter((t) => t.boost !== 0)
+    .sort((a, b) => b.boost - a.boost)
+    .slice(0, MAX_KEYWORDS)
+    .map((t) => ({ term: t.term, boost: t.boost }));
+}
+
+// ─────────────────────────────────────────────
+// Replacement dictionary
+// ─────────────────────────────────────────────
+
+interface Replacement {
+  alias: string[];   // normalized alias tokens
+  term: string[];    // replacement tokens
+  pattern: RegExp;   // alias in free text
+}
+
+/**
+ * Replaces known mis-transcriptions (aliases) with the doctor's term,
+ * in word lists and in transcript text. Longer aliases win.
+ */
+export class VocabularyReplacer implements FinalRewriter {
+  private replacements: Replacement[];
+
+  constructor(terms: VocabularyEntry[]) {
+    this.replacements = terms
+      .flatMap((t) => t.aliases.map((alias) => ({
+        alias: tokenize(alias),
+        term: t.term.trim().split(/\s+/),
+        pattern: new RegExp(
+          `(?<![\\p{L}\\p{N}])${tokenize(alias).map(escapeRegExp).join('[\\s,-]+')}(?![\\p{L}\\p{N}])`,
+          'giu'
+        )
+      })))
+      .filter((r) => r.alias.length > 0)
+      .sort((a, b) => b.alias.length - a.alias.length);
+  }
+
+  get size(): number {
+    return this.replacements.length;
+  }
+
+  rewriteWords(words: WordResult[]): WordResult[] {
+    if (this.replacements.length === 0) return words;
+
+    const normalized = words.map((w) => normalize(w.word));
+    const result: WordResult[] = [];
+    let i = 0;
+
+    while (i < words.length) {
+      const match = this.replacements.find((r) =>
+        r.alias.every((token, offset) => normalized[i + offset] === token)
+      );
+
+      if (!match) {
+        result.push(words[i]);
+        i++;
+        continue;
+      }
+
+      const replaced = words.slice(i, i + match.alias.length);
+      result.push(...spreadTokens(match.term, replaced));
+      i += match.alias.length;
+    }
+
+    return result;
+  }
+
+  rewriteText(text: string): string {
+    return this.replacements.reduce(
+      (current, r) => current.replace(r.pattern, r.term.join(' ')),
+      text
+    );
+  }
+}
+
+/**
+ * Replacement tokens over the time range of the words they replace;
+ * confidence stays at the lowest replaced word so review still sees it
+ */
+function spreadTokens(tokens: string[], replaced: WordResult[]): WordResult[] {
+  const start = replaced[0].start;
+  const end = replaced[replaced.length - 1].end;
+  const step = (end - start) / tokens.length;
+  const confidence = Math.min(...replaced.map((w) => w.confidence));
+  const trailing = replaced[replaced.length - 1].word.match(/[.,!?;:]+$/)?.[0] || '';
+
+  return tokens.map((word, i) => ({
+    word: i === tokens.length - 1 ? word + trailing : word,
+    start: start + step * i,
+    end: start + step * (i + 1),
+    confidence,
+    speaker: replaced[0].speaker,
+    language: replaced[0].language
+  }));
+}
+
+// ─────────────────────────────────────────────
+// API helpers
+// ─────────────────────────────────────────────
+
+/**
+ * Validate an entry from HTTP/WS; returns an error message or the entry
+ */
+export function parseVocabularyEntry(body: any): VocabularyEntry | string {
+  const { term, boost = DEFAULT_BOOST, aliases = [] } = body || {};
+
+  if (typeof term !== 'string' || !term.trim()) {
+    return 'term is required';
+  }
+  if (term.trim().length > MAX_TERM_LENGTH) {
+    return `term must be at most ${MAX_TERM_LENGTH} characters`;
+  }
+  if (typeof boost !== 'number' || !Number.isFinite(boost) || Math.abs(boost) > MAX_BOOST) {
+    return `boost must be a number between -${MAX_BOOST} and ${MAX_BOOST}`;
+  }
+  if (!Array.isArray(aliases) || aliases.some((a) => typeof a !== 'string')) {
+    return 'aliases must be an array of strings';
+  }
+
+  const cleanTerm = term.trim();
+  const cleanAliases = [...new Set(aliases.map((a: string) => a.trim()).filter(Boolean))]
+    .filter((a) => a.toLowerCase() !== cleanTerm.toLowerCase());
+
+  return { term: cleanTerm, boost, aliases: cleanAliases };
+}
+
+/**
+ * Create WS message with a doctor's current vocabulary
+ */
+export function createVocabularyBroadcast(doctorId: string, terms: VocabularyTerm[]): object {
+  return {
+    type: 'vocabulary',
+    feed: 'A',
+    doctorId,
+    entries: terms,
+    timestamp: Date.now()
+  };
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/\s+/).map(normalize).filter(Boolean);
+}
+
+function normalize(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
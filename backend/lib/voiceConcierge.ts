@@ -3,8 +3,12 @@
  *
  * Detects voice commands from transcript stream.
  * Commands: scroll down, fill this, map page, undo, next field, etc.
+ * Localized per language (English, Spanish); the wake word "Assist" also
+ * works as "Asistente" in Spanish.
  */
 
+import { DEFAULT_LANGUAGE, TranscriptLanguage } from './language.js';
+
 export type VoiceCommand =
   | 'scroll_down'
   | 'scroll_up'
@@ -31,8 +35,10 @@ export interface VoiceConciergeConfig {
   onCommand: (cmd: DetectedCommand) => void;
 }
 
+type CommandPatterns = Array<{ patterns: RegExp[]; command: VoiceCommand }>;
+
 // Command patterns with their mappings
-const COMMAND_PATTERNS: Array<{ patterns: RegExp[]; command: VoiceCommand }> = [
+const ENGLISH_COMMANDS: CommandPatterns = [
   {
     patterns: [/\bscroll\s*down\b/i, /\bgo\s*down\b/i, /\bpage\s*down\b/i],
     command: 'scroll_down'
@@ -96,6 +102,78 @@ const COMMAND_PATTERNS: Array<{ patterns: RegExp[]; command: VoiceCommand }> = [
   }
 ];
 
+// Whole-word match for Spanish (\b does not handle accented letters)
+const es = (source: string): RegExp => new RegExp(`(?<!\\p{L})(?:${source})(?!\\p{L})`, 'iu');
+
+const SPANISH_COMMANDS: CommandPatterns = [
+  {
+    patterns: [es('desplaza(?:r)? hacia abajo'), es('bajar'), es('p[aá]gina abajo')],
+    command: 'scroll_down'
+  },
+  {
+    patterns: [es('desplaza(?:r)? hacia arriba'), es('subir'), es('p[aá]gina arriba')],
+    command: 'scroll_up'
+  },
+  {
+    patterns: [es('(?:re)?llenar(?: esto| campo| el campo)?'), es('autocompletar')],
+    command: 'fill_this'
+  },
+  {
+    patterns: [es('mapear(?: p[aá]gina| esto)?'), es('escanear(?: p[aá]gina| campos)?'), es('detectar campos')],
+    command: 'map_page'
+  },
+  {
+    patterns: [es('deshacer'), es('revertir')],
+    command: 'undo'
+  },
+  {
+    patterns: [es('(?:campo )?siguiente(?: campo)?')],
+    command: 'next_field'
+  },
+  {
+    patterns: [es('(?:campo )?anterior(?: campo)?')],
+    command: 'prev_field'
+  },
+  {
+    patterns: [es('enviar'), es('finalizar'), es('terminar')],
+    command: 'submit'
+  },
+  {
+    patterns: [es('cancelar'), es('abortar')],
+    command: 'cancel'
+  },
+  {
+    patterns: [es('(?:detener|parar)(?: (?:la )?grabaci[oó]n)?'), es('pausa(?:r)?')],
+    command: 'stop'
+  },
+  {
+    patterns: [es('(?:iniciar|empezar|comenzar)(?: (?:la )?grabaci[oó]n| a grabar)?'), es('reanudar')],
+    command: 'start'
+  },
+  // "Asistente" wake word commands
+  {
+    patterns: [
+      /(?<!\p{L})(?:assist|asistente)[,.]?\s*(?:puedes |podr[ií]as |por favor )?ay[uú]da/iu,
+      /(?<!\p{L})(?:assist|asistente)[,.]?\s*(?:qu[eé] es|dime)/iu,
+      /(?<!\p{L})(?:assist|asistente)[,.]?\s*(?:necesito|quiero)/iu
+    ],
+    command: 'assist_help'
+  },
+  {
+    patterns: [
+      /(?<!\p{L})(?:assist|asistente)[,.]?\s*consentimiento\s*(?:otorgado|dado|obtenido)/iu,
+      /(?<!\p{L})(?:assist|asistente)[,.]?\s*(?:el paciente\s*)?(?:da|dio)?\s*(?:su )?consentimiento/iu,
+      /(?<!\p{L})consentimiento\s*(?:otorgado|dado|obtenido)/iu
+    ],
+    command: 'assist_consent'
+  }
+];
+
+const COMMAND_PATTERNS: Record<TranscriptLanguage, CommandPatterns> = {
+  en: ENGLISH_COMMANDS,
+  es: SPANISH_COMMANDS
+};
+
 export class VoiceConcierge {
   private config: VoiceConciergeConfig;
   private lastCommandTime = 0;
@@ -109,7 +187,7 @@ export class VoiceConcierge {
   /**
    * Analyze transcript text for voice commands
    */
-  analyzeTranscript(text: string): DetectedCommand | null {
+  analyzeTranscript(text: string, language: TranscriptLanguage = DEFAULT_LANGUAGE): DetectedCommand | null {
     if (!this.enabled) return null;
 
     const now = Date.now();
@@ -119,7 +197,7 @@ export class VoiceConcierge {
 
     const normalizedText = text.toLowerCase().trim();
 
-    for (const { patterns, command } of COMMAND_PATTERNS) {
+    for (const { patterns, command } of COMMAND_PATTERNS[language]) {
       for (const pattern of patterns) {
         const match = normalizedText.match(pattern);
         if (match) {
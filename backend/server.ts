@@ -5,6 +5,18 @@
  * - /ws: Command/control channel for extension
  * - /audio-stream: Alternative audio streaming endpoint
  * - /demo/patient: Demo patient code generator
+ * - /transcripts/:id/audio: Archived audio download (WAV/Opus)
+ * - /transcripts/:id/retranscribe: Queue/check batch re-transcription
+ * - /transcripts/:id/review: Low-confidence review queue and corrections
+ * - /transcripts/:id/chunks/:index: Edit a chunk (with revision history)
+ * - /transcripts/:id/summarize: Summarize a transcript (LLM or rule-based)
+ * - /transcripts/:id/soap: Rebuild the SOAP note
+ * - /transcripts/:id/problems: Problem list with ICD-10 / SNOMED code suggestions
+ * - /transcripts/:id/tasks: Orders and follow-up checklist (task states)
+ * - /transcripts/:id/avs: Patient after-visit summary (HTML, PDF or JSON)
+ * - /templates: Note templates (per specialty and visit type)
+ * - /doctors/:id/vocabulary: Custom vocabulary (keyword boosts, replacements)
+ * - /doctors/:id/template: Doctor's default note template
  * - /health: Health check
  */
 
@@ -14,8 +26,33 @@ import { createServer } from 'http';
 import { WebSocketServer } from 'ws';
 import { config } from 'dotenv';
 import { WebSocketBroker } from './ws/broker.js';
+import { resolveProviderName } from './audio/transcription-provider.js';
+import { createAudioArchive } from './audio/archive.js';
+import { RetranscriptionProgress, RetranscriptionQueue } from './lib/retranscription.js';
+import { buildReviewQueue, correctTranscriptWords, parseWordCorrection } from './lib/confidenceReview.js';
+import { editChunk, parseChunkEdit } from './lib/transcriptEditor.js';
+import { loadVocabulary, parseVocabularyEntry } from './lib/vocabulary.js';
+import { createSummarizer } from './lib/summarizer.js';
+import { buildSoapNote } from './lib/soapNote.js';
+import { buildProblemList } from './lib/coding.js';
+import { isTaskState, tasksForTranscript } from './lib/tasks.js';
+import { buildAfterVisitSummary, renderAfterVisitHtml, renderAfterVisitPdf } from './lib/afterVisitSummary.js';
+import { toTranscriptLanguage } from './lib/language.js';
+import { describeNoteTemplates, getNoteTemplate, resolveNoteTemplate } from './lib/noteTemplates.js';
 import { generateDemoPatientCode, generatePatientCode, validatePatientCode } from './utils/patient.js';
-import { getTranscriptById, latestTranscriptProfile } from './supabase/queries.js';
+import {
+  deleteVocabularyEntry,
+  getChunkRevisions,
+  getChunks,
+  getTranscriptById,
+  latestTranscriptProfile,
+  saveSummary,
+  saveSoapNote,
+  getDoctorNoteTemplate,
+  setDoctorNoteTemplate,
+  saveVocabularyEntry,
+  TranscriptChunk
+} from './supabase/queries.js';
 
 // Load environment variables
 config();
@@ -26,18 +63,29 @@ const PORT = process.env.PORT || 3001;
 // Middleware
 app.use(cors({
   origin: ['chrome-extension://*', 'http://localhost:*'],
-  methods: ['GET', 'POST', 'OPTIONS'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   credentials: true
 }));
 app.use(express.json());
 
+// Optional audio archive (AUDIO_ARCHIVE_DIR)
+const audioArchive = createAudioArchive();
+audioArchive?.startRetention();
+
+// Post-encounter re-transcription (needs the audio archive)
+const retranscriptionQueue = audioArchive ? new RetranscriptionQueue(audioArchive) : null;
+
+// Encounter summaries (SUMMARIZER_PROVIDER)
+const summarizer = createSummarizer();
+
 // Health check
 app.get('/health', (_req: Request, res: Response) => {
   res.json({
     status: 'ok',
     timestamp: new Date().toISOString(),
     version: '1.0.0',
-    service: 'ghost-next-backend'
+    service: 'ghost-next-backend',
+    transcription: resolveProviderName()
   });
 });
 
@@ -85,6 +133,525 @@ app.get('/transcripts/:id', async (req: Request, res: Response) => {
   }
 });
 
+// Download archived audio for a transcript (?format=wav|opus)
+app.get('/transcripts/:id/audio', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ ok: false, error: 'Invalid transcript ID' });
+      return;
+    }
+
+    if (!audioArchive) {
+      res.status(404).json({ ok: false, error: 'Audio archive is disabled' });
+      return;
+    }
+
+    const format = req.query.format === 'opus' ? 'opus' : 'wav';
+    const recording = await audioArchive.getRecording(id);
+    if (!recording) {
+      res.status(404).json({ ok: false, error: 'No audio for transcript' });
+      return;
+    }
+
+    res.setHeader('Content-Type', format === 'opus' ? 'audio/ogg' : 'audio/wav');
+    res.setHeader('Content-Disposition', `attachment; filename="transcript-${id}.${format === 'opus' ? 'ogg' : 'wav'}"`);
+    if (format === 'wav') {
+      res.setHeader('Content-Length', String(44 + recording.bytes));
+    }
+
+    await audioArchive.export(recording, format, res);
+  } catch (error: any) {
+    console.error('[Server] GET /transcripts/:id/audio error:', error);
+    if (res.headersSent) {
+      res.destroy(error);
+    } else {
+      res.status(500).json({ ok: false, error: error.message });
+    }
+  }
+});
+
+// Queue batch re-transcription of a transcript's archived audio
+app.post('/transcripts/:id/retranscribe', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ ok: false, error: 'Invalid transcript ID' });
+      return;
+    }
+
+    if (!retranscriptionQueue) {
+      res.status(404).json({ ok: false, error: 'Audio archive is disabled' });
+      return;
+    }
+
+    const job = await retranscriptionQueue.enqueue(id);
+    res.status(202).json({ ok: true, job });
+  } catch (error: any) {
+    console.error('[Server] POST /transcripts/:id/retranscribe error:', error);
+    res.status(500).json({ ok: false, error: error.message });
+  }
+});
+
+// Re-transcription status
+app.get('/transcripts/:id/retranscribe', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ ok: false, error: 'Invalid transcript ID' });
+      return;
+    }
+
+    const job = retranscriptionQueue?.getStatus(id);
+    if (job) {
+      res.json({ ok: true, job });
+      return;
+    }
+
+    // Not seen by this process; fall back to the row's job columns
+    const transcript = await getTranscriptById(id);
+    if (!transcript?.queued_at) {
+      res.status(404).json({ ok: false, error: 'No re-transcription for transcript' });
+      return;
+    }
+
+    res.json({
+      ok: true,
+      job: {
+        transcriptId: id,
+        stage: !transcript.processed_at ? 'queued' : transcript.error ? 'failed' : 'completed',
+        progress: transcript.processed_at ? 1 : 0,
+        error: transcript.error || undefined
+      }
+    });
+  } catch (error: any) {
+    console.error('[Server] GET /transcripts/:id/retranscribe error:', error);
+    res.status(500).json({ ok: false, error: error.message });
+  }
+});
+
+// Low-confidence spans awaiting clinician review (riskiest first)
+app.get('/transcripts/:id/review', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ ok: false, error: 'Invalid transcript ID' });
+      return;
+    }
+
+    const items = buildReviewQueue(await getChunks(id));
+    res.json({ ok: true, items });
+  } catch (error: any) {
+    console.error('[Server] GET /transcripts/:id/review error:', error);
+    res.status(500).json({ ok: false, error: error.message });
+  }
+});
+
+// Apply a correction to a reviewed span
+app.post('/transcripts/:id/review', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ ok: false, error: 'Invalid transcript ID' });
+      return;
+    }
+
+    const correction = parseWordCorrection(req.body);
+    const editedBy = req.body?.editedBy;
+    if (!correction || typeof editedBy !== 'string' || !editedBy) {
+      res.status(400).json({ ok: false, error: 'Expected chunkIndex, wordStart, wordEnd, text and editedBy' });
+      return;
+    }
+
+    const transcript = await getTranscriptById(id);
+    if (!transcript) {
+      res.status(404).json({ ok: false, error: 'Transcript not found' });
+      return;
+    }
+
+    const { chunk, revision } = await correctTranscriptWords(id, correction, editedBy);
+    broker.syncTranscriptEdit(transcript.user_id, { transcriptId: id, chunkIndex: correction.chunkIndex, chunk, revision });
+    res.json({ ok: true, chunk, revision });
+  } catch (error: any) {
+    console.error('[Server] POST /transcripts/:id/review error:', error);
+    res.status(500).json({ ok: false, error: error.message });
+  }
+});
+
+// Edit one transcript chunk (text and/or speaker); prior version is kept
+app.patch('/transcripts/:id/chunks/:index', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const index = parseInt(req.params.index);
+    if (isNaN(id) || isNaN(index)) {
+      res.status(400).json({ ok: false, error: 'Invalid transcript ID or chunk index' });
+      return;
+    }
+
+    const edit = parseChunkEdit(req.body);
+    if (typeof edit === 'string') {
+      res.status(400).json({ ok: false, error: edit });
+      return;
+    }
+
+    const transcript = await getTranscriptById(id);
+    if (!transcript) {
+      res.status(404).json({ ok: false, error: 'Transcript not found' });
+      return;
+    }
+    if (index < 0 || index >= (transcript.transcript_chunk || []).length) {
+      res.status(404).json({ ok: false, error: 'Chunk not found' });
+      return;
+    }
+
+    const result = await editChunk(id, index, edit);
+
+    // Feed A: update the doctor's other windows
+    broker.syncTranscriptEdit(transcript.user_id, result);
+
+    res.json({ ok: true, chunk: result.chunk, revision: result.revision });
+  } catch (error: any) {
+    console.error('[Server] PATCH /transcripts/:id/chunks/:index error:', error);
+    res.status(500).json({ ok: false, error: error.message });
+  }
+});
+
+// Revision history (?chunk=<index> for one chunk)
+app.get('/transcripts/:id/revisions', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ ok: false, error: 'Invalid transcript ID' });
+      return;
+    }
+
+    const chunk = req.query.chunk !== undefined ? parseInt(String(req.query.chunk)) : undefined;
+    if (chunk !== undefined && isNaN(chunk)) {
+      res.status(400).json({ ok: false, error: 'Invalid chunk index' });
+      return;
+    }
+
+    const revisions = await getChunkRevisions(id, chunk);
+    res.json({ ok: true, revisions });
+  } catch (error: any) {
+    console.error('[Server] GET /transcripts/:id/revisions error:', error);
+    res.status(500).json({ ok: false, error: error.message });
+  }
+});
+
+// Summarize a stored transcript and save it to ai_summary
+app.post('/transcripts/:id/summarize', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ ok: false, error: 'Invalid transcript ID' });
+      return;
+    }
+
+    const transcript = await getTranscriptById(id);
+    if (!transcript) {
+      res.status(404).json({ ok: false, error: 'Transcript not found' });
+      return;
+    }
+
+    // Template: requested, the encounter's, else the doctor's default
+    if (req.body?.template !== undefined && !getNoteTemplate(req.body.template)) {
+      res.status(400).json({ ok: false, error: `Unknown template: ${req.body.template}` });
+      return;
+    }
+    const template = await resolveNoteTemplate(
+      transcript.user_id,
+      req.body?.template ?? transcript.metadata?.note_template
+    );
+
+    const roles = transcript.metadata?.speaker_roles || {};
+    const chunks: TranscriptChunk[] = transcript.transcript_chunk || [];
+    const summary = await summarizer.summarize({
+      transcript: transcript.transcript || '',
+      chunks: chunks.map((chunk) => ({
+        speaker: chunk.speaker,
+        role: roles[chunk.speaker]?.role ?? null,
+        text: chunk.text
+      })),
+      language: transcript.language,
+      template
+    });
+
+    // Problem list with code suggestions from the new assessment
+    const problems = buildProblemList(summary, chunks.map((chunk, index) => ({ index, text: chunk.text })));
+
+    await saveSummary(id, { ...summary, problems });
+    broker.syncProblemList(transcript.user_id, id, problems);
+    res.json({ ok: true, summary, problems });
+  } catch (error: any) {
+    console.error('[Server] POST /transcripts/:id/summarize error:', error);
+    res.status(500).json({ ok: false, error: error.message });
+  }
+});
+
+// Problem list with code suggestions for the stored summary
+app.get('/transcripts/:id/problems', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ ok: false, error: 'Invalid transcript ID' });
+      return;
+    }
+
+    const transcript = await getTranscriptById(id);
+    if (!transcript) {
+      res.status(404).json({ ok: false, error: 'Transcript not found' });
+      return;
+    }
+
+    const summary = transcript.ai_summary;
+    if (!summary || typeof summary.assessment !== 'string') {
+      res.status(404).json({ ok: false, error: 'Transcript has no summary yet' });
+      return;
+    }
+
+    const chunks: TranscriptChunk[] = transcript.transcript_chunk || [];
+    const problems = buildProblemList(
+      { assessment: summary.assessment, chiefComplaint: summary.chiefComplaint || '' },
+      chunks.map((chunk, index) => ({ index, text: chunk.text }))
+    );
+    res.json({ ok: true, problems });
+  } catch (error: any) {
+    console.error('[Server] GET /transcripts/:id/problems error:', error);
+    res.status(500).json({ ok: false, error: error.message });
+  }
+});
+
+// Orders and follow-up checklist, with the states set so far
+app.get('/transcripts/:id/tasks', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ ok: false, error: 'Invalid transcript ID' });
+      return;
+    }
+
+    const transcript = await getTranscriptById(id);
+    if (!transcript) {
+      res.status(404).json({ ok: false, error: 'Transcript not found' });
+      return;
+    }
+
+    res.json({ ok: true, tasks: tasksForTranscript(transcript) });
+  } catch (error: any) {
+    console.error('[Server] GET /transcripts/:id/tasks error:', error);
+    res.status(500).json({ ok: false, error: error.message });
+  }
+});
+
+// Mark a task pending, done or dismissed
+app.patch('/transcripts/:id/tasks/:taskId', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ ok: false, error: 'Invalid transcript ID' });
+      return;
+    }
+    if (!isTaskState(req.body?.state)) {
+      res.status(400).json({ ok: false, error: 'state must be pending, done or dismissed' });
+      return;
+    }
+
+    const transcript = await getTranscriptById(id);
+    if (!transcript) {
+      res.status(404).json({ ok: false, error: 'Transcript not found' });
+      return;
+    }
+
+    const tasks = await broker.updateTaskState(transcript.user_id, id, req.params.taskId, req.body.state);
+    if (!tasks) {
+      res.status(404).json({ ok: false, error: 'Task not found' });
+      return;
+    }
+
+    res.json({ ok: true, tasks });
+  } catch (error: any) {
+    console.error('[Server] PATCH /transcripts/:id/tasks/:taskId error:', error);
+    res.status(500).json({ ok: false, error: error.message });
+  }
+});
+
+// Patient-facing after-visit summary (?format=html|pdf|json, ?language=en|es, ?grade=6, ?print=1)
+app.get('/transcripts/:id/avs', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ ok: false, error: 'Invalid transcript ID' });
+      return;
+    }
+
+    const format = req.query.format === 'pdf' || req.query.format === 'json' ? req.query.format : 'html';
+    const language = req.query.language === undefined ? null : toTranscriptLanguage(req.query.language);
+    if (req.query.language !== undefined && !language) {
+      res.status(400).json({ ok: false, error: 'language must be en or es' });
+      return;
+    }
+    const grade = req.query.grade === undefined ? undefined : parseFloat(String(req.query.grade));
+    if (grade !== undefined && !(grade > 0)) {
+      res.status(400).json({ ok: false, error: 'grade must be a positive number' });
+      return;
+    }
+
+    const transcript = await getTranscriptById(id);
+    if (!transcript) {
+      res.status(404).json({ ok: false, error: 'Transcript not found' });
+      return;
+    }
+
+    const summary = transcript.ai_summary;
+    if (!summary || typeof summary.assessment !== 'string') {
+      res.status(404).json({ ok: false, error: 'Transcript has no summary yet' });
+      return;
+    }
+
+    const avs = buildAfterVisitSummary({
+      transcriptId: id,
+      summary,
+      problems: buildProblemList({ assessment: summary.assessment, chiefComplaint: summary.chiefComplaint || '' }),
+      tasks: tasksForTranscript(transcript),
+      language: language ?? toTranscriptLanguage(transcript.language) ?? undefined,
+      targetGrade: grade,
+      visitDate: transcript.created_at ? String(transcript.created_at).slice(0, 10) : null
+    });
+
+    if (format === 'json') {
+      res.json({ ok: true, avs });
+    } else if (format === 'pdf') {
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="after-visit-summary-${id}.pdf"`);
+      res.send(renderAfterVisitPdf(avs));
+    } else {
+      res.type('html').send(renderAfterVisitHtml(avs, { autoPrint: req.query.print === '1' }));
+    }
+  } catch (error: any) {
+    console.error('[Server] GET /transcripts/:id/avs error:', error);
+    res.status(500).json({ ok: false, error: error.message });
+  }
+});
+
+// Rebuild the SOAP note from stored chunks (picks up edits and role changes)
+app.post('/transcripts/:id/soap', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ ok: false, error: 'Invalid transcript ID' });
+      return;
+    }
+
+    const transcript = await getTranscriptById(id);
+    if (!transcript) {
+      res.status(404).json({ ok: false, error: 'Transcript not found' });
+      return;
+    }
+
+    const roles = transcript.metadata?.speaker_roles || {};
+    const chunks: TranscriptChunk[] = transcript.transcript_chunk || [];
+    const note = buildSoapNote(chunks.map((chunk, index) => ({
+      index,
+      speaker: chunk.speaker,
+      role: roles[chunk.speaker]?.role ?? null,
+      text: chunk.text
+    })));
+
+    await saveSoapNote(id, note);
+    broker.syncSoapNote(transcript.user_id, id, note);
+    res.json({ ok: true, note });
+  } catch (error: any) {
+    console.error('[Server] POST /transcripts/:id/soap error:', error);
+    res.status(500).json({ ok: false, error: error.message });
+  }
+});
+
+// Doctor vocabulary: specialty defaults + own entries
+app.get('/doctors/:id/vocabulary', async (req: Request, res: Response) => {
+  try {
+    const entries = await loadVocabulary(req.params.id);
+    res.json({ ok: true, entries });
+  } catch (error: any) {
+    console.error('[Server] GET /doctors/:id/vocabulary error:', error);
+    res.status(500).json({ ok: false, error: error.message });
+  }
+});
+
+// Add or update a vocabulary entry (matched by term)
+app.post('/doctors/:id/vocabulary', async (req: Request, res: Response) => {
+  try {
+    const entry = parseVocabularyEntry(req.body);
+    if (typeof entry === 'string') {
+      res.status(400).json({ ok: false, error: entry });
+      return;
+    }
+
+    const saved = await saveVocabularyEntry(req.params.id, entry);
+    await broker.syncVocabulary(req.params.id);
+
+    res.json({ ok: true, entry: saved });
+  } catch (error: any) {
+    console.error('[Server] POST /doctors/:id/vocabulary error:', error);
+    res.status(500).json({ ok: false, error: error.message });
+  }
+});
+
+// Remove a vocabulary entry (specialty defaults cannot be removed, only overridden)
+app.delete('/doctors/:id/vocabulary/:entryId', async (req: Request, res: Response) => {
+  try {
+    const entryId = parseInt(req.params.entryId);
+    if (isNaN(entryId)) {
+      res.status(400).json({ ok: false, error: 'Invalid entry ID' });
+      return;
+    }
+
+    await deleteVocabularyEntry(req.params.id, entryId);
+    await broker.syncVocabulary(req.params.id);
+
+    res.json({ ok: true });
+  } catch (error: any) {
+    console.error('[Server] DELETE /doctors/:id/vocabulary/:entryId error:', error);
+    res.status(500).json({ ok: false, error: error.message });
+  }
+});
+
+// Note templates (built-in generic + templates/ definitions)
+app.get('/templates', (_req: Request, res: Response) => {
+  res.json({ ok: true, templates: describeNoteTemplates() });
+});
+
+// Doctor's default note template (explicit choice, else specialty default)
+app.get('/doctors/:id/template', async (req: Request, res: Response) => {
+  try {
+    const [chosen, template] = await Promise.all([
+      getDoctorNoteTemplate(req.params.id),
+      resolveNoteTemplate(req.params.id)
+    ]);
+    res.json({ ok: true, templateId: template.id, explicit: chosen === template.id });
+  } catch (error: any) {
+    console.error('[Server] GET /doctors/:id/template error:', error);
+    res.status(500).json({ ok: false, error: error.message });
+  }
+});
+
+// Set the doctor's default note template (null = specialty default)
+app.put('/doctors/:id/template', async (req: Request, res: Response) => {
+  try {
+    const templateId = req.body?.templateId ?? null;
+    if (templateId !== null && !getNoteTemplate(templateId)) {
+      res.status(400).json({ ok: false, error: `Unknown template: ${templateId}` });
+      return;
+    }
+
+    await setDoctorNoteTemplate(req.params.id, templateId);
+    res.json({ ok: true, templateId });
+  } catch (error: any) {
+    console.error('[Server] PUT /doctors/:id/template error:', error);
+    res.status(500).json({ ok: false, error: error.message });
+  }
+});
+
 // Get latest transcript profile
 app.get('/transcripts/latest/profile', async (_req: Request, res: Response) => {
   try {
@@ -107,9 +674,28 @@ const wss = new WebSocketServer({
 
 // Initialize WebSocket broker
 const broker = new WebSocketBroker(wss, {
-  saveInterval: 5000 // Save chunks every 5 seconds
+  saveInterval: 5000, // Save chunks every 5 seconds
+  audioArchive,
+  retranscriptionQueue,
+  summarizer
 });
 
+// Send re-transcription progress to the owning doctor's windows
+if (retranscriptionQueue) {
+  retranscriptionQueue.on('progress', (progress: RetranscriptionProgress, doctorId?: string) => {
+    if (doctorId) {
+      broker.syncRetranscription(doctorId, progress);
+    }
+  });
+  // Merged chunks: SOAP sources, problem evidence and tasks follow them
+  retranscriptionQueue.on('reconciled', (transcriptId: number) => {
+    broker.rebuildTranscriptArtifacts(transcriptId).catch((error) => {
+      console.error(`[Server] Failed to rebuild artifacts of transcript ${transcriptId}:`, error);
+    });
+  });
+  retranscriptionQueue.resumePending();
+}
+
 // Alternative audio streaming WebSocket (for simpler clients)
 const audioWss = new WebSocketServer({
   server,
@@ -145,6 +731,7 @@ server.listen(PORT, () => {
   console.log(`   Health:      http://localhost:${PORT}/health`);
   console.log(`   Demo:        http://localhost:${PORT}/demo/patient`);
   console.log(`   Transcripts: http://localhost:${PORT}/transcripts/:id`);
+  console.log(`   Audio:       ${audioArchive ? `http://localhost:${PORT}/transcripts/:id/audio` : 'archive disabled'}`);
   console.log(`   Stats:       http://localhost:${PORT}/stats`);
   console.log('========================================');
   console.log('');
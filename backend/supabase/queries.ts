@@ -1,7 +1,8 @@
 /**
  * Supabase Queries
  *
- * All database operations for transcripts2 table.
+ * All database operations for transcripts2 (and doctor_vocabulary,
+ * field_mappings).
  * PRODUCTION SCHEMA: Chunks stored in transcript_chunk jsonb[] array.
  */
 
@@ -22,17 +23,21 @@ export interface TranscriptChunk {
     end: number;
     confidence: number;
     speaker: number;
+    language?: string;
   }>;
+  language?: string; // dominant language of the chunk's words
 }
 
 /**
  * Create a new transcript run
+ * @param language - selected language ('auto' until detected at completion)
  * @returns BIGINT id of created row
  */
 export async function createTranscriptRun(
   userId: string,
   patientCode?: string,
-  patientUuid?: string
+  patientUuid?: string,
+  language: string = 'en'
 ): Promise<number> {
   const client = getSupabaseClient();
 
@@ -42,7 +47,7 @@ export async function createTranscriptRun(
       user_id: userId,
       patient_code: patientCode || '',
       patient_uuid: patientUuid || null,
-      language: 'en',
+      language,
       transcript_chunk: [],
       ai_interim_summaries: []
     })
@@ -60,7 +65,9 @@ export async function createTranscriptRun(
 
 /**
  * Save transcript chunks (append to transcript_chunk jsonb[])
- * Also rebuilds the flattened transcript text
+ * Also rebuilds the flattened transcript text. Appended in the database
+ * under the row lock (append_transcript_chunks, migration 007), so a
+ * concurrent chunk edit is kept
  */
 export async function saveTranscriptChunks(
   transcriptId: number,
@@ -68,63 +75,215 @@ export async function saveTranscriptChunks(
 ): Promise<void> {
   const client = getSupabaseClient();
 
-  // Fetch existing chunks
-  const { data: existing, error: fetchError } = await client
+  const { error } = await client.rpc('append_transcript_chunks', {
+    p_transcript_id: transcriptId,
+    p_chunks: chunks
+  });
+
+  if (error) {
+    console.error('[Supabase] Failed to save chunks:', error);
+    throw error;
+  }
+
+  console.log(`[Supabase] Saved ${chunks.length} chunks to transcript ${transcriptId}`);
+}
+
+/**
+ * Prior version of an edited chunk, stored in chunk_revisions
+ */
+export interface ChunkRevision {
+  chunk_index: number;
+  revision: number;          // 1 = first edit of this chunk
+  previous: TranscriptChunk; // chunk as it was before this edit
+  edited_by: string;
+  edited_at: string;
+  reason?: string;
+}
+
+// Chunk edited by someone else between read and write: re-read and retry
+const MAX_EDIT_ATTEMPTS = 3;
+
+/**
+ * Edit one chunk in transcript_chunk (by array index)
+ * Keeps the prior version in chunk_revisions and rebuilds the flattened
+ * transcript text. Only that index is written, under the row lock
+ * (edit_transcript_chunk, migration 007), so chunks appended meanwhile by
+ * the live session are kept
+ */
+export async function editTranscriptChunk(
+  transcriptId: number,
+  index: number,
+  update: (chunk: TranscriptChunk) => TranscriptChunk,
+  editedBy: string,
+  reason?: string
+): Promise<{ chunk: TranscriptChunk; revision: ChunkRevision }> {
+  const client = getSupabaseClient();
+
+  for (let attempt = 1; attempt <= MAX_EDIT_ATTEMPTS; attempt++) {
+    const chunks = await getChunks(transcriptId);
+    if (index < 0 || index >= chunks.length) {
+      throw new Error(`Chunk ${index} not found in transcript ${transcriptId}`);
+    }
+
+    const chunk = update(chunks[index]);
+
+    const { data: revision, error } = await client.rpc('edit_transcript_chunk', {
+      p_transcript_id: transcriptId,
+      p_index: index,
+      p_expected: chunks[index],
+      p_chunk: chunk,
+      p_edited_by: editedBy,
+      p_reason: reason ?? null
+    });
+
+    if (error) {
+      console.error('[Supabase] Failed to edit chunk:', error);
+      throw error;
+    }
+
+    if (revision) {
+      console.log(`[Supabase] Edited chunk ${index} of transcript ${transcriptId} (revision ${revision.revision} by ${editedBy})`);
+      return { chunk, revision: revision as ChunkRevision };
+    }
+
+    console.warn(`[Supabase] Chunk ${index} of transcript ${transcriptId} changed during edit (attempt ${attempt})`);
+  }
+
+  throw new Error(`Chunk ${index} of transcript ${transcriptId} kept changing; edit not saved`);
+}
+
+/**
+ * Revision history for a transcript, optionally for one chunk
+ */
+export async function getChunkRevisions(
+  transcriptId: number,
+  index?: number
+): Promise<ChunkRevision[]> {
+  const client = getSupabaseClient();
+
+  const { data, error } = await client
     .from('transcripts2')
-    .select('transcript_chunk')
+    .select('chunk_revisions')
     .eq('id', transcriptId)
     .single();
 
-  if (fetchError) {
-    console.error('[Supabase] Failed to fetch existing chunks:', fetchError);
-    throw fetchError;
+  if (error) {
+    console.error('[Supabase] Failed to get chunk revisions:', error);
+    throw error;
   }
 
-  // Append new chunks
-  const existingChunks: TranscriptChunk[] = existing?.transcript_chunk || [];
-  const updatedChunks = [...existingChunks, ...chunks];
+  const revisions: ChunkRevision[] = data?.chunk_revisions || [];
+  return index === undefined ? revisions : revisions.filter((r) => r.chunk_index === index);
+}
 
-  // Rebuild full transcript text
-  const fullTranscript = updatedChunks
-    .map((c) => `[Speaker ${c.speaker}]: ${c.text}`)
-    .join('\n');
+/**
+ * Update transcript run (mark complete, optionally with the detected language)
+ */
+export async function updateTranscriptRun(transcriptId: number, language?: string): Promise<void> {
+  const client = getSupabaseClient();
 
-  // Update transcript
-  const { error: updateError } = await client
+  const { error } = await client
     .from('transcripts2')
     .update({
-      transcript_chunk: updatedChunks,
-      transcript: fullTranscript
+      completed_at: new Date().toISOString(),
+      ...(language ? { language } : {})
     })
     .eq('id', transcriptId);
 
-  if (updateError) {
-    console.error('[Supabase] Failed to save chunks:', updateError);
-    throw updateError;
+  if (error) {
+    console.error('[Supabase] Failed to complete transcript run:', error);
+    throw error;
   }
 
-  console.log(`[Supabase] Saved ${chunks.length} chunks to transcript ${transcriptId}`);
+  console.log(`[Supabase] Completed transcript run: ${transcriptId}`);
 }
 
 /**
- * Update transcript run (mark complete)
+ * Record which archived audio segment is currently being written
  */
-export async function updateTranscriptRun(transcriptId: number): Promise<void> {
+export async function updateCurrentAudioSegment(
+  transcriptId: number,
+  segment: number
+): Promise<void> {
   const client = getSupabaseClient();
 
   const { error } = await client
     .from('transcripts2')
-    .update({
-      completed_at: new Date().toISOString()
-    })
+    .update({ current_audio_segment: segment })
     .eq('id', transcriptId);
 
   if (error) {
-    console.error('[Supabase] Failed to complete transcript run:', error);
+    console.error('[Supabase] Failed to update audio segment:', error);
     throw error;
   }
+}
 
-  console.log(`[Supabase] Completed transcript run: ${transcriptId}`);
+/**
+ * Set top-level keys of transcript metadata (JSONB). Merged in one UPDATE
+ * (merge_transcript_metadata, migration 009), so keys written meanwhile
+ * by other paths are kept
+ */
+async function mergeTranscriptMetadata(
+  transcriptId: number,
+  patch: Record<string, unknown>
+): Promise<void> {
+  const client = getSupabaseClient();
+
+  const { error } = await client.rpc('merge_transcript_metadata', {
+    p_transcript_id: transcriptId,
+    p_patch: patch
+  });
+
+  if (error) {
+    console.error('[Supabase] Failed to update transcript metadata:', error);
+    throw error;
+  }
+}
+
+/**
+ * Record the encounter's note template in transcript metadata
+ */
+export async function updateNoteTemplate(transcriptId: number, templateId: string): Promise<void> {
+  await mergeTranscriptMetadata(transcriptId, { note_template: templateId });
+}
+
+/**
+ * Append an audio continuity gap to transcript metadata
+ * (append_transcript_metadata, migration 009)
+ */
+export async function appendTranscriptGap(
+  transcriptId: number,
+  gap: object
+): Promise<void> {
+  const client = getSupabaseClient();
+
+  const { error } = await client.rpc('append_transcript_metadata', {
+    p_transcript_id: transcriptId,
+    p_key: 'gaps',
+    p_item: gap
+  });
+
+  if (error) {
+    console.error('[Supabase] Failed to append transcript gap:', error);
+    throw error;
+  }
+}
+
+/**
+ * Store the speaker → role mapping in transcript metadata
+ */
+export async function updateSpeakerRoles(
+  transcriptId: number,
+  roles: object
+): Promise<void> {
+  await mergeTranscriptMetadata(transcriptId, { speaker_roles: roles });
+}
+
+/**
+ * Store the encounter's task checklist (with states) in transcript metadata
+ */
+export async function saveTasks(transcriptId: number, tasks: object[]): Promise<void> {
+  await mergeTranscriptMetadata(transcriptId, { tasks });
 }
 
 /**
@@ -214,7 +373,8 @@ export async function getLatestTranscript(userId: string) {
 }
 
 /**
- * Save AI interim summary
+ * Append an AI interim summary in one UPDATE (append_interim_summary,
+ * migration 011), so overlapping saves keep both
  */
 export async function saveInterimSummary(
   transcriptId: number,
@@ -222,20 +382,10 @@ export async function saveInterimSummary(
 ): Promise<void> {
   const client = getSupabaseClient();
 
-  // Get existing summaries
-  const { data: existing } = await client
-    .from('transcripts2')
-    .select('ai_interim_summaries')
-    .eq('id', transcriptId)
-    .single();
-
-  const summaries = existing?.ai_interim_summaries || [];
-  summaries.push(summary);
-
-  const { error } = await client
-    .from('transcripts2')
-    .update({ ai_interim_summaries: summaries })
-    .eq('id', transcriptId);
+  const { error } = await client.rpc('append_interim_summary', {
+    p_transcript_id: transcriptId,
+    p_summary: summary
+  });
 
   if (error) {
     console.error('[Supabase] Failed to save interim summary:', error);
@@ -326,8 +476,12 @@ export async function getTranscriptById(id: number) {
   return data;
 }
 
+// ai_summary keys written by their own paths, kept when the summary is saved
+const AI_SUMMARY_NOTES = ['soap', 'problems'];
+
 /**
- * Save AI summary to transcript
+ * Save AI summary to transcript, keeping the SOAP note and problem list
+ * stored with it (save_summary, migration 010)
  */
 export async function saveSummary(
   transcriptId: number,
@@ -336,24 +490,388 @@ export async function saveSummary(
 ): Promise<void> {
   const client = getSupabaseClient();
 
-  const updateData: Record<string, unknown> = {
-    ai_summary: summary,
-    processed_at: new Date().toISOString()
-  };
+  const { error } = await client.rpc('save_summary', {
+    p_transcript_id: transcriptId,
+    p_summary: summary,
+    p_short_summary: shortSummary ?? null,
+    p_keep: AI_SUMMARY_NOTES
+  });
 
-  if (shortSummary) {
-    updateData.ai_short_summary = shortSummary;
+  if (error) {
+    console.error('[Supabase] Failed to save summary:', error);
+    throw error;
   }
 
+  console.log(`[Supabase] Saved summary to transcript ${transcriptId}`);
+}
+
+/**
+ * Store the SOAP note in ai_summary.soap (keeps the rest of the summary)
+ */
+export async function saveSoapNote(transcriptId: number, note: object): Promise<void> {
+  await mergeAiSummary(transcriptId, 'soap', note, 'SOAP note');
+}
+
+/**
+ * Store the problem list (with code suggestions) in ai_summary.problems
+ */
+export async function saveProblemList(transcriptId: number, list: object): Promise<void> {
+  await mergeAiSummary(transcriptId, 'problems', list, 'problem list');
+}
+
+/**
+ * Set one key of ai_summary in one UPDATE (merge_ai_summary, migration
+ * 010), so the summary and the other notes written meanwhile are kept
+ */
+async function mergeAiSummary(transcriptId: number, key: string, value: object, what: string): Promise<void> {
+  const client = getSupabaseClient();
+
+  const { error } = await client.rpc('merge_ai_summary', {
+    p_transcript_id: transcriptId,
+    p_patch: { [key]: value }
+  });
+
+  if (error) {
+    console.error(`[Supabase] Failed to save ${what}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Queue a transcript for batch re-transcription
+ */
+export async function markRetranscriptionQueued(transcriptId: number): Promise<void> {
+  const client = getSupabaseClient();
+
   const { error } = await client
     .from('transcripts2')
-    .update(updateData)
+    .update({
+      queued_at: new Date().toISOString(),
+      processed_at: null,
+      error: null
+    })
     .eq('id', transcriptId);
 
   if (error) {
-    console.error('[Supabase] Failed to save summary:', error);
+    console.error('[Supabase] Failed to queue re-transcription:', error);
     throw error;
   }
+}
 
-  console.log(`[Supabase] Saved summary to transcript ${transcriptId}`);
+/**
+ * Transcripts queued for re-transcription that never finished
+ */
+export async function getPendingRetranscriptions(): Promise<number[]> {
+  const client = getSupabaseClient();
+
+  const { data, error } = await client
+    .from('transcripts2')
+    .select('id')
+    .not('queued_at', 'is', null)
+    .is('processed_at', null)
+    .order('queued_at', { ascending: true });
+
+  if (error) {
+    console.error('[Supabase] Failed to get pending re-transcriptions:', error);
+    throw error;
+  }
+
+  return (data || []).map((row: { id: number }) => row.id);
+}
+
+/**
+ * Save the chunks merged with the re-transcribed words, keeping the live
+ * chunks in live_transcript_chunk for diffing. Written under the row lock
+ * (save_retranscription, migration 008) only if transcript_chunk still
+ * equals expected, the chunks the merge started from; false otherwise
+ */
+export async function saveRetranscription(
+  transcriptId: number,
+  chunks: TranscriptChunk[],
+  liveChunks: TranscriptChunk[],
+  expected: TranscriptChunk[]
+): Promise<boolean> {
+  const client = getSupabaseClient();
+
+  const { data: saved, error } = await client.rpc('save_retranscription', {
+    p_transcript_id: transcriptId,
+    p_expected: expected,
+    p_chunks: chunks,
+    p_live_chunks: liveChunks
+  });
+
+  if (error) {
+    console.error('[Supabase] Failed to save re-transcription:', error);
+    throw error;
+  }
+
+  if (saved) {
+    console.log(`[Supabase] Saved re-transcription for transcript ${transcriptId}`);
+  }
+  return saved === true;
+}
+
+/**
+ * Record a failed re-transcription
+ */
+export async function markRetranscriptionFailed(
+  transcriptId: number,
+  message: string
+): Promise<void> {
+  const client = getSupabaseClient();
+
+  const { error } = await client
+    .from('transcripts2')
+    .update({
+      processed_at: new Date().toISOString(),
+      error: message
+    })
+    .eq('id', transcriptId);
+
+  if (error) {
+    console.error('[Supabase] Failed to record re-transcription error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Custom vocabulary entry stored in doctor_vocabulary
+ */
+export interface VocabularyEntry {
+  id?: number;
+  term: string;
+  boost: number;
+  aliases: string[];
+}
+
+/**
+ * Doctor's specialty from their profile (null if unknown)
+ */
+export async function getDoctorSpecialty(userId: string): Promise<string | null> {
+  const client = getSupabaseClient();
+
+  const { data, error } = await client
+    .from('profiles')
+    .select('specialty')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[Supabase] Failed to get doctor specialty:', error);
+    throw error;
+  }
+
+  return data?.specialty || null;
+}
+
+/**
+ * Doctor's chosen note template id (profiles.note_template)
+ */
+export async function getDoctorNoteTemplate(userId: string): Promise<string | null> {
+  const client = getSupabaseClient();
+
+  const { data, error } = await client
+    .from('profiles')
+    .select('note_template')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[Supabase] Failed to get doctor note template:', error);
+    throw error;
+  }
+
+  return data?.note_template || null;
+}
+
+/**
+ * Set (or clear, with null) the doctor's note template
+ */
+export async function setDoctorNoteTemplate(userId: string, templateId: string | null): Promise<void> {
+  const client = getSupabaseClient();
+
+  const { error } = await client
+    .from('profiles')
+    .update({ note_template: templateId })
+    .eq('id', userId);
+
+  if (error) {
+    console.error('[Supabase] Failed to set doctor note template:', error);
+    throw error;
+  }
+}
+
+/**
+ * Stored vocabulary entries for a doctor
+ */
+export async function getVocabularyEntries(userId: string): Promise<VocabularyEntry[]> {
+  const client = getSupabaseClient();
+
+  const { data, error } = await client
+    .from('doctor_vocabulary')
+    .select('id, term, boost, aliases')
+    .eq('user_id', userId)
+    .order('term', { ascending: true });
+
+  if (error) {
+    console.error('[Supabase] Failed to get vocabulary:', error);
+    throw error;
+  }
+
+  return (data || []).map((row) => ({
+    id: row.id,
+    term: row.term,
+    boost: row.boost,
+    aliases: row.aliases || []
+  }));
+}
+
+/**
+ * Add a vocabulary entry, or update the doctor's entry with the same term
+ */
+export async function saveVocabularyEntry(
+  userId: string,
+  entry: VocabularyEntry
+): Promise<VocabularyEntry> {
+  const client = getSupabaseClient();
+
+  const existing = (await getVocabularyEntries(userId))
+    .find((e) => e.term.toLowerCase() === entry.term.toLowerCase());
+
+  const values = {
+    term: entry.term,
+    boost: entry.boost,
+    aliases: entry.aliases,
+    updated_at: new Date().toISOString()
+  };
+
+  const { data, error } = existing
+    ? await client
+      .from('doctor_vocabulary')
+      .update(values)
+      .eq('id', existing.id)
+      .select('id, term, boost, aliases')
+      .single()
+    : await client
+      .from('doctor_vocabulary')
+      .insert({ user_id: userId, ...values })
+      .select('id, term, boost, aliases')
+      .single();
+
+  if (error) {
+    console.error('[Supabase] Failed to save vocabulary entry:', error);
+    throw error;
+  }
+
+  console.log(`[Supabase] Saved vocabulary entry "${entry.term}" for ${userId}`);
+  return { id: data.id, term: data.term, boost: data.boost, aliases: data.aliases || [] };
+}
+
+/**
+ * Remove a doctor's vocabulary entry
+ */
+export async function deleteVocabularyEntry(userId: string, id: number): Promise<void> {
+  const client = getSupabaseClient();
+
+  const { error } = await client
+    .from('doctor_vocabulary')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('[Supabase] Failed to delete vocabulary entry:', error);
+    throw error;
+  }
+}
+
+/**
+ * Learned EHR field mapping stored in field_mappings
+ */
+export interface FieldMapping {
+  id?: number;
+  site: string;       // EHR adapter id or page origin
+  page: string;       // page fingerprint
+  selector: string;
+  category: string;   // FieldCategory
+  label: string;
+}
+
+/**
+ * Stored field mappings for a doctor
+ */
+export async function getFieldMappings(userId: string): Promise<FieldMapping[]> {
+  const client = getSupabaseClient();
+
+  const { data, error } = await client
+    .from('field_mappings')
+    .select('id, site, page, selector, category, label')
+    .eq('user_id', userId)
+    .order('site', { ascending: true })
+    .order('page', { ascending: true });
+
+  if (error) {
+    console.error('[Supabase] Failed to get field mappings:', error);
+    throw error;
+  }
+
+  return (data || []).map((row) => ({
+    id: row.id,
+    site: row.site,
+    page: row.page,
+    selector: row.selector,
+    category: row.category,
+    label: row.label || ''
+  }));
+}
+
+/**
+ * Record the confirmed category of a field (replaces the doctor's mapping
+ * for the same site, page and selector)
+ */
+export async function saveFieldMapping(
+  userId: string,
+  mapping: FieldMapping
+): Promise<FieldMapping> {
+  const client = getSupabaseClient();
+
+  const { data, error } = await client
+    .from('field_mappings')
+    .upsert({
+      user_id: userId,
+      site: mapping.site,
+      page: mapping.page,
+      selector: mapping.selector,
+      category: mapping.category,
+      label: mapping.label,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'user_id,site,page,selector' })
+    .select('id, site, page, selector, category, label')
+    .single();
+
+  if (error) {
+    console.error('[Supabase] Failed to save field mapping:', error);
+    throw error;
+  }
+
+  console.log(`[Supabase] Saved field mapping ${mapping.site}${mapping.page} ${mapping.selector} → ${mapping.category} for ${userId}`);
+  return { ...data, label: data.label || '' };
+}
+
+/**
+ * Remove a doctor's field mapping
+ */
+export async function deleteFieldMapping(userId: string, id: number): Promise<void> {
+  const client = getSupabaseClient();
+
+  const { error } = await client
+    .from('field_mappings')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('[Supabase] Failed to delete field mapping:', error);
+    throw error;
+  }
 }
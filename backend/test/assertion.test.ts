@@ -0,0 +1,70 @@
+/**
+ * Clinical assertions: the phrases of the fixture corpus must get their
+ * assertion, in English and Spanish
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { Assertion, assertPhrase, assertSpan, findAssertedMatches, isCurrent } from '../lib/assertion.js';
+import type { TranscriptLanguage } from '../lib/language.js';
+
+interface PhraseCase {
+  text: string;
+  finding: string;        // substring of text
+  assertion: Assertion;
+  language?: TranscriptLanguage;
+}
+
+const FIXTURE = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '../fixtures/assertion/clinical-phrases.jsonl'
+);
+
+const cases: PhraseCase[] = fs.readFileSync(FIXTURE, 'utf8')
+  .split('\n')
+  .filter((line) => line.trim())
+  .map((line) => JSON.parse(line));
+
+test('fixture phrases get their assertion', () => {
+  for (const { text, finding, assertion, language } of cases) {
+    const start = text.indexOf(finding);
+    assert.notEqual(start, -1, `"${finding}" is not in "${text}"`);
+
+    const result = assertSpan(text, start, start + finding.length, language);
+    assert.equal(result.assertion, assertion, `${finding} in "${text}" (trigger: ${result.trigger})`);
+  }
+});
+
+test('the trigger that set the assertion is reported', () => {
+  assert.deepEqual(assertSpan('She denies fever.', 11, 16), { assertion: 'absent', trigger: 'denies' });
+  assert.deepEqual(assertSpan('Fever went away.', 0, 5), { assertion: 'absent', trigger: 'went away' });
+  assert.deepEqual(assertSpan('Has a fever.', 6, 11), { assertion: 'present', trigger: null });
+});
+
+test('every match of a finding gets its own assertion', () => {
+  const matches = findAssertedMatches('No cough at night, but a cough in the morning.', /cough/i);
+
+  assert.deepEqual(
+    matches.map(({ index, assertion }) => [index, assertion]),
+    [[3, 'absent'], [25, 'present']]
+  );
+});
+
+test('short phrases are asserted by their first and last words', () => {
+  assert.equal(assertPhrase('no strep throat').assertion, 'absent');
+  assert.equal(assertPhrase('history of stroke').assertion, 'historical');
+  assert.equal(assertPhrase('pneumonia ruled out').assertion, 'absent');
+  assert.equal(assertPhrase('possible pneumonia').assertion, 'possible');
+  assert.equal(assertPhrase('no change in rash').assertion, 'present');
+  assert.equal(assertPhrase('sin fiebre', 'es').assertion, 'absent');
+});
+
+test('present and possible findings are current', () => {
+  assert.deepEqual(
+    (['present', 'possible', 'absent', 'historical', 'family'] as Assertion[]).filter(isCurrent),
+    ['present', 'possible']
+  );
+});
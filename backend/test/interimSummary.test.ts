@@ -0,0 +1,70 @@
+/**
+ * Interim summaries: finishing the encounter summarizes the chunks the
+ * last interim did not cover
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InterimSummary, InterimSummaryScheduler } from '../lib/interimSummary.js';
+import type { Summary } from '../lib/lifecycle.js';
+import type { Summarizer, SummaryInput } from '../lib/summarizer.js';
+
+function fakeSummarizer(delayMs: number): Summarizer & { inputs: SummaryInput[] } {
+  const inputs: SummaryInput[] = [];
+  return {
+    name: 'rules',
+    inputs,
+    summarize: async (input) => {
+      inputs.push(input);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      const summary: Summary = {
+        chiefComplaint: input.transcript,
+        hpi: '',
+        ros: {},
+        assessment: '',
+        plan: [],
+        medications: [],
+        followUp: ''
+      };
+      return summary;
+    }
+  };
+}
+
+function chunk(text: string) {
+  return { speaker: 0, text };
+}
+
+test('finish summarizes the remaining delta after the running interim', async () => {
+  const summarizer = fakeSummarizer(20);
+  const interims: InterimSummary[] = [];
+  const scheduler = new InterimSummaryScheduler(summarizer, {
+    everyChunks: 2,
+    everyMs: 0,
+    onSummary: (interim) => interims.push(interim)
+  });
+
+  scheduler.start();
+  scheduler.addChunk(chunk('one'));
+  scheduler.addChunk(chunk('two'));   // first interim starts
+  scheduler.addChunk(chunk('three')); // waits for the next delta
+  await scheduler.finish();
+
+  assert.deepEqual(
+    interims.map((interim) => [interim.fromChunk, interim.toChunk]),
+    [[0, 2], [2, 3]]
+  );
+  assert.equal(interims[1].summary.chiefComplaint, 'three');
+});
+
+test('finish with nothing new does not summarize again', async () => {
+  const summarizer = fakeSummarizer(0);
+  const scheduler = new InterimSummaryScheduler(summarizer, { everyChunks: 1, everyMs: 0 });
+
+  scheduler.start();
+  scheduler.addChunk(chunk('one'));
+  await scheduler.finish();
+  await scheduler.finish();
+
+  assert.equal(summarizer.inputs.length, 1);
+});
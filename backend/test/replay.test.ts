@@ -0,0 +1,78 @@
+/**
+ * Replay provider: the chest pain fixture through the live result
+ * handlers must produce the same chunks on every run
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { ReplayConsumer } from '../audio/replay-consumer.js';
+import type { TranscriptEvent } from '../audio/transcription-provider.js';
+import type { AggregatedChunk } from '../utils/diarization.js';
+
+const FIXTURE = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '../fixtures/replay/chest-pain-encounter.jsonl'
+);
+
+function replay(): Promise<{ finals: TranscriptEvent[]; chunks: AggregatedChunk[] }> {
+  process.env.REPLAY_FIXTURE = FIXTURE;
+  process.env.REPLAY_SPEED = '0';
+
+  const finals: TranscriptEvent[] = [];
+  const chunks: AggregatedChunk[] = [];
+
+  return new Promise((resolve, reject) => {
+    const consumer = new ReplayConsumer({
+      onTranscript: (event) => {
+        if (event.isFinal) finals.push(event);
+      },
+      onChunk: (chunk) => chunks.push(chunk),
+      onError: reject,
+      onClose: () => resolve({ finals, chunks })
+    });
+    consumer.connect().catch(reject);
+  });
+}
+
+test('chest pain fixture replays into one chunk per utterance', async () => {
+  const { finals, chunks } = await replay();
+
+  assert.equal(finals.length, 8);
+  assert.deepEqual(
+    chunks.map((chunk) => ({ speaker: chunk.speaker, text: chunk.text })),
+    [
+      { speaker: 0, text: 'assist consent granted' },
+      { speaker: 1, text: 'good morning what brings you in today' },
+      { speaker: 1, text: "i've had chest pain since last night mostly on the left side" },
+      { speaker: 0, text: 'does the pain spread to your arm or jaw' },
+      { speaker: 1, text: 'a little into my left arm i also feel short of breath when i climb stairs' },
+      { speaker: 0, text: 'any history of high blood pressure or diabetes' },
+      { speaker: 1, text: 'high blood pressure i take lisinopril ten milligrams daily' },
+      { speaker: 0, text: "okay we'll get an ecg and troponin right away" }
+    ]
+  );
+});
+
+test('replayed chunks keep the fixture timeline', async () => {
+  const { chunks } = await replay();
+
+  assert.deepEqual(
+    chunks.map((chunk) => [chunk.start, chunk.end]),
+    [
+      [0.4, 1.46],
+      [3.06, 5.13],
+      [6.63, 10.09],
+      [11.79, 14.2],
+      [15.8, 20.21],
+      [22.01, 24.49],
+      [26.09, 29.07],
+      [30.97, 33.56]
+    ]
+  );
+  assert.equal(
+    chunks.reduce((sum, chunk) => sum + chunk.word_count, 0),
+    73
+  );
+});
@@ -0,0 +1,87 @@
+/**
+ * Re-transcription merge: batch words go into the live chunks by time,
+ * keeping chunk indices and the clinician's edits
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mergeBatchWords } from '../lib/retranscription.js';
+import type { WordResult } from '../audio/transcription-provider.js';
+import type { TranscriptChunk } from '../supabase/queries.js';
+
+function chunk(speaker: number, text: string, start: number, end: number): TranscriptChunk {
+  const words = text.split(' ');
+  const step = (end - start) / words.length;
+  return {
+    speaker,
+    text,
+    start,
+    end,
+    word_count: words.length,
+    raw: words.map((word, i) => ({
+      word,
+      start: start + i * step,
+      end: start + (i + 1) * step,
+      confidence: 0.6,
+      speaker
+    }))
+  };
+}
+
+function batchWords(text: string, start: number, end: number, speaker = 7): WordResult[] {
+  const words = text.split(' ');
+  const step = (end - start) / words.length;
+  return words.map((word, i) => ({
+    word,
+    start: start + i * step,
+    end: start + (i + 1) * step,
+    confidence: 0.98,
+    speaker
+  }));
+}
+
+const live = [
+  chunk(0, 'what brings you in', 0, 2),
+  chunk(1, 'chest pane since last night', 2.5, 5),
+  chunk(0, 'any history of high blood pressure', 5.5, 8)
+];
+
+test('batch words replace the words of the chunk they fall in', () => {
+  const merged = mergeBatchWords(live, [
+    ...batchWords('what brings you in today', 0, 2.2),
+    ...batchWords('chest pain since last night', 2.5, 5),
+    ...batchWords('any history of high blood pressure', 5.5, 8)
+  ], new Set());
+
+  assert.equal(merged.length, live.length);
+  assert.deepEqual(merged.map((c) => c.text), [
+    'what brings you in today',
+    'chest pain since last night',
+    'any history of high blood pressure'
+  ]);
+  assert.deepEqual(merged.map((c) => c.word_count), [5, 5, 6]);
+});
+
+test('live speakers are kept', () => {
+  const merged = mergeBatchWords(live, batchWords('chest pain since last night', 2.5, 5), new Set());
+
+  assert.equal(merged[1].speaker, 1);
+  assert.ok(merged[1].raw.every((w) => w.speaker === 1));
+});
+
+test('edited chunks and chunks without batch words stay as they were', () => {
+  const merged = mergeBatchWords(live, [
+    ...batchWords('what brings you in today', 0, 2),
+    ...batchWords('chest pain since last night', 2.5, 5)
+  ], new Set([0]));
+
+  assert.equal(merged[0], live[0]);
+  assert.equal(merged[1].text, 'chest pain since last night');
+  assert.equal(merged[2], live[2]);
+});
+
+test('words before the first chunk go to the first', () => {
+  const merged = mergeBatchWords(live, batchWords('so what brings you in', -0.5, 2), new Set());
+
+  assert.equal(merged[0].text, 'so what brings you in');
+});
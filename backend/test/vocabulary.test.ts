@@ -0,0 +1,28 @@
+/**
+ * Vocabulary aliases: replaced words keep the timing, speaker and language
+ * of the words they replace
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { VocabularyReplacer } from '../lib/vocabulary.js';
+import type { WordResult } from '../audio/transcription-provider.js';
+
+function words(text: string, language: string): WordResult[] {
+  return text.split(' ').map((word, i) => ({
+    word,
+    start: i,
+    end: i + 1,
+    confidence: 0.9,
+    speaker: 1,
+    language
+  }));
+}
+
+test('an alias is replaced by the term over the same time range', () => {
+  const replacer = new VocabularyReplacer([{ term: 'lisinopril', boost: 2, aliases: ['lie sin oh pril'] }]);
+  const result = replacer.rewriteWords(words('toma lie sin oh pril diario', 'es'));
+
+  assert.deepEqual(result.map((w) => w.word), ['toma', 'lisinopril', 'diario']);
+  assert.deepEqual(result[1], { word: 'lisinopril', start: 1, end: 5, confidence: 0.9, speaker: 1, language: 'es' });
+});
@@ -3,14 +3,18 @@
  *
  * Chunk aggregation logic for transcript assembly.
  * Rules: Start new chunk on speaker change OR duration > 30s
+ * OR a switch of spoken language (when words are language-tagged)
  */
 
+import { dominantLanguage, TranscriptLanguage } from '../lib/language.js';
+
 export interface WordResult {
   word: string;
   start: number;
   end: number;
   confidence: number;
   speaker: number;
+  language?: string;
 }
 
 export interface AggregatedChunk {
@@ -20,6 +24,7 @@ export interface AggregatedChunk {
   end: number;
   word_count: number;
   raw: WordResult[];
+  language?: TranscriptLanguage;
 }
 
 export interface ChunkAggregatorConfig {
@@ -60,7 +65,9 @@ export class ChunkAggregator {
       // Speaker changed
       word.speaker !== this.currentChunk.speaker ||
       // Duration exceeded
-      (word.end - this.currentChunk.start) > this.config.maxDurationSeconds;
+      (word.end - this.currentChunk.start) > this.config.maxDurationSeconds ||
+      // Language switched (code-switching encounters)
+      this.isLanguageSwitch(word);
 
     if (shouldFlush) {
       this.flush();
@@ -87,6 +94,12 @@ export class ChunkAggregator {
     return this.currentChunk ? this.buildChunk() : null;
   }
 
+  private isLanguageSwitch(word: WordResult): boolean {
+    if (!word.language || !this.currentChunk) return false;
+    const current = this.currentChunk.raw[this.currentChunk.raw.length - 1].language;
+    return !!current && current !== word.language;
+  }
+
   private startNewChunk(word: WordResult): void {
     this.currentChunk = {
       speaker: word.speaker,
@@ -111,11 +124,7 @@ export class ChunkAggregator {
       throw new Error('No current chunk');
     }
 
-    // Build text from raw words with proper spacing
-    const text = this.currentChunk.raw
-      .map((w) => w.word)
-      .join(' ')
-      .replace(/\s+([.,!?;:])/g, '$1'); // Fix punctuation spacing
+    const text = joinWords(this.currentChunk.raw);
 
     return {
       speaker: this.currentChunk.speaker,
@@ -123,11 +132,22 @@ export class ChunkAggregator {
       start: this.currentChunk.start,
       end: this.currentChunk.end,
       word_count: this.currentChunk.raw.length,
-      raw: [...this.currentChunk.raw]
+      raw: [...this.currentChunk.raw],
+      language: dominantLanguage(this.currentChunk.raw)
     };
   }
 }
 
+/**
+ * Build text from raw words with proper spacing
+ */
+export function joinWords(words: Array<{ word: string }>): string {
+  return words
+    .map((w) => w.word)
+    .join(' ')
+    .replace(/\s+([.,!?;:])/g, '$1'); // Fix punctuation spacing
+}
+
 /**
  * Format speaker label for display
  * Speaker 0 = Provider, Speaker 1+ = Patient/Other
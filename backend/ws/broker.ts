@@ -4,19 +4,93 @@
  * Manages WebSocket connections between extension and backend.
  * Handles:
  * - /ws: Command/control channel (JSON messages)
- * - Audio streaming to Deepgram
+ * - Audio streaming to the transcription provider (and optional archive)
  * - Transcript broadcast to extension
+ * - Per-doctor window groups (MultiWindowManager) for cross-window sync
+ * - Tab sessions (SessionManager) with the page and EHR system from hello
  */
 
 import { WebSocket, WebSocketServer, RawData } from 'ws';
 import { IncomingMessage } from 'http';
-import { DeepgramConsumer, TranscriptEvent } from '../audio/deepgram-consumer.js';
+import {
+  createTranscriptionProvider,
+  TranscriptEvent,
+  TranscriptionProvider
+} from '../audio/transcription-provider.js';
+import { AudioArchive, AudioArchiveWriter } from '../audio/archive.js';
+import {
+  createRetranscriptionBroadcast,
+  RetranscriptionProgress,
+  RetranscriptionQueue
+} from '../lib/retranscription.js';
+import { MultiWindowManager } from '../lib/multiWindow.js';
+import { SessionManager } from '../lib/session.js';
+import { TranscriptEdit } from '../lib/transcriptEditor.js';
+import {
+  correctTranscriptWords,
+  createReviewItemsBroadcast,
+  findUncertainSpans,
+  parseWordCorrection
+} from '../lib/confidenceReview.js';
+import {
+  createVocabularyBroadcast,
+  loadVocabulary,
+  parseVocabularyEntry,
+  seedVocabulary,
+  toKeywordBoosts,
+  VocabularyReplacer,
+  VocabularyTerm
+} from '../lib/vocabulary.js';
+import { createFieldMappingsBroadcast, parseFieldMapping } from '../lib/fieldMappings.js';
+import {
+  SpeakerRoleResolver,
+  createSpeakerRolesBroadcast,
+  isSpeakerRole
+} from '../lib/speakerRoles.js';
+import {
+  DEFAULT_LANGUAGE,
+  LanguageSelection,
+  parseLanguageSelection,
+  TranscriptLanguage
+} from '../lib/language.js';
+import type { Summary } from '../lib/lifecycle.js';
+import { Summarizer } from '../lib/summarizer.js';
+import { InterimSummaryScheduler, createInterimSummaryBroadcast } from '../lib/interimSummary.js';
+import { getNoteTemplate, NoteTemplate, resolveNoteTemplate, templateForSpecialty } from '../lib/noteTemplates.js';
+import { buildSoapNote, createSoapNoteBroadcast, SoapNote } from '../lib/soapNote.js';
+import { buildProblemList, createProblemListBroadcast, ProblemList } from '../lib/coding.js';
+import {
+  createTaskListBroadcast,
+  EncounterTask,
+  extractTasks,
+  isTaskState,
+  mergeTaskStates,
+  setTaskState,
+  tasksForTranscript,
+  TaskState,
+  TaskSummary
+} from '../lib/tasks.js';
 import { AggregatedChunk } from '../utils/diarization.js';
 import {
   createTranscriptRun,
   saveTranscriptChunks,
   updateTranscriptRun,
+  updateCurrentAudioSegment,
+  appendTranscriptGap,
+  updateSpeakerRoles,
   updatePatientInfo,
+  saveInterimSummary,
+  saveSoapNote,
+  saveProblemList,
+  saveTasks,
+  getTranscriptById,
+  updateNoteTemplate,
+  saveVocabularyEntry,
+  deleteVocabularyEntry,
+  getFieldMappings,
+  saveFieldMapping,
+  deleteFieldMapping,
+  FieldMapping,
   TranscriptChunk
 } from '../supabase/queries.js';
 import { VAD, createEmergencyBroadcast } from '../audio/vad.js';
@@ -27,14 +101,31 @@ import { ErrorHandler, createError, createErrorBroadcast, parseDeepgramError, ER
 export interface Session {
   ws: WebSocket;
   userId: string;
+  windowId: string;
   transcriptId: number | null;
-  deepgram: DeepgramConsumer | null;
+  transcriber: TranscriptionProvider | null;
+  audioWriter: AudioArchiveWriter | null;
+  speakerRoles: SpeakerRoleResolver | null;
+  interimSummaries: InterimSummaryScheduler | null;
+  interimSaves: Promise<void>; // interim summary saves, in order
+  soapChunks: Array<{ index: number; speaker: number; text: string }>; // SOAP note input
+  soapNote: SoapNote | null;
+  problemInputs: Array<Pick<Summary, 'assessment' | 'chiefComplaint'>>; // from interim summaries
+  problemList: ProblemList | null;
+  taskSummaries: TaskSummary[]; // plan/follow-up of interim summaries
+  tasks: EncounterTask[];
+  language: LanguageSelection;
+  languageWords: Partial<Record<TranscriptLanguage, number>>; // words per detected language
   pendingChunks: TranscriptChunk[];
+  chunkCount: number; // chunks produced so far = transcript_chunk index of the next one
   isRecording: boolean;
 }
 
 export interface BrokerConfig {
   saveInterval: number; // ms between chunk saves
+  audioArchive: AudioArchive | null; // null = audio is not kept
+  retranscriptionQueue: RetranscriptionQueue | null;
+  summarizer: Summarizer | null; // null = no interim summaries
 }
 
 export class WebSocketBroker {
@@ -42,6 +133,8 @@ export class WebSocketBroker {
   private sessions: Map<WebSocket, Session> = new Map();
   private config: BrokerConfig;
   private saveTimers: Map<number, NodeJS.Timeout> = new Map();
+  private windows: MultiWindowManager = new MultiWindowManager();
+  private tabSessions: SessionManager = new SessionManager();
 
   // PATH J/K/L modules
   private vad: VAD;
@@ -53,6 +146,9 @@ export class WebSocketBroker {
     this.wss = wss;
     this.config = {
       saveInterval: 5000,
+      audioArchive: null,
+      retranscriptionQueue: null,
+      summarizer: null,
       ...config
     };
 
@@ -96,15 +192,39 @@ export class WebSocketBroker {
   private async handleConnection(ws: WebSocket, req: IncomingMessage): Promise<void> {
     const url = new URL(req.url || '', 'http://localhost');
     const userId = url.searchParams.get('userId') || 'anonymous';
+    const windowId = url.searchParams.get('windowId') || `win-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
 
     console.log(`[Broker] New connection from user: ${userId}`);
 
+    // PATH S: group windows by doctor for cross-window sync
+    this.windows.registerWindow({
+      windowId,
+      tabId: parseInt(url.searchParams.get('tabId') || '0') || 0,
+      ws,
+      doctorId: userId,
+      url: req.headers.origin || ''
+    });
+
     const session: Session = {
       ws,
       userId,
+      windowId,
       transcriptId: null,
-      deepgram: null,
+      transcriber: null,
+      audioWriter: null,
+      speakerRoles: null,
+      interimSummaries: null,
+      interimSaves: Promise.resolve(),
+      soapChunks: [],
+      soapNote: null,
+      problemInputs: [],
+      problemList: null,
+      taskSummaries: [],
+      tasks: [],
+      language: DEFAULT_LANGUAGE,
+      languageWords: {},
       pendingChunks: [],
+      chunkCount: 0,
       isRecording: false
     };
 
@@ -123,8 +243,9 @@ export class WebSocketBroker {
 
     // Binary data = audio
     if (Buffer.isBuffer(data)) {
-      if (session.deepgram && session.isRecording) {
-        session.deepgram.sendAudio(data);
+      if (session.isRecording) {
+        session.audioWriter?.write(data);
+        session.transcriber?.sendAudio(data);
       }
       return;
     }
@@ -143,6 +264,10 @@ export class WebSocketBroker {
     const { ws } = session;
 
     switch (message.type) {
+      case 'hello':
+        this.handleHello(session, message);
+        break;
+
       case 'start_recording':
         await this.startRecording(session, message);
         break;
@@ -159,12 +284,51 @@ export class WebSocketBroker {
         await this.handleActionCommand(session, message);
         break;
 
+      case 'enroll_speaker':
+        this.enrollSpeaker(session, message);
+        break;
+
+      case 'set_speaker_role':
+        this.setSpeakerRole(session, message);
+        break;
+
+      case 'set_task_state':
+        await this.handleTaskState(session, message);
+        break;
+
+      case 'correct_words':
+        await this.correctWords(session, message);
+        break;
+
+      case 'get_vocabulary':
+        this.send(ws, createVocabularyBroadcast(session.userId, await this.loadSessionVocabulary(session)));
+        break;
+
+      case 'save_vocabulary_entry':
+      case 'delete_vocabulary_entry':
+        await this.updateVocabulary(session, message);
+        break;
+
+      case 'get_field_mappings':
+        this.send(ws, createFieldMappingsBroadcast(session.userId, await this.loadFieldMappings(session.userId)));
+        break;
+
+      case 'save_field_mapping':
+      case 'delete_field_mapping':
+        await this.updateFieldMappings(session, message);
+        break;
+
       case 'dom_map_result':
-        // PATH J: Feed DOM map to autopilot
-        this.autopilot.ingestDOMMap(message.fields || []);
+        // PATH J: Feed DOM map to autopilot, with the fields the doctor confirmed on this page
+        this.autopilot.ingestDOMMap(
+          message.fields || [],
+          (await this.loadFieldMappings(session.userId))
+            .filter((m) => m.site === message.site && m.page === message.page)
+        );
         break;
 
       case 'ping':
+        this.windows.pingWindow(session.windowId);
         this.send(ws, { type: 'pong', timestamp: Date.now() });
         break;
 
@@ -173,6 +337,45 @@ export class WebSocketBroker {
     }
   }
 
+  /**
+   * PATH R: a browser tab registers its page and the EHR site adapter the
+   * overlay matched; a repeated hello from the window updates its session
+   */
+  private handleHello(session: Session, message: any): void {
+    const { ws, userId, windowId } = session;
+
+    if (!message.tabId) {
+      this.send(ws, { type: 'error', error: 'Missing tabId in hello message' });
+      return;
+    }
+
+    const metadata = {
+      url: typeof message.url === 'string' ? message.url : '',
+      ehrSystem: typeof message.ehrSystem === 'string' ? message.ehrSystem : null
+    };
+
+    let tabSession = this.tabSessions.getSessionByWindow(windowId);
+    if (tabSession) {
+      Object.assign(tabSession.metadata, metadata);
+      this.tabSessions.touchSession(tabSession.id);
+    } else {
+      tabSession = this.tabSessions.createSession({
+        doctorId: userId,
+        windowId,
+        tabId: this.windows.getWindow(windowId)?.tabId || 0,
+        metadata: { ...metadata, userAgent: typeof message.userAgent === 'string' ? message.userAgent : '' }
+      });
+    }
+
+    console.log(`[Broker] Tab registered: ${message.tabId}${metadata.ehrSystem ? ` (${metadata.ehrSystem})` : ''}`);
+    this.send(ws, {
+      type: 'hello_ack',
+      tabId: message.tabId,
+      isActive: this.windows.getLeader(userId)?.id === windowId,
+      sessionId: tabSession.id
+    });
+  }
+
   private async startRecording(session: Session, message: any): Promise<void> {
     const { ws, userId } = session;
 
@@ -182,35 +385,101 @@ export class WebSocketBroker {
     }
 
     try {
+      // Language of the encounter ('auto' = detect, en/es)
+      const language = parseLanguageSelection(message.language);
+      session.language = language;
+      session.languageWords = {};
+
       // Create transcript run
       const transcriptId = await createTranscriptRun(
         userId,
         message.patientCode,
-        message.patientUuid
+        message.patientUuid,
+        language
       );
       session.transcriptId = transcriptId;
+      session.chunkCount = 0;
+      session.soapChunks = [];
+      session.soapNote = null;
+      session.problemInputs = [];
+      session.problemList = null;
+      session.taskSummaries = [];
+      session.tasks = [];
+
+      // Resolve speaker numbers to roles; optional enrollment at start
+      session.speakerRoles = new SpeakerRoleResolver({
+        onChange: (roles) => {
+          this.send(ws, createSpeakerRolesBroadcast(transcriptId, roles));
+          this.updateSoapNote(session);
+          updateSpeakerRoles(transcriptId, roles).catch((error) => {
+            console.error('[Broker] Failed to save speaker roles:', error);
+          });
+        }
+      });
+      if (isSpeakerRole(message.enrollRole)) {
+        session.speakerRoles.enroll(message.enrollRole);
+      }
 
-      // Initialize Deepgram
-      session.deepgram = new DeepgramConsumer({
+      // Note template for this encounter (requested, else the doctor's default)
+      const template = await this.loadSessionTemplate(session, message.template);
+      updateNoteTemplate(transcriptId, template.id).catch((error) => {
+        console.error('[Broker] Failed to record note template:', error);
+      });
+
+      // Rolling interim summaries of the encounter so far
+      session.interimSummaries = this.createInterimSummaries(session, transcriptId, template);
+
+      // Doctor vocabulary: boosts on connect, replacements on finals
+      const vocabulary = await this.loadSessionVocabulary(session);
+      const replacer = new VocabularyReplacer(vocabulary);
+
+      // Initialize transcription provider (Deepgram or local)
+      session.transcriber = createTranscriptionProvider({
+        language,
+        keywords: toKeywordBoosts(vocabulary),
+        rewriter: replacer,
         onTranscript: (event) => this.handleTranscript(session, event),
         onChunk: (chunk) => this.handleChunk(session, chunk),
         onError: (error) => {
-          // PATH O: Use error handler for Deepgram errors
+          // PATH O: Use error handler for transcription errors
           const layerError = parseDeepgramError(error);
           this.errorHandler.handle(layerError);
         },
-        onClose: () => this.send(ws, { type: 'deepgram_closed' })
+        onClose: () => this.send(ws, {
+          type: 'deepgram_closed',
+          provider: session.transcriber?.name
+        }),
+        onGap: (gap) => {
+          // PATH V: mark the outage in transcript metadata
+          this.send(ws, { type: 'transcription_gap', transcriptId, gap });
+          appendTranscriptGap(transcriptId, gap).catch((error) => {
+            console.error('[Broker] Failed to record transcription gap:', error);
+          });
+        }
       });
 
-      await session.deepgram.connect();
+      await session.transcriber.connect();
       session.isRecording = true;
+      session.interimSummaries?.start();
+      console.log(`[Broker] Vocabulary: ${vocabulary.length} terms, ${replacer.size} replacements`);
+
+      // Keep a copy of the audio when the archive is enabled
+      if (this.config.audioArchive) {
+        session.audioWriter = this.config.audioArchive.createWriter(transcriptId, (segment) => {
+          updateCurrentAudioSegment(transcriptId, segment).catch((error) => {
+            console.error('[Broker] Failed to record audio segment:', error);
+          });
+        });
+      }
 
       // Start periodic save timer
       this.startSaveTimer(session);
 
       this.send(ws, {
         type: 'recording_started',
-        transcriptId
+        transcriptId,
+        language,
+        template: template.id
       });
 
       console.log(`[Broker] Recording started: transcript ${transcriptId}`);
@@ -221,7 +490,7 @@ export class WebSocketBroker {
   }
 
   private async stopRecording(session: Session): Promise<void> {
-    const { ws, transcriptId, deepgram } = session;
+    const { ws, transcriptId } = session;
 
     if (!session.isRecording) {
       this.send(ws, { type: 'error', error: 'Not recording' });
@@ -229,26 +498,7 @@ export class WebSocketBroker {
     }
 
     try {
-      // Stop Deepgram
-      if (deepgram) {
-        deepgram.disconnect();
-        session.deepgram = null;
-      }
-
-      session.isRecording = false;
-
-      // Stop save timer
-      if (transcriptId) {
-        this.stopSaveTimer(transcriptId);
-      }
-
-      // Final save of pending chunks
-      await this.savePendingChunks(session);
-
-      // Mark transcript complete
-      if (transcriptId) {
-        await updateTranscriptRun(transcriptId);
-      }
+      await this.finishRecording(session);
 
       this.send(ws, {
         type: 'recording_stopped',
@@ -262,6 +512,70 @@ export class WebSocketBroker {
     }
   }
 
+  /**
+   * End of an encounter, on stop_recording or when the window closes while
+   * recording: last chunks and interim, final notes, transcript completed
+   * and re-transcription queued
+   */
+  private async finishRecording(session: Session): Promise<void> {
+    const { transcriptId, transcriber } = session;
+
+    // Stop transcription; the last segment's chunks arrive before this resolves
+    if (transcriber) {
+      await transcriber.disconnect();
+      session.transcriber = null;
+    }
+
+    const audioClosed = this.closeAudioWriter(session);
+    session.isRecording = false;
+
+    // Last interim (problem list and tasks follow it) before the final saves
+    await this.finishInterimSummaries(session);
+
+    // Stop save timer
+    if (transcriptId) {
+      this.stopSaveTimer(transcriptId);
+    }
+
+    // Final save of pending chunks
+    await this.savePendingChunks(session);
+
+    // Final SOAP note (POST /transcripts/:id/soap rebuilds it after edits)
+    if (transcriptId && session.soapNote) {
+      await saveSoapNote(transcriptId, session.soapNote).catch((error) => {
+        console.error('[Broker] Failed to save SOAP note:', error);
+      });
+    }
+
+    // Problem list so far (POST /transcripts/:id/summarize rebuilds it)
+    if (transcriptId && session.problemList) {
+      await saveProblemList(transcriptId, session.problemList).catch((error) => {
+        console.error('[Broker] Failed to save problem list:', error);
+      });
+    }
+
+    // Task checklist with the states set during the encounter
+    if (transcriptId && session.tasks.length > 0) {
+      await saveTasks(transcriptId, session.tasks).catch((error) => {
+        console.error('[Broker] Failed to save tasks:', error);
+      });
+    }
+
+    // Mark transcript complete (with the detected language for 'auto')
+    if (transcriptId) {
+      await updateTranscriptRun(
+        transcriptId,
+        session.language === 'auto' ? this.detectedLanguage(session) : undefined
+      );
+    }
+
+    // Queue batch re-transcription once the audio is on disk
+    await audioClosed;
+    if (transcriptId) {
+      void this.config.retranscriptionQueue?.onEncounterComplete(transcriptId);
+    }
+  }
+
   private async setPatient(session: Session, message: any): Promise<void> {
     const { ws, transcriptId } = session;
 
@@ -278,6 +592,38 @@ export class WebSocketBroker {
     }
   }
 
+  /**
+   * Give a role to the next speaker heard
+   */
+  private enrollSpeaker(session: Session, message: any): void {
+    if (!session.speakerRoles) {
+      this.send(session.ws, { type: 'error', error: 'Not recording' });
+      return;
+    }
+    if (!isSpeakerRole(message.role)) {
+      this.send(session.ws, { type: 'error', error: `Unknown speaker role: ${message.role}` });
+      return;
+    }
+
+    session.speakerRoles.enroll(message.role);
+  }
+
+  /**
+   * Manual speaker role override from the overlay (role null clears it)
+   */
+  private setSpeakerRole(session: Session, message: any): void {
+    if (!session.speakerRoles) {
+      this.send(session.ws, { type: 'error', error: 'Not recording' });
+      return;
+    }
+    if (typeof message.speaker !== 'number' || (message.role !== null && !isSpeakerRole(message.role))) {
+      this.send(session.ws, { type: 'error', error: 'Invalid speaker role override' });
+      return;
+    }
+
+    session.speakerRoles.setRole(message.speaker, message.role);
+  }
+
   /**
    * PATH I: Command Pipeline - handle map/fill/undo/send/dictate
    */
@@ -342,27 +688,50 @@ export class WebSocketBroker {
   }
 
   private handleTranscript(session: Session, event: TranscriptEvent): void {
+    session.speakerRoles?.analyzeTranscript(event);
+
     // Send to extension for display
     this.send(session.ws, {
       type: 'transcript',
       text: event.text,
       speaker: event.speaker,
+      role: session.speakerRoles?.getRole(event.speaker) ?? null,
       isFinal: event.isFinal,
       start: event.start,
-      end: event.end
+      end: event.end,
+      words: event.words.map((w) => ({ word: w.word, confidence: w.confidence })),
+      language: event.language ?? null
     });
 
+    // Safety and command patterns are matched in the spoken language
+    const language = event.language ?? (session.language === 'auto' ? DEFAULT_LANGUAGE : session.language);
+
     // PATH K: Check for emergency phrases (Feed C)
     if (event.isFinal) {
-      this.vad.analyzeTranscript(event.text);
+      this.vad.analyzeTranscript(event.text, undefined, language);
     }
 
     // PATH L: Check for voice commands (Feed B)
     if (event.isFinal) {
-      this.voiceConcierge.analyzeTranscript(event.text);
+      this.voiceConcierge.analyzeTranscript(event.text, language);
     }
   }
 
+  /**
+   * Language with the most words so far (default if nothing was tagged)
+   */
+  private detectedLanguage(session: Session): TranscriptLanguage {
+    let detected: TranscriptLanguage = DEFAULT_LANGUAGE;
+    let max = 0;
+    for (const [language, words] of Object.entries(session.languageWords)) {
+      if (words > max) {
+        detected = language as TranscriptLanguage;
+        max = words;
+      }
+    }
+    return detected;
+  }
+
   /**
    * Handle "Assist, consent granted" command
    * Logs consent event and broadcasts to UI
@@ -416,15 +785,306 @@ export class WebSocketBroker {
   private handleChunk(session: Session, chunk: AggregatedChunk): void {
     // Queue chunk for batch save
     session.pendingChunks.push(chunk as TranscriptChunk);
+    const index = session.chunkCount++;
+
+    if (chunk.language) {
+      session.languageWords[chunk.language] = (session.languageWords[chunk.language] || 0) + chunk.word_count;
+    }
 
     // Send chunk event to extension
     this.send(session.ws, {
       type: 'chunk',
+      index,
       speaker: chunk.speaker,
+      role: session.speakerRoles?.getRole(chunk.speaker) ?? null,
       text: chunk.text,
       wordCount: chunk.word_count,
-      duration: chunk.end - chunk.start
+      start: chunk.start,
+      end: chunk.end,
+      duration: chunk.end - chunk.start,
+      language: chunk.language ?? null
+    });
+
+    // Low-confidence spans go to the overlay review queue
+    const items = findUncertainSpans(chunk as TranscriptChunk, index);
+    if (items.length > 0 && session.transcriptId) {
+      this.send(session.ws, createReviewItemsBroadcast(session.transcriptId, items));
+    }
+
+    session.interimSummaries?.addChunk({
+      speaker: chunk.speaker,
+      role: session.speakerRoles?.getRole(chunk.speaker) ?? null,
+      text: chunk.text
+    });
+
+    session.soapChunks.push({ index, speaker: chunk.speaker, text: chunk.text });
+    this.updateSoapNote(session);
+    this.updateTasks(session);
+  }
+
+  /**
+   * Rebuild the SOAP note with the current speaker roles; pushed to the
+   * doctor's windows when it changed
+   */
+  private updateSoapNote(session: Session): void {
+    if (!session.transcriptId) return;
+
+    const note = buildSoapNote(session.soapChunks.map((chunk) => ({
+      ...chunk,
+      role: session.speakerRoles?.getRole(chunk.speaker) ?? null
+    })));
+
+    const previous = session.soapNote;
+    session.soapNote = note;
+    if (previous && sameSoapContent(previous, note)) return;
+
+    this.syncSoapNote(session.userId, session.transcriptId, note);
+  }
+
+  /**
+   * Rebuild the problem list from all interim assessments so far; pushed to
+   * the doctor's windows when it changed
+   */
+  private updateProblemList(session: Session, summary: Summary): void {
+    if (!session.transcriptId) return;
+
+    session.problemInputs.push({ assessment: summary.assessment, chiefComplaint: summary.chiefComplaint });
+    const list = buildProblemList(
+      {
+        assessment: session.problemInputs.map((s) => s.assessment).filter(Boolean).join('. '),
+        chiefComplaint: session.problemInputs.map((s) => s.chiefComplaint).filter(Boolean).join('. ')
+      },
+      session.soapChunks
+    );
+
+    const previous = session.problemList;
+    session.problemList = list;
+    if (previous && JSON.stringify(previous.problems) === JSON.stringify(list.problems)) return;
+
+    this.syncProblemList(session.userId, session.transcriptId, list);
+  }
+
+  /**
+   * Re-extract orders and follow-up from the chunks and interim summaries
+   * so far, keeping task states; pushed to the doctor's windows when changed
+   */
+  private updateTasks(session: Session): void {
+    if (!session.transcriptId) return;
+
+    const summaries = session.taskSummaries;
+    const extracted = extractTasks(session.soapChunks, {
+      plan: summaries.flatMap((s) => s.plan || []),
+      followUp: summaries.map((s) => s.followUp).filter(Boolean).pop() || '',
+      medicationList: summaries.some((s) => s.medicationList)
+        ? summaries.flatMap((s) => s.medicationList || [])
+        : undefined
+    });
+
+    const previous = session.tasks;
+    session.tasks = mergeTaskStates(previous, extracted);
+    if (JSON.stringify(previous) === JSON.stringify(session.tasks)) return;
+
+    this.syncTasks(session.userId, session.transcriptId, session.tasks);
+  }
+
+  /**
+   * Checklist state change from the overlay Tasks tab
+   */
+  private async handleTaskState(session: Session, message: any): Promise<void> {
+    const transcriptId = typeof message.transcriptId === 'number' ? message.transcriptId : session.transcriptId;
+
+    if (!transcriptId) {
+      this.send(session.ws, { type: 'error', error: 'No active transcript' });
+      return;
+    }
+    if (typeof message.taskId !== 'string' || !isTaskState(message.state)) {
+      this.send(session.ws, { type: 'error', error: 'Invalid task state' });
+      return;
+    }
+
+    try {
+      const tasks = await this.updateTaskState(session.userId, transcriptId, message.taskId, message.state);
+      if (!tasks) {
+        this.send(session.ws, { type: 'error', error: `Task not found: ${message.taskId}` });
+      }
+    } catch (error: any) {
+      console.error('[Broker] Failed to update task state:', error);
+      this.send(session.ws, { type: 'error', error: error.message });
+    }
+  }
+
+  /**
+   * Interim summaries are appended to ai_interim_summaries and pushed to the
+   * doctor's windows (Summary tab) as they are produced
+   */
+  private createInterimSummaries(
+    session: Session,
+    transcriptId: number,
+    template: NoteTemplate
+  ): InterimSummaryScheduler | null {
+    if (!this.config.summarizer) return null;
+
+    const scheduler = new InterimSummaryScheduler(this.config.summarizer, {
+      language: session.language === 'auto' ? undefined : session.language,
+      template,
+      onSummary: (interim) => {
+        this.windows.broadcastToGroup(session.userId, createInterimSummaryBroadcast(transcriptId, interim));
+        session.interimSaves = session.interimSaves
+          .then(() => saveInterimSummary(transcriptId, interim))
+          .catch((error) => {
+            console.error('[Broker] Failed to save interim summary:', error);
+          });
+        this.updateProblemList(session, interim.summary);
+        session.taskSummaries.push({
+          plan: interim.summary.plan,
+          followUp: interim.summary.followUp,
+          medicationList: interim.summary.medicationList
+        });
+        this.updateTasks(session);
+      }
     });
+    return scheduler.isEnabled() ? scheduler : null;
+  }
+
+  /**
+   * Stop interim summaries after a last one over the chunks not covered
+   * yet, and wait until they are saved
+   */
+  private async finishInterimSummaries(session: Session): Promise<void> {
+    const scheduler = session.interimSummaries;
+    session.interimSummaries = null;
+    await scheduler?.finish();
+    await session.interimSaves;
+  }
+
+  /**
+   * Inline correction from the review queue
+   */
+  private async correctWords(session: Session, message: any): Promise<void> {
+    const { ws, transcriptId } = session;
+
+    if (!transcriptId) {
+      this.send(ws, { type: 'error', error: 'No active transcript' });
+      return;
+    }
+
+    const correction = parseWordCorrection(message);
+    if (!correction) {
+      this.send(ws, { type: 'error', error: 'Invalid word correction' });
+      return;
+    }
+
+    try {
+      // The chunk may still be waiting for the periodic save
+      await this.savePendingChunks(session);
+      const { chunk, revision } = await correctTranscriptWords(transcriptId, correction, session.userId);
+
+      this.send(ws, {
+        type: 'review_corrected',
+        transcriptId,
+        ...correction,
+        chunk
+      });
+      this.syncTranscriptEdit(session.userId, {
+        transcriptId,
+        chunkIndex: correction.chunkIndex,
+        chunk,
+        revision
+      });
+    } catch (error: any) {
+      console.error('[Broker] Failed to apply correction:', error);
+      this.send(ws, { type: 'error', error: error.message });
+    }
+  }
+
+  /**
+   * Specialty defaults + the doctor's entries; defaults only if the
+   * database is unavailable (recording must still start)
+   */
+  private async loadSessionTemplate(session: Session, requested: unknown): Promise<NoteTemplate> {
+    try {
+      return await resolveNoteTemplate(session.userId, requested);
+    } catch (error) {
+      console.error('[Broker] Failed to load note template, using default:', error);
+      return getNoteTemplate(requested) || templateForSpecialty(null);
+    }
+  }
+
+  private async loadSessionVocabulary(session: Session): Promise<VocabularyTerm[]> {
+    try {
+      return await loadVocabulary(session.userId);
+    } catch (error) {
+      console.error('[Broker] Failed to load vocabulary, using defaults:', error);
+      return seedVocabulary(null);
+    }
+  }
+
+  /**
+   * Add/update or remove a vocabulary entry from the overlay Settings tab.
+   * Takes effect from the next recording.
+   */
+  private async updateVocabulary(session: Session, message: any): Promise<void> {
+    const { ws, userId } = session;
+
+    try {
+      if (message.type === 'delete_vocabulary_entry') {
+        if (!Number.isInteger(message.id)) {
+          this.send(ws, { type: 'error', error: 'Invalid vocabulary entry id' });
+          return;
+        }
+        await deleteVocabularyEntry(userId, message.id);
+      } else {
+        const entry = parseVocabularyEntry(message.entry);
+        if (typeof entry === 'string') {
+          this.send(ws, { type: 'error', error: entry });
+          return;
+        }
+        await saveVocabularyEntry(userId, entry);
+      }
+
+      await this.syncVocabulary(userId);
+    } catch (error: any) {
+      console.error('[Broker] Failed to update vocabulary:', error);
+      this.send(ws, { type: 'error', error: error.message });
+    }
+  }
+
+  private async loadFieldMappings(userId: string): Promise<FieldMapping[]> {
+    try {
+      return await getFieldMappings(userId);
+    } catch (error) {
+      console.error('[Broker] Failed to load field mappings:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Confirm or remove a learned field mapping from the overlay Mapping tab
+   */
+  private async updateFieldMappings(session: Session, message: any): Promise<void> {
+    const { ws, userId } = session;
+
+    try {
+      if (message.type === 'delete_field_mapping') {
+        if (!Number.isInteger(message.id)) {
+          this.send(ws, { type: 'error', error: 'Invalid field mapping id' });
+          return;
+        }
+        await deleteFieldMapping(userId, message.id);
+      } else {
+        const mapping = parseFieldMapping(message.mapping);
+        if (typeof mapping === 'string') {
+          this.send(ws, { type: 'error', error: mapping });
+          return;
+        }
+        await saveFieldMapping(userId, mapping);
+      }
+
+      await this.syncFieldMappings(userId);
+    } catch (error: any) {
+      console.error('[Broker] Failed to update field mappings:', error);
+      this.send(ws, { type: 'error', error: error.message });
+    }
   }
 
   private startSaveTimer(session: Session): void {
@@ -464,17 +1124,27 @@ export class WebSocketBroker {
     const session = this.sessions.get(ws);
     if (session) {
       console.log(`[Broker] Connection closed: ${session.userId}`);
-      if (session.deepgram) {
-        session.deepgram.disconnect();
-      }
-      if (session.transcriptId) {
-        this.stopSaveTimer(session.transcriptId);
-        this.savePendingChunks(session);
-      }
+
+      // A window closed mid-visit finishes the encounter like stop_recording
+      const finished = session.isRecording || session.transcriber
+        ? this.finishRecording(session)
+        : this.savePendingChunks(session);
+      void finished.catch((error) => {
+        console.error('[Broker] Failed to finish recording on close:', error);
+      });
+      this.windows.unregisterWindow(session.windowId);
+      const tabSession = this.tabSessions.getSessionByWindow(session.windowId);
+      if (tabSession) this.tabSessions.pauseSession(tabSession.id);
       this.sessions.delete(ws);
     }
   }
 
+  private closeAudioWriter(session: Session): Promise<void> {
+    const writer = session.audioWriter;
+    session.audioWriter = null;
+    return writer ? writer.close() : Promise.resolve();
+  }
+
   private handleError(ws: WebSocket, error: Error): void {
     console.error('[Broker] WebSocket error:', error);
     const session = this.sessions.get(ws);
@@ -501,6 +1171,123 @@ export class WebSocketBroker {
     }
   }
 
+  /**
+   * Send a transcript edit to every window of the doctor (Feed A)
+   */
+  syncTranscriptEdit(doctorId: string, edit: TranscriptEdit): void {
+    this.windows.syncTranscriptEdit(doctorId, edit);
+  }
+
+  /**
+   * Send a doctor's current vocabulary to all of their windows (Feed A)
+   */
+  async syncVocabulary(doctorId: string): Promise<void> {
+    this.windows.broadcastToGroup(doctorId, createVocabularyBroadcast(doctorId, await loadVocabulary(doctorId)));
+  }
+
+  /**
+   * Send a doctor's learned field mappings to all of their windows (Feed A)
+   */
+  async syncFieldMappings(doctorId: string): Promise<void> {
+    this.windows.broadcastToGroup(doctorId, createFieldMappingsBroadcast(doctorId, await getFieldMappings(doctorId)));
+  }
+
+  /**
+   * Send re-transcription progress to all of the doctor's windows (Feed A)
+   */
+  syncRetranscription(doctorId: string, progress: RetranscriptionProgress): void {
+    this.windows.broadcastToGroup(doctorId, createRetranscriptionBroadcast(progress));
+  }
+
+  /**
+   * Send a rebuilt SOAP note to all of the doctor's windows (Feed D)
+   */
+  syncSoapNote(doctorId: string, transcriptId: number, note: SoapNote): void {
+    this.windows.broadcastToGroup(doctorId, createSoapNoteBroadcast(transcriptId, note));
+  }
+
+  /**
+   * Send a problem list with code suggestions to all of the doctor's windows (Feed D)
+   */
+  syncProblemList(doctorId: string, transcriptId: number, list: ProblemList): void {
+    this.windows.broadcastToGroup(doctorId, createProblemListBroadcast(transcriptId, list));
+  }
+
+  /**
+   * Set a task's state, save the checklist and send it to all of the
+   * doctor's windows (Feed D). Uses the live encounter's tasks while it is
+   * open in a session. Returns null when there is no such task.
+   */
+  async updateTaskState(
+    doctorId: string,
+    transcriptId: number,
+    taskId: string,
+    state: TaskState
+  ): Promise<EncounterTask[] | null> {
+    const live = Array.from(this.sessions.values())
+      .find((s) => s.userId === doctorId && s.transcriptId === transcriptId && s.tasks.length > 0);
+
+    let current: EncounterTask[];
+    if (live) {
+      current = live.tasks;
+    } else {
+      const transcript = await getTranscriptById(transcriptId);
+      if (!transcript || transcript.user_id !== doctorId) return null;
+      current = tasksForTranscript(transcript);
+    }
+
+    const tasks = setTaskState(current, taskId, state);
+    if (!tasks) return null;
+
+    if (live) live.tasks = tasks;
+    await saveTasks(transcriptId, tasks);
+    this.syncTasks(doctorId, transcriptId, tasks);
+    return tasks;
+  }
+
+  /**
+   * Rebuild what was derived from a transcript's chunks (SOAP note, problem
+   * list evidence, tasks) after they changed outside the live session, e.g.
+   * re-transcription, and send it to the doctor's windows
+   */
+  async rebuildTranscriptArtifacts(transcriptId: number): Promise<void> {
+    const transcript = await getTranscriptById(transcriptId);
+    const doctorId: string = transcript.user_id;
+    const roles = transcript.metadata?.speaker_roles || {};
+    const chunks: TranscriptChunk[] = transcript.transcript_chunk || [];
+
+    const note = buildSoapNote(chunks.map((chunk, index) => ({
+      index,
+      speaker: chunk.speaker,
+      role: roles[chunk.speaker]?.role ?? null,
+      text: chunk.text
+    })));
+    await saveSoapNote(transcriptId, note);
+    this.syncSoapNote(doctorId, transcriptId, note);
+
+    // Problems need the summary's assessment (POST /transcripts/:id/summarize)
+    const summary = transcript.ai_summary;
+    if (summary && typeof summary.assessment === 'string') {
+      const problems = buildProblemList(
+        { assessment: summary.assessment, chiefComplaint: summary.chiefComplaint || '' },
+        chunks.map((chunk, index) => ({ index, text: chunk.text }))
+      );
+      await saveProblemList(transcriptId, problems);
+      this.syncProblemList(doctorId, transcriptId, problems);
+    }
+
+    const tasks = tasksForTranscript(transcript);
+    await saveTasks(transcriptId, tasks);
+    this.syncTasks(doctorId, transcriptId, tasks);
+  }
+
+  /**
+   * Send the encounter's task checklist to all of the doctor's windows (Feed D)
+   */
+  syncTasks(doctorId: string, transcriptId: number, tasks: EncounterTask[]): void {
+    this.windows.broadcastToGroup(doctorId, createTaskListBroadcast(transcriptId, tasks));
+  }
+
   /**
    * Get active session count
    */
@@ -508,3 +1295,8 @@ export class WebSocketBroker {
     return this.sessions.size;
   }
 }
+
+function sameSoapContent(a: SoapNote, b: SoapNote): boolean {
+  return JSON.stringify([a.subjective, a.objective, a.assessment, a.plan]) ===
+    JSON.stringify([b.subjective, b.objective, b.assessment, b.plan]);
+}
@@ -48,6 +48,24 @@ else
   warn "Not configured (offline mode)"
 fi
 
+echo ""
+echo "▶ Running backend tests..."
+echo ""
+
+echo -n "Replay fixture... "
+if (cd "$ROOT_DIR/backend" && npm test >/dev/null 2>&1); then
+  pass "Chunks match"
+else
+  fail "Failed (run: cd backend && npm test)"
+fi
+
+echo -n "Vitals parser... "
+if (cd "$ROOT_DIR/apps/cns-agent" && npm test >/dev/null 2>&1); then
+  pass "Observations match"
+else
+  fail "Failed (run: cd apps/cns-agent && npm test)"
+fi
+
 echo ""
 echo "▶ Checking extension..."
 echo ""
@@ -0,0 +1,71 @@
+#!/usr/bin/env node
+/**
+ * Summarizer stub - OpenAI-compatible chat completions endpoint
+ *
+ * Stands in for a model server during development:
+ *
+ *   node scripts/summarizer-stub.mjs
+ *   SUMMARIZER_PROVIDER=openai SUMMARIZER_URL=http://localhost:8080/v1 npm run dev
+ *
+ * Replies with a fixed-shape summary built from the transcript lines.
+ * STUB_INVALID_FIRST=1 makes the first reply invalid JSON (exercises the
+ * backend's validation retry); STUB_STATUS=503 fails every request
+ * (exercises the rule-based fallback).
+ */
+
+import { createServer } from 'http';
+
+const PORT = parseInt(process.env.STUB_PORT || '8080');
+const FORCED_STATUS = parseInt(process.env.STUB_STATUS || '0');
+let invalidFirst = process.env.STUB_INVALID_FIRST === '1';
+
+function summarize(transcript) {
+  const lines = transcript.split('\n').map((l) => l.trim()).filter(Boolean);
+  const patient = lines.find((l) => /^patient:/i.test(l));
+  const medications = transcript.match(/\b[a-z]+\s+\d+\s*mg\b/gi) || [];
+
+  return {
+    chiefComplaint: patient ? patient.replace(/^patient:\s*/i, '') : '',
+    hpi: lines.slice(0, 3).join(' '),
+    ros: {},
+    assessment: '',
+    plan: [],
+    medications,
+    followUp: ''
+  };
+}
+
+const server = createServer((req, res) => {
+  if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) {
+    res.writeHead(404).end();
+    return;
+  }
+
+  let body = '';
+  req.on('data', (chunk) => { body += chunk; });
+  req.on('end', () => {
+    if (FORCED_STATUS) {
+      res.writeHead(FORCED_STATUS).end();
+      return;
+    }
+
+    const request = JSON.parse(body || '{}');
+    const prompt = request.messages?.find((m) => m.role === 'user')?.content || '';
+    const transcript = prompt.replace(/^[^\n]*\n\n/, '');
+
+    const content = invalidFirst ? 'not json' : JSON.stringify(summarize(transcript));
+    invalidFirst = false;
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      id: `stub-${Date.now()}`,
+      object: 'chat.completion',
+      model: request.model || 'stub',
+      choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }]
+    }));
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Summarizer stub listening on http://localhost:${PORT}/v1`);
+});
@@ -0,0 +1,19 @@
+-- ============================================================================
+-- Migration 001: live_transcript_chunk
+-- ============================================================================
+-- Post-encounter re-transcription replaces transcript_chunk with the batch
+-- (higher-accuracy) result. The chunks captured live during the encounter
+-- are kept here so the two versions can be diffed.
+--
+-- Re-transcription jobs reuse existing columns:
+--   queued_at    - job queued
+--   processed_at - job finished (success or failure)
+--   error        - failure message, NULL on success
+-- ============================================================================
+
+ALTER TABLE public.transcripts2
+  ADD COLUMN IF NOT EXISTS live_transcript_chunk JSONB[];
+
+CREATE INDEX IF NOT EXISTS idx_transcripts2_retranscription_pending
+  ON public.transcripts2(queued_at)
+  WHERE queued_at IS NOT NULL AND processed_at IS NULL;
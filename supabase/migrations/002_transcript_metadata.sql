@@ -0,0 +1,31 @@
+-- ============================================================================
+-- Migration 002: metadata
+-- ============================================================================
+-- Free-form per-transcript metadata. Already written by the CNS agent when
+-- binding a patient (DOM map); also records audio continuity gaps:
+--
+--   metadata.gaps[] = {
+--     start, end,            -- transcript timeline seconds
+--     bufferedSeconds,       -- audio replayed after reconnect
+--     droppedSeconds,        -- audio lost during the outage
+--     startedAt, endedAt,    -- wall clock (ms)
+--     recovered              -- false if the stream never came back
+--   }
+--
+-- and the diarization speaker → role mapping:
+--
+--   metadata.speaker_roles = {
+--     "<speaker>": { role, source, confidence, assignedAt }
+--   }
+--
+-- and the encounter's task checklist (orders, prescriptions, follow-up):
+--
+--   metadata.tasks[] = {
+--     id, kind, text, detail, source, chunkIndex,
+--     state,                 -- pending | done | dismissed
+--     updatedAt              -- last state change (ms)
+--   }
+-- ============================================================================
+
+ALTER TABLE public.transcripts2
+  ADD COLUMN IF NOT EXISTS metadata JSONB DEFAULT '{}'::jsonb;
@@ -0,0 +1,21 @@
+-- ============================================================================
+-- Migration 003: chunk_revisions
+-- ============================================================================
+-- Transcript chunks can be edited after capture (PATCH
+-- /transcripts/:id/chunks/:index, review queue corrections). Each edit
+-- appends the chunk's prior version here:
+--
+--   chunk_revisions[] = {
+--     chunk_index,           -- position in transcript_chunk
+--     revision,              -- 1 = first edit of that chunk
+--     previous,              -- chunk object before the edit
+--     edited_by,             -- user id of the editor
+--     edited_at,             -- ISO timestamp
+--     reason                 -- optional note ("review", free text)
+--   }
+--
+-- transcript_chunk always holds the current version.
+-- ============================================================================
+
+ALTER TABLE public.transcripts2
+  ADD COLUMN IF NOT EXISTS chunk_revisions JSONB DEFAULT '[]'::jsonb;
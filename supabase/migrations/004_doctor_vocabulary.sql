@@ -0,0 +1,37 @@
+-- ============================================================================
+-- Migration 004: doctor_vocabulary
+-- ============================================================================
+-- Per-doctor custom vocabulary. Each entry is a term the doctor uses
+-- (medication, procedure, specialty jargon):
+--
+--   term     - correct spelling, sent to Deepgram as a keyword boost
+--   boost    - keyword intensifier (Deepgram accepts roughly -10..10)
+--   aliases  - known mis-transcriptions, replaced with term in final
+--              transcripts before chunk assembly
+--
+-- Specialty defaults (DoctorIdentity.specialty) are built into the backend
+-- and are not stored here; a stored entry with the same term overrides
+-- the default.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.doctor_vocabulary (
+  id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  user_id UUID NOT NULL,
+  term TEXT NOT NULL,
+  boost REAL NOT NULL DEFAULT 2,
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_doctor_vocabulary_user_term
+  ON public.doctor_vocabulary(user_id, lower(term));
+
+ALTER TABLE public.doctor_vocabulary ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS doctor_vocabulary_user_all ON public.doctor_vocabulary;
+
+CREATE POLICY doctor_vocabulary_user_all ON public.doctor_vocabulary
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
@@ -0,0 +1,13 @@
+-- ============================================================================
+-- Migration 005: note templates
+-- ============================================================================
+-- Doctor's default note template (id of a definition in templates/, e.g.
+-- well-child, psych-intake, ortho-follow-up). NULL = the template for the
+-- doctor's specialty, or the generic primary-care template.
+--
+-- The template used for an encounter is recorded in
+-- transcripts2.metadata.note_template (no column needed).
+-- ============================================================================
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS note_template TEXT;
@@ -0,0 +1,40 @@
+-- ============================================================================
+-- Migration 006: field_mappings
+-- ============================================================================
+-- Per-doctor learned EHR field mappings. When the clinician confirms or
+-- corrects what a field on an EHR page is (overlay Mapping tab), the
+-- mapping is kept for the next visits:
+--
+--   site      - EHR site adapter id (epic, cerner, ...) or the page origin
+--   page      - page fingerprint: URL path with record ids replaced by *
+--   selector  - the field's CSS selector on that page
+--   category  - confirmed FieldCategory (chief_complaint, plan, ...)
+--   label     - field label when confirmed, for display
+--
+-- Learned mappings are consulted before the site adapter and the label
+-- heuristics.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.field_mappings (
+  id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  user_id UUID NOT NULL,
+  site TEXT NOT NULL,
+  page TEXT NOT NULL,
+  selector TEXT NOT NULL,
+  category TEXT NOT NULL,
+  label TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_field_mappings_user_field
+  ON public.field_mappings(user_id, site, page, selector);
+
+ALTER TABLE public.field_mappings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS field_mappings_user_all ON public.field_mappings;
+
+CREATE POLICY field_mappings_user_all ON public.field_mappings
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
@@ -0,0 +1,119 @@
+-- ============================================================================
+-- Migration 007: atomic transcript_chunk updates
+-- ============================================================================
+-- transcript_chunk is written by the live session (pending chunks saved
+-- every few seconds) while the clinician may be editing a chunk (PATCH
+-- /transcripts/:id/chunks/:index, review queue corrections). Reading the
+-- array, changing it in the backend and writing it back loses one of the
+-- two, so both writes are done here, under the row lock:
+--
+--   append_transcript_chunks(id, chunks)   -- chunks: JSONB array
+--   edit_transcript_chunk(id, index, expected, chunk, edited_by, reason)
+--     index is 0-based; returns the chunk_revisions entry, or NULL when
+--     the chunk no longer equals expected (edited meanwhile: re-read and
+--     retry)
+--
+-- Both rebuild the flattened transcript text.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.flatten_transcript_chunks(p_chunks JSONB[])
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(
+    string_agg(format('[Speaker %s]: %s', c->>'speaker', c->>'text'), E'\n' ORDER BY n),
+    ''
+  )
+  FROM unnest(p_chunks) WITH ORDINALITY AS t(c, n);
+$$;
+
+CREATE OR REPLACE FUNCTION public.append_transcript_chunks(
+  p_transcript_id BIGINT,
+  p_chunks JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_chunks JSONB[];
+BEGIN
+  SELECT COALESCE(transcript_chunk, '{}')
+    INTO v_chunks
+    FROM public.transcripts2
+   WHERE id = p_transcript_id
+     FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transcript % not found', p_transcript_id;
+  END IF;
+
+  v_chunks := v_chunks || ARRAY(SELECT jsonb_array_elements(p_chunks));
+
+  UPDATE public.transcripts2
+     SET transcript_chunk = v_chunks,
+         transcript = public.flatten_transcript_chunks(v_chunks)
+   WHERE id = p_transcript_id;
+
+  RETURN COALESCE(array_length(v_chunks, 1), 0);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.edit_transcript_chunk(
+  p_transcript_id BIGINT,
+  p_index INTEGER,
+  p_expected JSONB,
+  p_chunk JSONB,
+  p_edited_by TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_chunks JSONB[];
+  v_revisions JSONB;
+  v_revision JSONB;
+BEGIN
+  SELECT COALESCE(transcript_chunk, '{}'), COALESCE(chunk_revisions, '[]'::jsonb)
+    INTO v_chunks, v_revisions
+    FROM public.transcripts2
+   WHERE id = p_transcript_id
+     FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transcript % not found', p_transcript_id;
+  END IF;
+
+  IF p_index < 0 OR p_index >= COALESCE(array_length(v_chunks, 1), 0) THEN
+    RAISE EXCEPTION 'Chunk % not found in transcript %', p_index, p_transcript_id;
+  END IF;
+
+  -- Postgres arrays are 1-based
+  IF v_chunks[p_index + 1] IS DISTINCT FROM p_expected THEN
+    RETURN NULL;
+  END IF;
+
+  v_revision := jsonb_build_object(
+    'chunk_index', p_index,
+    'revision', (
+      SELECT count(*) + 1
+        FROM jsonb_array_elements(v_revisions) AS r
+       WHERE (r->>'chunk_index')::int = p_index
+    ),
+    'previous', v_chunks[p_index + 1],
+    'edited_by', p_edited_by,
+    'edited_at', to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+  ) || CASE WHEN p_reason IS NULL THEN '{}'::jsonb ELSE jsonb_build_object('reason', p_reason) END;
+
+  v_chunks[p_index + 1] := p_chunk;
+
+  UPDATE public.transcripts2
+     SET transcript_chunk = v_chunks,
+         transcript = public.flatten_transcript_chunks(v_chunks),
+         chunk_revisions = v_revisions || jsonb_build_array(v_revision)
+   WHERE id = p_transcript_id;
+
+  RETURN v_revision;
+END;
+$$;
@@ -0,0 +1,61 @@
+-- ============================================================================
+-- Migration 008: re-transcription merge
+-- ============================================================================
+-- Re-transcription puts the batch words into the existing transcript_chunk
+-- entries by time instead of replacing them with new chunks, so chunk
+-- indices stay valid.
+--
+--   save_retranscription(id, expected, chunks, live_chunks)
+--     expected is the transcript_chunk the merge was based on; returns
+--     FALSE (nothing written) when it changed meanwhile: re-read and merge
+--     again
+--
+-- Also sets live_transcript_chunk, rebuilds the flattened transcript text
+-- and marks the job processed.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.save_retranscription(
+  p_transcript_id BIGINT,
+  p_expected JSONB,
+  p_chunks JSONB,
+  p_live_chunks JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_chunks JSONB[];
+BEGIN
+  SELECT COALESCE(transcript_chunk, '{}')
+    INTO v_chunks
+    FROM public.transcripts2
+   WHERE id = p_transcript_id
+     FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transcript % not found', p_transcript_id;
+  END IF;
+
+  IF to_jsonb(v_chunks) IS DISTINCT FROM p_expected THEN
+    RETURN FALSE;
+  END IF;
+
+  v_chunks := ARRAY(SELECT jsonb_array_elements(p_chunks));
+
+  UPDATE public.transcripts2
+     SET transcript_chunk = v_chunks,
+         transcript = (
+           SELECT COALESCE(
+             string_agg(format('[Speaker %s]: %s', c->>'speaker', c->>'text'), E'\n' ORDER BY n),
+             ''
+           )
+           FROM unnest(v_chunks) WITH ORDINALITY AS t(c, n)
+         ),
+         live_transcript_chunk = ARRAY(SELECT jsonb_array_elements(p_live_chunks)),
+         processed_at = now(),
+         error = NULL
+   WHERE id = p_transcript_id;
+
+  RETURN TRUE;
+END;
+$$;
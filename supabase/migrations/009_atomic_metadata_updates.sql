@@ -0,0 +1,52 @@
+-- ============================================================================
+-- Migration 009: atomic metadata updates
+-- ============================================================================
+-- metadata keys (gaps, speaker roles) are written by several paths that
+-- can run at the same time (live session, REST routes). Reading the
+-- object, changing one key in the backend and writing it back drops the
+-- other writers' keys, so the change is made in one UPDATE instead:
+--
+--   merge_transcript_metadata(id, patch)     -- metadata || patch
+--   append_transcript_metadata(id, key, item) -- metadata[key] += [item]
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.merge_transcript_metadata(
+  p_transcript_id BIGINT,
+  p_patch JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE public.transcripts2
+     SET metadata = COALESCE(metadata, '{}'::jsonb) || p_patch
+   WHERE id = p_transcript_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transcript % not found', p_transcript_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.append_transcript_metadata(
+  p_transcript_id BIGINT,
+  p_key TEXT,
+  p_item JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE public.transcripts2
+     SET metadata = jsonb_set(
+           COALESCE(metadata, '{}'::jsonb),
+           ARRAY[p_key],
+           COALESCE(metadata->p_key, '[]'::jsonb) || jsonb_build_array(p_item)
+         )
+   WHERE id = p_transcript_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transcript % not found', p_transcript_id;
+  END IF;
+END;
+$$;
@@ -0,0 +1,58 @@
+-- ============================================================================
+-- Migration 010: atomic ai_summary updates
+-- ============================================================================
+-- ai_summary holds the summary fields next to notes derived from the
+-- transcript, such as the SOAP note, each written by its own path (live
+-- session, REST routes, re-transcription) at any time. Reading ai_summary
+-- and writing the whole object back drops a note saved meanwhile, so each
+-- write is one UPDATE instead:
+--
+--   merge_ai_summary(id, patch)                        -- ai_summary || patch
+--   save_summary(id, summary, short_summary, keep)
+--     ai_summary = (ai_summary keys in keep) || summary
+--     short_summary NULL keeps ai_short_summary
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.merge_ai_summary(
+  p_transcript_id BIGINT,
+  p_patch JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE public.transcripts2
+     SET ai_summary = COALESCE(ai_summary, '{}'::jsonb) || p_patch
+   WHERE id = p_transcript_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transcript % not found', p_transcript_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.save_summary(
+  p_transcript_id BIGINT,
+  p_summary JSONB,
+  p_short_summary JSONB,
+  p_keep TEXT[]
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE public.transcripts2
+     SET ai_summary = (
+           SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb)
+             FROM jsonb_each(COALESCE(ai_summary, '{}'::jsonb))
+            WHERE key = ANY(p_keep)
+         ) || p_summary,
+         ai_short_summary = COALESCE(p_short_summary, ai_short_summary),
+         processed_at = now()
+   WHERE id = p_transcript_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transcript % not found', p_transcript_id;
+  END IF;
+END;
+$$;
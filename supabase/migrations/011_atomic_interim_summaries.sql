@@ -0,0 +1,27 @@
+-- ============================================================================
+-- Migration 011: atomic interim summary append
+-- ============================================================================
+-- Appending an interim summary by reading ai_interim_summaries and writing
+-- the array back keeps only one of two saves close together (the last
+-- interim right after the previous one). The append is one UPDATE instead:
+--
+--   append_interim_summary(id, summary)  -- ai_interim_summaries += summary
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.append_interim_summary(
+  p_transcript_id BIGINT,
+  p_summary JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE public.transcripts2
+     SET ai_interim_summaries = array_append(COALESCE(ai_interim_summaries, '{}'), p_summary)
+   WHERE id = p_transcript_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transcript % not found', p_transcript_id;
+  END IF;
+END;
+$$;